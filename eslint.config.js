@@ -26,6 +26,11 @@ export default [
         clearInterval: 'readonly',
         fetch: 'readonly',
         TextDecoder: 'readonly',
+        URL: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
+        ReadableStream: 'readonly',
+        Response: 'readonly',
         NodeJS: 'readonly',
         BufferEncoding: 'readonly'
       }
@@ -18,17 +18,25 @@ export const slashCommands: SlashCommandDef[] = [
   { command: "/model", alias: "/m", description: "切換或查看當前模型", usage: "/model [模型ID]" },
   { command: "/models", description: "列出所有可用模型" },
   { command: "/history", description: "顯示對話歷史摘要" },
-  { command: "/compress", description: "壓縮對話上下文（保留最近 3 輪）" },
+  { command: "/compress", description: "壓縮對話上下文（總結為結構化摘要，保留最近 3 輪）" },
   { command: "/settings", description: "查看或修改配置", usage: "/settings [set <key> <value>]" },
   { command: "/mode", description: "切換安全模式", usage: "/mode [dry-run|review|auto-apply]" },
-  { command: "/undo", alias: "/u", description: "回滾最近的文件修改", usage: "/undo [數字]" },
+  { command: "/permissions", description: "查看或撤銷「總是允許」的授權和權限規則", usage: "/permissions [revoke <序號>|clear]" },
+  { command: "/undo", alias: "/u", description: "回滾最近一個回合的文件修改", usage: "/undo [force|數字|all]" },
+  { command: "/redo", description: "重新應用最近回滾的回合", usage: "/redo [force]" },
+  { command: "/checkpoints", description: "列出保存的檢查點" },
   { command: "/commit", description: "使用 AI 生成提交信息並自動提交" },
   { command: "/review", description: "AI 代碼審查（檢查bug、性能、安全等）", usage: "/review <文件路径>" },
   { command: "/workspace", description: "查看工作區信息" },
+  { command: "/plan", description: "生成實施計劃，逐步審核後執行", usage: "/plan <任務描述> | list | resume [計劃ID]" },
   { command: "/add", description: "添加文件到上下文", usage: "/add <文件路径>" },
   { command: "/drop", description: "從上下文移除文件", usage: "/drop <文件路径> | all" },
   { command: "/files", description: "列出當前上下文中的所有文件" },
+  { command: "/mcp", description: "查看 MCP 伺服器狀態，重啟、斷開或啟用伺服器", usage: "/mcp [restart|disconnect|enable <名稱>]" },
+  { command: "/mcp-resource", description: "列出 MCP 資源或添加到上下文", usage: "/mcp-resource [序號|uri] [伺服器]" },
   { command: "/stats", description: "查看會話性能統計" },
+  { command: "/errors", description: "查看工具錯誤分析（失敗最多的工具、恢復率）", usage: "/errors [clear]" },
+  { command: "/budget", description: "查看剩餘預算（費用和 token 上限）" },
   { command: "/save", description: "保存當前會話", usage: "/save [會話名稱]" },
   { command: "/load", description: "加載已保存的會話", usage: "/load <會話名稱>" },
   { command: "/sessions", description: "列出所有已保存的會話" },
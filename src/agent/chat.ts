@@ -9,7 +9,7 @@ import { execSync } from "child_process";
 import { LLMClient, ChatMessage } from "../llm/client.js";
 import { WorkspaceContext } from "./types.js";
 import { ToolRegistry } from "../tools/registry.js";
-import { AgentOrchestrator } from "./orchestrator.js";
+import { AgentOrchestrator, OrchestratorResult, ToolCallMode } from "./orchestrator.js";
 import { ToolExecutionContext } from "../tools/types.js";
 import { handleSlashCommand } from "./slash-commands.js";
 import { showSlashCommandPicker } from "./autocomplete.js";
@@ -19,6 +19,7 @@ import { ChatSessionManager, ChatSessionData } from "./chat-session-manager.js";
 import { buildWorkspaceContext } from "./context.js";
 import { PasteDetector } from "../utils/paste-detector.js";
 import { gatherContextWithProgress } from "./auto-context.js";
+import { McpManager } from "../mcp/manager.js";
 import { 
   createUserPanel, 
   createSystemPanel,
@@ -33,6 +34,9 @@ export interface ChatSessionOptions {
   toolRegistry: ToolRegistry;
   workspaceContext: WorkspaceContext;
   executionContext: ToolExecutionContext;
+  toolCallMode?: ToolCallMode;
+  maxParallelTools?: number;
+  mcpManager?: McpManager;
 }
 
 export interface SessionStats {
@@ -57,6 +61,9 @@ export class ChatSession {
   private messages: ChatMessage[];
   private rl: readline.Interface;
   private workspaceContext: WorkspaceContext;
+  private toolRegistry: ToolRegistry;
+  private executionContext: ToolExecutionContext;
+  private mcpManager?: McpManager;
   private historyManager: HistoryManager;
   private sessionManager: ChatSessionManager;
   private pasteDetector!: PasteDetector; // 粘贴检测器
@@ -70,6 +77,8 @@ export class ChatSession {
   private autoSaveTimer: NodeJS.Timeout | null = null; // 自動保存計時器
   private readonly AUTO_SAVE_INTERVAL_MS = 60 * 1000; // 每 60 秒自動保存
   private hasUnsavedChanges: boolean = false; // 是否有未保存的更改
+  private currentAbort: AbortController | null = null; // 當前回合的取消控制器（空閒時為 null）
+  private lastSigintTime: number | null = null; // 空閒時上一次 Ctrl+C 的時間
   private sessionStats: SessionStats = {
     messagesCount: 0,
     toolCallsCount: 0,
@@ -84,12 +93,18 @@ export class ChatSession {
   constructor(options: ChatSessionOptions) {
     this.llmClient = options.llmClient;
     this.workspaceContext = options.workspaceContext;
+    this.toolRegistry = options.toolRegistry;
+    this.executionContext = options.executionContext;
+    this.mcpManager = options.mcpManager;
     this.orchestrator = new AgentOrchestrator({
       llmClient: options.llmClient,
       toolRegistry: options.toolRegistry,
       executionContext: options.executionContext,
       maxIterations: 50,
       verbose: false, // chat 模式下默認不顯示詳細執行信息
+      toolCallMode: options.toolCallMode,
+      maxParallelTools: options.maxParallelTools,
+      getPinnedFiles: () => this.getActiveFiles(),
     });
 
     // 初始化對話歷史（帶 system prompt）
@@ -141,26 +156,9 @@ export class ChatSession {
     // 啟動自動保存計時器
     this.startAutoSave();
 
-    // Ctrl+C 处理：第一次提示，第二次（3秒内）退出
-    let lastSigintTime: number | null = null;
-    process.on('SIGINT', async () => {
-      const now = Date.now();
-
-      if (lastSigintTime && (now - lastSigintTime) < 3000) {
-        // 3秒内第二次 Ctrl+C，退出前自動保存
-        await this.autoSaveOnExit();
-        this.pasteDetector.destroy();
-        this.stopAutoSave();
-        console.log(chalk.gray("\n\n再見！"));
-        this.rl.close();
-        throw new GracefulExitError();
-      } else {
-        // 第一次 Ctrl+C，提示
-        console.log(chalk.yellow("\n\n[提示] 再按一次 Ctrl+C (3秒内) 退出，或輸入 'exit' 退出"));
-        lastSigintTime = now;
-        this.rl.prompt();
-      }
-    });
+    // Ctrl+C：回合進行中由終端發送 SIGINT，等待輸入時由 readline（raw 模式）觸發
+    process.on('SIGINT', () => this.handleInterrupt());
+    this.rl.on('SIGINT', () => this.handleInterrupt());
 
     this.rl.prompt();
 
@@ -179,6 +177,75 @@ export class ChatSession {
     });
   }
 
+  /**
+   * Ctrl+C 处理
+   * - 回合進行中：第一次取消當前回合（停止流式輸出、終止子進程），第二次退出
+   * - 等待輸入時：第一次提示，第二次（3秒内）退出
+   */
+  private async handleInterrupt(): Promise<void> {
+    if (this.currentAbort && !this.currentAbort.signal.aborted) {
+      this.currentAbort.abort();
+      console.log(chalk.yellow("\n\n[提示] 已中斷當前回合，再按一次 Ctrl+C 退出"));
+      return;
+    }
+
+    const now = Date.now();
+    if (this.currentAbort || (this.lastSigintTime && (now - this.lastSigintTime) < 3000)) {
+      // 取消後再次 Ctrl+C，或 3秒内第二次 Ctrl+C，退出前自動保存
+      await this.autoSaveOnExit();
+      this.pasteDetector.destroy();
+      this.stopAutoSave();
+      console.log(chalk.gray("\n\n再見！"));
+      this.rl.close();
+      throw new GracefulExitError();
+    }
+
+    // 第一次 Ctrl+C，提示
+    console.log(chalk.yellow("\n\n[提示] 再按一次 Ctrl+C (3秒内) 退出，或輸入 'exit' 退出"));
+    this.lastSigintTime = now;
+    this.rl.prompt();
+  }
+
+  /**
+   * 執行一個可被 Ctrl+C 取消的 Agent 回合
+   * 處理期間 readline 暫停，關閉 raw 模式讓終端把 Ctrl+C 作為 SIGINT 發送
+   */
+  private async runTurn(): Promise<OrchestratorResult> {
+    const controller = new AbortController();
+    this.currentAbort = controller;
+    const wasRaw = process.stdin.isTTY && process.stdin.isRaw;
+    if (wasRaw) {
+      process.stdin.setRawMode(false);
+    }
+
+    try {
+      return await this.orchestrator.run(this.messages, true, false, controller.signal);
+    } finally {
+      this.currentAbort = null;
+      if (wasRaw) {
+        process.stdin.setRawMode(true);
+      }
+    }
+  }
+
+  /**
+   * 回合被取消：保留已生成的部分回應（帶中斷標記），讓下一輪對話知道上下文
+   */
+  private keepCancelledTurn(result: OrchestratorResult): void {
+    // result.messages 包含完整歷史，只追加本回合用戶消息之後新增的部分
+    const all = result.messages ?? [];
+    const userIndex = all.lastIndexOf(this.messages[this.messages.length - 1]);
+    const added = userIndex >= 0 ? all.slice(userIndex + 1) : all.slice(-1);
+    if (added.length > 0) {
+      this.extractFileOperationsFromResult(added);
+      this.messages.push(...added);
+      this.sessionStats.messagesCount += added.length;
+    }
+    this.sessionStats.toolCallsCount += result.toolCallsExecuted;
+    this.markUnsaved();
+    console.log(chalk.yellow("\n[已取消] 當前回合已停止，部分回應已保留在對話歷史中"));
+  }
+
   /**
    * 啟動自動保存計時器
    */
@@ -346,6 +413,10 @@ export class ChatSession {
               listSessions: this.listSessions.bind(this),
               deleteSession: this.deleteSession.bind(this),
             },
+            toolRegistry: this.toolRegistry,
+            executionContext: this.executionContext,
+            mcpManager: this.mcpManager,
+            compactHistory: () => this.orchestrator.compact(this.messages),
           });
 
           if (result.handled) {
@@ -394,6 +465,10 @@ export class ChatSession {
           listSessions: this.listSessions.bind(this),
           deleteSession: this.deleteSession.bind(this),
         },
+        toolRegistry: this.toolRegistry,
+        executionContext: this.executionContext,
+        mcpManager: this.mcpManager,
+        compactHistory: () => this.orchestrator.compact(this.messages),
       });
 
       if (slashResult.handled) {
@@ -473,7 +548,7 @@ export class ChatSession {
     const startTime = Date.now();
 
     // 使用 orchestrator 處理（支持工具調用，流式輸出）
-    const result = await this.orchestrator.run(this.messages, true, false);
+    const result = await this.runTurn();
 
     // 更新统计信息
     const responseTime = Date.now() - startTime;
@@ -486,7 +561,9 @@ export class ChatSession {
     const outputTokens = result.success ? Math.ceil(result.finalResponse.length * 0.25) : 0;
     this.sessionStats.totalTokensUsed += inputTokens + outputTokens;
 
-    if (result.success) {
+    if (result.cancelled) {
+      this.keepCancelledTurn(result);
+    } else if (result.success) {
       // 使用完整的对话历史（包含任务规划、工具调用结果等）
       if (result.messages && result.messages.length > 0) {
         // 提取文件操作記錄
@@ -571,7 +648,7 @@ export class ChatSession {
     const startTime = Date.now();
 
     // 使用 orchestrator 處理（支持工具調用，流式輸出）
-    const result = await this.orchestrator.run(this.messages, true, false);
+    const result = await this.runTurn();
 
     // 更新统计信息
     const responseTime = Date.now() - startTime;
@@ -584,7 +661,9 @@ export class ChatSession {
     const outputTokens = result.success ? Math.ceil(result.finalResponse.length * 0.25) : 0;
     this.sessionStats.totalTokensUsed += inputTokens + outputTokens;
 
-    if (result.success) {
+    if (result.cancelled) {
+      this.keepCancelledTurn(result);
+    } else if (result.success) {
       // 將 assistant 回應加入歷史
       this.messages.push({
         role: "assistant",
@@ -687,9 +766,10 @@ export class ChatSession {
 你可以通过工具直接操作用户的本地环境，包括：
 - **read_file**: 读取本地文件内容（支持 start_line/end_line 分段读取）
 - **write_file**: 创建或修改文件
+- **edit_file**: 按 old_string → new_string 精确替换修改文件（小范围修改优先使用）
 - **list_directory**: 列出目录结构
 - **run_command**: 在终端执行命令
-- **apply_diff**: 对文件应用差异修改
+- **apply_diff**: 对一个或多个文件应用 unified diff（支持新建、删除、重命名；hunk 无法应用时会返回最接近的区域）
 - **grep_search**: 在文件中搜索内容
 - **file_search**: 按文件名搜索
 
@@ -756,7 +836,7 @@ export class ChatSession {
     console.log(chalk.cyan("  • 輸入 ") + chalk.green("exit") + chalk.cyan(" 退出"));
     console.log(chalk.gray("  • 💾 對話會自動保存（每 60 秒）"));
 
-    const currentModel = this.llmClient["model"];
+    const currentModel = this.llmClient.getModelName();
     const safetyMode = process.env.BAILU_MODE || "review";
 
     console.log(chalk.gray("\n⚙️  當前配置："));
@@ -860,6 +940,21 @@ export class ChatSession {
           });
         }
       }
+
+      // 原生 tool_calls：直接從 arguments 讀取路徑
+      if (msg.role === "assistant" && msg.tool_calls) {
+        for (const tc of msg.tool_calls) {
+          if (tc.function.name !== "read_file" && tc.function.name !== "write_file") continue;
+          try {
+            const args = JSON.parse(tc.function.arguments || "{}");
+            if (typeof args.path === "string" && args.path) {
+              this.trackFileAccess(args.path);
+            }
+          } catch {
+            // 忽略無法解析的 arguments
+          }
+        }
+      }
     });
   }
 
@@ -27,26 +27,36 @@ ${chalk.yellow("狀態與信息：")}
   ${chalk.green("/status, /s")}       - 查看 CLI 狀態、當前模型、token 使用
   ${chalk.green("/tokens, /t")}       - 查看 token 使用詳情
   ${chalk.green("/history")}          - 顯示對話歷史摘要
+  ${chalk.green("/errors [clear]")}   - 查看工具錯誤分析（失敗最多的工具、恢復率）
+  ${chalk.green("/budget")}           - 查看剩餘預算（費用和 token 上限）
 
 ${chalk.yellow("配置管理：")}
   ${chalk.green("/settings")}         - 查看當前配置
   ${chalk.green("/settings set key <value>")} - 修改配置
   ${chalk.green("/mode [模式]")}      - 切換安全模式（dry-run/review/auto-apply）
+  ${chalk.green("/permissions")}      - 查看或撤銷「總是允許」的授權（revoke <序號> / clear）
 
 ${chalk.yellow("文件管理：")}
   ${chalk.green("/add <文件路径>")}   - 添加文件到上下文
   ${chalk.green("/drop <文件路径>")}  - 從上下文移除文件
   ${chalk.green("/drop all")}         - 清空所有文件
   ${chalk.green("/files")}            - 列出當前上下文中的所有文件
+  ${chalk.green("/mcp-resource [序號|uri]")} - 列出 MCP 資源或添加到上下文
   ${chalk.green("/view <文件路径>")}  - 用分頁器查看文件（不刷屏）
   ${chalk.green("/v <文件> [起始行] [結束行]")} - /view 的簡寫，支持行範圍
 
 ${chalk.yellow("進階功能：")}
-  ${chalk.green("/compress")}         - 壓縮對話上下文（保留摘要）
+  ${chalk.green("/compress")}         - 壓縮對話上下文（結構化摘要 + 緩存大的工具輸出）
   ${chalk.green("/workspace")}        - 查看工作區信息
   ${chalk.green("/review <文件>")}   - AI 代碼審查（檢查bug、性能、安全等）
-  ${chalk.green("/undo, /u")}        - 回滾最近的文件修改
+  ${chalk.green("/undo, /u")}        - 回滾最近一個回合修改的所有文件
+  ${chalk.green("/redo")}             - 重新應用最近回滾的回合
+  ${chalk.green("/checkpoints")}      - 列出保存的檢查點
   ${chalk.green("/commit")}           - 使用 AI 生成提交信息並自動提交
+  ${chalk.green("/plan <任務>")}       - 生成實施計劃，逐步批准/拒絕/編輯後執行
+  ${chalk.green("/plan list")}        - 列出保存的計劃
+  ${chalk.green("/plan resume [ID]")} - 恢復未完成的計劃
+  ${chalk.green("/mcp")}              - 查看 MCP 伺服器狀態（restart/disconnect/enable <名稱>）
 
 ${chalk.gray("提示：斜線命令不會發送給 AI，只在本地處理")}
 `;
@@ -106,9 +116,9 @@ export function handleHistory(context: SlashCommandContext): SlashCommandResult
 }
 
 /**
- * /compress - 壓縮對話上下文
+ * /compress - 壓縮對話上下文：大的工具輸出移入緩存，較早的對話總結為結構化摘要
  */
-export function handleCompress(context: SlashCommandContext): SlashCommandResult {
+export async function handleCompress(context: SlashCommandContext): Promise<SlashCommandResult> {
   if (context.messages.length <= 2) {
     return {
       handled: true,
@@ -116,28 +126,34 @@ export function handleCompress(context: SlashCommandContext): SlashCommandResult
     };
   }
 
-  // 保留 system message 和最近 3 輪對話
-  const systemMsg = context.messages[0];
-  const recentMessages = context.messages.slice(-6); // 最近 3 輪（user + assistant）
-
-  const beforeCount = context.messages.length;
-  context.messages.length = 0;
-  context.messages.push(systemMsg);
-
-  // 添加摘要消息
-  context.messages.push({
-    role: "system",
-    content: `[之前的對話已壓縮，共 ${beforeCount - recentMessages.length - 1} 條消息]`,
-  });
-
-  context.messages.push(...recentMessages);
-
-  const afterCount = context.messages.length;
+  if (!context.compactHistory) {
+    return {
+      handled: true,
+      response: chalk.red("上下文壓縮功能不可用"),
+    };
+  }
 
-  return {
-    handled: true,
-    response: chalk.green(
-      `✓ 對話已壓縮：${beforeCount} 條 → ${afterCount} 條\n保留了最近 3 輪對話`
-    ),
-  };
+  try {
+    const result = await context.compactHistory();
+    if (result.summarizedMessages === 0 && result.offloadedOutputs === 0) {
+      return { handled: true, response: chalk.yellow("沒有可壓縮的內容（只有最近 3 輪對話）") };
+    }
+
+    let response = chalk.green(
+      `✓ 對話已壓縮：${result.messagesBefore} 條 → ${result.messagesAfter} 條，` +
+      `${result.tokensBefore} → ${result.tokensAfter} tokens\n`
+    );
+    if (result.summarizedMessages > 0) {
+      response += chalk.gray(`  ${result.summarizedMessages} 條消息已總結為結構化摘要（保留了最近 3 輪對話）\n`);
+    }
+    if (result.offloadedOutputs > 0) {
+      response += chalk.gray(`  ${result.offloadedOutputs} 個大的工具輸出已移入緩存，模型可用 recall_output 取回\n`);
+    }
+    return { handled: true, response };
+  } catch (error) {
+    return {
+      handled: true,
+      response: chalk.red(`壓縮失敗：${error instanceof Error ? error.message : String(error)}`),
+    };
+  }
 }
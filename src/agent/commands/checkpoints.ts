@@ -0,0 +1,87 @@
+/**
+ * 檢查點命令處理器：/undo（整個回合）、/redo、/checkpoints
+ */
+
+import chalk from "chalk";
+import { SlashCommandResult } from "../slash-commands.js";
+import { Checkpoint, CheckpointOperation, globalCheckpointStore } from "../../runtime/checkpoints.js";
+
+function describeCheckpoint(checkpoint: Checkpoint): string {
+  const label = checkpoint.label || "(無描述)";
+  return `${chalk.bold(label)} ${chalk.gray(`(${new Date(checkpoint.createdAt).toLocaleString()}，${checkpoint.files.length} 個文件)`)}`;
+}
+
+function formatOperation(op: CheckpointOperation, action: "回滾" | "重做", command: string): string {
+  const checkpoint = op.checkpoint!;
+  if (op.restored.length === 0 && op.conflicts.length > 0) {
+    let response = chalk.yellow(`以下文件在該回合之後又被修改過，${action}會覆蓋這些修改：\n`);
+    op.conflicts.forEach((file) => (response += chalk.gray(`  ! ${file}\n`)));
+    response += chalk.gray(`\n確認覆蓋請使用 ${chalk.bold(`${command} force`)}`);
+    return response;
+  }
+
+  let response = chalk.green(`✓ 已${action}回合：`) + describeCheckpoint(checkpoint) + "\n";
+  checkpoint.files.forEach((file) => {
+    const note = action === "回滾" && !file.existed ? chalk.gray(" [已刪除本回合創建的文件]") : "";
+    response += chalk.gray(`  ↺ ${file.path}`) + note + "\n";
+  });
+  return response;
+}
+
+/**
+ * /undo [force] - 回滾最近一個回合修改的所有文件
+ * 沒有檢查點時返回 null，由調用方回退到 Git / .backup 方式
+ */
+export async function handleCheckpointUndo(args: string[]): Promise<SlashCommandResult | null> {
+  const op = await globalCheckpointStore.undo(args[0]?.toLowerCase() === "force");
+  if (!op.checkpoint) {
+    return null;
+  }
+  return {
+    handled: true,
+    response: formatOperation(op, "回滾", "/undo") + chalk.gray(`\n使用 ${chalk.cyan("/redo")} 重新應用`),
+  };
+}
+
+/**
+ * /redo [force] - 重新應用最近一次 /undo 回滾的回合
+ */
+export async function handleRedo(args: string[]): Promise<SlashCommandResult> {
+  try {
+    const op = await globalCheckpointStore.redo(args[0]?.toLowerCase() === "force");
+    if (!op.checkpoint) {
+      return { handled: true, response: chalk.yellow("沒有可以重做的回合") };
+    }
+    return { handled: true, response: formatOperation(op, "重做", "/redo") };
+  } catch (error) {
+    return {
+      handled: true,
+      response: chalk.red(`錯誤: ${error instanceof Error ? error.message : String(error)}`),
+    };
+  }
+}
+
+/**
+ * /checkpoints - 列出保存的檢查點
+ */
+export async function handleCheckpoints(): Promise<SlashCommandResult> {
+  const checkpoints = await globalCheckpointStore.list();
+  if (checkpoints.length === 0) {
+    return { handled: true, response: chalk.gray("還沒有檢查點（Agent 修改文件時自動創建）") };
+  }
+
+  let response = chalk.cyan("\n[檢查點]（最新的在前，保存在 .bailu/checkpoints/）\n\n");
+  checkpoints.forEach((checkpoint, index) => {
+    const status = checkpoint.status === "undone" ? chalk.yellow("[已回滾]") : chalk.green("[已應用]");
+    response += `  ${chalk.green(index + 1)}. ${status} ${describeCheckpoint(checkpoint)}\n`;
+    checkpoint.files.slice(0, 5).forEach((file) => {
+      const mark = !file.existed ? "+" : file.afterHash === null ? "-" : "~";
+      response += chalk.gray(`       ${mark} ${file.path}\n`);
+    });
+    if (checkpoint.files.length > 5) {
+      response += chalk.gray(`       ... 還有 ${checkpoint.files.length - 5} 個文件\n`);
+    }
+  });
+  response += chalk.gray(`\n${chalk.bold("/undo")} 回滾最近的回合，${chalk.bold("/redo")} 重新應用`);
+  return { handled: true, response };
+}
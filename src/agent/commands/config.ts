@@ -5,6 +5,9 @@
 import chalk from "chalk";
 import { SlashCommandContext, SlashCommandResult } from "../slash-commands.js";
 import { getConfig, saveConfig } from "../../config.js";
+import { getDefaultPolicy } from "../../runtime/policy.js";
+import { formatPermissionRule } from "../../runtime/permissions.js";
+import { globalApprovalStore, formatApproval } from "../../runtime/approvals.js";
 
 /**
  * /settings - 配置管理
@@ -81,3 +84,62 @@ export async function handleMode(args: string[]): Promise<SlashCommandResult> {
     response: chalk.green(`✓ 已切換到 ${chalk.bold(newMode)} 模式`),
   };
 }
+
+/**
+ * /permissions - 查看和撤銷「總是允許」的授權
+ * 用法:
+ *   /permissions - 列出配置中的權限規則和已記錄的授權
+ *   /permissions revoke <序號> - 撤銷一條授權
+ *   /permissions clear - 清除所有授權
+ */
+export async function handlePermissions(args: string[]): Promise<SlashCommandResult> {
+  const subcommand = args[0]?.toLowerCase();
+
+  if (subcommand === "clear") {
+    await globalApprovalStore.clear();
+    return { handled: true, response: chalk.green("✓ 已清除所有授權") };
+  }
+
+  if (subcommand === "revoke") {
+    const index = Number(args[1]);
+    if (!Number.isInteger(index)) {
+      return { handled: true, response: chalk.yellow("用法: /permissions revoke <序號>") };
+    }
+    const removed = await globalApprovalStore.revoke(index);
+    if (!removed) {
+      return { handled: true, response: chalk.red(`找不到序號為 ${args[1]} 的授權`) };
+    }
+    return { handled: true, response: chalk.green(`✓ 已撤銷: ${formatApproval(removed)}`) };
+  }
+
+  if (subcommand) {
+    return { handled: true, response: chalk.yellow("用法: /permissions | /permissions revoke <序號> | /permissions clear") };
+  }
+
+  let response = chalk.cyan("\n🔐 權限\n\n");
+
+  const rules = getDefaultPolicy().permissionRules || [];
+  response += chalk.bold("配置中的規則（第一條匹配的生效）：\n");
+  if (rules.length === 0) {
+    response += chalk.gray("  (無，可在 .bailu.config.json 的 permissions 中配置)\n");
+  }
+  for (const rule of rules) {
+    const color = rule.action === "deny" ? chalk.red : rule.action === "allow" ? chalk.green : chalk.yellow;
+    response += `  ${color(formatPermissionRule(rule))}\n`;
+  }
+
+  const approvals = await globalApprovalStore.list();
+  response += chalk.bold("\n已記錄的授權：\n");
+  if (approvals.length === 0) {
+    response += chalk.gray("  (無，確認操作時選擇 s / a / w 即可記錄)\n");
+  }
+  approvals.forEach((entry, i) => {
+    const scope = entry.scope === "session" ? chalk.gray("[會話]") : chalk.blue("[項目]");
+    response += `  ${i + 1}. ${scope} ${formatApproval(entry)}\n`;
+  });
+
+  response += chalk.gray(`\n項目授權保存在 ${globalApprovalStore.getFilePath()}\n`);
+  response += chalk.gray("使用 /permissions revoke <序號> 撤銷，/permissions clear 清除全部");
+
+  return { handled: true, response };
+}
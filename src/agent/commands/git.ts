@@ -9,18 +9,28 @@ import { SlashCommandContext, SlashCommandResult } from "../slash-commands.js";
 import { autoCommitWithAI } from "../../git/auto-commit.js";
 import { hasUncommittedChanges, getChangedFiles, getModifiedFiles, gitRestoreFile, gitRestoreAll, getFileDiff } from "../../git/integration.js";
 import { findGitRoot, isInGitRepo } from "../../utils/git.js";
+import { handleCheckpointUndo } from "./checkpoints.js";
 
 /**
- * /undo - 回滚文件修改（優先使用 Git）
+ * /undo - 回滚文件修改（優先使用檢查點，其次 Git）
+ * 有檢查點時：回滾最近一個 Agent 回合修改的所有文件
  * 在 Git 倉庫中：使用 git checkout HEAD -- <file> 回滾
  * 非 Git 環境：回退到查找 .backup 文件
  * 用法:
- *   /undo - 顯示可回滾的文件列表
+ *   /undo - 回滾最近的回合（沒有檢查點時顯示可回滾的文件列表）
+ *   /undo force - 回合之後文件又被修改過時仍然回滾
  *   /undo <數字> - 回滚指定的文件
  *   /undo all - 回滚所有變更
  */
 export async function handleUndo(args: string[]): Promise<SlashCommandResult> {
   try {
+    if (args.length === 0 || args[0].toLowerCase() === 'force') {
+      const result = await handleCheckpointUndo(args);
+      if (result) {
+        return result;
+      }
+    }
+
     const cwd = process.cwd();
     const gitRoot = findGitRoot(cwd);
 
@@ -245,7 +255,7 @@ export async function handleCommit(context: SlashCommandContext): Promise<SlashC
     console.log();
 
     // 使用 AI 生成提交信息并提交
-    const result = await autoCommitWithAI(gitRoot, context.llmClient, {
+    const result = await autoCommitWithAI(gitRoot, context.llmClient.forRoute("commit"), {
       style: "conventional",
       maxLength: 100,
     });
@@ -8,13 +8,16 @@ import { SlashCommandContext, SlashCommandResult } from "../slash-commands.js";
 // 導入各個命令處理器模組
 import { handleHelp, handleClear, handleClearChat, handleHistory, handleCompress } from "./basic.js";
 import { handleModel, handleListModels } from "./model.js";
-import { handleStatus, handleTokens, handleStats } from "./status.js";
-import { handleSettings, handleMode } from "./config.js";
+import { handleStatus, handleTokens, handleStats, handleErrors, handleBudget } from "./status.js";
+import { handleSettings, handleMode, handlePermissions } from "./config.js";
 import { handleAddFiles, handleDropFiles, handleListFiles, handleViewFile } from "./file.js";
 import { handleUndo, handleCommit } from "./git.js";
+import { handleRedo, handleCheckpoints } from "./checkpoints.js";
 import { handleSaveSession, handleLoadSession, handleListSessions } from "./session.js";
 import { handleWorkspace, handleReview } from "./workspace.js";
 import { handleCustomCommand, listCustomCommands } from "./custom.js";
+import { handlePlan } from "./plan.js";
+import { handleMcp, handleMcpResource, handleMcpPromptCommand, listMcpPrompts } from "./mcp.js";
 
 /**
  * 統一的命令處理器入口
@@ -37,8 +40,12 @@ export async function handleSlashCommand(
   switch (command) {
     // 基本命令
     case "/help":
-    case "/h":
-      return handleHelp();
+    case "/h": {
+      // 附加自定義命令和 MCP 提示模板
+      const result = handleHelp();
+      result.response += listCustomCommands() + listMcpPrompts(context);
+      return result;
+    }
 
     case "/clear":
     case "/c":
@@ -78,6 +85,12 @@ export async function handleSlashCommand(
     case "/stats":
       return handleStats(context);
 
+    case "/errors":
+      return handleErrors(args);
+
+    case "/budget":
+      return handleBudget();
+
     // 配置管理
     case "/settings":
       return await handleSettings(args);
@@ -85,6 +98,9 @@ export async function handleSlashCommand(
     case "/mode":
       return await handleMode(args);
 
+    case "/permissions":
+      return await handlePermissions(args);
+
     // 文件管理
     case "/add":
       return await handleAddFiles(args, context);
@@ -95,6 +111,12 @@ export async function handleSlashCommand(
     case "/files":
       return handleListFiles(context);
 
+    case "/mcp":
+      return await handleMcp(args, context);
+
+    case "/mcp-resource":
+      return await handleMcpResource(args, context);
+
     case "/view":
     case "/v":
       return await handleViewFile(args, context);
@@ -104,6 +126,12 @@ export async function handleSlashCommand(
     case "/u":
       return await handleUndo(args);
 
+    case "/redo":
+      return await handleRedo(args);
+
+    case "/checkpoints":
+      return await handleCheckpoints();
+
     case "/commit":
       return await handleCommit(context);
 
@@ -124,9 +152,19 @@ export async function handleSlashCommand(
     case "/review":
       return await handleReview(args, context);
 
-    default:
+    // 計劃模式
+    case "/plan":
+      return await handlePlan(args, context);
+
+    default: {
+      // 嘗試 MCP 提示模板（/mcp__<伺服器>__<提示名>）
+      if (command.startsWith("/mcp__")) {
+        const result = await handleMcpPromptCommand(command, args, context);
+        if (result.handled) return result;
+      }
       // 嘗試自定義命令（.bailu/commands/*.md）
       return await handleCustomCommand(command, args, context);
+    }
   }
 }
 
@@ -0,0 +1,226 @@
+/**
+ * MCP 命令處理器：伺服器管理、資源與提示模板
+ */
+
+import chalk from "chalk";
+import { SlashCommandContext, SlashCommandResult } from "../slash-commands.js";
+import { bindPromptArguments, formatPromptMessages, formatResourceContents } from "../../mcp/content.js";
+import { McpServerState } from "../../mcp/manager.js";
+import { ToolRegistry } from "../../tools/registry.js";
+
+const STATUS_LABELS: Record<McpServerState["status"], string> = {
+  connected: chalk.green("● 已連接"),
+  disconnected: chalk.gray("○ 已斷開"),
+  failed: chalk.red("✗ 失敗"),
+  skipped: chalk.yellow("- 已跳過"),
+};
+
+function formatServer(state: McpServerState, registry?: ToolRegistry): string {
+  const pid = state.client?.getPid();
+  let output = chalk.bold(`  ${state.name}`) + chalk.gray(` (${state.transport})  `) + STATUS_LABELS[state.status];
+  if (pid) {
+    output += chalk.gray(`  PID ${pid}`);
+  }
+  output += "\n";
+
+  if (state.status === "connected") {
+    // 同名衝突中按優先級未啟用的工具
+    const toolNames = state.tools.map((t) =>
+      registry && registry.get(t.definition.name) !== t ? `${t.definition.name}（被遮蔽）` : t.definition.name
+    );
+    output += chalk.gray(`    工具 (${toolNames.length}): ${toolNames.join(", ") || "無"}\n`);
+    if (state.resources.length > 0 || state.prompts.length > 0) {
+      output += chalk.gray(`    資源: ${state.resources.length}  提示模板: ${state.prompts.length}\n`);
+    }
+  }
+  if (state.lastError) {
+    output += chalk.red(`    最近錯誤: ${state.lastError}\n`);
+  }
+  return output;
+}
+
+/**
+ * /mcp - 查看 MCP 伺服器狀態，重啟、斷開或啟用伺服器
+ * 用法: /mcp [list|restart <名稱>|disconnect <名稱>|enable <名稱>]
+ */
+export async function handleMcp(args: string[], context: SlashCommandContext): Promise<SlashCommandResult> {
+  const manager = context.mcpManager;
+  const servers = manager?.getServers() || [];
+  if (!manager || servers.length === 0) {
+    return {
+      handled: true,
+      response: chalk.yellow("沒有配置 MCP 伺服器（在 .bailu.yml 中配置 mcpServers）"),
+    };
+  }
+
+  const subcommand = (args[0] || "list").toLowerCase();
+  const name = args[1];
+
+  if (subcommand === "list") {
+    let response = chalk.bold(`\n🔌 MCP 伺服器 (${manager.getConnectedCount()}/${servers.length} 已連接)：\n`);
+    response += servers.map((s) => formatServer(s, context.toolRegistry)).join("");
+    response += chalk.gray("\n用法: /mcp restart|disconnect|enable <名稱>");
+    return { handled: true, response };
+  }
+
+  if (!["restart", "disconnect", "enable"].includes(subcommand)) {
+    return {
+      handled: true,
+      response: chalk.yellow(`未知的子命令: ${subcommand}\n`) +
+        chalk.gray("用法: /mcp [list|restart <名稱>|disconnect <名稱>|enable <名稱>]"),
+    };
+  }
+  if (!name) {
+    return { handled: true, response: chalk.yellow(`請指定伺服器名稱: /mcp ${subcommand} <名稱>`) };
+  }
+
+  try {
+    if (subcommand === "disconnect") {
+      const wasConnected = manager.disconnectServer(name);
+      return {
+        handled: true,
+        response: wasConnected
+          ? chalk.green(`✓ 已斷開 MCP 伺服器 ${name}，其工具已移除`)
+          : chalk.gray(`MCP 伺服器 ${name} 未連接`),
+      };
+    }
+
+    const state = servers.find((s) => s.name === name);
+    if (subcommand === "enable" && state?.status === "connected") {
+      return { handled: true, response: chalk.gray(`MCP 伺服器 ${name} 已連接`) };
+    }
+    const description = await manager.restartServer(name);
+    return { handled: true, response: chalk.green(`✓ ${description}`) };
+  } catch (error) {
+    return {
+      handled: true,
+      response: chalk.red(`MCP 伺服器操作失敗: ${error instanceof Error ? error.message : String(error)}`),
+    };
+  }
+}
+
+/**
+ * /mcp-resource - 列出 MCP 資源，或把資源內容添加到上下文
+ * 用法: /mcp-resource [序號|uri] [伺服器]
+ */
+export async function handleMcpResource(args: string[], context: SlashCommandContext): Promise<SlashCommandResult> {
+  const manager = context.mcpManager;
+  if (!manager || manager.getConnectedCount() === 0) {
+    return {
+      handled: true,
+      response: chalk.yellow("沒有已連接的 MCP 伺服器（在 .bailu.yml 中配置 mcpServers）"),
+    };
+  }
+
+  const resources = manager.getResources();
+
+  if (args.length === 0) {
+    if (resources.length === 0) {
+      return { handled: true, response: chalk.gray("MCP 伺服器沒有提供資源") };
+    }
+    let response = chalk.bold(`\n📚 MCP 資源 (${resources.length})：\n`);
+    resources.forEach(({ server, resource }, i) => {
+      response += chalk.cyan(`  ${i + 1}. ${resource.uri}`) + chalk.gray(` [${server}] ${resource.name}`);
+      if (resource.description) {
+        response += chalk.gray(` — ${resource.description}`);
+      }
+      response += "\n";
+    });
+    response += chalk.gray("\n用法: /mcp-resource <序號|uri> [伺服器]");
+    return { handled: true, response };
+  }
+
+  let uri = args[0];
+  let server: string | undefined = args[1];
+  if (/^\d+$/.test(uri)) {
+    const entry = resources[parseInt(uri, 10) - 1];
+    if (!entry) {
+      return { handled: true, response: chalk.red(`無效的序號: ${uri}`) };
+    }
+    uri = entry.resource.uri;
+    server = entry.server;
+  }
+
+  try {
+    const contents = await manager.readResource(uri, server);
+    if (contents.length === 0) {
+      return { handled: true, response: chalk.yellow(`資源 ${uri} 沒有內容`) };
+    }
+
+    return {
+      handled: true,
+      response: chalk.green(`✓ 已添加 MCP 資源到上下文: ${uri}`),
+      addToHistory: {
+        userMessage: formatResourceContents(contents),
+        assistantMessage: `已載入 MCP 資源 ${uri}，後續回答會參考其內容。`,
+      },
+    };
+  } catch (error) {
+    return {
+      handled: true,
+      response: chalk.red(`讀取 MCP 資源失敗: ${error instanceof Error ? error.message : String(error)}`),
+    };
+  }
+}
+
+/**
+ * 處理 MCP 提示模板命令（/mcp__<伺服器>__<提示名>）
+ * 將展開後的提示注入到 AI 對話中，與 .bailu/commands 自定義命令相同
+ */
+export async function handleMcpPromptCommand(
+  commandName: string,
+  args: string[],
+  context: SlashCommandContext
+): Promise<SlashCommandResult> {
+  const entry = context.mcpManager?.findPrompt(commandName);
+  if (!entry) {
+    return { handled: false };
+  }
+
+  const { values, missing } = bindPromptArguments(entry.prompt, args);
+  if (missing.length > 0) {
+    const usage = (entry.prompt.arguments || [])
+      .map((a) => (a.required ? `<${a.name}>` : `[${a.name}]`))
+      .join(" ");
+    return {
+      handled: true,
+      response: chalk.yellow(`缺少必需參數: ${missing.join(", ")}\n`) +
+        chalk.gray(`用法: ${entry.command} ${usage}`),
+    };
+  }
+
+  try {
+    const messages = await context.mcpManager!.getPrompt(entry.server, entry.prompt.name, values);
+    const prompt = formatPromptMessages(messages);
+
+    return {
+      handled: true,
+      response: chalk.cyan(`▶ 執行 MCP 提示 ${entry.command}${entry.prompt.description ? `: ${entry.prompt.description}` : ""}`),
+      addToHistory: {
+        userMessage: prompt,
+        assistantMessage: "", // AI 會在後續對話中回應
+      },
+    };
+  } catch (error) {
+    return {
+      handled: true,
+      response: chalk.red(`獲取 MCP 提示失敗: ${error instanceof Error ? error.message : String(error)}`),
+    };
+  }
+}
+
+/**
+ * 列出 MCP 提示模板（用於 /help 顯示）
+ */
+export function listMcpPrompts(context: SlashCommandContext): string {
+  const prompts = context.mcpManager?.getPrompts() || [];
+  if (prompts.length === 0) return "";
+
+  let output = chalk.bold("\n🔌 MCP 提示模板：\n");
+  for (const { command, prompt } of prompts) {
+    const argsHint = (prompt.arguments || []).map((a) => (a.required ? `<${a.name}>` : `[${a.name}]`)).join(" ");
+    output += chalk.cyan(`  ${command}${argsHint ? ` ${argsHint}` : ""}`) +
+      chalk.gray(` — ${prompt.description || "MCP 提示模板"}\n`);
+  }
+  return output;
+}
@@ -0,0 +1,75 @@
+/**
+ * 計劃模式命令處理器
+ */
+
+import chalk from "chalk";
+import { SlashCommandContext, SlashCommandResult } from "../slash-commands.js";
+import { PlanMode, PlanStore, Plan, formatPlanList } from "../plan-mode.js";
+import { buildWorkspaceSummary } from "../../llm/prompts.js";
+
+/**
+ * /plan - 生成可審核、可編輯的實施計劃並逐步執行
+ * 用法:
+ *   /plan <任務描述> - 生成計劃，審核後執行
+ *   /plan list - 列出保存的計劃
+ *   /plan resume [計劃ID] - 恢復未完成的計劃（默認最近一個）
+ */
+export async function handlePlan(args: string[], context: SlashCommandContext): Promise<SlashCommandResult> {
+  const planStore = new PlanStore();
+  const subcommand = args[0]?.toLowerCase();
+
+  if (args.length === 0) {
+    return {
+      handled: true,
+      response: chalk.yellow("用法: /plan <任務描述> | /plan list | /plan resume [計劃ID]"),
+    };
+  }
+
+  if (subcommand === "list") {
+    return { handled: true, response: formatPlanList(await planStore.list()) };
+  }
+
+  if (!context.toolRegistry || !context.executionContext) {
+    return { handled: true, response: chalk.red("當前會話不支持計劃模式") };
+  }
+
+  const planMode = new PlanMode({
+    llmClient: context.llmClient,
+    toolRegistry: context.toolRegistry,
+    executionContext: context.executionContext,
+    planStore,
+  });
+  const workspaceSummary = buildWorkspaceSummary(context.workspaceContext);
+
+  try {
+    let plan: Plan | null;
+    if (subcommand === "resume") {
+      plan = args[1] ? await planStore.load(args[1]) : await planStore.findLatestUnfinished();
+      if (!plan) {
+        return { handled: true, response: chalk.red(`找不到可恢復的計劃${args[1] ? `: ${args[1]}` : ""}`) };
+      }
+      console.log(chalk.green(`\n[恢復計劃] ID: ${plan.id}`));
+    } else {
+      plan = await planMode.generatePlan(args.join(" "), workspaceSummary);
+    }
+
+    const outcome = await planMode.runPlan(plan, workspaceSummary);
+    const summary = outcome.plan.steps
+      .map(step => `${step.id}. [${step.status}] ${step.description}${step.result ? ` — ${step.result.substring(0, 200)}` : ""}`)
+      .join("\n");
+
+    return {
+      handled: true,
+      // 將計劃執行結果加入對話歷史，方便後續追問
+      addToHistory: {
+        userMessage: `/plan ${args.join(" ")}`,
+        assistantMessage: `計劃「${outcome.plan.title}」（${outcome.plan.id}）狀態: ${outcome.plan.status}\n${summary}`,
+      },
+    };
+  } catch (error) {
+    return {
+      handled: true,
+      response: chalk.red(`計劃執行失敗: ${error instanceof Error ? error.message : String(error)}`),
+    };
+  }
+}
@@ -5,13 +5,18 @@
 import chalk from "chalk";
 import { SlashCommandContext, SlashCommandResult } from "../slash-commands.js";
 import { formatDuration } from "./utils.js";
+import { globalErrorRecoveryManager } from "../../tools/recovery.js";
+import { globalCostTracker } from "../../utils/cost-tracker.js";
+import { BUDGET_WARN_RATIO, formatBudgetStatus } from "../../utils/budget.js";
+import { countMessageTokens } from "../../llm/tokenizer/index.js";
 
 /**
  * /status - 顯示 CLI 狀態
  */
 export function handleStatus(context: SlashCommandContext): SlashCommandResult {
-  const currentModel = context.llmClient["model"];
-  const baseUrl = context.llmClient["baseUrl"];
+  const currentModel = context.llmClient.getModelName();
+  const provider = context.llmClient.getProviderName();
+  const baseUrl = context.llmClient.getBaseUrl() || "（無）";
   const uptime = Date.now() - context.sessionStats.startTime.getTime();
   const uptimeStr = formatDuration(uptime);
 
@@ -20,6 +25,7 @@ ${chalk.bold.cyan("CLI 狀態：")}
 
 ${chalk.yellow("模型信息：")}
   當前模型: ${chalk.green(currentModel)}
+  提供方: ${provider}
   API 端點: ${baseUrl}
 
 ${chalk.yellow("會話統計：")}
@@ -36,27 +42,24 @@ ${chalk.yellow("工作區：")}
 }
 
 /**
- * /tokens - 顯示 token 使用情況
+ * /tokens - 顯示 token 使用情況（按當前模型的分詞器計算）
  */
 export function handleTokens(context: SlashCommandContext): SlashCommandResult {
-  let totalTokens = 0;
-
-  // 粗略估算：中文 ~1.5 tokens/字，英文 ~0.25 tokens/word
-  for (const msg of context.messages) {
-    const content = msg.content || "";
-    const chineseChars = (content.match(/[\u4e00-\u9fa5]/g) || []).length;
-    const englishWords = (content.match(/[a-zA-Z]+/g) || []).length;
-    totalTokens += Math.ceil(chineseChars * 1.5 + englishWords * 0.25);
-  }
+  const tokenizer = context.llmClient.getTokenizer();
+  const { contextWindow } = context.llmClient.getModelInfo();
+  const totalTokens = countMessageTokens(tokenizer, context.messages);
+  const percent = ((totalTokens / contextWindow) * 100).toFixed(1);
+  const usedColor = totalTokens > contextWindow * 0.8 ? chalk.red : chalk.green;
 
   const tokens = `
 ${chalk.bold.cyan("Token 使用情況：")}
 
 ${chalk.yellow("當前會話：")}
   對話消息數: ${context.messages.length}
-  估算 tokens: ~${totalTokens}
+  上下文 tokens: ${usedColor(`${tokenizer.approximate ? "~" : ""}${totalTokens.toLocaleString()}`)} / ${contextWindow.toLocaleString()} (${percent}%)
+  分詞器: ${tokenizer.name}${tokenizer.approximate ? chalk.gray("（未找到詞表，使用估算）") : ""}
   
-${chalk.gray("注意：這只是粗略估算，實際 token 數由白鹿 API 計算")}
+${chalk.gray("超過上下文窗口的 80% 時會自動壓縮對話歷史")}
 ${chalk.gray("使用 /compress 可以壓縮對話歷史，減少 token 使用")}
 `;
 
@@ -106,6 +109,13 @@ export function handleStats(context: SlashCommandContext): SlashCommandResult {
   response += chalk.gray(`  • 总 Token 使用: ${stats.totalTokensUsed.toLocaleString()}\n`);
   response += chalk.gray(`  • 估算成本: $${estimatedCost}\n`);
   response += chalk.gray(`  • 平均每次请求: ${stats.apiCallsCount > 0 ? Math.round(stats.totalTokensUsed / stats.apiCallsCount).toLocaleString() : 0} tokens\n`);
+
+  // API 返回的實際用量，按模型路由歸屬
+  const routeStats = globalCostTracker.formatRouteStats();
+  if (routeStats) {
+    response += chalk.bold("\n🧭 模型路由：\n");
+    response += chalk.gray(`${routeStats}\n`);
+  }
   
   response += chalk.bold("\n📝 内容统计：\n");
   response += chalk.gray(`  • 活跃文件: ${context.fileManager?.getActiveFiles().length || 0}\n`);
@@ -117,3 +127,84 @@ export function handleStats(context: SlashCommandContext): SlashCommandResult {
     response,
   };
 }
+
+/**
+ * /budget - 顯示預算上限和剩餘額度（按 API 返回的實際用量計算）
+ */
+export function handleBudget(): SlashCommandResult {
+  const stats = globalCostTracker.getStats();
+
+  if (!globalCostTracker.hasBudget()) {
+    let response = chalk.bold.cyan("\n💰 預算\n\n");
+    response += chalk.gray(`  未設置預算上限。已使用: ¥${stats.totalCost.toFixed(4)}，${stats.totalTokens.toLocaleString()} tokens\n`);
+    response += chalk.gray("  可在 .bailu.config.json 中設置 maxCost / maxTokens，或使用環境變量 BAILU_MAX_COST / BAILU_MAX_TOKENS\n");
+    return { handled: true, response };
+  }
+
+  const budget = globalCostTracker.getBudgetStatus();
+  const color = budget.exhausted ? chalk.red : budget.ratio >= BUDGET_WARN_RATIO ? chalk.yellow : chalk.green;
+  let response = chalk.bold.cyan("\n💰 預算\n\n");
+  for (const line of formatBudgetStatus(budget)) {
+    response += color(`  • ${line}\n`);
+  }
+  response += chalk.gray(`  已使用 ${Math.round(budget.ratio * 100)}%\n`);
+  if (budget.exhausted) {
+    response += chalk.red("\n  預算已用完，新的請求不會再發送。請提高 maxCost / maxTokens 後重新啟動。\n");
+  }
+  return { handled: true, response };
+}
+
+/**
+ * /errors - 顯示本次會話的工具錯誤分析
+ * 用法:
+ *   /errors - 顯示錯誤類型、失敗最多的工具和建議
+ *   /errors clear - 清除錯誤記錄
+ */
+export function handleErrors(args: string[]): SlashCommandResult {
+  if (args[0] === "clear") {
+    globalErrorRecoveryManager.clearErrorHistory();
+    return { handled: true, response: chalk.green("✓ 錯誤記錄已清除") };
+  }
+
+  const history = globalErrorRecoveryManager.getErrorHistory();
+  if (history.length === 0) {
+    return { handled: true, response: chalk.green("本次會話沒有工具錯誤") };
+  }
+
+  const analysis = globalErrorRecoveryManager.analyzeErrorPatterns();
+  const recovered = history.filter(e => e.recovered).length;
+
+  let response = chalk.cyan("\n🩺 工具錯誤分析\n\n");
+
+  response += chalk.bold("總覽：\n");
+  response += chalk.gray(`  • 錯誤總數: ${history.length}\n`);
+  response += chalk.gray(`  • 自動恢復: ${recovered}（${(analysis.recoveryRate * 100).toFixed(1)}%）\n`);
+
+  response += chalk.bold("\n錯誤類型：\n");
+  for (const { type, count } of analysis.mostCommonErrors) {
+    response += chalk.gray(`  • ${type}: ${count}\n`);
+  }
+
+  if (analysis.failingTools.length > 0) {
+    response += chalk.bold("\n失敗最多的工具：\n");
+    for (const { tool, count } of analysis.failingTools.slice(0, 5)) {
+      response += chalk.gray(`  • ${tool}: ${count} 次\n`);
+    }
+  }
+
+  response += chalk.bold("\n最近錯誤：\n");
+  for (const error of history.slice(-5)) {
+    const status = error.recovered ? chalk.green("已恢復") : chalk.red("未恢復");
+    const firstLine = error.message.split("\n")[0].substring(0, 100);
+    response += chalk.gray(`  [${error.timestamp.toLocaleTimeString()}] ${error.toolCall?.tool || error.type}: ${firstLine} `) + status + "\n";
+  }
+
+  if (analysis.recommendations.length > 0) {
+    response += chalk.bold("\n💡 建議：\n");
+    for (const recommendation of analysis.recommendations) {
+      response += chalk.yellow(`  • ${recommendation}\n`);
+    }
+  }
+
+  return { handled: true, response };
+}
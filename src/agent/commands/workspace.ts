@@ -214,7 +214,7 @@ export async function handleReview(args: string[], context: SlashCommandContext)
     console.log(chalk.gray("请稍候...\n"));
 
     // 执行代码审查
-    const result = await reviewCodeFile(filePath, context.llmClient, {
+    const result = await reviewCodeFile(filePath, context.llmClient.forRoute("review"), {
       checkBugs: true,
       checkPerformance: true,
       checkSecurity: true,
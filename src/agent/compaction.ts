@@ -0,0 +1,376 @@
+/**
+ * 上下文壓縮
+ * 1. 大的工具輸出移入 ContextMemory 緩存，對話中只保留引用（可用 recall_output 取回）
+ * 2. 較早的對話由 LLM 總結為結構化摘要（已修改的文件、決定、待辦事項、失敗的測試）
+ * system prompt、固定文件（/add）和最近幾條消息始終保留
+ */
+
+import type { ChatMessage, LLMClient } from "../llm/client.js";
+import { countMessageTokens, Tokenizer } from "../llm/tokenizer/index.js";
+import { parseNativeToolCalls, parseToolCalls } from "../tools/parser.js";
+import type { ToolCall, ToolDefinition, ToolResult } from "../tools/types.js";
+import { isAbortError } from "../utils/abort.js";
+import { BudgetExceededError } from "../utils/budget.js";
+import type { CachedToolOutput, CompactionDigest, ContextMemory } from "./memory.js";
+
+export const RECALL_OUTPUT_TOOL = "recall_output";
+
+/** 超過此 token 數的工具輸出在壓縮時移入緩存 */
+export const LARGE_TOOL_OUTPUT_TOKENS = 500;
+
+const MAX_DIGEST_ITEMS = 30; // 摘要中每一類最多保留的條目（保留最新的）
+const MAX_TRANSCRIPT_CHARS = 800; // 交給 LLM 總結時每條消息的最大長度
+const REFERENCE_PREFIX = "[工具輸出已移入緩存";
+const XML_RESULT_TAIL = "\n\n請根據以上工具執行結果";
+
+const FILE_MODIFYING_TOOLS = ["write_file", "apply_diff", "edit_file"];
+const COMMAND_TOOLS = ["run_command", "exec"];
+
+/**
+ * recall_output 由 Orchestrator 直接處理（緩存屬於各自的 ContextMemory），不經過工具註冊中心
+ */
+export const RECALL_OUTPUT_DEFINITION: ToolDefinition = {
+  name: RECALL_OUTPUT_TOOL,
+  description: "取回上下文壓縮時移入緩存的工具輸出。對話中出現「工具輸出已移入緩存 ref=...」時，傳入該 ref 獲取完整內容",
+  safe: true,
+  parameters: [
+    {
+      name: "ref",
+      type: "string",
+      description: "緩存引用 ID，如 out-3",
+      required: true,
+    },
+  ],
+};
+
+export interface ToolFacts {
+  filesRead: string[];
+  filesModified: string[];
+  commands: string[];
+}
+
+export interface CompactionOptions {
+  llmClient: LLMClient;
+  memory: ContextMemory;
+  keepRecent?: number; // 保留最近的消息數（默認 4）
+  pinnedFiles?: string[]; // /add 固定的文件，寫入摘要
+  targetTokens?: number; // 移出工具輸出後低於此值則不再總結
+  signal?: AbortSignal;
+}
+
+export interface CompactionResult {
+  messagesBefore: number;
+  messagesAfter: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  offloadedOutputs: number;
+  summarizedMessages: number;
+}
+
+function unique(items: string[]): string[] {
+  return Array.from(new Set(items.filter((item) => item && item.trim())));
+}
+
+/**
+ * 合併兩個列表（去重，超出上限時保留最新的）
+ */
+function mergeList(previous: string[], next: string[]): string[] {
+  return unique([...previous, ...next]).slice(-MAX_DIGEST_ITEMS);
+}
+
+function toolCallsOf(message: ChatMessage): ToolCall[] {
+  if (message.role !== "assistant") return [];
+  if (message.tool_calls && message.tool_calls.length > 0) {
+    return parseNativeToolCalls(message.tool_calls);
+  }
+  return message.content ? parseToolCalls(message.content).toolCalls : [];
+}
+
+/**
+ * 工具調用的簡短說明（文件路徑、命令或搜索詞）
+ */
+export function describeToolCall(call: ToolCall): string {
+  const p = call.params || {};
+  if (COMMAND_TOOLS.includes(call.tool) && typeof p.command === "string") {
+    const args = Array.isArray(p.args) ? p.args.map(String) : [];
+    return [p.command, ...args].join(" ");
+  }
+  const label = p.path ?? p.pattern ?? p.query ?? p.url ?? p.ref;
+  return typeof label === "string" ? label : "";
+}
+
+/**
+ * 從對話中提取工具調用事實：讀過和修改過的文件、執行過的命令
+ */
+export function extractToolFacts(messages: ChatMessage[]): ToolFacts {
+  const facts: ToolFacts = { filesRead: [], filesModified: [], commands: [] };
+  for (const message of messages) {
+    for (const call of toolCallsOf(message)) {
+      const label = describeToolCall(call);
+      if (!label) continue;
+      if (call.tool === "read_file") {
+        facts.filesRead.push(label);
+      } else if (FILE_MODIFYING_TOOLS.includes(call.tool)) {
+        facts.filesModified.push(label);
+      } else if (COMMAND_TOOLS.includes(call.tool)) {
+        facts.commands.push(label);
+      }
+    }
+  }
+  return {
+    filesRead: unique(facts.filesRead),
+    filesModified: unique(facts.filesModified),
+    commands: unique(facts.commands),
+  };
+}
+
+function formatReference(ref: string, tool: string, label: string, tokens: number, content: string): string {
+  const preview = content.split("\n").slice(0, 3).join("\n").slice(0, 300);
+  const source = label ? `${tool} ${label}` : tool;
+  return `${REFERENCE_PREFIX} ref=${ref}｜${source}｜${tokens} tokens｜需要時調用 ${RECALL_OUTPUT_TOOL} 取回]\n${preview}`;
+}
+
+/**
+ * 把大的工具輸出移入 ContextMemory 緩存，原位替換為引用
+ * 處理原生調用的 tool 消息和 XML 回退模式下的「[工具: 名稱]」結果段落
+ * @returns 移入緩存的輸出數量
+ */
+export function offloadLargeToolOutputs(
+  messages: ChatMessage[],
+  memory: ContextMemory,
+  tokenizer: Tokenizer,
+  maxTokens: number = LARGE_TOOL_OUTPUT_TOKENS
+): number {
+  let offloaded = 0;
+  const callsById: Map<string, ToolCall> = new Map();
+  let xmlCalls: ToolCall[] = [];
+
+  const offload = (tool: string, label: string, content: string): string | null => {
+    if (content.startsWith(REFERENCE_PREFIX)) return null;
+    const tokens = tokenizer.count(content);
+    if (tokens <= maxTokens) return null;
+    offloaded++;
+    return formatReference(memory.cacheToolOutput(tool, label, content), tool, label, tokens, content);
+  };
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+
+    if (message.role === "assistant") {
+      const calls = toolCallsOf(message);
+      calls.forEach((call) => call.id && callsById.set(call.id, call));
+      xmlCalls = message.tool_calls?.length ? [] : calls;
+      continue;
+    }
+
+    if (message.role === "tool") {
+      const call = message.tool_call_id ? callsById.get(message.tool_call_id) : undefined;
+      const replaced = offload(call?.tool ?? "tool", call ? describeToolCall(call) : "", message.content);
+      if (replaced !== null) {
+        messages[i] = { ...message, content: replaced };
+      }
+      continue;
+    }
+
+    // XML 回退模式：所有結果合併在一條 user 消息中，按「[工具: 名稱]」分段，順序與調用一致
+    if (message.role === "user" && message.content.includes("\n[工具: ")) {
+      const tailIndex = message.content.lastIndexOf(XML_RESULT_TAIL);
+      const body = tailIndex === -1 ? message.content : message.content.slice(0, tailIndex);
+      const tail = tailIndex === -1 ? "" : message.content.slice(tailIndex);
+      let changed = false;
+      let callIndex = 0;
+
+      const sections = body.split(/\n(?=\[工具: [^\]\n]+\]\n)/).map((section) => {
+        const match = section.match(/^\[工具: ([^\]\n]+)\]\n([\s\S]*)$/);
+        if (!match) return section;
+        const call = xmlCalls[callIndex++];
+        const label = call && call.tool === match[1] ? describeToolCall(call) : "";
+        const replaced = offload(match[1], label, match[2]);
+        if (replaced === null) return section;
+        changed = true;
+        return `[工具: ${match[1]}]\n${replaced}`;
+      });
+
+      if (changed) {
+        messages[i] = { ...message, content: sections.join("\n") + tail };
+      }
+    }
+  }
+
+  return offloaded;
+}
+
+/**
+ * recall_output 的處理函數
+ */
+export function recallToolOutput(memory: ContextMemory, params: Record<string, unknown>): ToolResult {
+  const ref = typeof params.ref === "string" ? params.ref.trim() : "";
+  if (!ref) {
+    return { success: false, error: "ref 不能為空" };
+  }
+  const cached = memory.getCachedToolOutput(ref);
+  if (!cached) {
+    return { success: false, error: `找不到緩存的工具輸出 ${ref}（可能已過期），請重新執行原來的工具` };
+  }
+  return { success: true, output: cached.content, metadata: { tool: cached.tool, label: cached.label } };
+}
+
+/**
+ * 解析 LLM 返回的摘要 JSON；無法解析時把整段文本當作 summary
+ */
+export function parseCompactionResponse(text: string): Pick<CompactionDigest, "summary" | "decisions" | "todos" | "failingTests"> {
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "") : [];
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = JSON.parse(text.slice(start, end + 1));
+      if (parsed && typeof parsed === "object") {
+        return {
+          summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+          decisions: strings(parsed.decisions),
+          todos: strings(parsed.todos),
+          failingTests: strings(parsed.failingTests),
+        };
+      }
+    } catch {
+      // 不是合法 JSON，當作純文本摘要
+    }
+  }
+  return { summary: text.trim(), decisions: [], todos: [], failingTests: [] };
+}
+
+/**
+ * 格式化摘要消息
+ */
+export function formatCompactionDigest(
+  digest: CompactionDigest,
+  compressedCount: number,
+  pinnedFiles: string[] = [],
+  cachedOutputs: CachedToolOutput[] = []
+): string {
+  const lines: string[] = [`[對話歷史摘要（${compressedCount} 條消息已壓縮）]`];
+  if (digest.summary) {
+    lines.push(digest.summary);
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push("", `${title}：`);
+    items.forEach((item) => lines.push(`- ${item}`));
+  };
+  section("已修改的文件", digest.filesModified);
+  section("已讀取的文件", digest.filesRead);
+  section("執行過的命令", digest.commands);
+  section("重要決定", digest.decisions);
+  section("待辦事項", digest.todos);
+  section("失敗的測試", digest.failingTests);
+  section("固定文件（/add）", pinnedFiles);
+  section(
+    `可用 ${RECALL_OUTPUT_TOOL} 取回的工具輸出`,
+    cachedOutputs.map((c) => `${c.ref}：${c.label ? `${c.tool} ${c.label}` : c.tool}`)
+  );
+
+  return lines.join("\n");
+}
+
+function buildCompactionPrompt(oldMessages: ChatMessage[], previous: CompactionDigest | null): ChatMessage[] {
+  const transcript = oldMessages.map((m) => {
+    const calls = toolCallsOf(m).map((c) => `→ ${c.tool}(${describeToolCall(c)})`);
+    const content = (m.content || "").slice(0, MAX_TRANSCRIPT_CHARS);
+    return [`[${m.role}]: ${content}`, ...calls].join("\n");
+  });
+  if (previous) {
+    transcript.unshift(`[之前的摘要]: ${previous.summary}`);
+  }
+
+  return [
+    {
+      role: "system",
+      content:
+        "你是一個對話壓縮助手。閱讀以下對話，只輸出一個 JSON 對象，不要其他內容：\n" +
+        '{"summary": "3-5 句話概括用戶目標和目前進展", "decisions": ["重要決定"], ' +
+        '"todos": ["尚未完成的事項"], "failingTests": ["仍然失敗的測試及原因"]}\n' +
+        "讀取和修改過的文件由系統另外記錄，無需列出。沒有的項目輸出空數組。",
+    },
+    { role: "user", content: transcript.join("\n") },
+  ];
+}
+
+/**
+ * 壓縮對話（原位修改 messages）
+ * messages[0] 必須是 system prompt；最近 keepRecent 條消息保留原樣（不以 tool 消息開頭）
+ */
+export async function compactMessages(messages: ChatMessage[], options: CompactionOptions): Promise<CompactionResult> {
+  const tokenizer = options.llmClient.getTokenizer();
+  const messagesBefore = messages.length;
+  const tokensBefore = countMessageTokens(tokenizer, messages);
+  const result = (offloadedOutputs: number, summarizedMessages: number): CompactionResult => ({
+    messagesBefore,
+    messagesAfter: messages.length,
+    tokensBefore,
+    tokensAfter: countMessageTokens(tokenizer, messages),
+    offloadedOutputs,
+    summarizedMessages,
+  });
+
+  // tool 消息必須緊跟發起調用的 assistant 消息，不能作為保留區的開頭
+  let keepCount = Math.min(options.keepRecent ?? 4, messages.length - 1);
+  while (keepCount < messages.length - 1 && messages[messages.length - keepCount].role === "tool") {
+    keepCount++;
+  }
+  const recentStart = messages.length - keepCount;
+
+  // 第一步：移出較早消息中的大工具輸出（最近的保留原文）
+  const older = messages.slice(1, recentStart);
+  const offloadedOutputs = offloadLargeToolOutputs(older, options.memory, tokenizer);
+  messages.splice(1, older.length, ...older);
+
+  if (older.length === 0 || (options.targetTokens !== undefined && countMessageTokens(tokenizer, messages) <= options.targetTokens)) {
+    return result(offloadedOutputs, 0);
+  }
+
+  // 第二步：總結較早的對話，與之前的摘要合併
+  const previous = options.memory.getCompactionDigest();
+  const facts = extractToolFacts(older);
+  let response: ReturnType<typeof parseCompactionResponse>;
+  try {
+    const text = await options.llmClient.forRoute("compress").chat(buildCompactionPrompt(older, previous), false, undefined, options.signal);
+    response = parseCompactionResponse(text);
+    if (response.summary.length < 10) {
+      throw new Error("摘要太短");
+    }
+  } catch (error) {
+    if (isAbortError(error) || error instanceof BudgetExceededError) throw error;
+    // LLM 摘要失敗時只保留工具事實
+    response = { summary: `之前進行了 ${older.length} 條消息的對話，包含文件操作和代碼修改。`, decisions: [], todos: [], failingTests: [] };
+  }
+
+  const digest: CompactionDigest = {
+    summary: response.summary,
+    filesModified: mergeList(previous?.filesModified ?? [], [...options.memory.getModifiedFiles(), ...facts.filesModified]),
+    filesRead: mergeList(previous?.filesRead ?? [], facts.filesRead),
+    commands: mergeList(previous?.commands ?? [], facts.commands),
+    decisions: mergeList(previous?.decisions ?? [], response.decisions),
+    // 待辦和失敗的測試反映當前狀態，以最新的總結為準
+    todos: response.todos.slice(-MAX_DIGEST_ITEMS),
+    failingTests: response.failingTests.slice(-MAX_DIGEST_ITEMS),
+  };
+  options.memory.setCompactionDigest(digest);
+
+  const refs = unique(older.flatMap((m) => Array.from(m.content.matchAll(/ref=(out-\d+)/g), (match) => match[1])));
+  const cachedOutputs = refs
+    .map((ref) => options.memory.getCachedToolOutput(ref))
+    .filter((c): c is CachedToolOutput => c !== undefined);
+
+  const systemMsg = messages[0];
+  const recent = messages.slice(recentStart);
+  messages.splice(0, messages.length, systemMsg, {
+    role: "system",
+    content: formatCompactionDigest(digest, older.length, options.pinnedFiles, cachedOutputs),
+  }, ...recent);
+
+  return result(offloadedOutputs, older.length);
+}
@@ -74,6 +74,30 @@ export interface WorkingMemory {
   recentToolCalls: ToolCallRecord[];
 }
 
+/**
+ * 壓縮時移入緩存的工具輸出（對話中只保留引用，可用 recall_output 取回）
+ */
+export interface CachedToolOutput {
+  ref: string;
+  tool: string;
+  label: string; // 如文件路徑或命令，用於在引用中說明來源
+  content: string;
+  timestamp: Date;
+}
+
+/**
+ * 結構化的壓縮摘要：多次壓縮之間累積，避免長會話遺忘已修改的文件
+ */
+export interface CompactionDigest {
+  summary: string;
+  filesModified: string[];
+  filesRead: string[];
+  commands: string[];
+  decisions: string[];
+  todos: string[];
+  failingTests: string[];
+}
+
 /**
  * 上下文记忆管理器
  * 
@@ -86,6 +110,10 @@ export class ContextMemory {
   private maxReadFilesCache: number = 20;  // 從 5 增加到 20
   private enhancedMemory: EnhancedMemoryManager | null = null;
   private projectPath: string = '';
+  private toolOutputs: Map<string, CachedToolOutput> = new Map();
+  private maxToolOutputs: number = 50;
+  private nextToolOutputId: number = 1;
+  private compactionDigest: CompactionDigest | null = null;
 
   constructor() {
     this.sessionSummary = {
@@ -222,6 +250,41 @@ export class ContextMemory {
     this.workingMemory.lastUserRequest = request;
   }
 
+  /**
+   * 緩存工具輸出，返回引用 ID
+   */
+  cacheToolOutput(tool: string, label: string, content: string): string {
+    if (this.toolOutputs.size >= this.maxToolOutputs) {
+      const oldestKey = Array.from(this.toolOutputs.keys())[0];
+      this.toolOutputs.delete(oldestKey);
+    }
+
+    const ref = `out-${this.nextToolOutputId++}`;
+    this.toolOutputs.set(ref, { ref, tool, label, content, timestamp: new Date() });
+    return ref;
+  }
+
+  /**
+   * 按引用 ID 取回緩存的工具輸出
+   */
+  getCachedToolOutput(ref: string): CachedToolOutput | undefined {
+    return this.toolOutputs.get(ref);
+  }
+
+  /**
+   * 記錄最近一次壓縮的摘要
+   */
+  setCompactionDigest(digest: CompactionDigest): void {
+    this.compactionDigest = digest;
+  }
+
+  /**
+   * 获取最近一次壓縮的摘要
+   */
+  getCompactionDigest(): CompactionDigest | null {
+    return this.compactionDigest;
+  }
+
   /**
    * 获取项目结构
    */
@@ -370,6 +433,8 @@ export class ContextMemory {
       lastUpdated: new Date(),
     };
     this.clearWorkingMemory();
+    this.toolOutputs.clear();
+    this.compactionDigest = null;
 
     // 清除增強版記憶的當前會話
     if (this.enhancedMemory) {
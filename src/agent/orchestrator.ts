@@ -5,13 +5,14 @@
 import os from "os";
 import path from "path";
 import chalk from "chalk";
-import { LLMClient, ChatMessage } from "../llm/client.js";
+import { LLMClient, ChatMessage, ChatToolCall } from "../llm/client.js";
 import { globalCostTracker } from "../utils/cost-tracker.js";
 import { ToolRegistry } from "../tools/registry.js";
 import { ToolExecutor } from "../tools/executor.js";
-import { parseToolCalls } from "../tools/parser.js";
+import { parseToolCalls, parseNativeToolCalls } from "../tools/parser.js";
 import { ToolExecutionContext, ToolDefinition, ToolCall } from "../tools/types.js";
 import { ContextMemory } from "./memory.js";
+import { compactMessages, CompactionResult, recallToolOutput, RECALL_OUTPUT_DEFINITION, RECALL_OUTPUT_TOOL } from "./compaction.js";
 import { DependencyAnalyzer } from "../analysis/dependencies.js";
 import { createSpinner, Spinner } from "../utils/spinner.js";
 import { renderMarkdown } from "../utils/markdown-renderer.js";
@@ -19,6 +20,12 @@ import { StreamingPanel } from "../utils/streaming-panel.js";
 import { createLogger } from "../utils/logger.js";
 import { runCommandSafe } from "../runtime/runner.js";
 import { getDefaultPolicy } from "../runtime/policy.js";
+import { getTargetPaths } from "../runtime/permissions.js";
+import { getSecretEnvValues, redactSecrets } from "../runtime/secrets.js";
+import { isAbortError } from "../utils/abort.js";
+import { BudgetExceededError, formatBudgetStatus } from "../utils/budget.js";
+import { countMessageTokens } from "../llm/tokenizer/index.js";
+import { globalCheckpointStore } from "../runtime/checkpoints.js";
 
 const logger = createLogger('Orchestrator');
 
@@ -41,20 +48,37 @@ function humanizeToolCall(toolCall: ToolCall): string {
     case "run_command":
       return `執行命令 ${chalk.cyan(params.command)}`;
     
+    case "edit_file":
+      return `編輯檔案 ${chalk.cyan(params.path)}`;
+    
     case "apply_diff":
-      return `應用差異到 ${chalk.cyan(params.path)}`;
+      return `應用差異到 ${chalk.cyan(getTargetPaths(tool, params).join(", "))}`;
+    
+    case "delegate_task":
+      return `委派 ${chalk.cyan(params.agent_type)} 子 Agent`;
     
     default:
       return `執行 ${tool}`;
   }
 }
 
+/**
+ * 工具調用模式
+ * - auto：發送 API tools，優先使用原生 tool_calls，同時在 prompt 注入 XML 規範作為回退
+ * - native：只用原生 function calling，不注入 XML 規範
+ * - xml：不發送 API tools，只解析文字中的 <action> XML
+ */
+export type ToolCallMode = "auto" | "native" | "xml";
+
 export interface OrchestratorOptions {
   llmClient: LLMClient;
   toolRegistry: ToolRegistry;
   executionContext: ToolExecutionContext;
   maxIterations?: number;
   verbose?: boolean;
+  toolCallMode?: ToolCallMode;
+  maxParallelTools?: number; // 只讀工具的最大並發數
+  getPinnedFiles?: () => string[]; // /add 固定的文件，壓縮時寫入摘要
 }
 
 export interface OrchestratorResult {
@@ -63,33 +87,16 @@ export interface OrchestratorResult {
   iterations: number;
   toolCallsExecuted: number;
   error?: string;
+  cancelled?: boolean; // 被用戶取消（Ctrl+C），messages 中保留了已生成的部分回應
+  budgetExceeded?: boolean; // 費用或 token 預算已用完而停止
   // 返回完整的对话历史（包含任务规划、工具结果等）
   messages?: ChatMessage[];
 }
 
-/**
- * 模型 context window 大小映射（tokens）
- * 用於動態調整對話壓縮閾值
- */
-const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
-  'bailu-2.6-preview': 32000,
-  'bailu-2.6': 32000,
-  'bailu-2.6-fast-thinking': 32000,
-  'bailu-2.6-mini': 16000,
-  'bailu-2.5-pro': 32000,
-  'bailu-2.5-lite-code': 16000,
-  'bailu-2.5-code-cc': 16000,
-  'bailu-Edge': 8000,
-  'bailu-Minimum-free': 8000,
-};
-
-const DEFAULT_CONTEXT_WINDOW = 16000;
+// 被取消的回應在歷史中的標記，讓模型知道上一輪沒有完成
+const CANCELLED_MARKER = "[已被用戶中斷]";
 
 export class AgentOrchestrator {
-  // Regular expressions for token estimation (compiled once for performance)
-  private static readonly CHINESE_CHAR_PATTERN = /[\u4e00-\u9fff\u3000-\u303f\uff00-\uffef]/g;
-  private static readonly ENGLISH_WORD_PATTERN = /[a-zA-Z]+/g;
-  
   private llmClient: LLMClient;
   private toolExecutor: ToolExecutor;
   private toolRegistry: ToolRegistry;
@@ -99,6 +106,10 @@ export class AgentOrchestrator {
   private memory: ContextMemory; // 上下文记忆
   private dependencyAnalyzer: DependencyAnalyzer; // 依赖分析器
   private workspaceRoot: string; // 工作區根目錄
+  private toolCallMode: ToolCallMode;
+  private nativeToolCallsSeen = false; // 模型是否已返回過原生 tool_calls
+  private maxParallelTools: number;
+  private getPinnedFiles: () => string[];
 
   constructor(options: OrchestratorOptions) {
     this.llmClient = options.llmClient;
@@ -114,96 +125,91 @@ export class AgentOrchestrator {
     this.memory = new ContextMemory(); // 初始化记忆系统
     this.dependencyAnalyzer = new DependencyAnalyzer(options.executionContext.workspaceRoot); // 初始化依赖分析器
     this.workspaceRoot = options.executionContext.workspaceRoot;
+    this.toolCallMode = options.toolCallMode ?? "auto";
+    this.maxParallelTools = options.maxParallelTools ?? 4;
+    this.getPinnedFiles = options.getPinnedFiles ?? (() => []);
   }
 
   /**
-   * Estimate token count for messages (approximate)
-   * Uses pre-compiled regex patterns for better performance
+   * 計算消息的 token 數（使用當前模型的分詞器）
    */
   private estimateTokens(messages: ChatMessage[]): number {
-    let total = 0;
-    for (const msg of messages) {
-      const content = msg.content || "";
-      // Chinese characters (including CJK unified ideographs, symbols, and full-width chars)
-      // ~1.5 tokens per character
-      const chineseChars = (content.match(AgentOrchestrator.CHINESE_CHAR_PATTERN) || []).length;
-      // English words ~1.3 tokens per word
-      const englishWords = (content.match(AgentOrchestrator.ENGLISH_WORD_PATTERN) || []).length;
-      // Other characters (numbers, punctuation, code symbols) ~0.5 tokens each
-      const otherChars = content.length - chineseChars - (content.match(AgentOrchestrator.ENGLISH_WORD_PATTERN) || []).join('').length;
-      total += chineseChars * 1.5 + englishWords * 1.3 + Math.max(0, otherChars) * 0.5;
-    }
-    return Math.ceil(total);
+    return countMessageTokens(this.llmClient.getTokenizer(), messages);
   }
 
   /**
-   * Auto-compress conversation history when exceeding threshold
-   * Keeps system message + last 6 messages (typically 3 user-assistant rounds)
+   * 當前模型的上下文窗口（tokens），決定自動壓縮的閾值
    */
   private getModelContextWindow(): number {
-    const modelName = this.llmClient.getModelName();
-    return MODEL_CONTEXT_WINDOWS[modelName] || DEFAULT_CONTEXT_WINDOW;
+    return this.llmClient.getModelInfo().contextWindow;
   }
 
-  private async autoCompressMessages(messages: ChatMessage[], maxTokens?: number): Promise<void> {
-    const effectiveMax = maxTokens ?? this.getModelContextWindow();
-    const currentTokens = this.estimateTokens(messages);
-    const threshold = effectiveMax * 0.8; // 80% threshold
-
-    if (currentTokens > threshold && messages.length > 10) {
-      const systemMsg = messages[0];
-      // 保留最近 4 條消息不壓縮（保持上下文連貫性）
-      const keepCount = 4;
-      const recentMessages = messages.slice(-keepCount);
-      const oldMessages = messages.slice(1, -keepCount);
-
-      // 嘗試用 AI 生成摘要
-      let summary: string;
-      try {
-        const summaryPrompt: ChatMessage[] = [
-          {
-            role: "system",
-            content: "你是一個對話摘要助手。請用 3-5 句話總結以下對話的關鍵決策、已完成的操作和重要上下文。只輸出摘要，不要其他內容。",
-          },
-          {
-            role: "user",
-            content: oldMessages.map((m) => `[${m.role}]: ${m.content?.substring(0, 500) || ""}`).join("\n"),
-          },
-        ];
-        summary = await this.llmClient.chat(summaryPrompt, false);
-        if (!summary || summary.length < 10) {
-          throw new Error("摘要太短");
-        }
-      } catch {
-        // AI 摘要失敗時回退到簡單描述
-        summary = `之前進行了 ${oldMessages.length} 輪對話，包含文件操作和代碼修改。`;
-      }
+  /**
+   * 超過上下文窗口的 80% 時壓縮：先把大的工具輸出移入緩存，仍然超出時再總結較早的對話
+   */
+  private async autoCompressMessages(messages: ChatMessage[], signal?: AbortSignal): Promise<void> {
+    const threshold = this.getModelContextWindow() * 0.8;
+    if (this.estimateTokens(messages) <= threshold || messages.length <= 10) {
+      return;
+    }
 
-      const compressedCount = oldMessages.length;
-      messages.length = 0;
-      messages.push(systemMsg);
-      messages.push({
-        role: "system",
-        content: `[對話歷史摘要（${compressedCount} 條消息已壓縮）]\n${summary}`,
-      });
-      messages.push(...recentMessages);
+    const result = await compactMessages(messages, {
+      llmClient: this.llmClient,
+      memory: this.memory,
+      pinnedFiles: this.getPinnedFiles(),
+      targetTokens: threshold,
+      signal,
+    });
 
-      if (this.verbose) {
-        logger.info(`智能壓縮：${currentTokens} tokens → ${this.estimateTokens(messages)} tokens (超過 ${threshold} 閾值)`);
-      }
+    if (this.verbose) {
+      logger.info(
+        `智能壓縮：${result.tokensBefore} tokens → ${result.tokensAfter} tokens (超過 ${threshold} 閾值，` +
+        `緩存 ${result.offloadedOutputs} 個工具輸出，總結 ${result.summarizedMessages} 條消息)`
+      );
     }
   }
 
+  /**
+   * 手動壓縮對話（/compress）：保留最近 3 輪，其餘總結為結構化摘要
+   */
+  async compact(messages: ChatMessage[]): Promise<CompactionResult> {
+    return compactMessages(messages, {
+      llmClient: this.llmClient,
+      memory: this.memory,
+      pinnedFiles: this.getPinnedFiles(),
+      keepRecent: 6,
+    });
+  }
+
   /**
    * 執行完整的 Agent 循環
    * @param initialMessages 初始對話消息（包含 system 和 user）
    * @param stream 是否使用流式輸出
    * @param silent 是否靜默模式（不直接輸出，由調用者處理）
+   * @param signal 取消信號：取消後停止當前 LLM 請求和工具執行，返回 cancelled 結果
    */
   async run(
     initialMessages: ChatMessage[],
     stream = false,
-    silent = false
+    silent = false,
+    signal?: AbortSignal
+  ): Promise<OrchestratorResult> {
+    // 每次運行是一個回合：期間修改的所有文件記錄到同一個檢查點，/undo 整體回滾
+    const lastUser = [...initialMessages].reverse().find((m) => m.role === "user");
+    const checkpointError = (error: unknown) => logger.warn(`檢查點保存失敗: ${error instanceof Error ? error.message : String(error)}`);
+    await globalCheckpointStore.beginTurn((lastUser?.content ?? "").split("\n")[0].slice(0, 80)).catch(checkpointError);
+    try {
+      return await this.runLoop(initialMessages, stream, silent, signal);
+    } finally {
+      await globalCheckpointStore.endTurn().catch(checkpointError);
+    }
+  }
+
+  private async runLoop(
+    initialMessages: ChatMessage[],
+    stream: boolean,
+    silent: boolean,
+    signal?: AbortSignal
   ): Promise<OrchestratorResult> {
     const messages: ChatMessage[] = [...initialMessages];
     let iterations = 0;
@@ -217,27 +223,68 @@ export class AgentOrchestrator {
     }
 
     // 準備工具定義
-    const toolDefinitions = this.toolRegistry.getAllDefinitions();
-    const openaiTools = toolDefinitions.length > 0 ? this.convertToOpenAIFormat(toolDefinitions) : undefined;
+    const toolDefinitions = [...this.toolRegistry.getAllDefinitions(), RECALL_OUTPUT_DEFINITION];
+    const allTools = toolDefinitions.length > 0 ? this.convertToOpenAIFormat(toolDefinitions) : undefined;
+    // xml 模式不發送 API tools，只靠 prompt 中的 XML 規範
+    const openaiTools = this.toolCallMode === "xml" ? undefined : allTools;
 
     // 將工具定義注入到 system message（使用白鹿 chat template 的格式）
-    // 注意：即使傳了 API tools 參數，也需要在 system message 中顯式注入，
-    // 因為 API 端可能不會自動將 tools 參數渲染進提示文本
-    if (openaiTools && openaiTools.length > 0 && messages[0]?.role === "system") {
-      messages[0].content = this.injectToolDefinitions(messages[0].content, openaiTools);
+    // 注意：API 端可能不會自動將 tools 參數渲染進提示文本，因此 auto 模式下
+    // 在模型尚未證明支持原生 tool_calls 之前，仍注入 XML 規範作為回退
+    const shouldInject = this.toolCallMode === "xml" || (this.toolCallMode === "auto" && !this.nativeToolCallsSeen);
+    if (allTools && allTools.length > 0 && shouldInject && messages[0]?.role === "system") {
+      messages[0].content = this.injectToolDefinitions(messages[0].content, allTools);
     }
 
+    // 取消時保留已生成的部分回應，並標記為未完成
+    const cancelled = (partial = ""): OrchestratorResult => {
+      const content = partial.trim();
+      messages.push({ role: "assistant", content: content ? `${content}\n\n${CANCELLED_MARKER}` : CANCELLED_MARKER });
+      return {
+        success: false,
+        finalResponse: parseToolCalls(partial).textContent,
+        iterations,
+        toolCallsExecuted,
+        error: "已被用戶取消",
+        cancelled: true,
+        messages: messages.slice(1),
+      };
+    };
+
+    // 預算用完：不再發起新的請求，輸出摘要後停止
+    const budgetExhausted = (): OrchestratorResult => {
+      const lines = formatBudgetStatus(globalCostTracker.getBudgetStatus());
+      console.log(chalk.yellow(`\n[預算] 已達到預算上限，停止執行`));
+      lines.forEach((line) => console.log(chalk.gray(`  ${line}`)));
+      console.log(chalk.gray(`  已執行 ${iterations} 輪迭代，${toolCallsExecuted} 次工具調用`));
+      return {
+        success: false,
+        finalResponse,
+        iterations,
+        toolCallsExecuted,
+        error: `已達到預算上限（${lines.join("；")}）`,
+        budgetExceeded: true,
+        messages: messages.slice(1),
+      };
+    };
+
     try {
       // 无限循环，通过智能检测停止
       let consecutiveFailures = 0;
       let lastFailedTool = "";
       
       while (iterations < this.maxIterations) {
+        if (signal?.aborted) {
+          return cancelled();
+        }
+        if (globalCostTracker.getBudgetStatus().exhausted) {
+          return budgetExhausted();
+        }
         iterations++;
 
         // 自动压缩对话历史（超过 80% 阈值时）
         if (this.autoCompress) {
-          await this.autoCompressMessages(messages);
+          await this.autoCompressMessages(messages, signal);
         }
 
         if (this.verbose) {
@@ -254,19 +301,29 @@ export class AgentOrchestrator {
 
         // 調用 LLM
         let assistantResponse: string;
+        let nativeToolCalls: ChatToolCall[];
         if (stream) {
           // 使用流式輸出（更穩定，避免 JSON 解析問題）
           // 所有輪次都傳入 spinner，在收到第一個 chunk 時停止
-          assistantResponse = await this.streamResponse(messages, openaiTools, thinkingSpinner, silent);
+          const streamed = await this.streamResponse(messages, openaiTools, thinkingSpinner, silent, signal);
+          assistantResponse = streamed.content;
+          nativeToolCalls = streamed.toolCalls;
           thinkingSpinner = null; // 已在 streamResponse 中停止
+          if (signal?.aborted) {
+            return cancelled(assistantResponse);
+          }
         } else {
           // 非流式模式（較少使用）
-          assistantResponse = await this.llmClient.chat(messages, false, openaiTools);
-          // 停止思考動畫
-          if (thinkingSpinner) {
+          let response: { content: string; toolCalls: ChatToolCall[] };
+          try {
+            response = await this.llmClient.chatWithToolCalls(messages, openaiTools, false, signal);
+          } finally {
+            // 停止思考動畫（請求失敗或被取消時也要停止）
             thinkingSpinner.stop();
             thinkingSpinner = null;
           }
+          assistantResponse = response.content;
+          nativeToolCalls = response.toolCalls;
         }
 
         // 調試：記錄完整的 LLM 響應
@@ -282,7 +339,14 @@ export class AgentOrchestrator {
         }
 
         // 解析工具調用（同時提取 <reasoning> 區塊）
-        const { toolCalls, textContent, reasoning } = parseToolCalls(assistantResponse);
+        // 優先使用原生 tool_calls，沒有時回退到文字中的 XML
+        const parsed = parseToolCalls(assistantResponse);
+        const { textContent, reasoning } = parsed;
+        const useNative = nativeToolCalls.length > 0;
+        const toolCalls = useNative ? parseNativeToolCalls(nativeToolCalls) : parsed.toolCalls;
+        if (useNative) {
+          this.nativeToolCallsSeen = true;
+        }
 
         finalResponse = textContent;
 
@@ -296,6 +360,10 @@ export class AgentOrchestrator {
         if (usageLine) {
           console.log(usageLine);
         }
+        if (globalCostTracker.takeBudgetWarning()) {
+          const budget = globalCostTracker.getBudgetStatus();
+          console.log(chalk.yellow(`[預算] 已使用 ${Math.round(budget.ratio * 100)}%：${formatBudgetStatus(budget).join("；")}`));
+        }
 
         // 如果沒有工具調用，任務完成
         if (toolCalls.length === 0) {
@@ -314,131 +382,174 @@ export class AgentOrchestrator {
           });
         }
 
-        // 將 assistant 回應加入對話歷史
-        messages.push({
-          role: "assistant",
-          content: assistantResponse,
-        });
+        // 將 assistant 回應加入對話歷史（原生調用需帶上 tool_calls，供後續 tool 消息對應）
+        messages.push(
+          useNative
+            ? { role: "assistant", content: assistantResponse, tool_calls: nativeToolCalls }
+            : { role: "assistant", content: assistantResponse }
+        );
 
         // 執行所有工具調用
         const toolResults: string[] = [];
+        const toolMessages: ChatMessage[] = [];
         let hasFailure = false;
         
-        for (const toolCall of toolCalls) {
+        // 連續的只讀工具並行執行，其他工具逐個執行並經過審批；結果按原始順序處理
+        for (const group of this.groupToolCalls(toolCalls)) {
           // 顯示工具執行狀態（使用靜態消息，不用 spinner）
           // 原因：如果工具需要用戶確認，spinner 會干擾輸入
-          const actionDesc = this.getToolActionDescription(toolCall);
-          console.log(chalk.cyan(`[EXECUTING] ${modelName} ${actionDesc}`));
-          
-          const result = await this.toolExecutor.execute(toolCall);
-          toolCallsExecuted++;
-
-          // 截斷過長的工具輸出，避免浪費 LLM context window
-          let resultText: string;
-          if (result.success) {
-            const output = result.output || "(成功，無輸出)";
-            const outputLines = output.split('\n');
-            const MAX_LLM_LINES = 300;
-            if (outputLines.length > MAX_LLM_LINES) {
-              const headLines = outputLines.slice(0, 200).join('\n');
-              const tailLines = outputLines.slice(-50).join('\n');
-              resultText = `${headLines}\n\n[... 省略 ${outputLines.length - 250} 行，共 ${outputLines.length} 行。如需查看完整內容，請使用 start_line/end_line 參數分段讀取 ...]\n\n${tailLines}`;
+          for (const toolCall of group) {
+            const actionDesc = this.getToolActionDescription(toolCall);
+            console.log(chalk.cyan(`[EXECUTING] ${modelName} ${actionDesc}`));
+          }
+
+          const groupResults = group.length > 1
+            ? await this.toolExecutor.executeConcurrent(group, this.maxParallelTools, signal)
+            : [group[0].tool === RECALL_OUTPUT_TOOL
+                ? recallToolOutput(this.memory, group[0].params)
+                : await this.toolExecutor.execute(group[0], signal)];
+
+          for (let g = 0; g < group.length; g++) {
+            const toolCall = group[g];
+            const result = groupResults[g];
+            if (!signal?.aborted) toolCallsExecuted++;
+
+            // 截斷過長的工具輸出，避免浪費 LLM context window
+            let resultText: string;
+            if (result.success) {
+              const output = result.output || "(成功，無輸出)";
+              const outputLines = output.split('\n');
+              const MAX_LLM_LINES = 300;
+              if (outputLines.length > MAX_LLM_LINES) {
+                const headLines = outputLines.slice(0, 200).join('\n');
+                const tailLines = outputLines.slice(-50).join('\n');
+                resultText = `${headLines}\n\n[... 省略 ${outputLines.length - 250} 行，共 ${outputLines.length} 行。如需查看完整內容，請使用 start_line/end_line 參數分段讀取 ...]\n\n${tailLines}`;
+              } else {
+                resultText = output;
+              }
             } else {
-              resultText = output;
+              resultText = `錯誤: ${result.error}`;
             }
-          } else {
-            resultText = `錯誤: ${result.error}`;
-          }
 
-          toolResults.push(`[工具: ${toolCall.tool}]\n${resultText}`);
-
-          // 記錄到記憶系統
-          this.memory.recordToolCall({
-            tool: toolCall.tool,
-            params: toolCall.params,
-            result: {
-              success: result.success,
-              output: result.output,
-              error: result.error,
-            },
-            timestamp: new Date(),
-          });
+            if (useNative && toolCall.id) {
+              toolMessages.push({ role: "tool", tool_call_id: toolCall.id, content: resultText });
+            } else {
+              toolResults.push(`[工具: ${toolCall.tool}]\n${resultText}`);
+            }
 
-          // 針對特定工具記錄到對應的記憶中
-          if (result.success) {
-            if (toolCall.tool === 'list_directory') {
-              const files = result.output?.split('\n').filter(f => f.trim()) || [];
-              this.memory.recordListDirectory(toolCall.params.path || '.', files);
-            } else if (toolCall.tool === 'read_file') {
-              this.memory.recordReadFile(toolCall.params.path, result.output || '');
-            } else if (toolCall.tool === 'write_file') {
-              this.memory.recordFileModification(toolCall.params.path);
+            // 已取消：每個調用仍需對應一條結果消息，但不再記錄和顯示
+            if (signal?.aborted) {
+              continue;
+            }
+
+            // 記錄到記憶系統
+            this.memory.recordToolCall({
+              tool: toolCall.tool,
+              params: toolCall.params,
+              result: {
+                success: result.success,
+                output: result.output,
+                error: result.error,
+              },
+              timestamp: new Date(),
+            });
+
+            // 針對特定工具記錄到對應的記憶中
+            if (result.success) {
+              if (toolCall.tool === 'list_directory') {
+                const files = result.output?.split('\n').filter(f => f.trim()) || [];
+                this.memory.recordListDirectory(toolCall.params.path || '.', files);
+              } else if (toolCall.tool === 'read_file') {
+                this.memory.recordReadFile(toolCall.params.path, result.output || '');
+              } else if (toolCall.tool === 'write_file' || toolCall.tool === 'edit_file') {
+                this.memory.recordFileModification(toolCall.params.path);
+              } else if (toolCall.tool === 'apply_diff') {
+                // 多文件 diff 記錄每個修改的文件
+                const files = result.metadata?.files as string[] | undefined;
+                (files ?? [toolCall.params.path]).forEach((file) => this.memory.recordFileModification(file));
+              }
             }
-          }
 
-          // 顯示工具執行結果給用戶
-          // 只讀工具（read_file, list_directory 等）只顯示一行摘要，不刷屏
-          // 動作工具（run_command 等）顯示精簡輸出
-          if (result.success) {
-            const quietTools = ['read_file', 'list_directory', 'grep_search', 'file_search'];
-            if (quietTools.includes(toolCall.tool)) {
-              // 只讀工具：一行摘要
-              const lineCount = result.output ? result.output.split('\n').length : 0;
-              const sizeKB = result.output ? (Buffer.byteLength(result.output, 'utf-8') / 1024).toFixed(1) : '0';
-              const filePath = toolCall.params.path || toolCall.params.pattern || '';
-              console.log(chalk.green(`[SUCCESS]`) + chalk.gray(` ${filePath} (${lineCount} 行, ${sizeKB} KB)`));
-            } else if (result.output && result.output.trim()) {
-              // 動作工具：顯示精簡輸出（前 8 行 + 後 3 行）
-              console.log(chalk.green(`[SUCCESS] 工具執行成功`));
-              const MAX_DISPLAY_HEAD = 8;
-              const MAX_DISPLAY_TAIL = 3;
-              const lines = result.output.trim().split('\n');
-              if (lines.length > MAX_DISPLAY_HEAD + MAX_DISPLAY_TAIL) {
-                const head = lines.slice(0, MAX_DISPLAY_HEAD).join('\n');
-                const tail = lines.slice(-MAX_DISPLAY_TAIL).join('\n');
-                const omitted = lines.length - MAX_DISPLAY_HEAD - MAX_DISPLAY_TAIL;
-                console.log(chalk.gray("\n" + head));
-                console.log(chalk.yellow(`  ... (省略 ${omitted} 行，共 ${lines.length} 行)`));
-                console.log(chalk.gray(tail + "\n"));
+            // 顯示工具執行結果給用戶
+            // 只讀工具（read_file, list_directory 等）只顯示一行摘要，不刷屏
+            // 動作工具（run_command 等）顯示精簡輸出
+            if (result.success) {
+              const quietTools = ['read_file', 'list_directory', 'grep_search', 'file_search', RECALL_OUTPUT_TOOL];
+              if (quietTools.includes(toolCall.tool)) {
+                // 只讀工具：一行摘要
+                const lineCount = result.output ? result.output.split('\n').length : 0;
+                const sizeKB = result.output ? (Buffer.byteLength(result.output, 'utf-8') / 1024).toFixed(1) : '0';
+                const filePath = toolCall.params.path || toolCall.params.pattern || toolCall.params.ref || '';
+                console.log(chalk.green(`[SUCCESS]`) + chalk.gray(` ${filePath} (${lineCount} 行, ${sizeKB} KB)`));
+              } else if (result.output && result.output.trim()) {
+                // 動作工具：顯示精簡輸出（前 8 行 + 後 3 行）
+                console.log(chalk.green(`[SUCCESS] 工具執行成功`));
+                const MAX_DISPLAY_HEAD = 8;
+                const MAX_DISPLAY_TAIL = 3;
+                const lines = result.output.trim().split('\n');
+                if (lines.length > MAX_DISPLAY_HEAD + MAX_DISPLAY_TAIL) {
+                  const head = lines.slice(0, MAX_DISPLAY_HEAD).join('\n');
+                  const tail = lines.slice(-MAX_DISPLAY_TAIL).join('\n');
+                  const omitted = lines.length - MAX_DISPLAY_HEAD - MAX_DISPLAY_TAIL;
+                  console.log(chalk.gray("\n" + head));
+                  console.log(chalk.yellow(`  ... (省略 ${omitted} 行，共 ${lines.length} 行)`));
+                  console.log(chalk.gray(tail + "\n"));
+                } else {
+                  console.log(chalk.gray("\n" + result.output.trim() + "\n"));
+                }
               } else {
-                console.log(chalk.gray("\n" + result.output.trim() + "\n"));
+                console.log(chalk.green(`[SUCCESS] 工具執行成功`));
               }
+              // 成功则重置失败计数
+              consecutiveFailures = 0;
+              lastFailedTool = "";
             } else {
-              console.log(chalk.green(`[SUCCESS] 工具執行成功`));
-            }
-            // 成功则重置失败计数
-            consecutiveFailures = 0;
-            lastFailedTool = "";
-          } else {
-            console.log(chalk.red(`[ERROR] 執行失敗: ${result.error}`));
-            hasFailure = true;
+              console.log(chalk.red(`[ERROR] 執行失敗: ${result.error}`));
+              hasFailure = true;
             
-            // 检测是否是连续相同工具失败
-            if (lastFailedTool === toolCall.tool) {
-              consecutiveFailures++;
-            } else {
-              consecutiveFailures = 1;
-              lastFailedTool = toolCall.tool;
+              // 检测是否是连续相同工具失败
+              if (lastFailedTool === toolCall.tool) {
+                consecutiveFailures++;
+              } else {
+                consecutiveFailures = 1;
+                lastFailedTool = toolCall.tool;
+              }
             }
-          }
 
-          // 如果工具失敗，記錄但繼續（給 AI 機會修復）
-          if (!result.success) {
-            console.log(chalk.yellow(`\n[WARNING] 工具執行失敗，錯誤已反饋給 AI 嘗試修復...`));
+            // 如果工具失敗，記錄但繼續（給 AI 機會修復）
+            if (!result.success) {
+              console.log(chalk.yellow(`\n[WARNING] 工具執行失敗，錯誤已反饋給 AI 嘗試修復...`));
+            }
           }
         }
         
         // 自動測試驗證：如果有文件被修改，且配置了 testCommand，自動跑測試
         const hasFileModification = toolCalls.some(
-          tc => (tc.tool === 'write_file' || tc.tool === 'apply_diff') && !hasFailure
+          tc => (tc.tool === 'write_file' || tc.tool === 'apply_diff' || tc.tool === 'edit_file') && !hasFailure
         );
-        if (hasFileModification) {
-          const testResult = await this.runAutoTest();
+        if (hasFileModification && !signal?.aborted) {
+          const testResult = await this.runAutoTest(signal);
           if (testResult) {
             toolResults.push(testResult);
           }
         }
 
+        // 將工具結果回饋給 LLM
+        // 原生調用：每個結果作為 role:"tool" 消息，以 call ID 對應；
+        // XML 回退：白鹿 API 可能不支持無 call ID 的 tool role，使用 user role 確保兼容
+        messages.push(...toolMessages);
+        if (toolResults.length > 0) {
+          const header = useNative ? "[補充信息]" : "[工具執行結果]";
+          messages.push({
+            role: "user",
+            content: `${header}\n${toolResults.join("\n\n")}\n\n請根據以上工具執行結果，簡潔地回答用戶的問題。`,
+          });
+        }
+
+        if (signal?.aborted) {
+          return cancelled();
+        }
+
         // 智能停止：同一工具连续失败 3 次则停止（避免死循环）
         if (consecutiveFailures >= 3) {
           logger.error(`工具 "${lastFailedTool}" 連續失敗 ${consecutiveFailures} 次，停止執行`);
@@ -450,14 +561,6 @@ export class AgentOrchestrator {
           break;
         }
 
-        // 將工具結果作為 user 消息回饋給 LLM
-        // 注意：白鹿 API 可能不支持 tool role，使用 user role 確保兼容
-        const toolResultsContent = `[工具執行結果]\n${toolResults.join("\n\n")}\n\n請根據以上工具執行結果，簡潔地回答用戶的問題。`;
-        messages.push({
-          role: "user",
-          content: toolResultsContent,
-        });
-
         // 如果是 dry-run，在第一輪後停止
         if (this.toolExecutor["context"].safetyMode === "dry-run" && iterations === 1) {
           console.log(chalk.yellow("\n[DRY-RUN] 模式，停止執行"));
@@ -492,6 +595,12 @@ export class AgentOrchestrator {
         messages: messages.slice(1), // 跳过第一个 system message（已被修改）
       };
     } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        return cancelled();
+      }
+      if (error instanceof BudgetExceededError) {
+        return budgetExhausted();
+      }
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         success: false,
@@ -505,10 +614,17 @@ export class AgentOrchestrator {
   }
 
   /**
-   * 流式輸出 LLM 回應（顯示給用戶）
+   * 流式輸出 LLM 回應（顯示給用戶），同時收集原生 tool_calls
    */
-  private async streamResponse(messages: ChatMessage[], tools?: any[], spinner?: Spinner | null, silent = false): Promise<string> {
+  private async streamResponse(
+    messages: ChatMessage[],
+    tools?: any[],
+    spinner?: Spinner | null,
+    silent = false,
+    signal?: AbortSignal
+  ): Promise<{ content: string; toolCalls: ChatToolCall[] }> {
     let fullResponse = "";
+    const toolCalls: ChatToolCall[] = [];
     let insideAction = false;
     let insideReasoning = false;
     let outputtedLength = 0; // 已輸出的字符數
@@ -541,7 +657,12 @@ export class AgentOrchestrator {
       const TAG_PREFIXES = ["<reasoning>", "<action>", "</reasoning>"];
       const MAX_TAG_LEN = "</reasoning>".length; // 最長標籤長度
 
-      for await (const chunk of this.llmClient.chatStream(messages, tools)) {
+      for await (const event of this.llmClient.chatStreamEvents(messages, tools, signal)) {
+        if (event.type === "tool_calls") {
+          toolCalls.push(...event.toolCalls);
+          continue;
+        }
+        const chunk = event.content;
         fullResponse += chunk;
         pendingBuffer += chunk;
 
@@ -616,10 +737,16 @@ export class AgentOrchestrator {
       if (spinner) {
         spinner.stop();
       }
-      logger.warn(`流式響應中斷: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      // 用戶取消不是錯誤，由調用者根據 signal 處理
+      if (!isAbortError(error) && !signal?.aborted) {
+        logger.warn(`流式響應中斷: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
 
-    return fullResponse;
+    return { content: fullResponse, toolCalls };
   }
 
   /**
@@ -700,6 +827,31 @@ ${toolDefs}
 </action>`;
   }
 
+  /**
+   * 將工具調用分組：相鄰的只讀工具合為一組並行執行，其他工具單獨成組
+   */
+  private groupToolCalls(toolCalls: ToolCall[]): ToolCall[][] {
+    const groups: ToolCall[][] = [];
+    let safeGroup: ToolCall[] = [];
+
+    for (const toolCall of toolCalls) {
+      if (this.maxParallelTools > 1 && this.toolExecutor.canRunConcurrently(toolCall)) {
+        safeGroup.push(toolCall);
+        continue;
+      }
+      if (safeGroup.length > 0) {
+        groups.push(safeGroup);
+        safeGroup = [];
+      }
+      groups.push([toolCall]);
+    }
+    if (safeGroup.length > 0) {
+      groups.push(safeGroup);
+    }
+
+    return groups;
+  }
+
   /**
    * 獲取記憶系統實例
    */
@@ -730,9 +882,9 @@ ${toolDefs}
 
   /**
    * 自動測試驗證：讀取 .bailu.yml 中的 testCommand 並執行
-   * @returns 測試結果字串（用於反饋給 AI），若無 testCommand 則返回 null
+   * @returns 測試結果字串（用於反饋給 AI），若無 testCommand 或測試被取消則返回 null
    */
-  private async runAutoTest(): Promise<string | null> {
+  private async runAutoTest(signal?: AbortSignal): Promise<string | null> {
     try {
       // 動態讀取 .bailu.yml 配置
       const fs = await import('fs');
@@ -757,13 +909,25 @@ ${toolDefs}
       const policy = getDefaultPolicy();
       policy.maxCommandDurationMs = 60 * 1000; // 測試最多 60 秒
 
-      const result = await runCommandSafe(this.workspaceRoot, testCommand, [], policy);
+      const result = await runCommandSafe(this.workspaceRoot, testCommand, [], policy, signal);
+
+      if (result.aborted) {
+        console.log(chalk.yellow(`[AUTO-TEST] 測試已取消`));
+        return null;
+      }
 
       if (result.exitCode === 0) {
         console.log(chalk.green(`[AUTO-TEST] ✓ 測試通過`));
         return `[自動測試驗證]\n命令: ${testCommand}\n結果: ✓ 測試通過`;
       } else {
-        const output = (result.stderr || result.stdout || '').slice(-2000); // 截取最後 2000 字元
+        const rawOutput = (result.stderr || result.stdout || '').slice(-2000); // 截取最後 2000 字元
+        const redaction = policy.redactSecrets === false
+          ? { text: rawOutput, count: 0 }
+          : redactSecrets(rawOutput, getSecretEnvValues(process.env, policy.scrubEnv, policy.keepEnv));
+        const output = redaction.text;
+        if (redaction.count > 0 && this.verbose) {
+          console.log(chalk.gray(`[安全] 已遮蔽 ${redaction.count} 處敏感信息（自動測試輸出）`));
+        }
         console.log(chalk.red(`[AUTO-TEST] ✗ 測試失敗 (退出碼: ${result.exitCode})`));
         if (output.trim()) {
           console.log(chalk.gray(output.trim().split('\n').slice(-10).join('\n')));
@@ -795,8 +959,14 @@ ${toolDefs}
       case "run_command":
         return `正在執行命令 ${chalk.cyan(params.command)}`;
       
+      case "edit_file":
+        return `正在編輯 ${chalk.cyan(params.path)}`;
+      
       case "apply_diff":
-        return `正在應用修改到 ${chalk.cyan(params.path)}`;
+        return `正在應用修改到 ${chalk.cyan(getTargetPaths(tool, params).join(", "))}`;
+      
+      case "delegate_task":
+        return `正在委派 ${chalk.cyan(params.agent_type)} 子 Agent`;
       
       default:
         return `正在執行 ${tool}`;
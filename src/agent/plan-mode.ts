@@ -4,11 +4,14 @@
  */
 
 import chalk from "chalk";
+import fs from "fs/promises";
+import path from "path";
 import { LLMClient, ChatMessage } from "../llm/client.js";
 import { ToolRegistry } from "../tools/registry.js";
 import { ToolExecutor } from "../tools/executor.js";
 import { parseToolCalls } from "../tools/parser.js";
 import { ToolExecutionContext } from "../tools/types.js";
+import { globalCheckpointStore } from "../runtime/checkpoints.js";
 import { createSpinner } from "../utils/spinner.js";
 import { renderMarkdown } from "../utils/markdown-renderer.js";
 
@@ -25,8 +28,10 @@ export interface Plan {
   id: string;
   title: string;
   description: string;
+  instruction?: string; // 原始任務描述（用於重新生成）
   steps: PlanStep[];
   createdAt: Date;
+  updatedAt?: Date;
   status: 'draft' | 'approved' | 'rejected' | 'executing' | 'completed' | 'failed';
 }
 
@@ -35,6 +40,103 @@ export interface PlanModeOptions {
   toolRegistry: ToolRegistry;
   executionContext: ToolExecutionContext;
   verbose?: boolean;
+  planStore?: PlanStore; // 提供時每個步驟執行後自動保存，支持中斷後恢復
+}
+
+/**
+ * 計劃持久化：保存在 .bailu/plans/<planId>.json
+ */
+export class PlanStore {
+  private plansDir: string;
+
+  constructor(baseDir?: string) {
+    this.plansDir = baseDir || path.join(process.cwd(), ".bailu", "plans");
+  }
+
+  /**
+   * 保存計劃
+   */
+  async save(plan: Plan): Promise<void> {
+    await fs.mkdir(this.plansDir, { recursive: true });
+    plan.updatedAt = new Date();
+    const filePath = path.join(this.plansDir, `${plan.id}.json`);
+    await fs.writeFile(filePath, JSON.stringify(plan, null, 2), "utf-8");
+  }
+
+  /**
+   * 載入計劃
+   */
+  async load(planId: string): Promise<Plan | null> {
+    try {
+      const filePath = path.join(this.plansDir, `${path.basename(planId, ".json")}.json`);
+      const content = await fs.readFile(filePath, "utf-8");
+      const data = JSON.parse(content);
+      return {
+        ...data,
+        createdAt: new Date(data.createdAt),
+        updatedAt: data.updatedAt ? new Date(data.updatedAt) : undefined,
+      } as Plan;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 列出所有計劃（按最後更新時間倒序）
+   */
+  async list(): Promise<Plan[]> {
+    try {
+      const files = await fs.readdir(this.plansDir);
+      const plans: Plan[] = [];
+      for (const file of files) {
+        if (!file.endsWith(".json")) continue;
+        const plan = await this.load(file);
+        if (plan) {
+          plans.push(plan);
+        }
+      }
+      const time = (p: Plan) => (p.updatedAt || p.createdAt).getTime();
+      return plans.sort((a, b) => time(b) - time(a));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 查找最近一個未完成的計劃
+   */
+  async findLatestUnfinished(): Promise<Plan | null> {
+    const plans = await this.list();
+    return plans.find(p => isPlanResumable(p)) || null;
+  }
+}
+
+/**
+ * 格式化計劃列表（用於 bailu plan --list 和 /plan list）
+ */
+export function formatPlanList(plans: Plan[]): string {
+  if (plans.length === 0) {
+    return chalk.gray("沒有保存的計劃");
+  }
+
+  const lines: string[] = [chalk.cyan("\n[保存的計劃]\n")];
+  for (const plan of plans) {
+    const done = plan.steps.filter(s => s.status === 'completed').length;
+    const statusColor = plan.status === 'completed' ? chalk.green : plan.status === 'failed' ? chalk.red : chalk.yellow;
+    lines.push(chalk.bold(plan.id));
+    lines.push(chalk.gray(`  標題: ${plan.title}`));
+    lines.push(statusColor(`  狀態: ${plan.status}（${done}/${plan.steps.length} 步完成）`));
+    lines.push(chalk.gray(`  最後更新: ${(plan.updatedAt || plan.createdAt).toLocaleString()}`));
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 計劃是否可以恢復執行（尚未完成且未被拒絕）
+ */
+export function isPlanResumable(plan: Plan): boolean {
+  return plan.status !== 'completed' && plan.status !== 'rejected';
 }
 
 export class PlanMode {
@@ -42,12 +144,14 @@ export class PlanMode {
   private toolRegistry: ToolRegistry;
   private toolExecutor: ToolExecutor;
   private verbose: boolean;
+  private planStore?: PlanStore;
 
   constructor(options: PlanModeOptions) {
     this.llmClient = options.llmClient;
     this.toolRegistry = options.toolRegistry;
     this.toolExecutor = new ToolExecutor(options.toolRegistry, options.executionContext);
     this.verbose = options.verbose || false;
+    this.planStore = options.planStore;
   }
 
   /**
@@ -109,6 +213,7 @@ ${workspaceContext}`,
 
       // 解析計劃
       const plan = this.parsePlanResponse(planId, instruction, response);
+      plan.instruction = instruction;
       return plan;
     } catch (error) {
       spinner.stop();
@@ -176,9 +281,9 @@ ${workspaceContext}`,
   }
 
   /**
-   * 顯示計劃並請求用戶確認
+   * 顯示計劃
    */
-  async displayAndConfirmPlan(plan: Plan): Promise<boolean> {
+  displayPlan(plan: Plan): void {
     console.log(chalk.cyan("\n" + "═".repeat(60)));
     console.log(chalk.cyan.bold(`📋 實施計劃：${plan.title}`));
     console.log(chalk.cyan("═".repeat(60)));
@@ -202,6 +307,13 @@ ${workspaceContext}`,
     }
 
     console.log(chalk.cyan("═".repeat(60)));
+  }
+
+  /**
+   * 顯示計劃並請求用戶確認
+   */
+  async displayAndConfirmPlan(plan: Plan): Promise<boolean> {
+    this.displayPlan(plan);
 
     // 請求用戶確認
     const inquirer = await import('inquirer');
@@ -212,6 +324,7 @@ ${workspaceContext}`,
         message: '請選擇操作：',
         choices: [
           { name: '✅ 批准並執行計劃', value: 'approve' },
+          { name: '🔍 逐步審核（批准/拒絕/編輯每個步驟）', value: 'review' },
           { name: '❌ 拒絕計劃', value: 'reject' },
           { name: '📝 修改計劃（重新生成）', value: 'modify' },
           { name: '👁️ 顯示詳細信息', value: 'details' },
@@ -221,8 +334,13 @@ ${workspaceContext}`,
 
     switch (action) {
       case 'approve':
+        for (const step of plan.steps) {
+          if (step.status === 'pending') step.status = 'approved';
+        }
         plan.status = 'approved';
         return true;
+      case 'review':
+        return await this.reviewSteps(plan);
       case 'reject':
         plan.status = 'rejected';
         return false;
@@ -254,7 +372,7 @@ ${workspaceContext}`,
 
     // 風險評估
     console.log(chalk.yellow.bold("⚠️ 風險評估："));
-    const riskyTools = ['run_command', 'write_file', 'apply_diff'];
+    const riskyTools = ['run_command', 'write_file', 'apply_diff', 'edit_file'];
     const riskySteps = plan.steps.filter(s => s.tool && riskyTools.includes(s.tool));
     
     if (riskySteps.length > 0) {
@@ -270,20 +388,195 @@ ${workspaceContext}`,
   }
 
   /**
-   * 執行計劃
+   * 逐步審核：對每個待定步驟選擇批准、拒絕或編輯
+   * @returns 是否至少有一個步驟被批准
+   */
+  async reviewSteps(plan: Plan): Promise<boolean> {
+    const inquirer = await import('inquirer');
+    const pendingSteps = plan.steps.filter(s => s.status === 'pending');
+
+    for (let i = 0; i < pendingSteps.length; i++) {
+      const step = pendingSteps[i];
+      let decided = false;
+
+      while (!decided) {
+        console.log(chalk.white(`\n${step.id}. ${step.description}`));
+        if (step.tool) {
+          console.log(chalk.gray(`   🔧 工具: ${step.tool}`));
+          console.log(chalk.gray(`   📦 參數: ${JSON.stringify(step.params || {})}`));
+        }
+
+        const { action } = await inquirer.default.prompt([
+          {
+            type: 'list',
+            name: 'action',
+            message: `步驟 ${step.id}：`,
+            choices: [
+              { name: '✅ 批准', value: 'approve' },
+              { name: '❌ 拒絕（跳過此步驟）', value: 'reject' },
+              { name: '📝 編輯', value: 'edit' },
+              { name: '⏩ 批准剩餘所有步驟', value: 'approve_rest' },
+              { name: '⏹️ 拒絕剩餘所有步驟', value: 'reject_rest' },
+            ],
+          },
+        ]);
+
+        switch (action) {
+          case 'approve':
+            step.status = 'approved';
+            decided = true;
+            break;
+          case 'reject':
+            step.status = 'rejected';
+            decided = true;
+            break;
+          case 'edit':
+            await this.editStep(step);
+            break;
+          case 'approve_rest':
+          case 'reject_rest':
+            for (const rest of pendingSteps.slice(i)) {
+              rest.status = action === 'approve_rest' ? 'approved' : 'rejected';
+            }
+            i = pendingSteps.length;
+            decided = true;
+            break;
+        }
+      }
+    }
+
+    const hasApproved = plan.steps.some(s => s.status === 'approved');
+    plan.status = hasApproved ? 'approved' : 'rejected';
+    await this.savePlan(plan);
+    return hasApproved;
+  }
+
+  /**
+   * 編輯單個步驟的描述、工具和參數
+   */
+  private async editStep(step: PlanStep): Promise<void> {
+    const inquirer = await import('inquirer');
+    const answers = await inquirer.default.prompt<{ description: string; tool: string; params?: string }>([
+      {
+        type: 'input',
+        name: 'description',
+        message: '步驟描述：',
+        default: step.description,
+      },
+      {
+        type: 'input',
+        name: 'tool',
+        message: '工具名稱（留空表示手動步驟）：',
+        default: step.tool || '',
+        validate: (value: string) =>
+          !value.trim() || this.toolRegistry.has(value.trim()) || `工具 "${value}" 不存在`,
+      },
+      {
+        type: 'input',
+        name: 'params',
+        message: '參數（JSON）：',
+        default: JSON.stringify(step.params || {}),
+        when: (current) => Boolean(current.tool?.trim()),
+        validate: (value: string) => {
+          try {
+            const parsed = JSON.parse(value);
+            return (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) || '參數必須是 JSON 對象';
+          } catch {
+            return '無效的 JSON';
+          }
+        },
+      },
+    ]);
+
+    step.description = answers.description.trim() || step.description;
+    const tool = answers.tool.trim();
+    step.tool = tool || undefined;
+    step.params = tool && answers.params ? JSON.parse(answers.params) : undefined;
+  }
+
+  /**
+   * 完整流程：確認或審核計劃後執行，支持恢復中斷的計劃
+   * @param workspaceContext 選擇「修改計劃」時用於重新生成
+   */
+  async runPlan(plan: Plan, workspaceContext?: string): Promise<{ plan: Plan; success: boolean; results: string[] }> {
+    // 草稿：顯示並確認（選擇修改時重新生成）
+    while (plan.status === 'draft') {
+      await this.savePlan(plan);
+      const approved = await this.displayAndConfirmPlan(plan);
+      if (approved) break;
+      if (plan.status === 'draft' && plan.instruction && workspaceContext !== undefined) {
+        plan = await this.generatePlan(plan.instruction, workspaceContext);
+        continue;
+      }
+      plan.status = 'rejected';
+      await this.savePlan(plan);
+      console.log(chalk.yellow("計劃已取消"));
+      return { plan, success: false, results: [] };
+    }
+
+    if (plan.status === 'rejected' || plan.status === 'completed') {
+      console.log(chalk.yellow(`計劃狀態為 ${plan.status}，無需執行`));
+      return { plan, success: plan.status === 'completed', results: [] };
+    }
+
+    // 恢復：失敗的步驟重新執行，尚未審核的步驟先審核
+    for (const step of plan.steps) {
+      if (step.status === 'failed') step.status = 'approved';
+    }
+    if (plan.steps.some(s => s.status === 'pending')) {
+      this.displayPlan(plan);
+      if (!(await this.reviewSteps(plan))) {
+        console.log(chalk.yellow("沒有被批准的步驟"));
+        return { plan, success: false, results: [] };
+      }
+    }
+    plan.status = 'approved';
+
+    const { success, results } = await this.executePlan(plan);
+    return { plan, success, results };
+  }
+
+  /**
+   * 執行計劃中已批准的步驟（已完成或被拒絕的步驟會跳過）
+   * 整個計劃是一個回合：修改的所有文件記錄到同一個檢查點，/undo 整體回滾
    */
   async executePlan(plan: Plan): Promise<{ success: boolean; results: string[] }> {
-    if (plan.status !== 'approved') {
+    if (plan.status !== 'approved' && plan.status !== 'executing') {
       throw new Error("計劃未被批准，無法執行");
     }
 
+    const checkpointError = (error: unknown) =>
+      console.log(chalk.yellow(`檢查點保存失敗: ${error instanceof Error ? error.message : String(error)}`));
+    await globalCheckpointStore.beginTurn(`計劃: ${plan.title}`.slice(0, 80)).catch(checkpointError);
+    try {
+      return await this.executeSteps(plan);
+    } finally {
+      await globalCheckpointStore.endTurn().catch(checkpointError);
+    }
+  }
+
+  private async executeSteps(plan: Plan): Promise<{ success: boolean; results: string[] }> {
     plan.status = 'executing';
+    await this.savePlan(plan);
     const results: string[] = [];
+    const total = plan.steps.length;
 
     console.log(chalk.green("\n🚀 開始執行計劃...\n"));
 
-    for (const step of plan.steps) {
-      console.log(chalk.cyan(`\n📌 執行步驟 ${step.id}: ${step.description}`));
+    for (let i = 0; i < total; i++) {
+      const step = plan.steps[i];
+      const progress = chalk.gray(`[${i + 1}/${total}]`);
+
+      if (step.status === 'completed') {
+        console.log(`${progress} ${chalk.gray(`步驟 ${step.id} 已完成，跳過`)}`);
+        continue;
+      }
+      if (step.status !== 'approved') {
+        console.log(`${progress} ${chalk.gray(`步驟 ${step.id} 未批准，跳過`)}`);
+        continue;
+      }
+
+      console.log(`${progress} ${chalk.cyan(`📌 執行步驟 ${step.id}: ${step.description}`)}`);
 
       try {
         if (step.tool) {
@@ -306,6 +599,7 @@ ${workspaceContext}`,
             step.status = 'failed';
             step.result = result.error || "執行失敗";
             console.log(chalk.red(`❌ 步驟 ${step.id} 失敗: ${result.error}`));
+            await this.savePlan(plan);
             
             // 詢問用戶是否繼續
             const inquirer = await import('inquirer');
@@ -319,7 +613,10 @@ ${workspaceContext}`,
             ]);
 
             if (!continueExecution) {
+              results.push(`步驟 ${step.id}: ${step.result}`);
               plan.status = 'failed';
+              await this.savePlan(plan);
+              console.log(chalk.gray(`計劃已保存，可稍後恢復執行（計劃 ID: ${plan.id}）`));
               return { success: false, results };
             }
           }
@@ -338,21 +635,37 @@ ${workspaceContext}`,
         console.log(chalk.red(`❌ 步驟 ${step.id} 執行異常: ${step.result}`));
         results.push(`步驟 ${step.id}: 異常 - ${step.result}`);
       }
+
+      await this.savePlan(plan);
     }
 
     // 檢查所有步驟狀態
     const failedSteps = plan.steps.filter(s => s.status === 'failed');
     if (failedSteps.length > 0) {
       plan.status = 'failed';
+      await this.savePlan(plan);
       console.log(chalk.red(`\n❌ 計劃執行完成，但有 ${failedSteps.length} 個步驟失敗`));
       return { success: false, results };
     }
 
     plan.status = 'completed';
+    await this.savePlan(plan);
     console.log(chalk.green("\n✅ 計劃執行完成！"));
     return { success: true, results };
   }
 
+  /**
+   * 保存計劃（未配置 planStore 時不做任何事）
+   */
+  private async savePlan(plan: Plan): Promise<void> {
+    if (!this.planStore) return;
+    try {
+      await this.planStore.save(plan);
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️ 計劃保存失敗: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
   /**
    * 獲取步驟狀態圖標
    */
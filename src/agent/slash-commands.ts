@@ -8,6 +8,10 @@
 
 import { LLMClient, ChatMessage } from "../llm/client.js";
 import { WorkspaceContext } from "./types.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { ToolExecutionContext } from "../tools/types.js";
+import type { McpManager } from "../mcp/manager.js";
+import type { CompactionResult } from "./compaction.js";
 
 // 導入重構後的命令處理器
 export { handleSlashCommand } from "./commands/index.js";
@@ -41,6 +45,13 @@ export interface SlashCommandContext {
     listSessions: () => Promise<any[]>;
     deleteSession: (sessionIdOrName: string) => Promise<boolean>;
   };
+  // 工具執行（/plan 等需要直接執行工具的命令）
+  toolRegistry?: ToolRegistry;
+  executionContext?: ToolExecutionContext;
+  // MCP 資源和提示模板（/mcp-resource、/mcp__server__prompt）
+  mcpManager?: McpManager;
+  // 上下文壓縮（/compress），原位修改 messages
+  compactHistory?: () => Promise<CompactionResult>;
 }
 
 export interface SlashCommandResult {
@@ -7,9 +7,10 @@ import chalk from "chalk";
 import { LLMClient, ChatMessage } from "../llm/client.js";
 import { ToolRegistry } from "../tools/registry.js";
 import { ToolExecutor } from "../tools/executor.js";
-import { parseToolCalls } from "../tools/parser.js";
+import { parseToolCalls, parseNativeToolCalls } from "../tools/parser.js";
 import { ToolExecutionContext } from "../tools/types.js";
 import { createSpinner } from "../utils/spinner.js";
+import { isAbortError, throwIfAborted } from "../utils/abort.js";
 
 /**
  * Agent 類型
@@ -26,6 +27,8 @@ export interface AgentConfig {
   systemPrompt?: string;
   maxIterations?: number;
   verbose?: boolean;
+  readOnly?: boolean; // 只允許只讀（safe）工具
+  extraTools?: string[]; // readOnly 下額外允許的工具
 }
 
 /**
@@ -49,6 +52,25 @@ export interface AgentExecutionContext {
   taskId?: string;
 }
 
+/**
+ * 子 Agent 不能再委派任務，避免遞歸
+ */
+const DELEGATE_TOOL_NAME = "delegate_task";
+
+/**
+ * 按 Agent 配置從父註冊中心篩選出受限的工具集
+ */
+function createRestrictedRegistry(parent: ToolRegistry, config: AgentConfig): ToolRegistry {
+  const registry = new ToolRegistry();
+  for (const name of parent.getAllNames()) {
+    if (name === DELEGATE_TOOL_NAME) continue;
+    const tool = parent.get(name)!;
+    if (config.readOnly && !tool.definition.safe && !config.extraTools?.includes(name)) continue;
+    registry.register(tool);
+  }
+  return registry;
+}
+
 /**
  * 基礎 Agent 類
  */
@@ -67,16 +89,17 @@ export abstract class BaseAgent {
     context: AgentExecutionContext
   ) {
     this.llmClient = llmClient;
-    this.toolRegistry = toolRegistry;
-    this.toolExecutor = new ToolExecutor(toolRegistry, executionContext);
+    this.toolRegistry = createRestrictedRegistry(toolRegistry, config);
+    this.toolExecutor = new ToolExecutor(this.toolRegistry, executionContext);
     this.config = config;
     this.context = context;
   }
 
   /**
    * 執行 Agent 任務
+   * @param signal 取消信號（主回合被 Ctrl+C 取消時觸發）：停止 LLM 請求和工具執行
    */
-  async execute(task: string, workspaceContext: string): Promise<AgentResult> {
+  async execute(task: string, workspaceContext: string, signal?: AbortSignal): Promise<AgentResult> {
     const maxIterations = this.config.maxIterations || 10;
     let iterations = 0;
     let toolCallsExecuted = 0;
@@ -100,14 +123,15 @@ export abstract class BaseAgent {
 
     try {
       while (iterations < maxIterations) {
+        throwIfAborted(signal);
         iterations++;
 
-        // 調用 LLM
-        const response = await this.llmClient.chat(messages, false, openaiTools);
-        
-        // 解析工具調用
-        const { toolCalls, textContent } = parseToolCalls(response);
-        finalOutput = textContent;
+        // 調用 LLM（優先使用原生 tool_calls，沒有時回退到 XML）
+        const response = await this.llmClient.chatWithToolCalls(messages, openaiTools, false, signal);
+        const parsed = parseToolCalls(response.content);
+        const useNative = response.toolCalls.length > 0;
+        const toolCalls = useNative ? parseNativeToolCalls(response.toolCalls) : parsed.toolCalls;
+        finalOutput = parsed.textContent;
 
         // 如果沒有工具調用，任務完成
         if (toolCalls.length === 0) {
@@ -115,26 +139,34 @@ export abstract class BaseAgent {
         }
 
         // 將 assistant 回應加入對話歷史
-        messages.push({ role: "assistant", content: response });
+        messages.push(
+          useNative
+            ? { role: "assistant", content: response.content, tool_calls: response.toolCalls }
+            : { role: "assistant", content: response.content }
+        );
 
         // 執行工具調用
         const toolResults: string[] = [];
         for (const toolCall of toolCalls) {
-          const result = await this.toolExecutor.execute(toolCall);
+          throwIfAborted(signal);
+          const result = await this.toolExecutor.execute(toolCall, signal);
           toolCallsExecuted++;
 
-          if (result.success) {
-            toolResults.push(`[工具: ${toolCall.tool}]\n${result.output || "(成功)"}`);
+          const resultText = result.success ? (result.output || "(成功)") : `錯誤: ${result.error}`;
+          if (useNative && toolCall.id) {
+            messages.push({ role: "tool", tool_call_id: toolCall.id, content: resultText });
           } else {
-            toolResults.push(`[工具: ${toolCall.tool}] 錯誤: ${result.error}`);
+            toolResults.push(`[工具: ${toolCall.tool}]\n${resultText}`);
           }
         }
 
         // 將工具結果加入對話歷史
-        messages.push({
-          role: "user",
-          content: `[工具執行結果]\n${toolResults.join("\n\n")}`,
-        });
+        if (toolResults.length > 0) {
+          messages.push({
+            role: "user",
+            content: `[工具執行結果]\n${toolResults.join("\n\n")}`,
+          });
+        }
       }
 
       spinner.stop();
@@ -156,7 +188,9 @@ export abstract class BaseAgent {
         output: finalOutput,
         iterations,
         toolCallsExecuted,
-        error: error instanceof Error ? error.message : String(error),
+        error: isAbortError(error) || signal?.aborted
+          ? "已被用戶取消"
+          : error instanceof Error ? error.message : String(error),
       };
     }
   }
@@ -207,6 +241,7 @@ export class ExploreAgent extends BaseAgent {
       description: '專門用於探索代碼庫結構，分析項目架構，查找特定文件或代碼',
       maxIterations: 15,
       verbose: false,
+      readOnly: true,
     }, context);
   }
 
@@ -251,6 +286,7 @@ export class PlanAgent extends BaseAgent {
       description: '專門用於分析需求並生成詳細的實施計劃',
       maxIterations: 10,
       verbose: false,
+      readOnly: true,
     }, context);
   }
 
@@ -297,6 +333,8 @@ export class VerificationAgent extends BaseAgent {
       description: '專門用於驗證代碼修改的正確性，檢查錯誤和潛在問題',
       maxIterations: 12,
       verbose: false,
+      readOnly: true,
+      extraTools: ['run_command'], // 需要運行測試
     }, context);
   }
 
@@ -386,10 +424,11 @@ export class AgentManager {
     type: AgentType,
     task: string,
     workspaceContext: string,
-    context: AgentExecutionContext
+    context: AgentExecutionContext,
+    signal?: AbortSignal
   ): Promise<AgentResult> {
     const agent = this.getAgent(type, context);
-    return await agent.execute(task, workspaceContext);
+    return await agent.execute(task, workspaceContext, signal);
   }
 
   /**
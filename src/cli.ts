@@ -2,24 +2,34 @@
 
 // 加载 .env 文件（必须在最开始，优先级最低）
 import dotenv from "dotenv";
-dotenv.config(); // 从当前目录加载 .env
+dotenv.config({ quiet: true }); // 从当前目录加载 .env（不輸出提示，避免污染 --json 和 mcp serve 的 stdout）
 
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import fs from "fs";
 import path from "path";
 import chalk from "chalk";
 import { BailuAgent } from "./agent/core.js";
-import { LLMClient } from "./llm/client.js";
-import { buildAskPrompt, buildFixPrompt } from "./llm/prompts.js";
-import { ensureApiKeyInteractive, mergeConfigs } from "./config.js";
+import { LLMClient, llmOptionsFromConfig } from "./llm/client.js";
+import { buildAskPrompt, buildFixPrompt, buildWorkspaceSummary } from "./llm/prompts.js";
+import { BailuCliConfig, ensureApiKeyInteractive, mergeConfigs, resolveProviderApiKey } from "./config.js";
 import { AgentOrchestrator } from "./agent/orchestrator.js";
-import { globalToolRegistry, builtinTools, ToolExecutionContext } from "./tools/index.js";
+import { globalToolRegistry, builtinTools, createDelegateTaskTool, ToolExecutionContext, ToolExecutor, ToolRegistry } from "./tools/index.js";
 import { SessionManager } from "./agent/session.js";
 import { ChatSession } from "./agent/chat.js";
-import { FixCommandOptions, RunCommandOptions } from "./types/cli.js";
+import { PlanMode, PlanStore, formatPlanList } from "./agent/plan-mode.js";
+import { ApplyCommandOptions, BudgetCommandOptions, FixCommandOptions, McpServeCommandOptions, PlanCommandOptions, RunCommandOptions } from "./types/cli.js";
 import { fileURLToPath } from "url";
 import { setOutputOptions, isQuiet, isJsonMode, outputJson, log, logError } from "./utils/output.js";
 import { McpManager } from "./mcp/manager.js";
+import { McpStdioServer } from "./mcp/server.js";
+import { createBailuTaskTool } from "./mcp/bailu-task.js";
+import { configurePolicy } from "./runtime/policy.js";
+import { globalCostTracker } from "./utils/cost-tracker.js";
+import { formatBudgetStatus, parseBudgetValue } from "./utils/budget.js";
+import { findGitRoot } from "./utils/git.js";
+import { WorktreeManager, WorktreeRun } from "./git/worktree.js";
+import { globalCheckpointStore } from "./runtime/checkpoints.js";
+import { colorizePatch } from "./fs/diff.js";
 
 // 动态读取 package.json 版本号
 function getPackageVersion(): string {
@@ -42,11 +52,11 @@ async function handleAsk(question: string | undefined) {
     return;
   }
 
-  const apiKey = await ensureApiKeyInteractive();
   const config = mergeConfigs();
+  const apiKey = await ensureApiKeyInteractive(config);
   const agent = new BailuAgent();
   const ctx = agent.getWorkspaceContext();
-  const llm = new LLMClient({ apiKey, baseUrl: config.baseUrl, model: config.model });
+  const llm = new LLMClient(llmOptionsFromConfig(config, apiKey));
   const messages = buildAskPrompt(ctx, question);
 
   // JSON 模式：收集完整回應後結構化輸出
@@ -68,6 +78,66 @@ async function handleAsk(question: string | undefined) {
   console.log("\n"); // 結束後換行
 }
 
+/**
+ * 把配置中的安全相關設置（shell 模式、權限規則、沙箱、敏感信息處理）應用到命令執行策略
+ */
+function applyPolicyConfig(config: BailuCliConfig) {
+  configurePolicy({
+    allowShell: config.shellMode,
+    permissionRules: config.permissions,
+    sandbox: config.sandbox,
+    sandboxNetwork: config.sandboxNetwork,
+    scrubEnv: config.scrubEnv,
+    keepEnv: config.keepEnv,
+    redactSecrets: config.redactSecrets,
+  });
+}
+
+/**
+ * 命令行中的預算選項（只返回已設置的項，避免覆蓋配置文件中的值）
+ */
+function budgetArgs(options: BudgetCommandOptions): Partial<BailuCliConfig> {
+  const args: Partial<BailuCliConfig> = {};
+  if (options.maxCost !== undefined) args.maxCost = options.maxCost;
+  if (options.maxTokens !== undefined) args.maxTokens = options.maxTokens;
+  return args;
+}
+
+/**
+ * 把配置中的預算上限應用到成本追蹤器，LLM 客戶端在每次請求前檢查
+ */
+function applyBudgetConfig(config: BailuCliConfig) {
+  globalCostTracker.setBudget({ maxCost: config.maxCost, maxTokens: config.maxTokens });
+  if (globalCostTracker.hasBudget()) {
+    log(chalk.gray(`預算上限: ${formatBudgetStatus(globalCostTracker.getBudgetStatus()).join("；")}`));
+  }
+}
+
+/**
+ * fix / run 的 Ctrl+C：第一次取消任務（停止 LLM 請求、終止命令的整個進程組），第二次直接退出
+ * 命令作為獨立的進程組運行，收不到終端的 SIGINT，必須由這裡取消
+ */
+function cancelOnSigint(): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onSigint = () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    logError(chalk.yellow("\n正在取消任務，再按一次 Ctrl+C 強制退出"));
+    controller.abort();
+  };
+  process.on("SIGINT", onSigint);
+  return { signal: controller.signal, dispose: () => process.off("SIGINT", onSigint) };
+}
+
+function parseBudgetOption(value: string): number {
+  const parsed = parseBudgetValue(value);
+  if (parsed === undefined) {
+    throw new InvalidArgumentError("必須是正數");
+  }
+  return parsed;
+}
+
 async function handleFix(instruction: string | undefined, options: FixCommandOptions = {}) {
   if (!instruction) {
     console.log(chalk.yellow("請描述你想修改的內容，例如："));
@@ -76,95 +146,194 @@ async function handleFix(instruction: string | undefined, options: FixCommandOpt
     return;
   }
 
-  const apiKey = await ensureApiKeyInteractive();
-  
   // 合并所有配置源（CLI 参数 > 项目配置 > 用户配置 > 环境变量 > 默认值）
   const config = mergeConfigs({
     safetyMode: options.mode,
     maxIterations: options.maxIterations,
     verbose: options.verbose,
+    ...budgetArgs(options),
   });
+  const apiKey = await ensureApiKeyInteractive(config);
+  applyPolicyConfig(config);
+  applyBudgetConfig(config);
   
   // 註冊所有內建工具
   globalToolRegistry.registerAll(builtinTools);
 
+  // --worktree：之後的文件修改、命令和 MCP 伺服器都在臨時 worktree 中運行
+  const worktree = options.worktree ? await enterWorktree(instruction) : null;
+  if (options.worktree && !worktree) {
+    return;
+  }
+  // 只結束一次：JSON 模式需要在輸出前拿到運行 ID，其餘情況（包括出錯）在 finally 中結束
+  let finished: Promise<string | undefined> | undefined;
+  const finishWorktree = () => (worktree ? (finished ??= leaveWorktree(worktree)) : Promise.resolve(undefined));
+
+  // 連接 MCP 伺服器並註冊外部工具
+  const mcpManager = new McpManager();
+  try {
+    await mcpManager.initialize(process.cwd(), globalToolRegistry);
+
+    // 構建執行上下文
+    const executionContext: ToolExecutionContext = {
+      workspaceRoot: process.cwd(),
+      safetyMode: config.safetyMode!,
+      verbose: config.verbose!,
+    };
+
+    // 創建 Agent 和 Orchestrator
+    const agent = new BailuAgent();
+    const ctx = agent.getWorkspaceContext();
+    const llm = new LLMClient(llmOptionsFromConfig(config, apiKey));
+
+    // 註冊子 Agent 委派工具（需要 LLM 客戶端，無法放在 builtinTools）
+    globalToolRegistry.register(createDelegateTaskTool({
+      llmClient: llm,
+      toolRegistry: globalToolRegistry,
+      executionContext,
+      workspaceContext: buildWorkspaceSummary(ctx),
+    }));
+
+    const orchestrator = new AgentOrchestrator({
+      llmClient: llm,
+      toolRegistry: globalToolRegistry,
+      executionContext,
+      maxIterations: config.maxIterations!,
+      verbose: config.verbose!,
+      toolCallMode: config.toolCallMode,
+      maxParallelTools: config.maxParallelTools,
+    });
+
+    // 構建初始消息
+    const messages = buildFixPrompt(ctx, instruction);
+
+    log(chalk.green(`\n[開始執行任務] 模式: ${config.safetyMode}`));
+    log(chalk.gray(`工作目錄: ${process.cwd()}`));
+    log(chalk.gray(`可用工具: ${globalToolRegistry.getAllNames().join(", ")}\n`));
+
+    // 執行 Agent 循環
+    const interrupt = cancelOnSigint();
+    const result = await orchestrator.run(messages, true, false, interrupt.signal).finally(interrupt.dispose);
+
+    // JSON 模式：結構化輸出
+    if (isJsonMode()) {
+      outputJson({
+        success: result.success,
+        command: 'fix',
+        result: result.finalResponse || undefined,
+        error: result.error,
+        iterations: result.iterations,
+        toolCalls: result.toolCallsExecuted,
+        model: config.model,
+        budgetExceeded: result.budgetExceeded || undefined,
+        cost: globalCostTracker.getStats().totalCost,
+        tokens: globalCostTracker.getStats().totalTokens,
+        worktree: await finishWorktree(),
+      });
+      return;
+    }
+
+    if (result.success) {
+      log(chalk.green(`\n✓ 任務完成`));
+      log(chalk.gray(`循環次數: ${result.iterations}`));
+      log(chalk.gray(`工具調用: ${result.toolCallsExecuted} 次`));
+      if (result.finalResponse) {
+        log(chalk.cyan("\n[最終回應]"));
+        console.log(result.finalResponse);
+      }
+    } else {
+      logError(chalk.red(`\n✗ 任務失敗: ${result.error}`));
+    }
+  } finally {
+    // 清理 MCP 連接
+    mcpManager.disconnectAll();
+    await finishWorktree();
+  }
+}
+
+async function handlePlan(description: string | undefined, options: PlanCommandOptions) {
+  const planStore = new PlanStore();
+
+  if (options.list) {
+    console.log(formatPlanList(await planStore.list()));
+    return;
+  }
+
+  if (!description && !options.resume) {
+    console.log(chalk.yellow("請提供任務描述，例如："));
+    console.log(chalk.cyan("  bailu plan --execute \"為 utils 模組添加單元測試\""));
+    console.log(chalk.cyan("  bailu plan --resume latest"));
+    return;
+  }
+
+  const config = mergeConfigs();
+  const apiKey = await ensureApiKeyInteractive(config);
+  applyPolicyConfig(config);
+  applyBudgetConfig(config);
+
+  // 註冊所有內建工具
+  globalToolRegistry.registerAll(builtinTools);
+
   // 連接 MCP 伺服器並註冊外部工具
   const mcpManager = new McpManager();
   await mcpManager.initialize(process.cwd(), globalToolRegistry);
 
-  // 構建執行上下文
   const executionContext: ToolExecutionContext = {
     workspaceRoot: process.cwd(),
     safetyMode: config.safetyMode!,
     verbose: config.verbose!,
   };
 
-  // 創建 Agent 和 Orchestrator
   const agent = new BailuAgent();
   const ctx = agent.getWorkspaceContext();
-  const llm = new LLMClient({ apiKey, baseUrl: config.baseUrl, model: config.model });
-  const orchestrator = new AgentOrchestrator({
+  const llm = new LLMClient(llmOptionsFromConfig(config, apiKey));
+  const planMode = new PlanMode({
     llmClient: llm,
     toolRegistry: globalToolRegistry,
     executionContext,
-    maxIterations: config.maxIterations!,
-    verbose: config.verbose!,
+    verbose: config.verbose,
+    planStore,
   });
+  const workspaceSummary = buildWorkspaceSummary(ctx);
 
-  // 構建初始消息
-  const messages = buildFixPrompt(ctx, instruction);
-
-  log(chalk.green(`\n[開始執行任務] 模式: ${config.safetyMode}`));
-  log(chalk.gray(`工作目錄: ${process.cwd()}`));
-  log(chalk.gray(`可用工具: ${globalToolRegistry.getAllNames().join(", ")}\n`));
-
-  // 執行 Agent 循環
-  const result = await orchestrator.run(messages, true);
+  try {
+    if (options.resume) {
+      const plan = options.resume === "latest"
+        ? await planStore.findLatestUnfinished()
+        : await planStore.load(options.resume);
+      if (!plan) {
+        console.log(chalk.red(`找不到計劃: ${options.resume}`));
+        return;
+      }
+      console.log(chalk.green(`\n[恢復計劃] ID: ${plan.id}`));
+      await planMode.runPlan(plan, workspaceSummary);
+      return;
+    }
 
-  // JSON 模式：結構化輸出
-  if (isJsonMode()) {
-    outputJson({
-      success: result.success,
-      command: 'fix',
-      result: result.finalResponse || undefined,
-      error: result.error,
-      iterations: result.iterations,
-      toolCalls: result.toolCallsExecuted,
-      model: config.model,
-    });
-    return;
-  }
+    const plan = await planMode.generatePlan(description!, workspaceSummary);
+    await planStore.save(plan);
 
-  if (result.success) {
-    log(chalk.green(`\n✓ 任務完成`));
-    log(chalk.gray(`循環次數: ${result.iterations}`));
-    log(chalk.gray(`工具調用: ${result.toolCallsExecuted} 次`));
-    if (result.finalResponse) {
-      log(chalk.cyan("\n[最終回應]"));
-      console.log(result.finalResponse);
+    if (!options.execute) {
+      planMode.displayPlan(plan);
+      console.log(chalk.gray(`計劃已保存，可以使用 "bailu plan --resume ${plan.id}" 審核並執行`));
+      return;
     }
-  } else {
-    logError(chalk.red(`\n✗ 任務失敗: ${result.error}`));
-  }
 
-  // 清理 MCP 連接
-  mcpManager.disconnectAll();
-}
-
-async function handlePlan(description: string | undefined) {
-  console.log(chalk.cyan("[Bailu]"), "規劃模式尚在開發中。");
-  if (description) {
-    console.log("你的描述：", description);
+    await planMode.runPlan(plan, workspaceSummary);
+  } finally {
+    // 清理 MCP 連接
+    mcpManager.disconnectAll();
   }
 }
 
 async function handleChat() {
-  const apiKey = await ensureApiKeyInteractive();
-  
   // 合并所有配置源（CLI 参数 > 项目配置 > 用户配置 > 环境变量 > 默认值）
   const config = mergeConfigs({
     verbose: false, // chat 模式默認不顯示詳細日誌
   });
+  const apiKey = await ensureApiKeyInteractive(config);
+  applyPolicyConfig(config);
+  applyBudgetConfig(config);
   
   // 註冊工具
   globalToolRegistry.registerAll(builtinTools);
@@ -181,13 +350,24 @@ async function handleChat() {
 
   const agent = new BailuAgent();
   const ctx = agent.getWorkspaceContext();
-  const llm = new LLMClient({ apiKey, baseUrl: config.baseUrl, model: config.model });
+  const llm = new LLMClient(llmOptionsFromConfig(config, apiKey));
+
+  // 註冊子 Agent 委派工具（需要 LLM 客戶端，無法放在 builtinTools）
+  globalToolRegistry.register(createDelegateTaskTool({
+    llmClient: llm,
+    toolRegistry: globalToolRegistry,
+    executionContext,
+    workspaceContext: buildWorkspaceSummary(ctx),
+  }));
 
   const chatSession = new ChatSession({
     llmClient: llm,
     toolRegistry: globalToolRegistry,
     workspaceContext: ctx,
     executionContext,
+    toolCallMode: config.toolCallMode,
+    maxParallelTools: config.maxParallelTools,
+    mcpManager,
   });
 
   await chatSession.start();
@@ -197,12 +377,12 @@ async function handleChat() {
 }
 
 async function handleRun(description: string | undefined, options: RunCommandOptions) {
-  const apiKey = await ensureApiKeyInteractive();
+  const apiKey = await ensureApiKeyInteractive(mergeConfigs());
   const sessionManager = new SessionManager();
 
   // 如果提供 --resume 選項，恢復已有任務
   if (options.resume) {
-    await handleResumeSession(options.resume, apiKey, sessionManager);
+    await handleResumeSession(options.resume, apiKey, sessionManager, budgetArgs(options), options.worktree);
     return;
   }
 
@@ -234,10 +414,26 @@ async function handleRun(description: string | undefined, options: RunCommandOpt
   console.log(chalk.gray(`可以使用 "bailu run --resume ${session.sessionId}" 恢復此任務\n`));
 
   // 執行任務
-  await executeTask(description, apiKey, session.sessionId, sessionManager);
+  const worktree = options.worktree ? await enterWorktree(description) : null;
+  if (options.worktree && !worktree) {
+    return;
+  }
+  try {
+    await executeTask(description, apiKey, session.sessionId, sessionManager, budgetArgs(options));
+  } finally {
+    if (worktree) {
+      await leaveWorktree(worktree);
+    }
+  }
 }
 
-async function handleResumeSession(sessionId: string, apiKey: string, sessionManager: SessionManager) {
+async function handleResumeSession(
+  sessionId: string,
+  apiKey: string,
+  sessionManager: SessionManager,
+  cliConfig: Partial<BailuCliConfig> = {},
+  useWorktree = false
+) {
   const session = await sessionManager.loadSession(sessionId);
   if (!session) {
     console.log(chalk.red(`會話 ${sessionId} 不存在`));
@@ -250,7 +446,17 @@ async function handleResumeSession(sessionId: string, apiKey: string, sessionMan
 
   // 繼續執行
   globalToolRegistry.registerAll(builtinTools);
-  await executeTask(session.task.description, apiKey, session.sessionId, sessionManager);
+  const worktree = useWorktree ? await enterWorktree(session.task.description) : null;
+  if (useWorktree && !worktree) {
+    return;
+  }
+  try {
+    await executeTask(session.task.description, apiKey, session.sessionId, sessionManager, cliConfig);
+  } finally {
+    if (worktree) {
+      await leaveWorktree(worktree);
+    }
+  }
 }
 
 async function handleListSessions(sessionManager: SessionManager) {
@@ -280,9 +486,12 @@ async function executeTask(
   description: string,
   apiKey: string,
   sessionId: string,
-  sessionManager: SessionManager
+  sessionManager: SessionManager,
+  cliConfig: Partial<BailuCliConfig> = {}
 ) {
-  const config = mergeConfigs();
+  const config = mergeConfigs(cliConfig);
+  applyPolicyConfig(config);
+  applyBudgetConfig(config);
   const executionContext: ToolExecutionContext = {
     workspaceRoot: process.cwd(),
     safetyMode: config.safetyMode!,
@@ -291,20 +500,32 @@ async function executeTask(
 
   const agent = new BailuAgent();
   const ctx = agent.getWorkspaceContext();
-  const llm = new LLMClient({ apiKey, baseUrl: config.baseUrl, model: config.model });
+  const llm = new LLMClient(llmOptionsFromConfig(config, apiKey));
+
+  // 註冊子 Agent 委派工具（需要 LLM 客戶端，無法放在 builtinTools）
+  globalToolRegistry.register(createDelegateTaskTool({
+    llmClient: llm,
+    toolRegistry: globalToolRegistry,
+    executionContext,
+    workspaceContext: buildWorkspaceSummary(ctx),
+  }));
+
   const orchestrator = new AgentOrchestrator({
     llmClient: llm,
     toolRegistry: globalToolRegistry,
     executionContext,
     maxIterations: config.maxIterations || 15,
     verbose: true,
+    toolCallMode: config.toolCallMode,
+    maxParallelTools: config.maxParallelTools,
   });
 
   const messages = buildFixPrompt(ctx, description);
 
   console.log(chalk.green(`[開始執行] 模式: ${config.safetyMode}\n`));
 
-  const result = await orchestrator.run(messages, true);
+  const interrupt = cancelOnSigint();
+  const result = await orchestrator.run(messages, true, false, interrupt.signal).finally(interrupt.dispose);
 
   // 保存執行記錄
   const session = await sessionManager.loadSession(sessionId);
@@ -326,6 +547,214 @@ async function executeTask(
   }
 }
 
+interface ActiveWorktree {
+  manager: WorktreeManager;
+  run: WorktreeRun;
+  originalCwd: string;
+}
+
+/**
+ * --worktree：在臨時 git worktree 的一次性分支上運行，當前工作目錄不會被修改
+ * 無法創建時輸出錯誤並返回 null
+ */
+async function enterWorktree(task: string): Promise<ActiveWorktree | null> {
+  const originalCwd = process.cwd();
+  const repoRoot = findGitRoot(originalCwd);
+  if (!repoRoot) {
+    logError(chalk.red("--worktree 需要在 Git 倉庫中使用"));
+    return null;
+  }
+
+  const manager = new WorktreeManager(repoRoot);
+  try {
+    const run = await manager.create(task);
+    process.chdir(path.join(run.worktreePath, path.relative(repoRoot, originalCwd)));
+    log(chalk.cyan(`[Worktree] ${run.id}（分支 ${run.branch}）`));
+    log(chalk.gray(`文件修改和命令都在 ${run.worktreePath} 中進行，當前工作目錄不會被修改`));
+    return { manager, run, originalCwd };
+  } catch (error) {
+    logError(chalk.red(`創建 worktree 失敗: ${error instanceof Error ? error.message : String(error)}`));
+    return null;
+  }
+}
+
+/**
+ * 結束 worktree 運行：把修改提交到分支並顯示統計，沒有修改時直接刪除
+ * @returns 有修改時返回運行 ID
+ */
+async function leaveWorktree(active: ActiveWorktree): Promise<string | undefined> {
+  const { manager } = active;
+  process.chdir(active.originalCwd);
+
+  let run: WorktreeRun;
+  try {
+    run = await manager.finish(active.run);
+  } catch (error) {
+    logError(chalk.red(`提交 worktree 修改失敗: ${error instanceof Error ? error.message : String(error)}`));
+    return active.run.id;
+  }
+
+  if (manager.changedFiles(run).length === 0) {
+    await manager.discard(run);
+    log(chalk.gray(`\n[Worktree] 沒有修改任何文件，已刪除 ${run.id}`));
+    return undefined;
+  }
+
+  log(chalk.cyan(`\n[Worktree] 修改已提交到分支 ${run.branch}`));
+  log(manager.diff(run, true).split("\n").map((line) => `  ${line.trim()}`).join("\n"));
+  log(chalk.gray(`\n查看 diff:   bailu apply ${run.id} --diff`));
+  log(chalk.gray(`應用修改:    bailu apply ${run.id}`));
+  log(chalk.gray(`丟棄:        bailu apply ${run.id} --discard`));
+  return run.id;
+}
+
+/**
+ * bailu apply <runId> - 把 --worktree 運行的修改應用到當前工作目錄，或查看 / 丟棄
+ */
+async function handleApply(runId: string | undefined, options: ApplyCommandOptions) {
+  const repoRoot = findGitRoot(process.cwd());
+  if (!repoRoot) {
+    console.log(chalk.red("bailu apply 需要在 Git 倉庫中使用"));
+    return;
+  }
+  const manager = new WorktreeManager(repoRoot);
+
+  if (options.list) {
+    const runs = await manager.list();
+    if (runs.length === 0) {
+      console.log(chalk.gray("沒有 worktree 運行（使用 bailu fix --worktree 或 bailu run --worktree 創建）"));
+      return;
+    }
+    console.log(chalk.cyan("\n[Worktree 運行]\n"));
+    for (const run of runs) {
+      const statusColor = run.status === "applied" ? chalk.green : run.status === "discarded" ? chalk.gray : chalk.yellow;
+      console.log(chalk.bold(run.id));
+      console.log(chalk.gray(`  任務: ${run.task}`));
+      console.log(statusColor(`  狀態: ${run.status}`));
+      console.log(chalk.gray(`  創建時間: ${new Date(run.createdAt).toLocaleString()}`));
+      console.log();
+    }
+    return;
+  }
+
+  if (!runId) {
+    console.log(chalk.yellow("請提供運行 ID，例如："));
+    console.log(chalk.cyan("  bailu apply wt_1234567_abc"));
+    console.log(chalk.cyan("  bailu apply latest --diff"));
+    console.log(chalk.cyan("  bailu apply --list"));
+    return;
+  }
+
+  const run = await manager.load(runId);
+  if (!run) {
+    console.log(chalk.red(`找不到 worktree 運行: ${runId}`));
+    return;
+  }
+  if (run.status === "applied" || run.status === "discarded") {
+    console.log(chalk.yellow(`運行 ${run.id} 已${run.status === "applied" ? "應用" : "丟棄"}`));
+    return;
+  }
+
+  if (options.discard) {
+    await manager.discard(run);
+    console.log(chalk.green(`✓ 已丟棄 ${run.id}（刪除 worktree 和分支 ${run.branch}）`));
+    return;
+  }
+
+  if (options.diff) {
+    const diff = manager.diff(await manager.finish(run));
+    console.log(diff ? colorizePatch(diff) : chalk.gray("(無改動)"));
+    return;
+  }
+
+  // 應用前創建檢查點，之後可以在 chat 中用 /undo 回滾
+  const result = await manager.apply(run, async (files) => {
+    await globalCheckpointStore.beginTurn(`bailu apply ${run.id}: ${run.task}`);
+    for (const file of files) {
+      await globalCheckpointStore.recordFile(path.join(repoRoot, file));
+    }
+  });
+  await globalCheckpointStore.endTurn();
+
+  if (!result.success) {
+    console.log(chalk.red(`✗ 無法應用 ${run.id}，工作目錄沒有被修改：`));
+    console.log(chalk.gray(result.error ?? ""));
+    console.log(chalk.gray(`\n本地文件可能在運行之後又被修改過，可以查看分支 ${run.branch} 手動合併，或使用 --discard 丟棄`));
+    return;
+  }
+
+  console.log(chalk.green(`✓ 已應用 ${run.id}，修改了 ${result.files.length} 個文件：`));
+  result.files.forEach((file) => console.log(chalk.gray(`  ~ ${file}`)));
+  console.log(chalk.gray(`\n修改未提交，可以用 git diff 查看`));
+}
+
+/**
+ * bailu mcp serve - 通過 MCP stdio 把內建工具和 bailu_task 提供給其他 Agent / 編輯器
+ */
+async function handleMcpServe(options: McpServeCommandOptions) {
+  // stdout 只用於協議消息：其他輸出（日誌、工具執行信息、流式回應）全部轉到 stderr
+  const writeProtocol = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+
+  const config = mergeConfigs(options.mode ? { safetyMode: options.mode } : {});
+  applyPolicyConfig(config);
+
+  // 無法交互確認：review 模式下需要確認的操作會被拒絕，除非命中 allow 規則或已保存的授權
+  const executionContext: ToolExecutionContext = {
+    workspaceRoot: process.cwd(),
+    safetyMode: config.safetyMode!,
+    verbose: false,
+    interactive: false,
+  };
+
+  globalToolRegistry.registerAll(builtinTools);
+  const serveRegistry = new ToolRegistry();
+  serveRegistry.registerAll(builtinTools);
+
+  // 有 API Key（或提供方不需要 Key）時提供 bailu_task（不交互詢問 API Key）
+  // bailu_task 會修改文件和執行命令，review 模式下無法確認，因此只在 auto-apply / dry-run 模式下提供
+  const apiKey = resolveProviderApiKey(config);
+  if (config.safetyMode === "review") {
+    console.error(chalk.yellow("[MCP] review 模式下無法確認 bailu_task（會修改文件和執行命令），只提供內建工具；使用 --mode auto-apply 啟用"));
+  } else if (apiKey !== undefined) {
+    const agent = new BailuAgent();
+    serveRegistry.register(createBailuTaskTool({
+      llmClient: new LLMClient(llmOptionsFromConfig(config, apiKey)),
+      toolRegistry: globalToolRegistry,
+      executionContext,
+      workspaceContext: agent.getWorkspaceContext(),
+      maxIterations: config.maxIterations,
+      toolCallMode: config.toolCallMode,
+      maxParallelTools: config.maxParallelTools,
+    }));
+  } else {
+    console.error(chalk.yellow("[MCP] 未配置 BAILU_API_KEY，bailu_task 不可用，只提供內建工具"));
+  }
+
+  const executor = new ToolExecutor(serveRegistry, executionContext);
+  const checkpointError = (error: unknown) =>
+    console.error(chalk.yellow(`[MCP] 檢查點保存失敗: ${error instanceof Error ? error.message : String(error)}`));
+  const server = new McpStdioServer(
+    { name: "bailu-cli", version: getPackageVersion() },
+    {
+      listTools: () => serveRegistry.getAllDefinitions(),
+      // 每次工具調用是一個回合，結束時記錄文件的最終狀態，之後的 /undo 才能判斷是否有衝突
+      callTool: async (name, args) => {
+        await globalCheckpointStore.beginTurn(`MCP ${name}`).catch(checkpointError);
+        try {
+          return await executor.execute({ tool: name, params: args });
+        } finally {
+          await globalCheckpointStore.endTurn().catch(checkpointError);
+        }
+      },
+    },
+    (chunk) => { writeProtocol(chunk); }
+  );
+
+  console.error(chalk.gray(`[MCP] Bailu MCP 伺服器已啟動 (stdio)，模式: ${config.safetyMode}，工作目錄: ${process.cwd()}`));
+  await server.serve(process.stdin);
+}
+
 function loadLogo(): string | null {
   try {
     // 從 CLI 安裝目錄加載 logo（而不是用戶的工作目錄）
@@ -380,6 +809,9 @@ async function main() {
     .option("--mode <mode>", "安全模式: dry-run, review, auto-apply", "review")
     .option("--verbose", "顯示詳細日誌")
     .option("--max-iterations <n>", "最大迭代次數", parseInt)
+    .option("--max-cost <amount>", "費用上限（人民幣），用完後停止", parseBudgetOption)
+    .option("--max-tokens <n>", "token 上限（輸入 + 輸出），用完後停止", parseBudgetOption)
+    .option("--worktree", "在臨時 git worktree 的一次性分支上修改，完成後用 bailu apply 應用")
     .action(async (instructionParts: string[], options: FixCommandOptions) => {
       const instruction = instructionParts?.join(" ");
       await handleFix(instruction, options);
@@ -387,11 +819,14 @@ async function main() {
 
   program
     .command("plan")
-    .description("生成對當前需求或問題的技術實施計畫")
+    .description("生成對當前需求或問題的技術實施計畫，可逐步審核後執行")
     .argument("[description...]", "任務描述")
-    .action(async (descriptionParts: string[]) => {
+    .option("--execute", "生成計劃後審核並執行")
+    .option("--resume <planId>", "恢復未完成的計劃（latest 表示最近一個）")
+    .option("--list", "列出所有保存的計劃")
+    .action(async (descriptionParts: string[], options: PlanCommandOptions) => {
       const description = descriptionParts?.join(" ");
-      await handlePlan(description);
+      await handlePlan(description, options);
     });
 
   program
@@ -407,19 +842,44 @@ async function main() {
     .argument("[description...]", "任務描述")
     .option("--resume <sessionId>", "恢復已有任務會話")
     .option("--list", "列出所有保存的會話")
+    .option("--max-cost <amount>", "費用上限（人民幣），用完後停止", parseBudgetOption)
+    .option("--max-tokens <n>", "token 上限（輸入 + 輸出），用完後停止", parseBudgetOption)
+    .option("--worktree", "在臨時 git worktree 的一次性分支上修改，完成後用 bailu apply 應用")
     .action(async (descriptionParts: string[], options: RunCommandOptions) => {
       const description = descriptionParts?.join(" ");
       await handleRun(description, options);
     });
 
+  program
+    .command("apply")
+    .description("把 --worktree 運行的修改應用到當前工作目錄")
+    .argument("[runId]", "運行 ID（latest 表示最近一個）")
+    .option("--diff", "只顯示修改，不應用")
+    .option("--discard", "丟棄修改，刪除 worktree 和分支")
+    .option("--list", "列出所有 worktree 運行")
+    .action(async (runId: string | undefined, options: ApplyCommandOptions) => {
+      await handleApply(runId, options);
+    });
+
+  program
+    .command("mcp")
+    .description("MCP 相關命令")
+    .command("serve")
+    .description("作為 MCP 伺服器（stdio）運行，提供內建工具和 bailu_task 給其他 Agent 或編輯器")
+    .option("--mode <mode>", "安全模式: dry-run, review, auto-apply（默認使用配置）")
+    .action(async (options: McpServeCommandOptions) => {
+      await handleMcpServe(options);
+    });
+
   program
     .command("models")
-    .description("列出當前白鹿賬號可用的模型 ID")
+    .description("列出當前提供方（默認白鹿）可用的模型 ID")
     .action(async () => {
       try {
-        const apiKey = await ensureApiKeyInteractive();
-        const client = new LLMClient({ apiKey });
-        console.log(chalk.gray("正在從白鹿獲取模型列表..."));
+        const config = mergeConfigs();
+        const apiKey = await ensureApiKeyInteractive(config);
+        const client = new LLMClient(llmOptionsFromConfig(config, apiKey));
+        console.log(chalk.gray(`正在從 ${client.getProviderName()} 獲取模型列表...`));
         const models = await client.listModels();
         if (!models.length) {
           console.log(chalk.yellow("未獲取到任何模型，請檢查賬號權限或 API Key。"));
@@ -427,7 +887,7 @@ async function main() {
         }
         console.log(chalk.cyan("\n可用模型："));
         for (const id of models) {
-          const mark = id === process.env.BAILU_MODEL ? "*" : " ";
+          const mark = id === config.model ? "*" : " ";
           console.log(`${mark} ${id}`);
         }
         console.log(
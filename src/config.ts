@@ -3,15 +3,36 @@ import os from "os";
 import path from "path";
 import readline from "readline";
 import { findGitRoot, getProjectRoot } from "./utils/git.js";
+import { PermissionRule, mergePermissionRules } from "./runtime/permissions.js";
+import { LLMProviderType, PROVIDER_DEFAULTS } from "./llm/providers/types.js";
+import { ModelRoutes } from "./llm/routing.js";
+import { ModelInfoOverrides } from "./llm/models.js";
+import { parseBudgetValue } from "./utils/budget.js";
 
 export interface BailuCliConfig {
   apiKey?: string;
   baseUrl?: string;
   model?: string;
+  provider?: LLMProviderType; // LLM 提供方：bailu（默認）/ openai（兼容服務）/ anthropic / fixture（回放錄製的響應）
+  fixturePath?: string; // fixture 提供方回放的文件
+  recordFixture?: string; // 把真實響應錄製到此文件，之後可用 fixture 提供方離線回放
+  modelRoutes?: ModelRoutes; // 按任務選擇模型：main / commit / compress / review，數組表示 429 / 5xx 時的回退順序
+  modelInfo?: ModelInfoOverrides; // 按模型 ID 設置上下文窗口和分詞器（如本地模型）
   safetyMode?: "dry-run" | "review" | "auto-apply";
   maxIterations?: number;
+  maxCost?: number; // 單次運行的費用上限（人民幣），用完後停止並輸出摘要
+  maxTokens?: number; // 單次運行的 token 上限（輸入 + 輸出）
   autoCompress?: boolean;
   verbose?: boolean;
+  toolCallMode?: "auto" | "native" | "xml"; // 工具調用方式：原生 tool_calls / XML / 自動
+  maxParallelTools?: number; // 只讀工具（safe）的最大並發數，1 表示逐個執行
+  shellMode?: boolean; // 允許 run_command 使用 shell 模式（管道、重定向、&&），默認關閉
+  permissions?: PermissionRule[]; // 有序的 allow / deny / ask 命令權限規則（用戶 deny 規則最先，其次項目規則）
+  sandbox?: "none" | "namespace"; // 命令執行沙箱：namespace 使用 bwrap / unshare 隔離（只讀根目錄、可寫工作區）
+  sandboxNetwork?: boolean; // 沙箱內是否允許網絡，默認不允許
+  scrubEnv?: string[]; // 額外不傳給子進程的環境變量（支持 * 通配，默認已包含 *_API_KEY、*_TOKEN 等）
+  keepEnv?: string[]; // 即使匹配也保留的環境變量（如 GITHUB_TOKEN）
+  redactSecrets?: boolean; // 工具輸出進入對話前遮蔽密鑰，默認開啟
 }
 
 function getConfigDir(): string {
@@ -108,9 +129,8 @@ export function loadProjectConfig(): BailuCliConfig {
  */
 export function mergeConfigs(cliArgs: Partial<BailuCliConfig> = {}): BailuCliConfig {
   // 默认值
+  // baseUrl 和 model 的默認值取決於提供方，在合併後補上
   const defaults: BailuCliConfig = {
-    baseUrl: "https://bailucode.com/openapi/v1",
-    model: "bailu-2.6-preview",
     safetyMode: "review",
     maxIterations: 50,
     autoCompress: true,
@@ -122,6 +142,21 @@ export function mergeConfigs(cliArgs: Partial<BailuCliConfig> = {}): BailuCliCon
   if (process.env.BAILU_API_KEY) envConfig.apiKey = process.env.BAILU_API_KEY;
   if (process.env.BAILU_BASE_URL) envConfig.baseUrl = process.env.BAILU_BASE_URL;
   if (process.env.BAILU_MODEL) envConfig.model = process.env.BAILU_MODEL;
+  if (process.env.BAILU_PROVIDER) envConfig.provider = process.env.BAILU_PROVIDER as LLMProviderType;
+  if (process.env.BAILU_FIXTURE) envConfig.fixturePath = process.env.BAILU_FIXTURE;
+  if (process.env.BAILU_RECORD_FIXTURE) envConfig.recordFixture = process.env.BAILU_RECORD_FIXTURE;
+
+  // 預算上限（CI 中常用環境變量設置）
+  for (const [name, key] of [["BAILU_MAX_COST", "maxCost"], ["BAILU_MAX_TOKENS", "maxTokens"]] as const) {
+    const value = process.env[name];
+    if (!value) continue;
+    const parsed = parseBudgetValue(value);
+    if (parsed !== undefined) {
+      envConfig[key] = parsed;
+    } else {
+      console.warn(`警告: ${name} 环境变量值 "${value}" 无效，必須是正數`);
+    }
+  }
   
   // 验证 BAILU_MODE 环境变量
   if (process.env.BAILU_MODE) {
@@ -141,13 +176,22 @@ export function mergeConfigs(cliArgs: Partial<BailuCliConfig> = {}): BailuCliCon
   const projectConfig = loadProjectConfig();
   
   // 合并（后者覆盖前者）
-  return {
+  const merged: BailuCliConfig = {
     ...defaults,
     ...envConfig,
     ...userConfig,
     ...projectConfig,
     ...cliArgs,
   };
+  const providerDefaults = PROVIDER_DEFAULTS[merged.provider ?? "bailu"] ?? PROVIDER_DEFAULTS.bailu;
+
+  return {
+    ...merged,
+    baseUrl: merged.baseUrl ?? providerDefaults.baseUrl,
+    model: merged.model ?? providerDefaults.model,
+    // 權限規則按來源拼接而不是覆蓋，讓倉庫共享的基線和個人規則同時生效
+    permissions: mergePermissionRules(projectConfig.permissions, userConfig.permissions),
+  };
 }
 
 export function loadCliConfig(): BailuCliConfig {
@@ -193,7 +237,35 @@ export async function saveConfig(config: BailuCliConfig): Promise<void> {
   saveCliConfig(config);
 }
 
-export async function ensureApiKeyInteractive(): Promise<string> {
+/**
+ * 不交互地解析當前提供方的 API Key
+ * 返回 undefined 表示需要 Key 但沒有找到；本地服務和 fixture 不需要 Key，返回空字符串
+ */
+export function resolveProviderApiKey(config: BailuCliConfig): string | undefined {
+  switch (config.provider ?? "bailu") {
+    case "anthropic":
+      return process.env.ANTHROPIC_API_KEY || config.apiKey;
+    case "openai":
+      return config.apiKey || process.env.OPENAI_API_KEY || "";
+    case "fixture":
+      return "";
+    default:
+      return config.apiKey;
+  }
+}
+
+/**
+ * 獲取 API Key；只有白鹿提供方在缺少 Key 時交互詢問
+ */
+export async function ensureApiKeyInteractive(config: BailuCliConfig = {}): Promise<string> {
+  if (config.provider && config.provider !== "bailu") {
+    const key = resolveProviderApiKey(config);
+    if (key === undefined) {
+      throw new Error(`未找到 ${config.provider} 提供方的 API Key。請設置對應的環境變量或在配置中設置 apiKey。`);
+    }
+    return key;
+  }
+
   const fromEnv = process.env.BAILU_API_KEY;
   if (fromEnv && fromEnv.trim()) {
     return fromEnv.trim();
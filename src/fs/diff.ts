@@ -31,7 +31,13 @@ export function createColoredDiff(filePath: string, before: string, after: strin
     return chalk.gray("(無改動)");
   }
 
-  const patch = Diff.createPatch(filePath, before, after, "", "");
+  return colorizePatch(Diff.createPatch(filePath, before, after, "", ""));
+}
+
+/**
+ * 為 unified diff / git diff 文本著色
+ */
+export function colorizePatch(patch: string): string {
   const lines = patch.split("\n");
   const colored: string[] = [];
 
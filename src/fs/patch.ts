@@ -0,0 +1,359 @@
+/**
+ * Unified diff 解析與容錯應用
+ * - 支持多文件 diff，以及新建 / 刪除 / 重命名（--- /dev/null、+++ /dev/null、rename from/to）
+ * - hunk 依次嘗試精確匹配、忽略空白匹配、模糊匹配上下文（逐行相似度），並在全文中搜索偏移後的位置
+ * - 刪除行必須與文件內容一致（最多忽略空白差異），否則拒絕 hunk，不會覆蓋模型沒有看到的內容
+ * - 無法應用的 hunk 給出拒絕報告，附帶文件中最接近的區域
+ */
+
+export interface PatchHunk {
+  header: string; // @@ -a,b +c,d @@
+  oldStart: number; // 1-based，缺少行號時為 0
+  lines: string[]; // 帶前綴的 hunk 內容（" " 上下文、"-" 刪除、"+" 新增）
+  noNewlineAtEnd: boolean; // 新內容末尾沒有換行（\ No newline at end of file）
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null 表示新建文件
+  newPath: string | null; // null 表示刪除文件
+  hunks: PatchHunk[];
+}
+
+export type HunkStrategy = "exact" | "whitespace" | "fuzzy" | "insert";
+
+export interface HunkResult {
+  index: number;
+  header: string;
+  applied: boolean;
+  strategy?: HunkStrategy;
+  line?: number; // 應用位置（1-based）
+  offset?: number; // 相對 hunk 標頭行號的偏移
+  confidence: number; // 0-1
+  closest?: { line: number; similarity: number; text: string[] }; // 未應用時文件中最接近的區域
+}
+
+export interface HunkApplyResult {
+  content: string;
+  results: HunkResult[];
+}
+
+// 模糊匹配上下文的最低相似度：低於此值的 hunk 被拒絕
+export const FUZZY_MATCH_THRESHOLD = 0.8;
+
+/**
+ * 解析 unified diff（可包含多個文件）
+ * @param defaultPath 工具調用傳入的 path：沒有文件標頭時使用；只有一個文件時覆蓋標頭中的路徑（重命名除外）
+ */
+export function parseUnifiedDiff(diff: string, defaultPath?: string): FilePatch[] {
+  const lines = diff.replace(/\r\n/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  const patches: FilePatch[] = [];
+  const renamed = new Set<FilePatch>();
+  let current: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+  let gitPaths: [string, string] | null = null; // 當前文件由 diff --git 開始時的路徑，後面路徑一致的 ---/+++ 屬於同一個文件
+
+  const startFile = (oldPath: string | null, newPath: string | null): FilePatch => {
+    const file: FilePatch = { oldPath, newPath, hunks: [] };
+    patches.push(file);
+    return file;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const git = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+    if (git) {
+      current = startFile(git[1], git[2]);
+      hunk = null;
+      gitPaths = [git[1], git[2]];
+      continue;
+    }
+
+    // 文件標頭：--- 後面緊跟 +++（hunk 中以 -- 開頭的刪除行不會滿足這個條件）
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      const oldPath = parseHeaderPath(line.slice(4));
+      const newPath = parseHeaderPath(lines[i + 1].slice(4));
+      const sameFile = gitPaths && (oldPath === null || oldPath === gitPaths[0]) && (newPath === null || newPath === gitPaths[1]);
+      if (current && sameFile && current.hunks.length === 0) {
+        current.oldPath = oldPath;
+        current.newPath = newPath;
+      } else {
+        current = startFile(oldPath, newPath);
+      }
+      hunk = null;
+      gitPaths = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/) ?? (line.startsWith("@@") ? [line, "0"] : null);
+    if (header) {
+      current = current ?? startFile(defaultPath ?? null, defaultPath ?? null);
+      hunk = { header: line.trim(), oldStart: parseInt(header[1], 10), lines: [], noNewlineAtEnd: false };
+      current.hunks.push(hunk);
+      gitPaths = null;
+      continue;
+    }
+
+    if (!hunk) {
+      // hunk 之前的 git 擴展標頭
+      const file = current;
+      if (!file) continue;
+      if (line.startsWith("new file mode")) file.oldPath = null;
+      else if (line.startsWith("deleted file mode")) file.newPath = null;
+      else if (line.startsWith("rename from ")) {
+        file.oldPath = line.slice("rename from ".length).trim();
+        renamed.add(file);
+      } else if (line.startsWith("rename to ")) {
+        file.newPath = line.slice("rename to ".length).trim();
+        renamed.add(file);
+      }
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous !== undefined && !previous.startsWith("-")) hunk.noNewlineAtEnd = true;
+      continue;
+    }
+    hunk.lines.push(line);
+  }
+
+  // 只有一個文件時以 path 參數為準（模型生成的標頭路徑經常不準確）
+  if (defaultPath && patches.length === 1 && !renamed.has(patches[0])) {
+    const only = patches[0];
+    if (only.oldPath !== null) only.oldPath = defaultPath;
+    if (only.newPath !== null) only.newPath = defaultPath;
+  }
+  return patches;
+}
+
+/**
+ * diff 涉及的所有文件（包括重命名前後的路徑），用於權限檢查、備份和檢查點
+ */
+export function getPatchPaths(diff: string, defaultPath?: string): string[] {
+  const paths = new Set<string>();
+  for (const patch of parseUnifiedDiff(diff, defaultPath)) {
+    if (patch.oldPath) paths.add(patch.oldPath);
+    if (patch.newPath) paths.add(patch.newPath);
+  }
+  if (paths.size === 0 && defaultPath) paths.add(defaultPath);
+  return [...paths];
+}
+
+function parseHeaderPath(raw: string): string | null {
+  const value = raw.split("\t")[0].trim().replace(/^"(.*)"$/, "$1");
+  if (value === "/dev/null" || value === "a/dev/null" || value === "b/dev/null") return null;
+  return value.replace(/^[ab]\//, "");
+}
+
+/**
+ * 把 hunk 應用到文件內容：保留原文件的換行符（LF / CRLF）、BOM 和末尾換行
+ * 每個 hunk 獨立匹配，失敗的 hunk 不影響其他 hunk 的結果；是否寫入由調用方根據 results 決定
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): HunkApplyResult {
+  const bom = content.startsWith("\uFEFF") ? "\uFEFF" : "";
+  const body = content.slice(bom.length);
+  const eol = body.includes("\r\n") ? "\r\n" : "\n";
+  const normalized = eol === "\r\n" ? body.replace(/\r\n/g, "\n") : body;
+  const trailingNewline = normalized === "" || normalized.endsWith("\n");
+  const lines = normalized === "" ? [] : (trailingNewline ? normalized.slice(0, -1) : normalized).split("\n");
+
+  const results: HunkResult[] = [];
+  let offset = 0;
+  hunks.forEach((hunk, index) => {
+    const ops = hunk.lines.map((line) => ({
+      type: line.startsWith("+") ? "add" : line.startsWith("-") ? "remove" : "context",
+      text: /^[ +-]/.test(line) ? line.slice(1) : line,
+    }));
+    const oldBlock = ops.filter((op) => op.type !== "add");
+    const newLength = ops.length - oldBlock.length;
+    const expected = Math.min(Math.max(hunk.oldStart - 1 + offset, 0), lines.length);
+
+    const match = oldBlock.length === 0
+      ? { position: expected, strategy: "insert" as const, score: lines.length === 0 ? 1 : 0.7 }
+      : findBlock(lines, oldBlock, expected);
+
+    if (!match || (match.strategy === "fuzzy" && match.score < FUZZY_MATCH_THRESHOLD)) {
+      const closest = closestRegion(lines, oldBlock, expected);
+      results.push({
+        index,
+        header: hunk.header,
+        applied: false,
+        confidence: 0,
+        closest: closest
+          ? {
+              line: closest.position + 1,
+              similarity: closest.score,
+              text: lines.slice(closest.position, closest.position + oldBlock.length),
+            }
+          : undefined,
+      });
+      return;
+    }
+
+    // 上下文行保留文件中的實際內容（可能與 diff 中的空白不同）
+    const replacement: string[] = [];
+    let cursor = match.position;
+    for (const op of ops) {
+      if (op.type === "add") {
+        replacement.push(op.text);
+      } else {
+        if (op.type === "context") replacement.push(lines[cursor]);
+        cursor++;
+      }
+    }
+    lines.splice(match.position, oldBlock.length, ...replacement);
+
+    const hunkOffset = hunk.oldStart > 0 ? match.position - (hunk.oldStart - 1) : 0;
+    results.push({
+      index,
+      header: hunk.header,
+      applied: true,
+      strategy: match.strategy,
+      line: match.position + 1,
+      offset: hunkOffset,
+      confidence: confidenceOf(match.strategy, match.score, match.position === expected),
+    });
+    offset = hunkOffset + newLength - oldBlock.length;
+  });
+
+  const endsWithNewline = hunks.some((h) => h.noNewlineAtEnd) ? false : trailingNewline;
+  const output = lines.join(eol) + (endsWithNewline && lines.length > 0 ? eol : "");
+  return { content: bom + output, results };
+}
+
+interface BlockMatch {
+  position: number;
+  strategy: HunkStrategy;
+  score: number;
+}
+
+/**
+ * 查找 hunk 原內容在文件中的位置：精確 → 忽略空白 → 模糊，同等條件下選離期望位置最近的
+ */
+function findBlock(lines: string[], block: { type: string; text: string }[], expected: number): BlockMatch | null {
+  const last = lines.length - block.length;
+  if (last < 0) return null;
+
+  const positions = Array.from({ length: last + 1 }, (_, i) => i).sort(
+    (a, b) => Math.abs(a - expected) - Math.abs(b - expected) || a - b
+  );
+
+  const exact = positions.find((p) => block.every((op, k) => lines[p + k] === op.text));
+  if (exact !== undefined) return { position: exact, strategy: "exact", score: 1 };
+
+  const normalizedBlock = block.map((op) => normalizeWhitespace(op.text));
+  const loose = positions.find((p) => normalizedBlock.every((text, k) => normalizeWhitespace(lines[p + k]) === text));
+  if (loose !== undefined) return { position: loose, strategy: "whitespace", score: 1 };
+
+  // 只有上下文行可以模糊匹配：刪除行必須在忽略空白後一致
+  const removals = positions.filter((p) =>
+    block.every((op, k) => op.type !== "remove" || normalizeWhitespace(lines[p + k]) === normalizedBlock[k])
+  );
+  return closestRegion(lines, block, expected, new Set(removals));
+}
+
+/**
+ * 按逐行相似度找最接近的區域（刪除行權重加倍：刪錯行比上下文不准確更危險）
+ * @param candidates 只在這些位置中查找（刪除行已確認一致，只按上下文行計算相似度）；不提供時搜索全文，用於拒絕報告
+ */
+function closestRegion(
+  lines: string[],
+  block: { type: string; text: string }[],
+  expected: number,
+  candidates?: Set<number>
+): BlockMatch | null {
+  const length = Math.min(block.length, lines.length);
+  if (length === 0) return null;
+
+  const fileGrams = lines.map((line) => bigrams(normalizeWhitespace(line)));
+  const blockGrams = block.map((op) => bigrams(normalizeWhitespace(op.text)));
+  const weights = block.map((op): number => (op.type !== "remove" ? 1 : candidates ? 0 : 2));
+  const totalWeight = weights.slice(0, length).reduce((sum, w) => sum + w, 0);
+
+  let best: BlockMatch | null = null;
+  let bestDistance = Infinity;
+  for (let p = 0; p + length <= lines.length; p++) {
+    if (candidates && !candidates.has(p)) continue;
+    let score = 0;
+    for (let k = 0; k < length; k++) {
+      score += weights[k] * similarity(fileGrams[p + k], blockGrams[k]);
+    }
+    score = totalWeight === 0 ? 1 : score / totalWeight;
+    if (block.length > lines.length) score *= lines.length / block.length;
+
+    const distance = Math.abs(p - expected);
+    if (!best || score > best.score + 1e-9 || (Math.abs(score - best.score) <= 1e-9 && distance < bestDistance)) {
+      best = { position: p, strategy: "fuzzy", score };
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function confidenceOf(strategy: HunkStrategy, score: number, atExpected: boolean): number {
+  const base = strategy === "exact" ? 1 : strategy === "whitespace" ? 0.9 : strategy === "insert" ? score : score * 0.85;
+  const shifted = strategy !== "insert" && !atExpected ? 0.05 : 0;
+  return Math.round((base - shifted) * 100) / 100;
+}
+
+function normalizeWhitespace(line: string): string {
+  return line.trim().replace(/\s+/g, " ");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  // 單字符或空行用整行作為唯一元素
+  if (text.length < 2) grams.set(`\0${text}`, 1);
+  return grams;
+}
+
+/**
+ * Dice 係數：2 × 共同 bigram 數 / bigram 總數
+ */
+function similarity(a: Map<string, number>, b: Map<string, number>): number {
+  let total = 0;
+  let common = 0;
+  a.forEach((count) => (total += count));
+  b.forEach((count, gram) => {
+    total += count;
+    common += Math.min(count, a.get(gram) ?? 0);
+  });
+  return total === 0 ? 1 : (2 * common) / total;
+}
+
+/**
+ * 生成給模型看的 hunk 報告：失敗的 hunk 附帶文件中最接近的區域
+ */
+export function formatHunkReport(filePath: string, results: HunkResult[]): string {
+  const lines: string[] = [];
+  const failed = results.filter((r) => !r.applied);
+  lines.push(`${filePath}: ${results.length - failed.length}/${results.length} 個 hunk 可以應用`);
+
+  for (const result of results) {
+    const label = `  hunk ${result.index + 1}（${result.header}）`;
+    if (result.applied) {
+      const notes = [`第 ${result.line} 行`, `置信度 ${Math.round(result.confidence * 100)}%`];
+      if (result.offset) notes.push(`偏移 ${result.offset > 0 ? "+" : ""}${result.offset} 行`);
+      if (result.strategy === "whitespace") notes.push("忽略空白差異");
+      if (result.strategy === "fuzzy") notes.push("模糊匹配上下文");
+      if (result.strategy === "insert") notes.push("沒有上下文，按行號插入");
+      lines.push(`${label}: ✓ ${notes.join("，")}`);
+      continue;
+    }
+
+    lines.push(`${label}: ✗ 找不到匹配的內容`);
+    if (result.closest && result.closest.text.length > 0) {
+      const { line, similarity: score, text } = result.closest;
+      lines.push(`    最接近的區域：第 ${line}-${line + text.length - 1} 行（相似度 ${Math.round(score * 100)}%）`);
+      text.forEach((content, i) => lines.push(`    ${String(line + i).padStart(5)} | ${content}`));
+    }
+  }
+  return lines.join("\n");
+}
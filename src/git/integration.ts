@@ -120,13 +120,15 @@ export function gitAdd(rootPath: string, files?: string[]): boolean {
  * Execute git commit safely
  * @param rootPath Working directory
  * @param message Commit message (will be properly escaped)
+ * @param noVerify Skip pre-commit / commit-msg hooks (for Bailu's internal snapshot commits)
  * @returns true if successful
  */
-export function gitCommit(rootPath: string, message: string): boolean {
+export function gitCommit(rootPath: string, message: string, noVerify = false): boolean {
   try {
     // Use array form - git will handle the message safely
     // No need for manual escaping, spawnSync prevents shell injection
-    const result = spawnSync('git', ['commit', '-m', message], {
+    const args = noVerify ? ['commit', '--no-verify', '-m', message] : ['commit', '-m', message];
+    const result = spawnSync('git', args, {
       cwd: rootPath,
       stdio: 'ignore',
     });
@@ -170,6 +172,25 @@ export function gitStashSave(rootPath: string, message: string): boolean {
   return result !== null && !result.includes('No local changes');
 }
 
+/**
+ * 創建 stash 提交但不修改工作目錄和 stash 列表（git stash create）
+ * @param rootPath Git 根目錄
+ * @returns stash 提交的哈希，沒有未提交的變更時返回 null
+ */
+export function gitStashCreate(rootPath: string): string | null {
+  return runGit(rootPath, ['stash', 'create']) || null;
+}
+
+/**
+ * 在指定目錄中應用 stash 提交（git stash apply <ref>）
+ * @param rootPath 工作目錄
+ * @param ref stash 提交
+ * @returns true if successful
+ */
+export function gitStashApply(rootPath: string, ref: string): boolean {
+  return runGit(rootPath, ['stash', 'apply', ref]) !== null;
+}
+
 /**
  * 恢復最近的 stash
  * @param rootPath Git 根目錄
@@ -193,7 +214,7 @@ export function getModifiedFiles(rootPath: string): GitStatusEntry[] {
 /**
  * 自动提交变更
  */
-export function autoCommit(rootPath: string, message: string, files?: string[]): boolean {
+export function autoCommit(rootPath: string, message: string, files?: string[], noVerify = false): boolean {
   if (!hasUncommittedChanges(rootPath)) {
     return false;
   }
@@ -203,5 +224,78 @@ export function autoCommit(rootPath: string, message: string, files?: string[]):
     return false;
   }
 
-  return gitCommit(rootPath, message);
+  return gitCommit(rootPath, message, noVerify);
+}
+
+/**
+ * 解析引用對應的提交哈希（git rev-parse）
+ */
+export function gitRevParse(rootPath: string, ref: string): string | null {
+  return runGit(rootPath, ['rev-parse', '--verify', ref]);
+}
+
+/**
+ * 列出未跟蹤且未被忽略的文件
+ */
+export function getUntrackedFiles(rootPath: string): string[] {
+  const output = runGit(rootPath, ['ls-files', '--others', '--exclude-standard']) ?? '';
+  return output.split('\n').filter(Boolean);
+}
+
+/**
+ * 在新分支上創建 worktree（git worktree add -b <branch> <path> <startPoint>）
+ * @returns true if successful
+ */
+export function gitWorktreeAdd(rootPath: string, worktreePath: string, branch: string, startPoint = 'HEAD'): boolean {
+  return runGit(rootPath, ['worktree', 'add', '-b', branch, worktreePath, startPoint]) !== null;
+}
+
+/**
+ * 刪除 worktree（包括其中未提交的修改），目錄已不存在時只清理記錄
+ * @returns true if successful
+ */
+export function gitWorktreeRemove(rootPath: string, worktreePath: string): boolean {
+  const removed = runGit(rootPath, ['worktree', 'remove', '--force', worktreePath]) !== null;
+  runGit(rootPath, ['worktree', 'prune']);
+  return removed;
+}
+
+/**
+ * 強制刪除本地分支（git branch -D）
+ * @returns true if successful
+ */
+export function gitDeleteBranch(rootPath: string, branch: string): boolean {
+  return runGit(rootPath, ['branch', '-D', branch]) !== null;
+}
+
+/**
+ * 獲取兩個提交之間的 diff
+ * @param extraArgs 額外參數，如 ['--stat']、['--name-only']、['--binary']
+ */
+export function getCommitDiff(rootPath: string, from: string, to: string, extraArgs: string[] = []): string {
+  return runGit(rootPath, ['diff', ...extraArgs, from, to]) || '';
+}
+
+/**
+ * 把 patch 應用到工作目錄（不修改暫存區）；任何文件無法應用時整個 patch 都不會應用
+ * @param rootPath Git 根目錄
+ * @param patch git diff 輸出
+ * @param check 只檢查能否應用（git apply --check）
+ */
+export function gitApplyPatch(rootPath: string, patch: string, check = false): { success: boolean; error?: string } {
+  try {
+    const args = check ? ['apply', '--check', '-'] : ['apply', '-'];
+    const result = spawnSync('git', args, {
+      cwd: rootPath,
+      input: patch.endsWith('\n') ? patch : patch + '\n',
+      encoding: 'utf8',
+    });
+    if (result.status !== 0) {
+      return { success: false, error: (result.stderr || '').trim() || `git apply 退出碼 ${result.status}` };
+    }
+    return { success: true };
+  } catch (error) {
+    logger.error('Git Apply Error:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
 }
@@ -0,0 +1,233 @@
+/**
+ * Worktree 運行：bailu fix / run --worktree 在臨時 git worktree 的一次性分支上修改文件和執行命令
+ * 本地未提交的變更（包括未跟蹤文件）作為基線提交複製過去，原工作目錄在運行期間不會被修改
+ * 運行結束後把修改提交到分支，bailu apply <id> 應用到工作目錄，--discard 丟棄
+ * 記錄保存在 <倉庫>/.bailu/worktrees/<id>.json
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  autoCommit,
+  getChangedFiles,
+  getCommitDiff,
+  getUntrackedFiles,
+  gitApplyPatch,
+  gitDeleteBranch,
+  gitRevParse,
+  gitStashApply,
+  gitStashCreate,
+  gitWorktreeAdd,
+  gitWorktreeRemove,
+} from "./integration.js";
+
+export interface WorktreeRun {
+  id: string;
+  task: string;
+  branch: string;
+  worktreePath: string;
+  baseCommit: string; // 運行開始時的狀態（HEAD + 本地未提交的變更）
+  headCommit?: string; // 運行結束後 Agent 修改的提交
+  createdAt: string;
+  status: "running" | "ready" | "applied" | "discarded";
+}
+
+export interface WorktreeApplyResult {
+  success: boolean;
+  files: string[];
+  error?: string;
+}
+
+// 不屬於運行結果的路徑：依賴目錄的符號鏈接和 Bailu 自身的數據
+const EXCLUDED_PATHS = ["node_modules", ".bailu"];
+const COMMIT_PATHSPEC = [".", ...EXCLUDED_PATHS.map((p) => `:(exclude)${p}`)];
+
+export class WorktreeManager {
+  private dir: string;
+
+  constructor(private repoRoot: string) {
+    this.dir = path.join(repoRoot, ".bailu", "worktrees");
+  }
+
+  /**
+   * 創建 worktree 和分支 bailu/<id>，並把本地未提交的變更提交為基線
+   * 只讀取原工作目錄，不修改它（git stash create 不會改動工作目錄和 stash 列表）
+   */
+  async create(task: string): Promise<WorktreeRun> {
+    const id = `wt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const branch = `bailu/${id}`;
+    const worktreePath = path.join(os.tmpdir(), "bailu-worktrees", id);
+    await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+
+    if (!gitWorktreeAdd(this.repoRoot, worktreePath, branch, "HEAD")) {
+      throw new Error("無法創建 git worktree（倉庫需要至少一個提交）");
+    }
+
+    try {
+      const stash = gitStashCreate(this.repoRoot);
+      if (stash && !gitStashApply(worktreePath, stash)) {
+        throw new Error("無法把本地未提交的變更複製到 worktree");
+      }
+      for (const file of getUntrackedFiles(this.repoRoot)) {
+        if (isExcluded(file)) continue;
+        await fs.mkdir(path.dirname(path.join(worktreePath, file)), { recursive: true });
+        await fs.copyFile(path.join(this.repoRoot, file), path.join(worktreePath, file));
+      }
+      commitAll(worktreePath, "bailu: 本地未提交的變更（基線）");
+
+      // 依賴不在版本控制中，鏈接過去以便在 worktree 中運行測試和構建
+      const nodeModules = path.join(this.repoRoot, "node_modules");
+      if (await exists(nodeModules)) {
+        await fs.symlink(nodeModules, path.join(worktreePath, "node_modules"), "dir");
+      }
+    } catch (error) {
+      gitWorktreeRemove(this.repoRoot, worktreePath);
+      gitDeleteBranch(this.repoRoot, branch);
+      throw error;
+    }
+
+    const run: WorktreeRun = {
+      id,
+      task,
+      branch,
+      worktreePath,
+      baseCommit: gitRevParse(worktreePath, "HEAD")!,
+      createdAt: new Date().toISOString(),
+      status: "running",
+    };
+    await this.save(run);
+    return run;
+  }
+
+  /**
+   * 把 Agent 在 worktree 中的修改提交到分支
+   */
+  async finish(run: WorktreeRun): Promise<WorktreeRun> {
+    if (run.status !== "running") return run;
+    if (await exists(run.worktreePath)) {
+      commitAll(run.worktreePath, `bailu: ${run.task}`);
+    }
+    run.headCommit = gitRevParse(this.repoRoot, run.branch) ?? run.baseCommit;
+    run.status = "ready";
+    await this.save(run);
+    return run;
+  }
+
+  /**
+   * 運行的修改（相對基線），stat 為 true 時只返回統計
+   */
+  diff(run: WorktreeRun, stat = false): string {
+    return getCommitDiff(this.repoRoot, run.baseCommit, run.headCommit ?? run.baseCommit, stat ? ["--stat"] : []);
+  }
+
+  changedFiles(run: WorktreeRun): string[] {
+    return getCommitDiff(this.repoRoot, run.baseCommit, run.headCommit ?? run.baseCommit, ["--name-only"])
+      .split("\n")
+      .filter(Boolean);
+  }
+
+  /**
+   * 把運行的修改應用到原工作目錄（只修改文件，不提交、不修改暫存區）
+   * 本地文件在運行之後又被修改、無法乾淨應用時不做任何修改
+   * @param beforeApply 確認可以應用後、修改文件前調用（如創建檢查點）
+   */
+  async apply(run: WorktreeRun, beforeApply?: (files: string[]) => Promise<void>): Promise<WorktreeApplyResult> {
+    run = await this.finish(run);
+    if (run.status !== "ready") {
+      return { success: false, files: [], error: `運行 ${run.id} 已${run.status === "applied" ? "應用" : "丟棄"}` };
+    }
+
+    const files = this.changedFiles(run);
+    if (files.length > 0) {
+      const patch = getCommitDiff(this.repoRoot, run.baseCommit, run.headCommit!, ["--binary"]);
+      const check = gitApplyPatch(this.repoRoot, patch, true);
+      if (!check.success) {
+        return { success: false, files, error: check.error };
+      }
+      await beforeApply?.(files);
+      const applied = gitApplyPatch(this.repoRoot, patch);
+      if (!applied.success) {
+        return { success: false, files, error: applied.error };
+      }
+    }
+
+    await this.cleanup(run, "applied");
+    return { success: true, files };
+  }
+
+  /**
+   * 丟棄運行：刪除 worktree 和分支
+   */
+  async discard(run: WorktreeRun): Promise<void> {
+    await this.cleanup(run, "discarded");
+  }
+
+  /**
+   * 讀取運行記錄，id 為 latest 時返回最近一個未應用的運行
+   */
+  async load(id: string): Promise<WorktreeRun | null> {
+    if (id === "latest") {
+      return (await this.list()).find((r) => r.status === "running" || r.status === "ready") ?? null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.dir, `${path.basename(id)}.json`), "utf-8")) as WorktreeRun;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 列出運行記錄（最新的在前）
+   */
+  async list(): Promise<WorktreeRun[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const runs: WorktreeRun[] = [];
+    for (const entry of entries.filter((e) => e.endsWith(".json"))) {
+      const run = await this.load(entry.replace(/\.json$/, ""));
+      if (run) runs.push(run);
+    }
+    return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async cleanup(run: WorktreeRun, status: "applied" | "discarded"): Promise<void> {
+    gitWorktreeRemove(this.repoRoot, run.worktreePath);
+    await fs.rm(run.worktreePath, { recursive: true, force: true });
+    gitDeleteBranch(this.repoRoot, run.branch);
+    run.status = status;
+    await this.save(run);
+  }
+
+  private async save(run: WorktreeRun): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, `${run.id}.json`), JSON.stringify(run, null, 2), "utf-8");
+  }
+}
+
+/**
+ * 提交 worktree 中的所有修改（跳過 hooks：這是 Bailu 的內部快照，不是用戶的提交）
+ */
+function commitAll(worktreePath: string, message: string): void {
+  if (!autoCommit(worktreePath, message, COMMIT_PATHSPEC, true) && getChangedFiles(worktreePath).some((f) => !isExcluded(f))) {
+    throw new Error(`無法在 worktree 中提交修改，請檢查 git user.name / user.email 配置（${worktreePath}）`);
+  }
+}
+
+function isExcluded(file: string): boolean {
+  return EXCLUDED_PATHS.some((p) => file === p || file.startsWith(`${p}/`));
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
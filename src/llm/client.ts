@@ -1,580 +1,258 @@
-import os from 'os';
-import path from 'path';
-import { createLogger } from '../utils/logger.js';
+import type { BailuCliConfig } from '../config.js';
 import { globalCostTracker } from '../utils/cost-tracker.js';
+import { createLogger } from '../utils/logger.js';
+import { createProvider, LLMProvider, LLMProviderType, ProviderOptions, TokenUsage } from './providers/index.js';
+import { isRetryableError } from './providers/http.js';
+import { ModelRoute, ModelRoutes, resolveModelChain } from './routing.js';
+import { getModelInfo, ModelInfo, ModelInfoOverrides } from './models.js';
+import { getTokenizer, setDefaultTokenizer, Tokenizer } from './tokenizer/index.js';
 
 const logger = createLogger('LLM');
 
-function getDebugLogDir(): string {
-  if (process.platform === 'win32') {
-    const appData = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
-    return path.join(appData, 'bailu-cli', 'debug');
-  }
-  const xdg = process.env.XDG_STATE_HOME || path.join(os.homedir(), '.local', 'state');
-  return path.join(xdg, 'bailu-cli', 'debug');
-}
-
 export type ChatRole = "system" | "user" | "assistant" | "tool";
 // 注意：白鹿 chat template 定義了 <<<TOOL>>> 角色，工具結果必須用 role:"tool" 發送
 
+/**
+ * OpenAI 格式的原生工具調用（function calling）
+ */
+export interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string; // JSON 字串
+  };
+}
+
 export interface ChatMessage {
   role: ChatRole;
   content: string;
+  // assistant 消息：模型發起的原生工具調用
+  tool_calls?: ChatToolCall[];
+  // tool 消息：對應的工具調用 ID
+  tool_call_id?: string;
 }
 
 /**
- * Retryable errors that should trigger a retry
- */
-const RETRYABLE_ERROR_PATTERNS = [
-  /network/i,
-  /timeout/i,
-  /econnreset/i,
-  /enotfound/i,
-  /503/,
-  /502/,
-  /504/,
-  /429/,  // Rate limit
-  /rate.?limit/i,
-];
-
-/**
- * Check if an error is retryable
+ * 流式事件：文字片段或組裝完成的原生工具調用
  */
-function isRetryableError(error: Error): boolean {
-  const errorMessage = error.message;
-  return RETRYABLE_ERROR_PATTERNS.some(pattern => pattern.test(errorMessage));
-}
+export type StreamEvent =
+  | { type: "text"; content: string }
+  | { type: "tool_calls"; toolCalls: ChatToolCall[] };
 
 /**
- * 带重试的 fetch 封装
- * @param fn 要执行的异步函数
- * @param maxRetries 最大重试次数（不包括初始尝试）
- * @param retryDelay 初始重试延迟（毫秒）
+ * 將原生工具調用轉為白鹿 XML 格式（供只處理文字的調用者使用）
  */
-async function fetchWithRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  retryDelay: number = 1000
-): Promise<T> {
-  let lastError: Error | undefined;
-  const totalAttempts = maxRetries + 1; // 1 initial + maxRetries retries
-  
-  for (let attempt = 0; attempt < totalAttempts; attempt++) {
+function toolCallsToXml(toolCalls: ChatToolCall[]): string {
+  let xmlBlock = "\n<action>\n";
+  for (const tc of toolCalls) {
+    let args: Record<string, any> = {};
     try {
-      return await fn();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      
-      // 最后一次尝试失败，不再重试
-      const isLastAttempt = attempt === totalAttempts - 1;
-      if (isLastAttempt) {
-        break;
-      }
-      
-      // 检查是否是可重试的错误
-      if (!isRetryableError(lastError)) {
-        // 不可重试的错误（如 401, 403, 400），直接抛出
-        throw lastError;
-      }
-      
-      // 指数退避：每次重试延迟加倍，并添加随机抖动
-      const exponentialDelay = retryDelay * Math.pow(2, attempt);
-      // 添加 ±25% 的随机抖动以避免并发请求同时重试
-      const jitter = exponentialDelay * 0.25 * (Math.random() - 0.5) * 2;
-      const delay = Math.max(0, exponentialDelay + jitter);
-      
-      logger.warn(`请求失败 (尝试 ${attempt + 1}/${totalAttempts})，${(delay / 1000).toFixed(1)}秒后重试...`);
-      logger.warn(`错误: ${lastError.message}`);
-      
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      args = JSON.parse(tc.function.arguments || "{}");
+    } catch {
+      // arguments 解析失敗時當作空
     }
+    xmlBlock += `<invoke tool="${tc.function.name}">\n`;
+    for (const [key, value] of Object.entries(args)) {
+      // 非字符串值用 JSON 序列化（與白鹿 chat template 的 tojson 一致）
+      const serialized = typeof value === 'string' ? value : JSON.stringify(value);
+      xmlBlock += `  <param name="${key}">${serialized}</param>\n`;
+    }
+    xmlBlock += `</invoke>\n`;
   }
-  
-  // 所有重试都失败了
-  throw new Error(
-    `API 请求在 ${totalAttempts} 次尝试后仍然失败\n最后错误: ${lastError?.message || "未知错误"}`
-  );
-}
-
-export interface LLMClientOptions {
-  apiKey?: string;
-  model?: string;
-  baseUrl?: string;
+  xmlBlock += "</action>";
+  return xmlBlock;
 }
 
-export interface ChatCompletionResponse {
-  id: string;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: ChatRole;
-      content: string;
-      tool_calls?: Array<{
-        id?: string;
-        type?: string;
-        function?: {
-          name: string;
-          arguments: string | Record<string, any>;
-        };
-        name?: string;
-        arguments?: Record<string, any>;
-      }>;
-    };
-    finish_reason?: string;
-  }>;
-  usage?: {
-    prompt_tokens?: number;
-    completion_tokens?: number;
-    total_tokens?: number;
-  };
+export interface LLMClientOptions extends ProviderOptions {
+  routes?: ModelRoutes; // 按任務路由的模型和回退鏈
+  modelInfo?: ModelInfoOverrides; // 按模型覆蓋上下文窗口和分詞器
 }
 
-export interface StreamChunk {
-  id: string;
-  model: string;
-  choices: Array<{
-    index: number;
-    delta: {
-      role?: ChatRole;
-      content?: string;
-      tool_calls?: Array<{
-        index: number;
-        id?: string;
-        type?: string;
-        function?: {
-          name?: string;
-          arguments?: string;
-        };
-      }>;
-    };
-    finish_reason?: string | null;
-  }>;
-  usage?: {
-    prompt_tokens?: number;
-    completion_tokens?: number;
-    total_tokens?: number;
+/**
+ * 從 CLI 配置構建客戶端選項
+ */
+export function llmOptionsFromConfig(config: BailuCliConfig, apiKey?: string): LLMClientOptions {
+  return {
+    provider: config.provider,
+    apiKey: apiKey || undefined,
+    baseUrl: config.baseUrl,
+    model: config.model,
+    fixturePath: config.fixturePath,
+    recordFixture: config.recordFixture,
+    routes: config.modelRoutes,
+    modelInfo: config.modelInfo,
   };
 }
 
-export interface ModelsResponse {
-  data?: Array<{ id: string }>;
-  models?: Array<{ id: string }>;
-}
+// 模型返回 429 / 5xx 後暫時跳過它，避免每次請求都先等待重試
+const MODEL_COOLDOWN_MS = 60_000;
 
 export class LLMClient {
-  private apiKey: string;
-  private model: string;
-  private baseUrl: string;
-  private modelInitialized: boolean = false;
-  private testedModels: Map<string, boolean> = new Map(); // Cache model test results
+  private provider: LLMProvider;
+  private routes: ModelRoutes;
+  private modelInfo: ModelInfoOverrides;
+  private route: ModelRoute = "main";
+  // 各路由視圖共享，key 為模型名稱，value 為恢復時間
+  private cooldowns: Map<string, number> = new Map();
 
   constructor(options: LLMClientOptions) {
-    const envKey = process.env.BAILU_API_KEY;
-    const modelEnv = process.env.BAILU_MODEL;
-    const baseEnv = process.env.BAILU_BASE_URL;
-
-    const apiKey = options.apiKey ?? envKey;
-    if (!apiKey) {
-      throw new Error("缺少白鹿 API Key。請設置 BAILU_API_KEY 或通過 CLI 互動輸入。");
-    }
+    this.provider = createProvider(options);
+    this.routes = options.routes ?? {};
+    this.modelInfo = options.modelInfo ?? {};
+    setDefaultTokenizer(this.getModelInfo().tokenizer);
+  }
 
-    this.apiKey = apiKey;
-    this.model = options.model ?? modelEnv ?? "bailu-2.6-preview";
-    this.baseUrl = options.baseUrl ?? baseEnv ?? "https://bailucode.com/openapi/v1";
+  /**
+   * 獲取指定路由的客戶端視圖（共享提供方、回退狀態和 /model 設置）
+   */
+  forRoute(route: ModelRoute): LLMClient {
+    const view = Object.create(LLMClient.prototype) as LLMClient;
+    Object.assign(view, this, { route });
+    return view;
   }
 
   /**
    * 獲取當前使用的模型名稱
    */
   getModelName(): string {
-    return this.model;
+    return this.getModelChain()[0] || "auto";
   }
 
   /**
-   * 自動初始化模型：如果當前模型不可用，自動選擇第一個可用模型
+   * 當前路由的模型鏈：冷卻中的模型排到最後（全部冷卻時仍按原順序嘗試）
    */
-  private async ensureModelAvailable(): Promise<void> {
-    if (this.modelInitialized) {
-      return;
-    }
+  getModelChain(): string[] {
+    const chain = resolveModelChain(this.routes, this.route, this.provider.model);
+    const now = Date.now();
+    const ready = chain.filter((m) => (this.cooldowns.get(m) ?? 0) <= now);
+    return ready.length === chain.length ? chain : [...ready, ...chain.filter((m) => !ready.includes(m))];
+  }
 
-    try {
-      // 獲取可用模型列表
-      const models = await this.listModels();
-      
-      if (models.length === 0) {
-        throw new Error("未找到任何可用模型");
-      }
+  setModel(model: string): void {
+    this.provider.model = model;
+    setDefaultTokenizer(this.getModelInfo().tokenizer);
+  }
 
-      // 測試當前模型是否真的可用（可能因為計劃限制而不可用）
-      const isCurrentModelUsable = await this.testModel(this.model);
-      
-      if (!isCurrentModelUsable) {
-        const oldModel = this.model;
-        
-        // Personal 計劃優先推薦模型（免費/基礎模型）
-        const preferredModels = [
-          "bailu-2.6-preview",       // 預覽版，最新功能，工具調用最佳（推薦）
-          "bailu-2.6",               // 穩定版
-          "bailu-2.6-fast-thinking", // 快速思考版
-          "bailu-Minimum-free",      // 免費模型
-          "bailu-Edge",              // Edge 模型
-          "bailu-2.6-mini",          // Mini 版本
-          "bailu-2.5-lite-code",     // 輕量代碼版
-          "bailu-2.5-pro",           // Pro 版本（可能需要付費）
-          "bailu-2.5-code-cc",       // 代碼審查
-        ];
+  /**
+   * 當前模型的上下文窗口和分詞器
+   */
+  getModelInfo(): ModelInfo {
+    return getModelInfo(this.getModelName(), this.modelInfo);
+  }
 
-        // 逐個測試推薦模型
-        let selectedModel: string | null = null;
-        for (const model of preferredModels) {
-          if (models.includes(model)) {
-            const usable = await this.testModel(model);
-            if (usable) {
-              selectedModel = model;
-              break;
-            }
-          }
-        }
+  getTokenizer(): Tokenizer {
+    return getTokenizer(this.getModelInfo().tokenizer);
+  }
 
-        // 如果推薦列表都不行，測試所有可用模型
-        if (!selectedModel) {
-          for (const model of models) {
-            const usable = await this.testModel(model);
-            if (usable) {
-              selectedModel = model;
-              break;
-            }
-          }
-        }
+  getProviderName(): LLMProviderType {
+    return this.provider.name;
+  }
 
-        if (selectedModel) {
-          this.model = selectedModel;
-          logger.warn(`模型 "${oldModel}" 不可用（可能需要 Enterprise 計劃），自動切換到 "${this.model}"`);
-        } else {
-          throw new Error("未找到任何可用的模型，請檢查你的白鹿賬號計劃");
-        }
-      }
+  getBaseUrl(): string | undefined {
+    return this.provider.baseUrl;
+  }
 
-      this.modelInitialized = true;
-    } catch (error) {
-      // 如果獲取模型列表失敗，繼續使用當前模型（會在實際調用時報錯）
-      this.modelInitialized = true;
+  private recordUsage(usage: TokenUsage | undefined, model: string | undefined): void {
+    // 記錄 token 用量（按路由歸屬）
+    if (usage) {
+      globalCostTracker.recordUsage(usage, model ?? this.provider.model, this.route);
     }
   }
 
   /**
-   * 測試模型是否真的可用（發送一個簡單請求）
-   * Results are cached to avoid redundant API calls
+   * 請求使用的模型：提供方的當前模型不顯式傳遞，保留其自動選擇行為
    */
-  private async testModel(modelId: string): Promise<boolean> {
-    // Check cache first
-    if (this.testedModels.has(modelId)) {
-      return this.testedModels.get(modelId)!;
-    }
-
-    try {
-      const url = `${this.baseUrl.replace(/\/$/, "")}/chat/completions`;
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: modelId,
-          messages: [{ role: "user", content: "hi" }],
-          max_tokens: 5,
-        }),
-      });
+  private requestModel(model: string): string | undefined {
+    return model && model !== this.provider.model ? model : undefined;
+  }
 
-      // 200-299 表示成功
-      const isUsable = response.ok;
-      
-      // Cache the result
-      this.testedModels.set(modelId, isUsable);
-      
-      return isUsable;
-    } catch {
-      // Cache failed result as well
-      this.testedModels.set(modelId, false);
+  /**
+   * 判斷是否回退到下一個模型；會回退時把失敗的模型加入冷卻
+   */
+  private shouldFallback(error: unknown, model: string, next: string | undefined): boolean {
+    if (next === undefined || !isRetryableError(error)) {
       return false;
     }
+    this.cooldowns.set(model, Date.now() + MODEL_COOLDOWN_MS);
+    const reason = error instanceof Error ? error.message.split("\n").pop() : String(error);
+    logger.warn(`模型 "${model || "auto"}" 暫時不可用（${reason}），回退到 "${next}"`);
+    return true;
   }
 
-  async chat(messages: ChatMessage[], stream = false, tools?: any[]): Promise<string> {
-    // 確保使用可用的模型
-    await this.ensureModelAvailable();
-
-    const url = `${this.baseUrl.replace(/\/$/, "")}/chat/completions`;
-
-    const body: any = {
-      model: this.model,
-      messages: messages.map((m) => ({ role: m.role, content: m.content })),
-      stream,
-    };
-    
-    // 如果提供了工具定義，添加到請求中
-    if (tools && tools.length > 0) {
-      body.tools = tools;
-      // 讓模型自動決定是否調用工具（OpenAI 標準）
-      body.tool_choice = "auto";
-      
-      logger.debug(`發送 ${tools.length} 個工具到 API`);
-      logger.debug(`工具名稱: ${tools.map((t: any) => t.function?.name).join(', ')}`);
-      logger.debug(`tool_choice: auto`);
-    }
-
-    // 使用重试机制发送请求
-    const response = await fetchWithRetry(async () => {
-      const res = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify(body),
-      });
-      
-      // 检查响应状态
-      if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        let errorMsg = `${res.status} ${res.statusText}`;
-        
-        try {
-          const parsed = JSON.parse(text) as { error?: { message?: string; type?: string } };
-          if (parsed.error?.message) {
-            errorMsg = parsed.error.message;
-            if (parsed.error.type === "invalid_model") {
-              errorMsg += `\n請確認當前模型 ID 是否正確（目前為 "${this.model}"）。`;
-            }
-          }
-        } catch {
-          if (text) errorMsg += `\n${text}`;
-        }
-        
-        throw new Error(errorMsg);
-      }
-      
-      return res;
-    });
-
-    // 解析响应
-    let data: ChatCompletionResponse;
-    try {
-      data = (await response.json()) as ChatCompletionResponse;
-    } catch (error) {
-      // JSON 解析失敗，可能是 API 返回了錯誤格式
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      throw new Error(`白鹿 API 返回了無效的 JSON 響應。\n可能原因：\n1. API 在非流式模式下意外返回了流式數據格式\n2. 網絡傳輸中斷或損壞\n3. API 服務異常\n\n建議：使用流式模式 (stream=true) 或檢查網絡連接\n\n原始錯誤: ${errorMsg}`);
-    }
-    // 記錄 token 用量
-    if (data.usage) {
-      globalCostTracker.recordUsage(data.usage, this.model);
-    }
+  async chat(messages: ChatMessage[], stream = false, tools?: any[], signal?: AbortSignal): Promise<string> {
+    const { content, toolCalls } = await this.chatWithToolCalls(messages, tools, stream, signal);
 
-    const choice = data.choices?.[0];
-    
     // 如果模型返回了結構化的 tool_calls，將其轉換為 XML 格式
     // （白鹿 API 可能直接返回 XML 在 content 中，也可能返回結構化 tool_calls）
-    if (choice?.message?.tool_calls && choice.message.tool_calls.length > 0) {
-      let content = choice.message.content || "";
-      content += "\n<action>\n";
-      
-      for (const toolCall of choice.message.tool_calls) {
-        const funcName = toolCall.function?.name || toolCall.name;
-        const args = typeof toolCall.function?.arguments === 'string' 
-          ? JSON.parse(toolCall.function.arguments)
-          : (toolCall.function?.arguments || toolCall.arguments || {});
-        
-        content += `<invoke tool="${funcName}">\n`;
-        for (const [key, value] of Object.entries(args)) {
-          // 非字符串值用 JSON 序列化（與白鹿 chat template 的 tojson 一致）
-          const serialized = typeof value === 'string' ? value : JSON.stringify(value);
-          content += `  <param name="${key}">${serialized}</param>\n`;
-        }
-        content += `</invoke>\n`;
-      }
-      
-      content += "</action>";
-      return content;
+    if (toolCalls.length > 0) {
+      return content + toolCallsToXml(toolCalls);
     }
-    
-    const content = choice?.message?.content ?? "";
     return content;
   }
 
-  async *chatStream(messages: ChatMessage[], tools?: any[]): AsyncGenerator<string, void, unknown> {
-    // 確保使用可用的模型
-    await this.ensureModelAvailable();
-
-    const url = `${this.baseUrl.replace(/\/$/, "")}/chat/completions`;
-
-    const body: any = {
-      model: this.model,
-      messages: messages.map((m) => ({ role: m.role, content: m.content })),
-      stream: true,
-      stream_options: { include_usage: true },
-    };
-    
-    // 如果提供了工具定義，添加到請求中
-    if (tools && tools.length > 0) {
-      body.tools = tools;
-      // 讓模型自動決定是否調用工具（OpenAI 標準）
-      body.tool_choice = "auto";
-      
-      logger.debug(`STREAM 發送 ${tools.length} 個工具到 API`);
-      
-      // 記錄完整請求到文件（僅在 DEBUG 模式下）
-      if (process.env.BAILU_DEBUG) {
-        import('fs').then((fs) => {
-          const debugRequest = {
-            model: this.model,
-            messages: messages.map((m: any) => ({
-              role: m.role,
-              content: typeof m.content === 'string' ? m.content.substring(0, 500) + (m.content.length > 500 ? '...(truncated)' : '') : m.content
-            })),
-            tools: tools.length,
-            stream: true,
-          };
-          const debugDir = getDebugLogDir();
-          fs.mkdirSync(debugDir, { recursive: true });
-          fs.appendFileSync(path.join(debugDir, 'api-request.log'), `\n=== API 請求 ===\n${JSON.stringify(debugRequest, null, 2)}\n`, 'utf-8');
-        });
+  /**
+   * 非流式請求，分別返回文字內容和原生 tool_calls
+   */
+  async chatWithToolCalls(
+    messages: ChatMessage[],
+    tools?: any[],
+    stream = false,
+    signal?: AbortSignal
+  ): Promise<{ content: string; toolCalls: ChatToolCall[] }> {
+    globalCostTracker.assertWithinBudget();
+    const chain = this.getModelChain();
+    for (let i = 0; ; i++) {
+      const model = this.requestModel(chain[i]);
+      try {
+        const { content, toolCalls, usage } = await this.provider.complete(messages, tools, { model, stream, signal });
+        this.recordUsage(usage, model);
+        return { content, toolCalls };
+      } catch (error) {
+        if (!this.shouldFallback(error, chain[i], chain[i + 1])) throw error;
       }
     }
+  }
 
-    // 使用重试机制发送流式请求
-    const response = await fetchWithRetry(async () => {
-      const res = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify(body),
-      });
-
-      if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        let errorMsg = `${res.status} ${res.statusText}`;
-        try {
-          const parsed = JSON.parse(text) as { error?: { message?: string; type?: string } };
-          if (parsed.error?.message) {
-            errorMsg = parsed.error.message;
-          }
-        } catch {
-          if (text) errorMsg += `\n${text}`;
-        }
-        throw new Error(errorMsg);
+  async *chatStream(messages: ChatMessage[], tools?: any[], signal?: AbortSignal): AsyncGenerator<string, void, unknown> {
+    for await (const event of this.chatStreamEvents(messages, tools, signal)) {
+      if (event.type === "text") {
+        yield event.content;
+      } else {
+        // 原生 tool_calls 轉換為 XML 格式 yield 出去
+        yield toolCallsToXml(event.toolCalls);
       }
-
-      return res;
-    });
-
-    if (!response.body) {
-      throw new Error("白鹿 API 流式響應缺少 body");
     }
+  }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder("utf-8");
-    let buffer = "";
-
-    // 累積流式 tool_calls（API 可能分多個 delta 發送）
-    const accumulatedToolCalls: Map<number, { name: string; arguments: string }> = new Map();
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (!trimmed || trimmed === "data: [DONE]") continue;
-
-          if (trimmed.startsWith("data: ")) {
-            const jsonStr = trimmed.slice(6);
-            try {
-              const chunk = JSON.parse(jsonStr) as StreamChunk;
-              const delta = chunk.choices?.[0]?.delta;
-              if (delta?.content) {
-                yield delta.content;
-              }
-              // 累積流式 tool_calls delta
-              if (delta?.tool_calls) {
-                for (const tc of delta.tool_calls) {
-                  const idx = tc.index ?? 0;
-                  if (!accumulatedToolCalls.has(idx)) {
-                    accumulatedToolCalls.set(idx, { name: "", arguments: "" });
-                  }
-                  const acc = accumulatedToolCalls.get(idx)!;
-                  if (tc.function?.name) {
-                    acc.name += tc.function.name;
-                  }
-                  if (tc.function?.arguments) {
-                    acc.arguments += tc.function.arguments;
-                  }
-                }
-              }
-              // 最後一個 chunk 可能包含 usage 統計
-              if (chunk.usage) {
-                globalCostTracker.recordUsage(chunk.usage, this.model);
-              }
-            } catch (e) {
-              // 忽略解析錯誤的行
-              continue;
-            }
-          }
-        }
-      }
-
-      // 如果累積了流式 tool_calls，轉換為 XML 格式 yield 出去
-      if (accumulatedToolCalls.size > 0) {
-        let xmlBlock = "\n<action>\n";
-        for (const [, tc] of accumulatedToolCalls) {
-          let args: Record<string, any> = {};
-          try {
-            args = JSON.parse(tc.arguments);
-          } catch {
-            // arguments 解析失敗時當作空
-          }
-          xmlBlock += `<invoke tool="${tc.name}">\n`;
-          for (const [key, value] of Object.entries(args)) {
-            const serialized = typeof value === 'string' ? value : JSON.stringify(value);
-            xmlBlock += `  <param name="${key}">${serialized}</param>\n`;
+  /**
+   * 流式請求：文字片段逐個產出，原生 tool_calls 在流結束後組裝為一個事件
+   * 已經產出內容後出錯不再回退（避免輸出重複）；signal 取消時拋出 AbortError
+   * 預算已用完時（chatWithToolCalls 也一樣）不發送請求，拋出 BudgetExceededError
+   */
+  async *chatStreamEvents(messages: ChatMessage[], tools?: any[], signal?: AbortSignal): AsyncGenerator<StreamEvent, void, unknown> {
+    globalCostTracker.assertWithinBudget();
+    const chain = this.getModelChain();
+    for (let i = 0; ; i++) {
+      const model = this.requestModel(chain[i]);
+      let started = false;
+      try {
+        for await (const event of this.provider.stream(messages, tools, { model, signal })) {
+          if (event.type === "usage") {
+            this.recordUsage(event.usage, model);
+          } else {
+            started = true;
+            yield event;
           }
-          xmlBlock += `</invoke>\n`;
         }
-        xmlBlock += "</action>";
-        yield xmlBlock;
+        return;
+      } catch (error) {
+        if (started || !this.shouldFallback(error, chain[i], chain[i + 1])) throw error;
       }
-    } finally {
-      reader.releaseLock();
     }
   }
 
   async listModels(): Promise<string[]> {
-    const url = `${this.baseUrl.replace(/\/$/, "")}/models`;
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.apiKey}`,
-      },
-    });
-
-    if (!response.ok) {
-      const text = await response.text().catch(() => "");
-      throw new Error(`白鹿 API 模型列表請求失敗：${response.status} ${response.statusText} ${text}`);
-    }
-
-    const data = (await response.json()) as ModelsResponse;
-    const list = data.data ?? data.models ?? [];
-    return list.map((m) => m.id);
+    return this.provider.listModels();
   }
 }
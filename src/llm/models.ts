@@ -0,0 +1,54 @@
+/**
+ * 模型元數據：上下文窗口大小和使用的分詞器
+ * 用於壓縮閾值、/tokens 和工具輸出截斷
+ */
+
+export interface ModelInfo {
+  contextWindow: number; // tokens
+  tokenizer: string; // 分詞器名稱（詞表文件名），heuristic 表示估算
+}
+
+/**
+ * 按模型 ID 覆蓋或補充元數據（配置中的 modelInfo），如本地模型的上下文窗口
+ */
+export type ModelInfoOverrides = Record<string, Partial<ModelInfo>>;
+
+export const DEFAULT_MODEL_INFO: ModelInfo = { contextWindow: 16000, tokenizer: "cl100k_base" };
+
+const KNOWN_MODELS: Record<string, ModelInfo> = {
+  "bailu-2.6-preview": { contextWindow: 32000, tokenizer: "cl100k_base" },
+  "bailu-2.6": { contextWindow: 32000, tokenizer: "cl100k_base" },
+  "bailu-2.6-fast-thinking": { contextWindow: 32000, tokenizer: "cl100k_base" },
+  "bailu-2.6-mini": { contextWindow: 16000, tokenizer: "cl100k_base" },
+  "bailu-2.5-pro": { contextWindow: 32000, tokenizer: "cl100k_base" },
+  "bailu-2.5-lite-code": { contextWindow: 16000, tokenizer: "cl100k_base" },
+  "bailu-2.5-code-cc": { contextWindow: 16000, tokenizer: "cl100k_base" },
+  "bailu-Edge": { contextWindow: 8000, tokenizer: "cl100k_base" },
+  "bailu-Minimum-free": { contextWindow: 8000, tokenizer: "cl100k_base" },
+};
+
+/**
+ * 按前綴匹配的模型系列（最長前綴優先）；Anthropic 的分詞器未公開，使用估算
+ */
+const MODEL_FAMILIES: Array<[prefix: string, info: ModelInfo]> = [
+  ["claude-", { contextWindow: 200000, tokenizer: "heuristic" }],
+  ["gpt-4o", { contextWindow: 128000, tokenizer: "o200k_base" }],
+  ["gpt-4.1", { contextWindow: 1000000, tokenizer: "o200k_base" }],
+  ["gpt-4-turbo", { contextWindow: 128000, tokenizer: "cl100k_base" }],
+  ["gpt-4", { contextWindow: 8192, tokenizer: "cl100k_base" }],
+  ["gpt-3.5-turbo", { contextWindow: 16385, tokenizer: "cl100k_base" }],
+  ["o1", { contextWindow: 200000, tokenizer: "o200k_base" }],
+  ["o3", { contextWindow: 200000, tokenizer: "o200k_base" }],
+  ["o4-mini", { contextWindow: 200000, tokenizer: "o200k_base" }],
+];
+
+/**
+ * 獲取模型元數據：配置覆蓋 > 已知模型 > 模型系列 > 默認值
+ */
+export function getModelInfo(model: string, overrides: ModelInfoOverrides = {}): ModelInfo {
+  const family = MODEL_FAMILIES
+    .filter(([prefix]) => model.startsWith(prefix))
+    .sort(([a], [b]) => b.length - a.length)[0]?.[1];
+  const base = KNOWN_MODELS[model] ?? family ?? DEFAULT_MODEL_INFO;
+  return { ...base, ...overrides[model] };
+}
@@ -1,7 +1,7 @@
 import { WorkspaceContext } from "../agent/types.js";
 import { ChatMessage } from "./client.js";
 
-function buildWorkspaceSummary(context: WorkspaceContext): string {
+export function buildWorkspaceSummary(context: WorkspaceContext): string {
   const parts: string[] = [];
   parts.push(`Root: ${context.rootPath}`);
   if (context.config.testCommand) {
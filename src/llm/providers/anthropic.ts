@@ -0,0 +1,239 @@
+/**
+ * Anthropic Messages API 提供方
+ * 在 OpenAI 格式的消息、工具定義與 Messages API 的內容塊之間轉換
+ */
+
+import type { ChatMessage, ChatToolCall } from '../client.js';
+import { fetchWithRetry, LLMHttpError, readErrorResponse, readSseData } from './http.js';
+import { CompletionResult, LLMProvider, ProviderStreamEvent, RequestOptions, TokenUsage } from './types.js';
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 8192;
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  maxTokens?: number;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toUsage(usage: { input_tokens?: number; output_tokens?: number }): TokenUsage {
+  return { prompt_tokens: usage.input_tokens, completion_tokens: usage.output_tokens };
+}
+
+/**
+ * 轉換消息：system 消息合併為頂層 system，tool 消息轉為 tool_result，
+ * 相鄰的同角色消息合併（Messages API 要求 user / assistant 交替）
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const systemParts: string[] = [];
+  const result: AnthropicMessage[] = [];
+
+  for (const m of messages) {
+    if (m.role === "system") {
+      systemParts.push(m.content);
+      continue;
+    }
+
+    const role = m.role === "assistant" ? "assistant" : "user";
+    const blocks: AnthropicContentBlock[] = [];
+    if (m.role === "tool") {
+      blocks.push({ type: "tool_result", tool_use_id: m.tool_call_id || "", content: m.content });
+    } else {
+      if (m.content) {
+        blocks.push({ type: "text", text: m.content });
+      }
+      for (const tc of m.tool_calls || []) {
+        blocks.push({ type: "tool_use", id: tc.id, name: tc.function.name, input: parseArguments(tc.function.arguments) });
+      }
+    }
+    if (blocks.length === 0) continue;
+
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+
+  return { system: systemParts.join("\n\n"), messages: result };
+}
+
+/**
+ * 轉換 OpenAI 格式的工具定義
+ */
+export function toAnthropicTools(tools: any[]): Array<Record<string, unknown>> {
+  return tools.map((t) => ({
+    name: t.function?.name,
+    description: t.function?.description,
+    input_schema: t.function?.parameters ?? { type: "object", properties: {} },
+  }));
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  readonly baseUrl: string;
+  model: string;
+  private apiKey: string;
+  private maxTokens: number;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, "");
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": this.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    };
+  }
+
+  private async post(messages: ChatMessage[], tools: any[] | undefined, options: RequestOptions): Promise<Response> {
+    const converted = toAnthropicMessages(messages);
+    const body: Record<string, unknown> = {
+      model: options.model || this.model,
+      max_tokens: this.maxTokens,
+      messages: converted.messages,
+      stream: options.stream ?? false,
+    };
+    if (converted.system) {
+      body.system = converted.system;
+    }
+    if (tools && tools.length > 0) {
+      body.tools = toAnthropicTools(tools);
+    }
+
+    return fetchWithRetry(async () => {
+      const res = await fetch(`${this.baseUrl}/messages`, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify(body),
+        signal: options.signal,
+      });
+      if (!res.ok) {
+        throw new LLMHttpError(res.status, (await readErrorResponse(res)).message);
+      }
+      return res;
+    }, undefined, undefined, options.signal);
+  }
+
+  async complete(messages: ChatMessage[], tools?: any[], options: RequestOptions = {}): Promise<CompletionResult> {
+    const response = await this.post(messages, tools, { ...options, stream: false });
+    const data = (await response.json()) as AnthropicResponse;
+
+    let content = "";
+    const toolCalls: ChatToolCall[] = [];
+    for (const block of data.content || []) {
+      if (block.type === "text") {
+        content += block.text;
+      } else if (block.type === "tool_use") {
+        toolCalls.push({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      }
+    }
+
+    return { content, toolCalls, usage: data.usage ? toUsage(data.usage) : undefined };
+  }
+
+  async *stream(messages: ChatMessage[], tools?: any[], options: RequestOptions = {}): AsyncGenerator<ProviderStreamEvent, void, unknown> {
+    const response = await this.post(messages, tools, { ...options, stream: true });
+    if (!response.body) {
+      throw new Error("Anthropic API 流式響應缺少 body");
+    }
+
+    // 按內容塊 index 累積 tool_use 的 JSON 參數
+    const toolBlocks: Map<number, { id: string; name: string; json: string }> = new Map();
+    const usage: { input_tokens?: number; output_tokens?: number } = {};
+
+    for await (const data of readSseData(response.body)) {
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      switch (event.type) {
+        case "message_start":
+          Object.assign(usage, event.message?.usage);
+          break;
+        case "content_block_start":
+          if (event.content_block?.type === "tool_use") {
+            toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: "" });
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta" && event.delta.text) {
+            yield { type: "text", content: event.delta.text };
+          } else if (event.delta?.type === "input_json_delta") {
+            const block = toolBlocks.get(event.index);
+            if (block) block.json += event.delta.partial_json ?? "";
+          }
+          break;
+        case "message_delta":
+          if (event.usage?.output_tokens !== undefined) {
+            usage.output_tokens = event.usage.output_tokens;
+          }
+          break;
+        case "error":
+          throw new Error(event.error?.message || "Anthropic API 流式響應出錯");
+      }
+    }
+
+    if (usage.input_tokens !== undefined || usage.output_tokens !== undefined) {
+      yield { type: "usage", usage: toUsage(usage) };
+    }
+
+    const toolCalls: ChatToolCall[] = Array.from(toolBlocks.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, block]) => ({
+        id: block.id,
+        type: "function" as const,
+        function: { name: block.name, arguments: block.json || "{}" },
+      }));
+    if (toolCalls.length > 0) {
+      yield { type: "tool_calls", toolCalls };
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, { method: "GET", headers: this.headers() });
+    if (!response.ok) {
+      throw new Error(`Anthropic 模型列表請求失敗：${(await readErrorResponse(response)).message}`);
+    }
+    const data = (await response.json()) as { data?: Array<{ id: string }> };
+    return (data.data ?? []).map((m) => m.id);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * 錄製 / 回放提供方
+ * FixtureProvider 按順序回放 fixture 文件中的響應，不訪問網絡；
+ * RecordingProvider 包裝真實提供方，把每次響應追加到 fixture 文件
+ */
+
+import fs from "fs";
+import path from "path";
+import type { ChatMessage, ChatToolCall } from "../client.js";
+import { throwIfAborted } from "../../utils/abort.js";
+import { CompletionResult, LLMProvider, ProviderStreamEvent, RequestOptions, TokenUsage } from "./types.js";
+
+/**
+ * fixture 中的工具調用：可以是完整的 OpenAI 格式，也可以簡寫為 { name, arguments }
+ */
+type FixtureToolCall =
+  | ChatToolCall
+  | { id?: string; name: string; arguments?: string | Record<string, unknown> };
+
+export interface FixtureResponse {
+  /** 可選：請求的最後一條消息必須包含此文本，否則回放失敗（用於發現對話走偏） */
+  match?: string;
+  content?: string;
+  toolCalls?: FixtureToolCall[];
+  usage?: TokenUsage;
+}
+
+export interface FixtureFile {
+  model?: string;
+  responses: FixtureResponse[];
+}
+
+function normalizeToolCalls(toolCalls: FixtureToolCall[] = [], index: number): ChatToolCall[] {
+  return toolCalls.map((tc, i) => {
+    if ("function" in tc) return tc;
+    const args = tc.arguments ?? {};
+    return {
+      id: tc.id || `call_fixture_${index}_${i}`,
+      type: "function" as const,
+      function: { name: tc.name, arguments: typeof args === "string" ? args : JSON.stringify(args) },
+    };
+  });
+}
+
+export function loadFixtureFile(filePath: string): FixtureFile {
+  let parsed: FixtureFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as FixtureFile;
+  } catch (error) {
+    throw new Error(`無法讀取 fixture 文件 ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || !Array.isArray(parsed.responses)) {
+    throw new Error(`fixture 文件格式錯誤（缺少 responses 數組）: ${filePath}`);
+  }
+  return parsed;
+}
+
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture" as const;
+  model: string;
+  private responses: FixtureResponse[];
+  private cursor = 0;
+
+  constructor(private filePath: string, model?: string) {
+    const fixture = loadFixtureFile(filePath);
+    this.responses = fixture.responses;
+    this.model = model ?? fixture.model ?? "fixture";
+  }
+
+  /**
+   * 取出下一條響應；match 不符或響應用完時拋出錯誤
+   */
+  private next(messages: ChatMessage[]): CompletionResult {
+    const index = this.cursor;
+    const entry = this.responses[index];
+    if (!entry) {
+      throw new Error(`fixture 響應已用完（共 ${this.responses.length} 條）: ${this.filePath}`);
+    }
+
+    if (entry.match) {
+      const last = messages[messages.length - 1]?.content ?? "";
+      if (!last.includes(entry.match)) {
+        throw new Error(
+          `fixture 第 ${index + 1} 條響應期望最後一條消息包含 "${entry.match}"，實際為: ${last.slice(0, 200)}`
+        );
+      }
+    }
+
+    this.cursor++;
+    return { content: entry.content ?? "", toolCalls: normalizeToolCalls(entry.toolCalls, index), usage: entry.usage };
+  }
+
+  async complete(messages: ChatMessage[], _tools?: unknown[], options: RequestOptions = {}): Promise<CompletionResult> {
+    throwIfAborted(options.signal);
+    return this.next(messages);
+  }
+
+  async *stream(messages: ChatMessage[], _tools?: unknown[], options: RequestOptions = {}): AsyncGenerator<ProviderStreamEvent, void, unknown> {
+    throwIfAborted(options.signal);
+    const result = this.next(messages);
+    if (result.content) {
+      yield { type: "text", content: result.content };
+    }
+    if (result.usage) {
+      yield { type: "usage", usage: result.usage };
+    }
+    if (result.toolCalls.length > 0) {
+      yield { type: "tool_calls", toolCalls: result.toolCalls };
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    return [this.model];
+  }
+}
+
+export class RecordingProvider implements LLMProvider {
+  private recorded: FixtureFile;
+
+  constructor(private inner: LLMProvider, private filePath: string) {
+    this.recorded = { model: inner.model || undefined, responses: [] };
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get baseUrl() {
+    return this.inner.baseUrl;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  set model(value: string) {
+    this.inner.model = value;
+  }
+
+  private record(result: CompletionResult): void {
+    const entry: FixtureResponse = { content: result.content };
+    if (result.toolCalls.length > 0) entry.toolCalls = result.toolCalls;
+    if (result.usage) entry.usage = result.usage;
+    this.recorded.responses.push(entry);
+    this.recorded.model = this.inner.model || this.recorded.model;
+
+    fs.mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.recorded, null, 2), "utf8");
+  }
+
+  async complete(messages: ChatMessage[], tools?: any[], options?: RequestOptions): Promise<CompletionResult> {
+    const result = await this.inner.complete(messages, tools, options);
+    this.record(result);
+    return result;
+  }
+
+  async *stream(messages: ChatMessage[], tools?: any[], options?: RequestOptions): AsyncGenerator<ProviderStreamEvent, void, unknown> {
+    const result: CompletionResult = { content: "", toolCalls: [] };
+    for await (const event of this.inner.stream(messages, tools, options)) {
+      if (event.type === "text") {
+        result.content += event.content;
+      } else if (event.type === "tool_calls") {
+        result.toolCalls.push(...event.toolCalls);
+      } else {
+        result.usage = event.usage;
+      }
+      yield event;
+    }
+    this.record(result);
+  }
+
+  listModels(): Promise<string[]> {
+    return this.inner.listModels();
+  }
+}
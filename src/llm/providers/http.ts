@@ -0,0 +1,155 @@
+/**
+ * HTTP 提供方共用的工具：重試、錯誤解析、SSE 讀取
+ */
+
+import { createLogger } from '../../utils/logger.js';
+import { isAbortError, sleep } from '../../utils/abort.js';
+
+const logger = createLogger('LLM');
+
+/**
+ * Retryable errors that should trigger a retry
+ */
+const RETRYABLE_ERROR_PATTERNS = [
+  /network/i,
+  /timeout/i,
+  /econnreset/i,
+  /enotfound/i,
+  /503/,
+  /502/,
+  /504/,
+  /429/,  // Rate limit
+  /rate.?limit/i,
+];
+
+/**
+ * 帶 HTTP 狀態碼的請求錯誤（錯誤信息來自響應體，可能不包含狀態碼）
+ */
+export class LLMHttpError extends Error {
+  constructor(public status: number | undefined, message: string) {
+    super(message);
+    this.name = "LLMHttpError";
+  }
+}
+
+/**
+ * Check if an error is retryable（限流、5xx、網絡錯誤）
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) {
+    return false;
+  }
+  if (error instanceof LLMHttpError && error.status !== undefined) {
+    return error.status === 429 || error.status >= 500;
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return RETRYABLE_ERROR_PATTERNS.some(pattern => pattern.test(errorMessage));
+}
+
+/**
+ * 带重试的 fetch 封装
+ * @param fn 要执行的异步函数
+ * @param maxRetries 最大重试次数（不包括初始尝试）
+ * @param retryDelay 初始重试延迟（毫秒）
+ * @param signal 取消信號：取消後不再重試，退避等待也立即結束
+ */
+export async function fetchWithRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries: number = 3,
+  retryDelay: number = 1000,
+  signal?: AbortSignal
+): Promise<T> {
+  let lastError: Error | undefined;
+  const totalAttempts = maxRetries + 1; // 1 initial + maxRetries retries
+
+  for (let attempt = 0; attempt < totalAttempts; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // 用戶取消，原樣拋出
+      if (isAbortError(lastError) || signal?.aborted) {
+        throw lastError;
+      }
+
+      // 最后一次尝试失败，不再重试
+      const isLastAttempt = attempt === totalAttempts - 1;
+      if (isLastAttempt) {
+        break;
+      }
+
+      // 检查是否是可重试的错误
+      if (!isRetryableError(lastError)) {
+        // 不可重试的错误（如 401, 403, 400），直接抛出
+        throw lastError;
+      }
+
+      // 指数退避：每次重试延迟加倍，并添加随机抖动
+      const exponentialDelay = retryDelay * Math.pow(2, attempt);
+      // 添加 ±25% 的随机抖动以避免并发请求同时重试
+      const jitter = exponentialDelay * 0.25 * (Math.random() - 0.5) * 2;
+      const delay = Math.max(0, exponentialDelay + jitter);
+
+      logger.warn(`请求失败 (尝试 ${attempt + 1}/${totalAttempts})，${(delay / 1000).toFixed(1)}秒后重试...`);
+      logger.warn(`错误: ${lastError.message}`);
+
+      await sleep(delay, signal);
+    }
+  }
+
+  // 所有重试都失败了（保留狀態碼，供模型回退判斷）
+  throw new LLMHttpError(
+    lastError instanceof LLMHttpError ? lastError.status : undefined,
+    `API 请求在 ${totalAttempts} 次尝试后仍然失败\n最后错误: ${lastError?.message || "未知错误"}`
+  );
+}
+
+/**
+ * 從失敗的響應中提取錯誤信息（OpenAI 和 Anthropic 都使用 { error: { message, type } }）
+ */
+export async function readErrorResponse(res: Response): Promise<{ message: string; type?: string }> {
+  const text = await res.text().catch(() => "");
+  let message = `${res.status} ${res.statusText}`;
+  try {
+    const parsed = JSON.parse(text) as { error?: { message?: string; type?: string } };
+    if (parsed.error?.message) {
+      return { message: parsed.error.message, type: parsed.error.type };
+    }
+  } catch {
+    // 不是 JSON，附上原始內容
+  }
+  if (text) message += `\n${text}`;
+  return { message };
+}
+
+/**
+ * 逐條讀取 SSE 的 data 字段（跳過 [DONE]）
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        const data = trimmed.slice(5).trim();
+        if (data && data !== "[DONE]") {
+          yield data;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
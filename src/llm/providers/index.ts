@@ -0,0 +1,84 @@
+/**
+ * 根據配置創建 LLM 提供方
+ */
+
+import { AnthropicProvider } from "./anthropic.js";
+import { FixtureProvider, RecordingProvider } from "./fixture.js";
+import { OpenAICompatibleProvider } from "./openai.js";
+import { LLM_PROVIDER_TYPES, LLMProvider, LLMProviderType, PROVIDER_DEFAULTS, ProviderOptions } from "./types.js";
+
+export * from "./types.js";
+
+// 白鹿 Personal 計劃優先推薦模型（免費/基礎模型），當前模型不可用時按順序嘗試
+const BAILU_PREFERRED_MODELS = [
+  "bailu-2.6-preview",       // 預覽版，最新功能，工具調用最佳（推薦）
+  "bailu-2.6",               // 穩定版
+  "bailu-2.6-fast-thinking", // 快速思考版
+  "bailu-Minimum-free",      // 免費模型
+  "bailu-Edge",              // Edge 模型
+  "bailu-2.6-mini",          // Mini 版本
+  "bailu-2.5-lite-code",     // 輕量代碼版
+  "bailu-2.5-pro",           // Pro 版本（可能需要付費）
+  "bailu-2.5-code-cc",       // 代碼審查
+];
+
+export function isProviderType(value: string): value is LLMProviderType {
+  return (LLM_PROVIDER_TYPES as string[]).includes(value);
+}
+
+export function createProvider(options: ProviderOptions): LLMProvider {
+  const type = options.provider ?? process.env.BAILU_PROVIDER ?? "bailu";
+  if (!isProviderType(type)) {
+    throw new Error(`未知的 LLM 提供方: ${type}（可選: ${LLM_PROVIDER_TYPES.join(", ")}）`);
+  }
+
+  const defaults = PROVIDER_DEFAULTS[type];
+  const baseUrl = options.baseUrl ?? process.env.BAILU_BASE_URL ?? defaults.baseUrl ?? "";
+  const model = options.model ?? process.env.BAILU_MODEL ?? defaults.model;
+
+  let provider: LLMProvider;
+  switch (type) {
+    case "bailu": {
+      const apiKey = options.apiKey ?? process.env.BAILU_API_KEY;
+      if (!apiKey) {
+        throw new Error("缺少白鹿 API Key。請設置 BAILU_API_KEY 或通過 CLI 互動輸入。");
+      }
+      provider = new OpenAICompatibleProvider({
+        name: "bailu",
+        apiKey,
+        baseUrl,
+        model,
+        preferredModels: BAILU_PREFERRED_MODELS,
+      });
+      break;
+    }
+
+    case "openai":
+      provider = new OpenAICompatibleProvider({
+        name: "openai",
+        apiKey: options.apiKey || process.env.OPENAI_API_KEY,
+        baseUrl,
+        model,
+      });
+      break;
+
+    case "anthropic": {
+      const apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error("缺少 Anthropic API Key。請設置 ANTHROPIC_API_KEY 或在配置中設置 apiKey。");
+      }
+      provider = new AnthropicProvider({ apiKey, baseUrl, model: model! });
+      break;
+    }
+
+    case "fixture": {
+      const fixturePath = options.fixturePath ?? process.env.BAILU_FIXTURE;
+      if (!fixturePath) {
+        throw new Error("fixture 提供方需要 fixture 文件。請在配置中設置 fixturePath 或設置 BAILU_FIXTURE。");
+      }
+      return new FixtureProvider(fixturePath, options.model);
+    }
+  }
+
+  return options.recordFixture ? new RecordingProvider(provider, options.recordFixture) : provider;
+}
@@ -0,0 +1,427 @@
+/**
+ * OpenAI 兼容提供方：白鹿端點，以及 llama.cpp、vLLM、Ollama 等本地服務
+ */
+
+import os from 'os';
+import path from 'path';
+import { createLogger } from '../../utils/logger.js';
+import type { ChatMessage, ChatRole, ChatToolCall } from '../client.js';
+import { fetchWithRetry, LLMHttpError, readErrorResponse, readSseData } from './http.js';
+import { CompletionResult, LLMProvider, ProviderStreamEvent, RequestOptions, TokenUsage } from './types.js';
+
+const logger = createLogger('LLM');
+
+function getDebugLogDir(): string {
+  if (process.platform === 'win32') {
+    const appData = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+    return path.join(appData, 'bailu-cli', 'debug');
+  }
+  const xdg = process.env.XDG_STATE_HOME || path.join(os.homedir(), '.local', 'state');
+  return path.join(xdg, 'bailu-cli', 'debug');
+}
+
+export interface ChatCompletionResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: ChatRole;
+      content: string;
+      tool_calls?: Array<{
+        id?: string;
+        type?: string;
+        function?: {
+          name: string;
+          arguments: string | Record<string, any>;
+        };
+        name?: string;
+        arguments?: Record<string, any>;
+      }>;
+    };
+    finish_reason?: string;
+  }>;
+  usage?: TokenUsage;
+}
+
+export interface StreamChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: ChatRole;
+      content?: string;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: string;
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: TokenUsage;
+}
+
+export interface ModelsResponse {
+  data?: Array<{ id: string }>;
+  models?: Array<{ id: string }>;
+}
+
+export interface OpenAICompatibleOptions {
+  name: "bailu" | "openai";
+  baseUrl: string;
+  apiKey?: string; // 本地服務通常不需要
+  model?: string;
+  /**
+   * 當前模型不可用時按順序嘗試的模型（白鹿不同計劃可用的模型不同）
+   * 不設置時不做可用性探測
+   */
+  preferredModels?: string[];
+}
+
+/**
+ * 將 ChatMessage 轉為 API 請求格式（只帶上有值的工具字段）
+ */
+function toWireMessage(m: ChatMessage): Record<string, unknown> {
+  const wire: Record<string, unknown> = { role: m.role, content: m.content };
+  if (m.tool_calls && m.tool_calls.length > 0) {
+    wire.tool_calls = m.tool_calls;
+  }
+  if (m.tool_call_id) {
+    wire.tool_call_id = m.tool_call_id;
+  }
+  return wire;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: "bailu" | "openai";
+  readonly baseUrl: string;
+  model: string;
+  private apiKey?: string;
+  private preferredModels?: string[];
+  private modelInitialized: boolean = false;
+  private testedModels: Map<string, boolean> = new Map(); // Cache model test results
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/$/, "");
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? "";
+    this.preferredModels = options.preferredModels;
+  }
+
+  private get label(): string {
+    return this.name === "bailu" ? "白鹿 API" : "OpenAI 兼容服務";
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * 確保使用可用的模型：
+   * - 未指定模型時使用服務端的第一個模型（本地服務通常只加載一個模型）
+   * - 設置了 preferredModels 時，當前模型不可用則自動切換
+   */
+  private async ensureModelAvailable(): Promise<void> {
+    if (this.modelInitialized) {
+      return;
+    }
+
+    if (!this.model) {
+      const models = await this.listModels().catch(() => [] as string[]);
+      if (models.length === 0) {
+        throw new Error(`${this.label} (${this.baseUrl}) 沒有返回可用模型，請在配置中設置 model`);
+      }
+      this.model = models[0];
+      this.modelInitialized = true;
+      return;
+    }
+
+    if (!this.preferredModels) {
+      this.modelInitialized = true;
+      return;
+    }
+
+    try {
+      // 獲取可用模型列表
+      const models = await this.listModels();
+
+      if (models.length === 0) {
+        throw new Error("未找到任何可用模型");
+      }
+
+      // 測試當前模型是否真的可用（可能因為計劃限制而不可用）
+      const isCurrentModelUsable = await this.testModel(this.model);
+
+      if (!isCurrentModelUsable) {
+        const oldModel = this.model;
+
+        // 逐個測試推薦模型
+        let selectedModel: string | null = null;
+        for (const model of this.preferredModels) {
+          if (models.includes(model)) {
+            const usable = await this.testModel(model);
+            if (usable) {
+              selectedModel = model;
+              break;
+            }
+          }
+        }
+
+        // 如果推薦列表都不行，測試所有可用模型
+        if (!selectedModel) {
+          for (const model of models) {
+            const usable = await this.testModel(model);
+            if (usable) {
+              selectedModel = model;
+              break;
+            }
+          }
+        }
+
+        if (selectedModel) {
+          this.model = selectedModel;
+          logger.warn(`模型 "${oldModel}" 不可用（可能需要 Enterprise 計劃），自動切換到 "${this.model}"`);
+        } else {
+          throw new Error("未找到任何可用的模型，請檢查你的白鹿賬號計劃");
+        }
+      }
+
+      this.modelInitialized = true;
+    } catch (error) {
+      // 如果獲取模型列表失敗，繼續使用當前模型（會在實際調用時報錯）
+      this.modelInitialized = true;
+    }
+  }
+
+  /**
+   * 測試模型是否真的可用（發送一個簡單請求）
+   * Results are cached to avoid redundant API calls
+   */
+  private async testModel(modelId: string): Promise<boolean> {
+    // Check cache first
+    if (this.testedModels.has(modelId)) {
+      return this.testedModels.get(modelId)!;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify({
+          model: modelId,
+          messages: [{ role: "user", content: "hi" }],
+          max_tokens: 5,
+        }),
+      });
+
+      // 200-299 表示成功
+      const isUsable = response.ok;
+
+      // Cache the result
+      this.testedModels.set(modelId, isUsable);
+
+      return isUsable;
+    } catch {
+      // Cache failed result as well
+      this.testedModels.set(modelId, false);
+      return false;
+    }
+  }
+
+  /**
+   * 請求使用的模型：顯式指定的模型不做可用性探測
+   */
+  private async resolveModel(model?: string): Promise<string> {
+    if (model) return model;
+    // 確保使用可用的模型
+    await this.ensureModelAvailable();
+    return this.model;
+  }
+
+  private buildBody(model: string, messages: ChatMessage[], tools: any[] | undefined, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model,
+      messages: messages.map(toWireMessage),
+      stream,
+    };
+    if (stream) {
+      body.stream_options = { include_usage: true };
+    }
+
+    // 如果提供了工具定義，添加到請求中
+    if (tools && tools.length > 0) {
+      body.tools = tools;
+      // 讓模型自動決定是否調用工具（OpenAI 標準）
+      body.tool_choice = "auto";
+
+      logger.debug(`發送 ${tools.length} 個工具到 API`);
+      logger.debug(`工具名稱: ${tools.map((t: any) => t.function?.name).join(', ')}`);
+    }
+    return body;
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const model = body.model;
+    // 使用重试机制发送请求
+    return fetchWithRetry(async () => {
+      const res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!res.ok) {
+        const { message, type } = await readErrorResponse(res);
+        throw new LLMHttpError(res.status,
+          type === "invalid_model"
+            ? `${message}\n請確認當前模型 ID 是否正確（目前為 "${model}"）。`
+            : message
+        );
+      }
+
+      return res;
+    }, undefined, undefined, signal);
+  }
+
+  async complete(messages: ChatMessage[], tools?: any[], options: RequestOptions = {}): Promise<CompletionResult> {
+    const model = await this.resolveModel(options.model);
+    const response = await this.post(this.buildBody(model, messages, tools, options.stream ?? false), options.signal);
+
+    // 解析响应
+    let data: ChatCompletionResponse;
+    try {
+      data = (await response.json()) as ChatCompletionResponse;
+    } catch (error) {
+      // JSON 解析失敗，可能是 API 返回了錯誤格式
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      throw new Error(`${this.label} 返回了無效的 JSON 響應。\n可能原因：\n1. API 在非流式模式下意外返回了流式數據格式\n2. 網絡傳輸中斷或損壞\n3. API 服務異常\n\n建議：使用流式模式 (stream=true) 或檢查網絡連接\n\n原始錯誤: ${errorMsg}`);
+    }
+
+    const choice = data.choices?.[0];
+    const content = choice?.message?.content ?? "";
+
+    const toolCalls: ChatToolCall[] = (choice?.message?.tool_calls || []).map((toolCall, idx) => {
+      const rawArgs = toolCall.function?.arguments ?? toolCall.arguments ?? {};
+      return {
+        id: toolCall.id || `call_${Date.now()}_${idx}`,
+        type: "function" as const,
+        function: {
+          name: toolCall.function?.name || toolCall.name || "",
+          arguments: typeof rawArgs === 'string' ? rawArgs : JSON.stringify(rawArgs),
+        },
+      };
+    });
+
+    return { content, toolCalls, usage: data.usage };
+  }
+
+  async *stream(messages: ChatMessage[], tools?: any[], options: RequestOptions = {}): AsyncGenerator<ProviderStreamEvent, void, unknown> {
+    const model = await this.resolveModel(options.model);
+    const body = this.buildBody(model, messages, tools, true);
+
+    // 記錄完整請求到文件（僅在 DEBUG 模式下）
+    if (tools && tools.length > 0 && process.env.BAILU_DEBUG) {
+      import('fs').then((fs) => {
+        const debugRequest = {
+          model,
+          messages: messages.map((m: any) => ({
+            role: m.role,
+            content: typeof m.content === 'string' ? m.content.substring(0, 500) + (m.content.length > 500 ? '...(truncated)' : '') : m.content
+          })),
+          tools: tools.length,
+          stream: true,
+        };
+        const debugDir = getDebugLogDir();
+        fs.mkdirSync(debugDir, { recursive: true });
+        fs.appendFileSync(path.join(debugDir, 'api-request.log'), `\n=== API 請求 ===\n${JSON.stringify(debugRequest, null, 2)}\n`, 'utf-8');
+      });
+    }
+
+    const response = await this.post(body, options.signal);
+    if (!response.body) {
+      throw new Error(`${this.label} 流式響應缺少 body`);
+    }
+
+    // 累積流式 tool_calls（API 可能分多個 delta 發送）
+    const accumulatedToolCalls: Map<number, { id: string; name: string; arguments: string }> = new Map();
+
+    for await (const data of readSseData(response.body)) {
+      let chunk: StreamChunk;
+      try {
+        chunk = JSON.parse(data) as StreamChunk;
+      } catch {
+        // 忽略解析錯誤的行
+        continue;
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        yield { type: "text", content: delta.content };
+      }
+      // 累積流式 tool_calls delta
+      if (delta?.tool_calls) {
+        for (const tc of delta.tool_calls) {
+          const idx = tc.index ?? 0;
+          if (!accumulatedToolCalls.has(idx)) {
+            accumulatedToolCalls.set(idx, { id: "", name: "", arguments: "" });
+          }
+          const acc = accumulatedToolCalls.get(idx)!;
+          if (tc.id) {
+            acc.id = tc.id;
+          }
+          if (tc.function?.name) {
+            acc.name += tc.function.name;
+          }
+          if (tc.function?.arguments) {
+            acc.arguments += tc.function.arguments;
+          }
+        }
+      }
+      // 最後一個 chunk 可能包含 usage 統計
+      if (chunk.usage) {
+        yield { type: "usage", usage: chunk.usage };
+      }
+    }
+
+    // 流結束後按 index 順序輸出組裝好的 tool_calls
+    const toolCalls: ChatToolCall[] = Array.from(accumulatedToolCalls.entries())
+      .sort(([a], [b]) => a - b)
+      .filter(([, tc]) => tc.name)
+      .map(([idx, tc]) => ({
+        id: tc.id || `call_${Date.now()}_${idx}`,
+        type: "function" as const,
+        function: { name: tc.name, arguments: tc.arguments || "{}" },
+      }));
+    if (toolCalls.length > 0) {
+      yield { type: "tool_calls", toolCalls };
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      method: "GET",
+      headers: this.headers(),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(`${this.label} 模型列表請求失敗：${response.status} ${response.statusText} ${text}`);
+    }
+
+    const data = (await response.json()) as ModelsResponse;
+    const list = data.data ?? data.models ?? [];
+    return list.map((m) => m.id);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * LLM 提供方抽象
+ * LLMClient 只負責對外接口和用量記錄，具體的協議由各個提供方實現
+ */
+
+import type { ChatMessage, ChatToolCall, StreamEvent } from "../client.js";
+
+/**
+ * 支持的提供方：
+ * - bailu：白鹿 OpenAI 兼容端點（默認，帶模型自動選擇）
+ * - openai：任意 OpenAI 兼容服務（llama.cpp、vLLM、Ollama 等本地服務）
+ * - anthropic：Anthropic Messages API
+ * - fixture：回放錄製好的響應，用於離線開發和 CI
+ */
+export type LLMProviderType = "bailu" | "openai" | "anthropic" | "fixture";
+
+export const LLM_PROVIDER_TYPES: LLMProviderType[] = ["bailu", "openai", "anthropic", "fixture"];
+
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  toolCalls: ChatToolCall[];
+  usage?: TokenUsage;
+}
+
+/**
+ * 提供方的流式事件：在 StreamEvent 之外多一個用量事件，由 LLMClient 消費
+ */
+export type ProviderStreamEvent = StreamEvent | { type: "usage"; usage: TokenUsage };
+
+/**
+ * 單次請求選項：model 覆蓋提供方的當前模型（用於模型路由和回退），signal 用於取消請求
+ */
+export interface RequestOptions {
+  model?: string;
+  stream?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderType;
+  readonly baseUrl?: string;
+  /** 當前模型；空字符串表示由服務端決定（首次請求時解析） */
+  model: string;
+  complete(messages: ChatMessage[], tools?: any[], options?: RequestOptions): Promise<CompletionResult>;
+  stream(messages: ChatMessage[], tools?: any[], options?: RequestOptions): AsyncGenerator<ProviderStreamEvent, void, unknown>;
+  listModels(): Promise<string[]>;
+}
+
+export interface ProviderOptions {
+  provider?: LLMProviderType;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  fixturePath?: string; // fixture 提供方回放的文件
+  recordFixture?: string; // 把真實響應錄製到此文件，供 fixture 提供方回放
+}
+
+/**
+ * 各提供方的默認端點和模型（openai 不設默認模型，使用服務端的第一個模型）
+ */
+export const PROVIDER_DEFAULTS: Record<LLMProviderType, { baseUrl?: string; model?: string }> = {
+  bailu: { baseUrl: "https://bailucode.com/openapi/v1", model: "bailu-2.6-preview" },
+  openai: { baseUrl: "http://127.0.0.1:8080/v1" },
+  anthropic: { baseUrl: "https://api.anthropic.com/v1", model: "claude-sonnet-4-5" },
+  fixture: { model: "fixture" },
+};
@@ -0,0 +1,36 @@
+/**
+ * 模型路由：不同任務使用不同的模型，並按順序回退
+ */
+
+/**
+ * 路由：
+ * - main：主循環（orchestrator、子 Agent、計劃模式）
+ * - commit：生成提交信息
+ * - compress：對話歷史壓縮摘要
+ * - review：代碼審查
+ */
+export type ModelRoute = "main" | "commit" | "compress" | "review";
+
+export const MODEL_ROUTES: ModelRoute[] = ["main", "commit", "compress", "review"];
+
+/**
+ * 每個路由配置一個模型或一條模型鏈（第一個為首選，其餘在 429 / 5xx 時按順序回退）
+ */
+export type ModelRoutes = Partial<Record<ModelRoute, string | string[]>>;
+
+function toList(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter((m) => typeof m === "string" && m.trim());
+}
+
+/**
+ * 解析路由的模型鏈
+ * 未配置的路由使用 main；main 的首選模型總是當前模型（可被 /model 切換），配置中的模型作為回退
+ */
+export function resolveModelChain(routes: ModelRoutes, route: ModelRoute, currentModel: string): string[] {
+  const own = route === "main" ? [] : toList(routes[route]);
+  if (own.length > 0) {
+    return Array.from(new Set(own));
+  }
+  return Array.from(new Set([currentModel, ...toList(routes.main)]));
+}
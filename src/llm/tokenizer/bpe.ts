@@ -0,0 +1,117 @@
+/**
+ * 字節級 BPE 分詞器
+ * 讀取 tiktoken 格式的詞表（每行 "<base64 token> <rank>"），按 rank 從低到高合併相鄰字節
+ */
+
+import { Tokenizer } from "./types.js";
+
+// 超長片段（如壓縮後的代碼、長串空白）分塊合併，避免平方級耗時；對計數的影響可以忽略
+const MAX_PIECE_BYTES = 256;
+
+/**
+ * 預分詞正則（與 tiktoken 的對應編碼一致；JS 不支持 (?i:)，縮寫後綴展開為大小寫）
+ */
+const CONTRACTIONS = "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])";
+
+export const PRETOKENIZE_PATTERNS: Record<string, RegExp> = {
+  cl100k_base: new RegExp(
+    `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    "gu"
+  ),
+  o200k_base: new RegExp(
+    [
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+      `\\p{N}{1,3}`,
+      ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+      `\\s*[\\r\\n]+`,
+      `\\s+(?!\\S)`,
+      `\\s+`,
+    ].join("|"),
+    "gu"
+  ),
+};
+
+/**
+ * 預分詞：把文本切成互不跨越的片段，BPE 只在片段內合併
+ */
+export function pretokenize(text: string, pattern: RegExp = PRETOKENIZE_PATTERNS.cl100k_base): string[] {
+  return text.match(new RegExp(pattern.source, pattern.flags)) ?? [];
+}
+
+/**
+ * 解析 tiktoken 格式的詞表；key 為 token 字節的 latin1 字符串
+ */
+export function parseTiktokenRanks(content: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of content.split("\n")) {
+    const [token, rank] = line.trim().split(" ");
+    if (!token || rank === undefined) continue;
+    ranks.set(Buffer.from(token, "base64").toString("latin1"), Number(rank));
+  }
+  return ranks;
+}
+
+export class BpeTokenizer implements Tokenizer {
+  readonly approximate = false;
+  private pattern: RegExp;
+
+  constructor(readonly name: string, private ranks: Map<string, number>, pattern?: RegExp) {
+    this.pattern = pattern ?? PRETOKENIZE_PATTERNS[name] ?? PRETOKENIZE_PATTERNS.cl100k_base;
+  }
+
+  /**
+   * 片段的 BPE 合併：每次合併 rank 最低的相鄰對，直到沒有可合併的對
+   */
+  private mergePiece(piece: string): number[] {
+    const bytes = Buffer.from(piece, "utf8").toString("latin1");
+    const whole = this.ranks.get(bytes);
+    if (whole !== undefined) {
+      return [whole];
+    }
+    if (bytes.length <= MAX_PIECE_BYTES) {
+      return this.mergeBytes(bytes);
+    }
+    const tokens: number[] = [];
+    for (let i = 0; i < bytes.length; i += MAX_PIECE_BYTES) {
+      tokens.push(...this.mergeBytes(bytes.slice(i, i + MAX_PIECE_BYTES)));
+    }
+    return tokens;
+  }
+
+  private mergeBytes(bytes: string): number[] {
+    let parts = Array.from(bytes);
+    while (parts.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          best = i;
+        }
+      }
+      if (best === -1) break;
+      parts = [...parts.slice(0, best), parts[best] + parts[best + 1], ...parts.slice(best + 2)];
+    }
+
+    // 詞表完整時每個字節都有 rank；缺失的字節記為 -1，仍計為一個 token
+    return parts.map((part) => this.ranks.get(part) ?? -1);
+  }
+
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const piece of pretokenize(text, this.pattern)) {
+      tokens.push(...this.mergePiece(piece));
+    }
+    return tokens;
+  }
+
+  count(text: string): number {
+    let total = 0;
+    for (const piece of pretokenize(text, this.pattern)) {
+      total += this.mergePiece(piece).length;
+    }
+    return total;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * 估算分詞器：沒有詞表時使用
+ * 按 BPE 相同的規則預分詞，再按片段估算：CJK 字符約 1 token / 字，其他約 4 字節 / token
+ */
+
+import { pretokenize } from "./bpe.js";
+import { Tokenizer } from "./types.js";
+
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+export class HeuristicTokenizer implements Tokenizer {
+  readonly approximate = true;
+
+  constructor(readonly name = "heuristic") {}
+
+  count(text: string): number {
+    let total = 0;
+    for (const piece of pretokenize(text)) {
+      const cjk = piece.match(CJK_PATTERN)?.length ?? 0;
+      const other = cjk > 0 ? piece.replace(CJK_PATTERN, "") : piece;
+      total += cjk + (other ? Math.ceil(Buffer.byteLength(other, "utf8") / 4) : 0);
+    }
+    return total;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * 分詞器註冊表
+ * 詞表（tiktoken 格式的 <名稱>.tiktoken）從本地目錄加載，不訪問網絡；
+ * 找不到詞表時回退到估算分詞器
+ */
+
+import fs from "fs";
+import path from "path";
+import type { ChatMessage } from "../client.js";
+import { BpeTokenizer, parseTiktokenRanks } from "./bpe.js";
+import { HeuristicTokenizer } from "./heuristic.js";
+import { Tokenizer } from "./types.js";
+
+export type { Tokenizer } from "./types.js";
+export { BpeTokenizer, parseTiktokenRanks, pretokenize } from "./bpe.js";
+export { HeuristicTokenizer } from "./heuristic.js";
+
+// 每條消息的格式開銷（角色標記、分隔符），與 OpenAI 的計算方式一致
+const TOKENS_PER_MESSAGE = 4;
+
+type TokenizerFactory = () => Tokenizer;
+
+const factories: Map<string, TokenizerFactory> = new Map([["heuristic", () => new HeuristicTokenizer()]]);
+const cache: Map<string, Tokenizer> = new Map();
+let defaultTokenizerName = "cl100k_base";
+
+/**
+ * 註冊自定義分詞器（如特定模型的分詞實現），同名時覆蓋詞表加載
+ */
+export function registerTokenizer(name: string, factory: TokenizerFactory): void {
+  factories.set(name, factory);
+  cache.delete(name);
+}
+
+/**
+ * 詞表目錄：BAILU_TOKENIZER_DIR 優先，其次是隨包發布的 vocab/
+ */
+export function getVocabDirs(): string[] {
+  const dirs: string[] = [];
+  if (process.env.BAILU_TOKENIZER_DIR) {
+    dirs.push(process.env.BAILU_TOKENIZER_DIR);
+  }
+  // 入口為 dist/cli.js（全局安裝時是 bin 符號鏈接），vocab/ 與 dist/ 同級
+  const entry = process.argv[1];
+  if (entry) {
+    try {
+      dirs.push(path.resolve(path.dirname(fs.realpathSync(entry)), "..", "vocab"));
+    } catch {
+      // 入口不可解析（如 REPL），只使用環境變量目錄
+    }
+  }
+  return dirs;
+}
+
+function loadVocabTokenizer(name: string): Tokenizer | null {
+  for (const dir of getVocabDirs()) {
+    const file = path.join(dir, `${name}.tiktoken`);
+    if (fs.existsSync(file)) {
+      return new BpeTokenizer(name, parseTiktokenRanks(fs.readFileSync(file, "utf8")));
+    }
+  }
+  return null;
+}
+
+/**
+ * 按名稱獲取分詞器（加載一次後緩存）；詞表缺失時返回估算分詞器
+ */
+export function getTokenizer(name: string): Tokenizer {
+  const cached = cache.get(name);
+  if (cached) return cached;
+
+  const factory = factories.get(name);
+  const tokenizer = (factory ? factory() : loadVocabTokenizer(name)) ?? new HeuristicTokenizer(name);
+  cache.set(name, tokenizer);
+  return tokenizer;
+}
+
+/**
+ * 默認分詞器：跟隨當前模型，供不知道模型的地方使用（如 read_file 截斷）
+ */
+export function setDefaultTokenizer(name: string): void {
+  defaultTokenizerName = name;
+}
+
+export function getDefaultTokenizer(): Tokenizer {
+  return getTokenizer(defaultTokenizerName);
+}
+
+/**
+ * 計算對話消息的 token 數（內容 + 原生 tool_calls 參數 + 每條消息的格式開銷）
+ */
+export function countMessageTokens(tokenizer: Tokenizer, messages: ChatMessage[]): number {
+  let total = 0;
+  for (const msg of messages) {
+    total += TOKENS_PER_MESSAGE + tokenizer.count(msg.content || "");
+    for (const tc of msg.tool_calls ?? []) {
+      total += tokenizer.count(tc.function.name) + tokenizer.count(tc.function.arguments);
+    }
+  }
+  return total;
+}
+
+/**
+ * 按行截斷文本，使其不超過 maxTokens；返回保留的行數
+ */
+export function fitLinesToTokens(tokenizer: Tokenizer, lines: string[], maxTokens: number): number {
+  let used = 0;
+  for (let i = 0; i < lines.length; i++) {
+    used += tokenizer.count(lines[i]) + 1; // 換行符
+    if (used > maxTokens) {
+      return i;
+    }
+  }
+  return lines.length;
+}
@@ -0,0 +1,12 @@
+/**
+ * 分詞器抽象
+ * 壓縮閾值、/tokens 和 read_file 截斷都通過分詞器計算 token 數
+ */
+
+export interface Tokenizer {
+  /** 分詞器名稱（與詞表文件名一致，如 cl100k_base） */
+  readonly name: string;
+  /** 是否為估算（沒有詞表時的回退實現） */
+  readonly approximate: boolean;
+  count(text: string): number;
+}
@@ -0,0 +1,67 @@
+/**
+ * bailu_task 工具：通過 MCP 把完整的 Agent 任務交給 Bailu 執行
+ * 內部運行 AgentOrchestrator，每個工具調用仍經過 ToolExecutor 的安全模式和權限規則
+ * 任務會修改文件和執行命令：不是只讀工具，不會被自動批准、並行執行或失敗後自動重試
+ */
+
+import { Tool, ToolResult, ToolExecutionContext } from "../tools/types.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { LLMClient } from "../llm/client.js";
+import { AgentOrchestrator, ToolCallMode } from "../agent/orchestrator.js";
+import { WorkspaceContext } from "../agent/types.js";
+import { buildFixPrompt } from "../llm/prompts.js";
+
+export interface BailuTaskToolOptions {
+  llmClient: LLMClient;
+  toolRegistry: ToolRegistry;
+  executionContext: ToolExecutionContext;
+  workspaceContext: WorkspaceContext;
+  maxIterations?: number;
+  toolCallMode?: ToolCallMode;
+  maxParallelTools?: number;
+}
+
+export function createBailuTaskTool(options: BailuTaskToolOptions): Tool {
+  return {
+    definition: {
+      name: "bailu_task",
+      description:
+        "讓 Bailu Agent 在當前工作區完成一個完整的編碼任務（閱讀代碼、修改文件、運行命令），返回最終總結。" +
+        "每一步操作都遵守 Bailu 的安全模式和權限規則。",
+      parameters: [
+        {
+          name: "task",
+          type: "string",
+          description: "任務描述（Bailu 看不到調用方的對話歷史，需寫清楚背景和目標）",
+          required: true,
+        },
+      ],
+      safe: false,
+    },
+
+    handler: async (params): Promise<ToolResult> => {
+      const task = typeof params.task === "string" ? params.task.trim() : "";
+      if (!task) {
+        return { success: false, error: "task 不能為空" };
+      }
+
+      // 每個任務使用獨立的 Orchestrator，避免任務之間共享記憶
+      const orchestrator = new AgentOrchestrator({
+        llmClient: options.llmClient,
+        toolRegistry: options.toolRegistry,
+        executionContext: options.executionContext,
+        maxIterations: options.maxIterations ?? 50,
+        verbose: false,
+        toolCallMode: options.toolCallMode,
+        maxParallelTools: options.maxParallelTools,
+      });
+
+      const result = await orchestrator.run(buildFixPrompt(options.workspaceContext, task), false, true);
+      const summary = `[Bailu｜${result.iterations} 輪，${result.toolCallsExecuted} 次工具調用]\n${result.finalResponse || "(沒有最終回應)"}`;
+
+      return result.success
+        ? { success: true, output: summary, metadata: { iterations: result.iterations, toolCallsExecuted: result.toolCallsExecuted } }
+        : { success: false, error: `任務失敗: ${result.error || "未知錯誤"}`, output: summary };
+    },
+  };
+}
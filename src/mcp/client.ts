@@ -1,28 +1,23 @@
 /**
  * MCP (Model Context Protocol) 客戶端
- * 支援 stdio transport，連接外部 MCP 伺服器並發現/調用工具
+ * 支援 stdio / Streamable HTTP / SSE transport，連接外部 MCP 伺服器並發現/調用工具、讀取資源和提示模板
  */
 
-import { spawn, ChildProcess } from "child_process";
 import { createLogger } from "../utils/logger.js";
 import { Tool, ToolResult, ToolParameter } from "../tools/types.js";
+import {
+  JsonRpcMessage,
+  McpTransport,
+  SseTransport,
+  StdioTransport,
+  StreamableHttpTransport,
+  expandEnvVars,
+} from "./transport.js";
+import { McpPrompt, McpPromptMessage, McpResource, McpResourceContents } from "./content.js";
+import { isToolExposed, mcpToolName } from "./naming.js";
 
 const logger = createLogger('MCP');
 
-interface JsonRpcRequest {
-  jsonrpc: "2.0";
-  id: number;
-  method: string;
-  params?: Record<string, unknown>;
-}
-
-interface JsonRpcResponse {
-  jsonrpc: "2.0";
-  id: number;
-  result?: any;
-  error?: { code: number; message: string; data?: unknown };
-}
-
 interface McpToolSchema {
   name: string;
   description?: string;
@@ -34,22 +29,36 @@ interface McpToolSchema {
 }
 
 export interface McpServerConfig {
-  command: string;
+  // stdio 伺服器
+  command?: string;
   args?: string[];
   env?: Record<string, string>;
   cwd?: string;
+  // HTTP 伺服器
+  url?: string;
+  transport?: "http" | "sse"; // 默認 http（Streamable HTTP），舊版伺服器使用 sse
+  headers?: Record<string, string>; // 支持 ${ENV_VAR}
+  bearerToken?: string; // 以 Authorization: Bearer 發送，支持 ${ENV_VAR}
+  // 工具暴露
+  namespace?: boolean; // 默認 true，工具名為 mcp__<伺服器>__<工具名>
+  includeTools?: string[]; // 只暴露匹配的工具（原始工具名，支持 * 通配）
+  excludeTools?: string[]; // 不暴露匹配的工具
 }
 
 export class McpClient {
-  private process: ChildProcess | null = null;
+  private transport: McpTransport | null = null;
   private requestId = 0;
   private pendingRequests = new Map<number, {
     resolve: (value: any) => void;
     reject: (reason: any) => void;
   }>();
-  private buffer = "";
   private serverName: string;
   private config: McpServerConfig;
+  private capabilities: Record<string, unknown> = {};
+  private lastStderr = "";
+
+  /** 連接意外斷開（伺服器崩潰、事件流關閉）時回調，主動 disconnect 不會觸發 */
+  onDisconnect?: (reason: string) => void;
 
   constructor(serverName: string, config: McpServerConfig) {
     this.serverName = serverName;
@@ -60,50 +69,66 @@ export class McpClient {
    * 連接到 MCP 伺服器
    */
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.process = spawn(this.config.command, this.config.args || [], {
-          cwd: this.config.cwd,
-          env: { ...process.env, ...this.config.env },
-          stdio: ["pipe", "pipe", "pipe"],
-        });
-
-        this.process.stdout?.on("data", (data: Buffer) => {
-          this.buffer += data.toString();
-          this.processBuffer();
-        });
-
-        this.process.stderr?.on("data", (data: Buffer) => {
-          logger.debug(`[${this.serverName}] stderr: ${data.toString().trim()}`);
-        });
-
-        this.process.on("error", (err) => {
-          logger.error(`[${this.serverName}] 進程錯誤:`, err);
-          reject(err);
-        });
-
-        this.process.on("close", (code) => {
-          logger.debug(`[${this.serverName}] 進程退出，代碼: ${code}`);
-          this.cleanup();
-        });
-
-        // 發送 initialize 請求
-        this.sendRequest("initialize", {
-          protocolVersion: "2024-11-05",
-          capabilities: {},
-          clientInfo: {
-            name: "bailu-cli",
-            version: "0.2.8",
-          },
-        }).then((result) => {
-          logger.info(`[${this.serverName}] MCP 伺服器已連接: ${result?.serverInfo?.name || "unknown"}`);
-          // 發送 initialized 通知
-          this.sendNotification("notifications/initialized");
-          resolve();
-        }).catch(reject);
-      } catch (error) {
-        reject(error);
+    const transport = this.createTransport();
+    transport.onmessage = (msg) => this.handleResponse(msg);
+    transport.onclose = (reason) => {
+      logger.debug(`[${this.serverName}] 連接已關閉`);
+      // 主動斷開時 this.transport 已被清空
+      const unexpected = this.transport === transport;
+      this.cleanup();
+      if (unexpected) {
+        this.onDisconnect?.([reason || "連接已關閉", this.lastStderr].filter(Boolean).join(": "));
       }
+    };
+
+    await transport.start();
+    this.transport = transport;
+
+    // 發送 initialize 請求
+    const result = await this.sendRequest("initialize", {
+      protocolVersion: "2024-11-05",
+      capabilities: {},
+      clientInfo: {
+        name: "bailu-cli",
+        version: "0.2.8",
+      },
+    });
+    this.capabilities = result?.capabilities || {};
+    logger.info(`[${this.serverName}] MCP 伺服器已連接: ${result?.serverInfo?.name || "unknown"}`);
+    // 發送 initialized 通知
+    await this.sendNotification("notifications/initialized");
+  }
+
+  /**
+   * 根據配置選擇傳輸方式：有 url 時使用 HTTP，否則啟動 stdio 子進程
+   */
+  private createTransport(): McpTransport {
+    const { url, command } = this.config;
+
+    if (url) {
+      const headers: Record<string, string> = {};
+      for (const [key, value] of Object.entries(this.config.headers || {})) {
+        headers[key] = expandEnvVars(value);
+      }
+      if (this.config.bearerToken) {
+        headers.Authorization = `Bearer ${expandEnvVars(this.config.bearerToken)}`;
+      }
+      const options = { url: expandEnvVars(url), headers };
+      return this.config.transport === "sse" ? new SseTransport(options) : new StreamableHttpTransport(options);
+    }
+
+    if (!command) {
+      throw new Error("MCP 伺服器配置需要 command 或 url");
+    }
+    return new StdioTransport({
+      command,
+      args: this.config.args,
+      env: this.config.env,
+      cwd: this.config.cwd,
+      onStderr: (text) => {
+        if (text) this.lastStderr = text.split("\n").pop() || text;
+        logger.debug(`[${this.serverName}] stderr: ${text}`);
+      },
     });
   }
 
@@ -124,13 +149,83 @@ export class McpClient {
   }
 
   /**
-   * 將 MCP 工具轉換為 Bailu CLI Tool 格式
+   * 是否已連接
+   */
+  isConnected(): boolean {
+    return this.transport !== null;
+  }
+
+  /**
+   * stdio 伺服器的進程 PID（HTTP 伺服器沒有）
+   */
+  getPid(): number | undefined {
+    return this.transport instanceof StdioTransport ? this.transport.pid : undefined;
+  }
+
+  /**
+   * 伺服器是否聲明了某項能力（tools / resources / prompts）
+   */
+  hasCapability(name: string): boolean {
+    return this.capabilities[name] !== undefined;
+  }
+
+  /**
+   * 列出伺服器提供的資源（自動處理分頁）
+   */
+  async listResources(): Promise<McpResource[]> {
+    const resources: McpResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.sendRequest("resources/list", cursor ? { cursor } : {});
+      resources.push(...(result?.resources || []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  /**
+   * 讀取資源內容
+   */
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    const result = await this.sendRequest("resources/read", { uri });
+    return result?.contents || [];
+  }
+
+  /**
+   * 列出伺服器提供的提示模板（自動處理分頁）
+   */
+  async listPrompts(): Promise<McpPrompt[]> {
+    const prompts: McpPrompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.sendRequest("prompts/list", cursor ? { cursor } : {});
+      prompts.push(...(result?.prompts || []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  /**
+   * 用參數展開提示模板
+   */
+  async getPrompt(name: string, args: Record<string, string>): Promise<McpPromptMessage[]> {
+    const result = await this.sendRequest("prompts/get", { name, arguments: args });
+    return result?.messages || [];
+  }
+
+  /**
+   * 將 MCP 工具轉換為 Bailu CLI Tool 格式（按 includeTools / excludeTools 篩選）
    */
   async discoverTools(): Promise<Tool[]> {
     const mcpTools = await this.listTools();
     const tools: Tool[] = [];
 
     for (const mcpTool of mcpTools) {
+      if (!isToolExposed(mcpTool.name, this.config.includeTools, this.config.excludeTools)) {
+        logger.debug(`[${this.serverName}] 工具 ${mcpTool.name} 被 include/exclude 配置排除`);
+        continue;
+      }
+
       const parameters: ToolParameter[] = [];
 
       if (mcpTool.inputSchema?.properties) {
@@ -147,7 +242,7 @@ export class McpClient {
 
       const serverName = this.serverName;
       const client = this;
-      const toolName = `mcp_${serverName}_${mcpTool.name}`;
+      const toolName = mcpToolName(serverName, mcpTool.name, this.config.namespace !== false);
 
       tools.push({
         definition: {
@@ -155,6 +250,7 @@ export class McpClient {
           description: `[MCP:${serverName}] ${mcpTool.description || mcpTool.name}`,
           parameters,
           safe: false,
+          source: { type: "mcp", server: serverName, originalName: mcpTool.name },
         },
         handler: async (params: Record<string, any>): Promise<ToolResult> => {
           try {
@@ -187,9 +283,10 @@ export class McpClient {
    * 斷開連接
    */
   disconnect(): void {
-    if (this.process) {
-      this.process.kill();
+    if (this.transport) {
+      const transport = this.transport;
       this.cleanup();
+      transport.close().catch(() => undefined);
     }
   }
 
@@ -205,24 +302,19 @@ export class McpClient {
     }
   }
 
-  private sendNotification(method: string, params?: Record<string, unknown>): void {
-    if (!this.process?.stdin) return;
-    const msg = JSON.stringify({ jsonrpc: "2.0", method, params });
-    this.process.stdin.write(`Content-Length: ${Buffer.byteLength(msg)}\r\n\r\n${msg}`);
+  private async sendNotification(method: string, params?: Record<string, unknown>): Promise<void> {
+    if (!this.transport) return;
+    await this.transport.send({ jsonrpc: "2.0", method, params });
   }
 
   private sendRequest(method: string, params?: Record<string, unknown>): Promise<any> {
     return new Promise((resolve, reject) => {
-      if (!this.process?.stdin) {
+      if (!this.transport) {
         reject(new Error("MCP 伺服器未連接"));
         return;
       }
 
       const id = ++this.requestId;
-      const request: JsonRpcRequest = { jsonrpc: "2.0", id, method, params };
-      const msg = JSON.stringify(request);
-
-      this.pendingRequests.set(id, { resolve, reject });
 
       // 設置超時
       const timeout = setTimeout(() => {
@@ -235,68 +327,16 @@ export class McpClient {
         reject: (reason) => { clearTimeout(timeout); reject(reason); },
       });
 
-      this.process.stdin.write(`Content-Length: ${Buffer.byteLength(msg)}\r\n\r\n${msg}`);
+      this.transport.send({ jsonrpc: "2.0", id, method, params }).catch((error) => {
+        const pending = this.pendingRequests.get(id);
+        this.pendingRequests.delete(id);
+        pending?.reject(error);
+      });
     });
   }
 
-  private processBuffer(): void {
-    while (true) {
-      // 查找 Content-Length header
-      const headerEnd = this.buffer.indexOf("\r\n\r\n");
-      if (headerEnd === -1) break;
-
-      const header = this.buffer.substring(0, headerEnd);
-      const match = header.match(/Content-Length:\s*(\d+)/i);
-      if (!match) {
-        // 嘗試直接解析 JSON（某些 MCP 伺服器不發 Content-Length）
-        this.tryParseDirectJson();
-        break;
-      }
-
-      const contentLength = parseInt(match[1], 10);
-      const bodyStart = headerEnd + 4;
-
-      if (this.buffer.length < bodyStart + contentLength) break;
-
-      const body = this.buffer.substring(bodyStart, bodyStart + contentLength);
-      this.buffer = this.buffer.substring(bodyStart + contentLength);
-
-      this.handleMessage(body);
-    }
-  }
-
-  private tryParseDirectJson(): void {
-    // 某些 MCP 伺服器直接輸出 JSON 行
-    const lines = this.buffer.split("\n");
-    const remaining: string[] = [];
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      try {
-        const parsed = JSON.parse(trimmed);
-        if (parsed.jsonrpc === "2.0") {
-          this.handleResponse(parsed);
-        }
-      } catch {
-        remaining.push(line);
-      }
-    }
-
-    this.buffer = remaining.join("\n");
-  }
-
-  private handleMessage(body: string): void {
-    try {
-      const msg = JSON.parse(body) as JsonRpcResponse;
-      this.handleResponse(msg);
-    } catch (error) {
-      logger.debug(`[${this.serverName}] 無法解析消息: ${body.substring(0, 200)}`);
-    }
-  }
-
-  private handleResponse(msg: JsonRpcResponse): void {
-    if (msg.id !== undefined && this.pendingRequests.has(msg.id)) {
+  private handleResponse(msg: JsonRpcMessage): void {
+    if (typeof msg.id === "number" && this.pendingRequests.has(msg.id)) {
       const pending = this.pendingRequests.get(msg.id)!;
       this.pendingRequests.delete(msg.id);
 
@@ -313,6 +353,6 @@ export class McpClient {
       pending.reject(new Error("MCP 連接已關閉"));
     }
     this.pendingRequests.clear();
-    this.process = null;
+    this.transport = null;
   }
 }
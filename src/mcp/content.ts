@@ -0,0 +1,117 @@
+/**
+ * MCP 資源與提示模板
+ * 類型定義，以及把資源內容、提示消息轉換為可注入對話的文本
+ */
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // base64
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "resource"; resource: McpResourceContents }
+  | { type: "image" | "audio"; data: string; mimeType: string };
+
+export interface McpPromptMessage {
+  role: "user" | "assistant";
+  content: McpContent;
+}
+
+/**
+ * MCP 提示模板對應的斜線命令名稱
+ */
+export function promptCommandName(serverName: string, promptName: string): string {
+  return `/mcp__${serverName}__${promptName}`;
+}
+
+/**
+ * 把資源內容轉換為文本（二進制內容只保留說明）
+ */
+export function formatResourceContents(contents: McpResourceContents[]): string {
+  return contents
+    .map((item) => {
+      const header = `[MCP 資源: ${item.uri}${item.mimeType ? ` (${item.mimeType})` : ""}]`;
+      if (item.text !== undefined) {
+        return `${header}\n\`\`\`\n${item.text}\n\`\`\``;
+      }
+      const size = item.blob ? Buffer.byteLength(item.blob, "base64") : 0;
+      return `${header}\n（二進制內容，${size} bytes，未載入）`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * 把命令參數綁定到提示模板的參數上
+ * 支持 key=value 和按順序的位置參數，多出的位置參數併入最後一個參數
+ */
+export function bindPromptArguments(
+  prompt: McpPrompt,
+  args: string[]
+): { values: Record<string, string>; missing: string[] } {
+  const declared = prompt.arguments || [];
+  const values: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (const arg of args) {
+    const eq = arg.indexOf("=");
+    const key = eq > 0 ? arg.slice(0, eq) : "";
+    if (key && declared.some((a) => a.name === key)) {
+      values[key] = arg.slice(eq + 1);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const unfilled = declared.filter((a) => values[a.name] === undefined);
+  unfilled.forEach((argument, i) => {
+    if (i >= positional.length) return;
+    values[argument.name] = i === unfilled.length - 1
+      ? positional.slice(i).join(" ")
+      : positional[i];
+  });
+
+  const missing = declared.filter((a) => a.required && !values[a.name]).map((a) => a.name);
+  return { values, missing };
+}
+
+/**
+ * 把提示消息轉換為一段用戶輸入
+ */
+export function formatPromptMessages(messages: McpPromptMessage[]): string {
+  return messages
+    .map((message) => {
+      const content = message.content;
+      let text: string;
+      if (content.type === "text") {
+        text = content.text;
+      } else if (content.type === "resource") {
+        text = formatResourceContents([content.resource]);
+      } else {
+        text = `（${content.type} 內容: ${content.mimeType}，未載入）`;
+      }
+      return message.role === "assistant" ? `[assistant]\n${text}` : text;
+    })
+    .join("\n\n");
+}
@@ -1,6 +1,7 @@
 /**
  * MCP 伺服器管理器
- * 從 .bailu.yml 讀取 MCP 伺服器配置，連接並註冊工具
+ * 從 .bailu.yml 讀取 MCP 伺服器配置，連接並註冊工具，收集資源和提示模板
+ * 運行時可通過 /mcp 查看狀態、重啟、斷開或啟用伺服器
  */
 
 import fs from "fs";
@@ -9,14 +10,48 @@ import readline from "readline";
 import YAML from "yaml";
 import chalk from "chalk";
 import { McpClient, McpServerConfig } from "./client.js";
-import { ToolRegistry } from "../tools/registry.js";
+import { expandEnvVars } from "./transport.js";
+import { McpPrompt, McpPromptMessage, McpResource, McpResourceContents, promptCommandName } from "./content.js";
+import { ToolRegistry, getToolSourceKey } from "../tools/registry.js";
 import { Tool } from "../tools/types.js";
 import { createLogger } from "../utils/logger.js";
 
 const logger = createLogger('MCP');
 
+export interface McpServerResource {
+  server: string;
+  resource: McpResource;
+}
+
+export interface McpServerPrompt {
+  server: string;
+  command: string; // 對應的斜線命令，如 /mcp__github__review
+  prompt: McpPrompt;
+}
+
+export type McpServerStatus = "connected" | "disconnected" | "failed" | "skipped";
+
+/**
+ * 單個 MCP 伺服器的運行狀態
+ */
+export interface McpServerState {
+  name: string;
+  config: McpServerConfig;
+  transport: "stdio" | "http" | "sse";
+  status: McpServerStatus;
+  approved: boolean; // 是否通過配置校驗/命令白名單確認
+  client?: McpClient;
+  tools: Tool[];
+  resources: McpResource[];
+  prompts: McpPrompt[];
+  lastError?: string;
+  connectedAt?: Date;
+}
+
 export interface McpConfig {
   mcpServers?: Record<string, McpServerConfig>;
+  // 工具同名時的來源優先級，如 ["github", "builtin"]；未列出的來源排在後面，內建工具優先於 MCP
+  mcpToolPrecedence?: string[];
 }
 
 // MCP 命令白名單：只允許已知安全的執行器
@@ -26,8 +61,9 @@ const MCP_COMMAND_ALLOWLIST = new Set([
 ]);
 
 export class McpManager {
-  private clients: Map<string, McpClient> = new Map();
-  private registeredTools: Tool[] = [];
+  private servers: Map<string, McpServerState> = new Map();
+  private registry: ToolRegistry | null = null;
+  private precedence: string[] = [];
 
   /**
    * 檢查 MCP 命令是否在白名單內
@@ -37,6 +73,18 @@ export class McpManager {
     return MCP_COMMAND_ALLOWLIST.has(baseName);
   }
 
+  /**
+   * 檢查 HTTP 伺服器地址（支持 ${ENV_VAR}）
+   */
+  private isUrlValid(url: string): boolean {
+    try {
+      const protocol = new URL(expandEnvVars(url)).protocol;
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * 當命令不在白名單時，詢問用戶是否允許
    */
@@ -59,11 +107,32 @@ export class McpManager {
     });
   }
 
+  /**
+   * 校驗伺服器配置，命令不在白名單時詢問用戶
+   * @returns 不允許連接的原因，允許時返回 null
+   */
+  private async checkServerConfig(name: string, config: McpServerConfig): Promise<string | null> {
+    if (config.url) {
+      // HTTP 伺服器：只接受 http/https 地址
+      return this.isUrlValid(config.url) ? null : `無效的 url "${config.url}"`;
+    }
+    if (!config.command) {
+      return "需要配置 command 或 url";
+    }
+    // 安全檢查：命令白名單驗證
+    if (!this.isCommandSafe(config.command) && !(await this.confirmUnsafeCommand(name, config))) {
+      return "用戶拒絕或命令不安全";
+    }
+    return null;
+  }
+
   /**
    * 從 .bailu.yml 載入 MCP 配置並連接所有伺服器
    */
   async initialize(workspaceRoot: string, registry: ToolRegistry): Promise<void> {
+    this.registry = registry;
     const config = this.loadConfig(workspaceRoot);
+    this.precedence = Array.isArray(config.mcpToolPrecedence) ? config.mcpToolPrecedence.map(String) : [];
 
     if (!config.mcpServers || Object.keys(config.mcpServers).length === 0) {
       logger.debug("未配置 MCP 伺服器");
@@ -73,65 +142,259 @@ export class McpManager {
     console.log(chalk.cyan(`[MCP] 正在連接 ${Object.keys(config.mcpServers).length} 個 MCP 伺服器...`));
 
     for (const [name, serverConfig] of Object.entries(config.mcpServers)) {
-      try {
-        // 安全檢查：命令白名單驗證
-        if (!this.isCommandSafe(serverConfig.command)) {
-          const allowed = await this.confirmUnsafeCommand(name, serverConfig);
-          if (!allowed) {
-            console.log(chalk.yellow(`[MCP] ✗ ${name}: 用戶拒絕或命令不安全，跳過`));
-            continue;
-          }
-        }
+      const state: McpServerState = {
+        name,
+        config: serverConfig,
+        transport: serverConfig.url ? (serverConfig.transport || "http") : "stdio",
+        status: "disconnected",
+        approved: false,
+        tools: [],
+        resources: [],
+        prompts: [],
+      };
+      this.servers.set(name, state);
 
-        const client = new McpClient(name, serverConfig);
-        await client.connect();
-        this.clients.set(name, client);
-
-        // 發現並註冊工具
-        const tools = await client.discoverTools();
-        for (const tool of tools) {
-          try {
-            registry.register(tool);
-            this.registeredTools.push(tool);
-          } catch (err) {
-            logger.warn(`MCP 工具 ${tool.definition.name} 註冊失敗: ${err instanceof Error ? err.message : String(err)}`);
-          }
+      const reason = await this.checkServerConfig(name, serverConfig);
+      if (reason) {
+        state.status = "skipped";
+        state.lastError = reason;
+        console.log(chalk.yellow(`[MCP] ✗ ${name}: ${reason}，跳過`));
+        continue;
+      }
+      state.approved = true;
+
+      if (await this.connectServer(state)) {
+        console.log(chalk.green(`[MCP] ✓ ${this.describeConnected(state)}`));
+      } else {
+        console.log(chalk.yellow(`[MCP] ✗ ${name}: 連接失敗 — ${state.lastError}`));
+      }
+    }
+  }
+
+  /**
+   * 連接伺服器並註冊工具、收集資源和提示模板
+   * @returns 是否連接成功，失敗原因記錄在 state.lastError
+   */
+  private async connectServer(state: McpServerState): Promise<boolean> {
+    const client = new McpClient(state.name, state.config);
+    try {
+      await client.connect();
+
+      // 發現並註冊工具
+      const tools = await client.discoverTools();
+      state.tools = [];
+      for (const tool of tools) {
+        state.tools.push(tool);
+        const outcome = this.registry?.registerWithPrecedence(tool, this.precedence);
+        if (outcome?.conflict) {
+          const other = getToolSourceKey(outcome.conflict.definition);
+          logger.warn(outcome.status === "replaced"
+            ? `MCP 工具 ${tool.definition.name} 按優先級覆蓋了來自 ${other} 的同名工具`
+            : `MCP 工具 ${tool.definition.name} 與來自 ${other} 的同名工具衝突，按優先級未啟用`);
         }
+      }
+
+      await this.collectResourcesAndPrompts(state, client);
+
+      state.client = client;
+      state.status = "connected";
+      state.lastError = undefined;
+      state.connectedAt = new Date();
+      client.onDisconnect = (reason) => this.handleUnexpectedDisconnect(state, client, reason);
+      return true;
+    } catch (error) {
+      this.unregisterTools(state);
+      client.disconnect();
+      state.status = "failed";
+      state.lastError = error instanceof Error ? error.message : String(error);
+      return false;
+    }
+  }
+
+  /**
+   * 伺服器崩潰或連接中斷：移除其工具，等待用戶通過 /mcp restart 重新連接
+   */
+  private handleUnexpectedDisconnect(state: McpServerState, client: McpClient, reason: string): void {
+    if (state.client !== client) return;
+    this.unregisterTools(state);
+    state.client = undefined;
+    state.status = "failed";
+    state.lastError = reason;
+    console.log(chalk.yellow(`\n[MCP] ✗ ${state.name}: 連接已斷開 — ${reason}（使用 /mcp restart ${state.name} 重新連接）`));
+  }
+
+  private unregisterTools(state: McpServerState): void {
+    for (const tool of state.tools) {
+      this.registry?.unregister(tool.definition.name, tool);
+    }
+    state.tools = [];
+    state.resources = [];
+    state.prompts = [];
+  }
+
+  private describeConnected(state: McpServerState): string {
+    const extras = [
+      state.resources.length > 0 ? `${state.resources.length} 個資源` : "",
+      state.prompts.length > 0 ? `${state.prompts.length} 個提示模板` : "",
+    ].filter(Boolean).join("，");
+    return `${state.name} (${state.transport}): 已註冊 ${state.tools.length} 個工具${extras ? `，${extras}` : ""}`;
+  }
+
+  /**
+   * 收集伺服器聲明的資源和提示模板（失敗不影響工具使用）
+   */
+  private async collectResourcesAndPrompts(state: McpServerState, client: McpClient): Promise<void> {
+    if (client.hasCapability("resources")) {
+      try {
+        state.resources = await client.listResources();
+      } catch (err) {
+        logger.warn(`[${state.name}] 資源列表獲取失敗: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    if (client.hasCapability("prompts")) {
+      try {
+        state.prompts = await client.listPrompts();
+      } catch (err) {
+        logger.warn(`[${state.name}] 提示模板列表獲取失敗: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  private getServer(name: string): McpServerState {
+    const state = this.servers.get(name);
+    if (!state) {
+      const names = Array.from(this.servers.keys());
+      throw new Error(`找不到 MCP 伺服器 "${name}"${names.length > 0 ? `（可用: ${names.join(", ")}）` : ""}`);
+    }
+    return state;
+  }
 
-        console.log(chalk.green(`[MCP] ✓ ${name}: 已註冊 ${tools.length} 個工具`));
-      } catch (error) {
-        console.log(chalk.yellow(`[MCP] ✗ ${name}: 連接失敗 — ${error instanceof Error ? error.message : String(error)}`));
+  /**
+   * 重啟伺服器（未連接時即為啟用），並重新註冊工具
+   * @returns 連接成功後的描述
+   * @throws 伺服器不存在、配置無效或連接失敗時
+   */
+  async restartServer(name: string): Promise<string> {
+    const state = this.getServer(name);
+
+    if (!state.approved) {
+      const reason = await this.checkServerConfig(name, state.config);
+      if (reason) {
+        state.lastError = reason;
+        throw new Error(reason);
       }
+      state.approved = true;
+    }
+
+    this.disconnectServer(name);
+    if (!(await this.connectServer(state))) {
+      throw new Error(state.lastError);
+    }
+    return this.describeConnected(state);
+  }
+
+  /**
+   * 斷開伺服器並移除其工具
+   * @returns 斷開前是否處於連接狀態
+   */
+  disconnectServer(name: string): boolean {
+    const state = this.getServer(name);
+    const client = state.client;
+    this.unregisterTools(state);
+    state.client = undefined;
+    if (!client) {
+      return false;
+    }
+    client.disconnect();
+    state.status = "disconnected";
+    logger.debug(`[MCP] ${name} 已斷開`);
+    return true;
+  }
+
+  /**
+   * 所有已配置伺服器的狀態
+   */
+  getServers(): McpServerState[] {
+    return Array.from(this.servers.values());
+  }
+
+  /**
+   * 所有伺服器提供的資源
+   */
+  getResources(): McpServerResource[] {
+    return this.getServers().flatMap(s => s.resources.map(resource => ({ server: s.name, resource })));
+  }
+
+  /**
+   * 讀取資源；未指定伺服器時按已列出的資源查找所屬伺服器
+   */
+  async readResource(uri: string, server?: string): Promise<McpResourceContents[]> {
+    const serverName = server ?? this.getResources().find(r => r.resource.uri === uri)?.server;
+    if (!serverName) {
+      throw new Error(`找不到資源 ${uri}，請指定伺服器名稱`);
+    }
+    return this.getConnectedClient(serverName).readResource(uri);
+  }
+
+  /**
+   * 所有伺服器提供的提示模板
+   */
+  getPrompts(): McpServerPrompt[] {
+    return this.getServers().flatMap(s => s.prompts.map(prompt => ({
+      server: s.name,
+      command: promptCommandName(s.name, prompt.name),
+      prompt,
+    })));
+  }
+
+  /**
+   * 按斜線命令名稱查找提示模板
+   */
+  findPrompt(command: string): McpServerPrompt | undefined {
+    return this.getPrompts().find(p => p.command.toLowerCase() === command.toLowerCase());
+  }
+
+  /**
+   * 展開提示模板
+   */
+  async getPrompt(server: string, name: string, args: Record<string, string>): Promise<McpPromptMessage[]> {
+    return this.getConnectedClient(server).getPrompt(name, args);
+  }
+
+  private getConnectedClient(name: string): McpClient {
+    const client = this.servers.get(name)?.client;
+    if (!client) {
+      throw new Error(`MCP 伺服器 ${name} 未連接`);
     }
+    return client;
   }
 
   /**
    * 斷開所有 MCP 伺服器
    */
   disconnectAll(): void {
-    for (const [name, client] of this.clients) {
+    for (const name of this.servers.keys()) {
       try {
-        client.disconnect();
-        logger.debug(`[MCP] ${name} 已斷開`);
+        this.disconnectServer(name);
       } catch {
         // ignore
       }
     }
-    this.clients.clear();
   }
 
   /**
    * 獲取已連接的伺服器數量
    */
   getConnectedCount(): number {
-    return this.clients.size;
+    return this.getServers().filter(s => s.status === "connected").length;
   }
 
   /**
    * 獲取已註冊的 MCP 工具數量
    */
   getToolCount(): number {
-    return this.registeredTools.length;
+    return this.getServers().reduce((sum, s) => sum + s.tools.length, 0);
   }
 
   private loadConfig(workspaceRoot: string): McpConfig {
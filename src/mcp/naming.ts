@@ -0,0 +1,37 @@
+/**
+ * MCP 工具命名與篩選
+ * 工具默認以 mcp__<伺服器>__<工具名> 暴露給模型，避免與內建工具或其他伺服器衝突
+ */
+
+import { matchPermissionPattern } from "../runtime/permissions.js";
+
+/**
+ * 工具名只允許字母、數字、下劃線和連字符（OpenAI function name 規範）
+ */
+function sanitizeNamePart(part: string): string {
+  return part.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/**
+ * MCP 工具暴露給模型的名稱
+ * @param namespaced 為 false 時使用伺服器上的原始名稱（同名衝突按優先級處理）
+ */
+export function mcpToolName(serverName: string, toolName: string, namespaced: boolean = true): string {
+  return namespaced
+    ? `mcp__${sanitizeNamePart(serverName)}__${sanitizeNamePart(toolName)}`
+    : sanitizeNamePart(toolName);
+}
+
+/**
+ * 按 include / exclude 列表（支持 * 和 ? 通配）判斷工具是否暴露給模型
+ * 未配置 include 時默認全部包含；exclude 優先
+ */
+export function isToolExposed(toolName: string, include?: string[], exclude?: string[]): boolean {
+  if (exclude?.some(pattern => matchPermissionPattern(pattern, toolName))) {
+    return false;
+  }
+  if (include && include.length > 0) {
+    return include.some(pattern => matchPermissionPattern(pattern, toolName));
+  }
+  return true;
+}
@@ -0,0 +1,148 @@
+/**
+ * MCP 伺服器（stdio）
+ * 把 Bailu 的工具通過 MCP 協議提供給其他 Agent 和編輯器使用
+ * stdout 只用於協議消息，日誌和工具的輸出必須寫到 stderr
+ */
+
+import { ToolDefinition, ToolResult } from "../tools/types.js";
+import { JsonRpcMessage, JsonRpcStreamReader } from "./transport.js";
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+// JSON-RPC 錯誤碼
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+export interface McpServerHandlers {
+  listTools(): ToolDefinition[];
+  callTool(name: string, args: Record<string, unknown>): Promise<ToolResult>;
+}
+
+export interface McpServerInfo {
+  name: string;
+  version: string;
+}
+
+/**
+ * 把工具定義轉換為 MCP 的 JSON Schema 格式
+ */
+export function toMcpToolSchema(definition: ToolDefinition): Record<string, unknown> {
+  const properties: Record<string, { type: string; description: string }> = {};
+  for (const param of definition.parameters) {
+    properties[param.name] = { type: param.type, description: param.description };
+  }
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: {
+      type: "object",
+      properties,
+      required: definition.parameters.filter(p => p.required).map(p => p.name),
+    },
+  };
+}
+
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+export class McpStdioServer {
+  private reader = new JsonRpcStreamReader();
+  private pending = new Set<Promise<void>>();
+
+  constructor(
+    private info: McpServerInfo,
+    private handlers: McpServerHandlers,
+    private write: (chunk: string) => void
+  ) {}
+
+  /**
+   * 從輸入流讀取請求，直到輸入結束（客戶端斷開）並且處理中的請求全部完成
+   */
+  serve(input: NodeJS.ReadableStream): Promise<void> {
+    return new Promise((resolve) => {
+      input.setEncoding("utf8");
+      input.on("data", (chunk: string) => {
+        const messages = this.reader.push(chunk, () => {
+          this.send({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+        });
+        for (const message of messages) {
+          // 請求並發處理，長時間運行的 bailu_task 不阻塞其他請求
+          const task = this.handleMessage(message).then(response => {
+            if (response) this.send(response);
+          });
+          this.pending.add(task);
+          task.finally(() => this.pending.delete(task));
+        }
+      });
+      input.on("end", () => {
+        Promise.allSettled(Array.from(this.pending)).then(() => resolve());
+      });
+    });
+  }
+
+  /**
+   * 處理單條消息；通知和響應返回 null
+   */
+  async handleMessage(message: JsonRpcMessage): Promise<JsonRpcMessage | null> {
+    if (!message.method || message.id === undefined) {
+      return null;
+    }
+
+    try {
+      const result = await this.dispatch(message.method, message.params || {});
+      return { jsonrpc: "2.0", id: message.id, result };
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : INTERNAL_ERROR;
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code, message: error instanceof Error ? error.message : String(error) },
+      };
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case "initialize": {
+        const requested = typeof params.protocolVersion === "string" ? params.protocolVersion : "";
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: this.info,
+        };
+      }
+
+      case "ping":
+        return {};
+
+      case "tools/list":
+        return { tools: this.handlers.listTools().map(toMcpToolSchema) };
+
+      case "tools/call": {
+        const name = params.name;
+        if (typeof name !== "string" || !this.handlers.listTools().some(t => t.name === name)) {
+          throw new RpcError(INVALID_PARAMS, `未知的工具: ${String(name)}`);
+        }
+        const args = (params.arguments && typeof params.arguments === "object" ? params.arguments : {}) as Record<string, unknown>;
+        const result = await this.handlers.callTool(name, args);
+        // 工具失敗作為結果返回（isError），讓調用方的模型能看到錯誤信息
+        const text = result.success
+          ? result.output || "(無輸出)"
+          : [result.error, result.output].filter(Boolean).join("\n\n") || "工具執行失敗";
+        return { content: [{ type: "text", text }], isError: !result.success };
+      }
+
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `不支持的方法: ${method}`);
+    }
+  }
+
+  private send(message: JsonRpcMessage): void {
+    this.write(this.reader.encode(message));
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * MCP 傳輸層
+ * - stdio：啟動子進程，通過 stdin/stdout 收發（Content-Length 分幀或 JSON 行）
+ * - http：Streamable HTTP，每個消息一個 POST，響應為 JSON 或 SSE 流
+ * - sse：舊版 HTTP+SSE，GET 建立事件流，服務器通過 endpoint 事件告知 POST 地址
+ */
+
+import { spawn, ChildProcess } from "child_process";
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpTransport {
+  /** 收到服務器消息 */
+  onmessage?: (message: JsonRpcMessage) => void;
+  /** 連接關閉，reason 說明原因（如子進程退出碼） */
+  onclose?: (reason?: string) => void;
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * 展開配置中的 ${ENV_VAR}，避免把 token 直接寫進 .bailu.yml
+ */
+export function expandEnvVars(value: string, env: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => env[name] ?? "");
+}
+
+export interface SseEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * 解析 SSE 流，每個完整事件回調一次
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let event: SseEvent = { data: "" };
+  let hasData = false;
+
+  const dispatch = () => {
+    if (hasData) {
+      onEvent({ ...event, data: event.data.replace(/\n$/, "") });
+    }
+    event = { data: "" };
+    hasData = false;
+  };
+
+  const handleLine = (line: string) => {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) return; // 註釋/心跳
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "data") {
+      event.data += `${value}\n`;
+      hasData = true;
+    } else if (field === "event") {
+      event.event = value;
+    } else if (field === "id") {
+      event.id = value;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.search(/\r?\n/)) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(buffer[newline] === "\r" ? newline + 2 : newline + 1);
+      handleLine(line);
+    }
+  }
+  if (buffer) handleLine(buffer);
+  dispatch();
+}
+
+function parseJsonRpc(text: string): JsonRpcMessage[] {
+  const parsed = JSON.parse(text);
+  const messages = Array.isArray(parsed) ? parsed : [parsed];
+  return messages.filter((m): m is JsonRpcMessage => m && m.jsonrpc === "2.0");
+}
+
+/**
+ * stdio 消息分幀：兼容 Content-Length 頭和 JSON 行兩種格式
+ * framing 記錄第一次識別到的格式，服務端用同樣的格式回覆
+ */
+export class JsonRpcStreamReader {
+  framing: "content-length" | "newline" | null = null;
+  private buffer = "";
+
+  /**
+   * 追加收到的數據，返回已完整的消息（無法解析的 JSON 行通過 onError 報告）
+   */
+  push(chunk: string, onError?: (text: string) => void): JsonRpcMessage[] {
+    this.buffer += chunk;
+    const messages: JsonRpcMessage[] = [];
+
+    while (true) {
+      // 查找 Content-Length header
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      const match = headerEnd === -1 ? null : this.buffer.substring(0, headerEnd).match(/Content-Length:\s*(\d+)/i);
+      if (!match) {
+        // 某些 MCP 伺服器直接輸出 JSON 行
+        messages.push(...this.takeJsonLines(onError));
+        break;
+      }
+
+      const contentLength = parseInt(match[1], 10);
+      const bodyStart = headerEnd + 4;
+      if (Buffer.byteLength(this.buffer.substring(bodyStart)) < contentLength) break;
+
+      const body = Buffer.from(this.buffer.substring(bodyStart)).subarray(0, contentLength).toString();
+      this.buffer = this.buffer.substring(bodyStart + body.length);
+      this.framing ??= "content-length";
+      try {
+        messages.push(...parseJsonRpc(body));
+      } catch {
+        onError?.(body);
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * 按識別到的格式編碼消息（默認 JSON 行）
+   */
+  encode(message: JsonRpcMessage): string {
+    const body = JSON.stringify(message);
+    return this.framing === "content-length"
+      ? `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`
+      : `${body}\n`;
+  }
+
+  private takeJsonLines(onError?: (text: string) => void): JsonRpcMessage[] {
+    const lines = this.buffer.split("\n");
+    // 最後一段可能是不完整的行，留待下次解析
+    const incomplete = lines.pop() ?? "";
+    const remaining: string[] = [];
+    const messages: JsonRpcMessage[] = [];
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      // 可能是尚未收全的 Content-Length 頭
+      if (/^Content-Length:/i.test(trimmed)) {
+        remaining.push(line);
+        continue;
+      }
+      try {
+        messages.push(...parseJsonRpc(trimmed));
+        this.framing ??= "newline";
+      } catch {
+        onError?.(trimmed);
+      }
+    }
+    this.buffer = [...remaining, incomplete].join("\n");
+    return messages;
+  }
+}
+
+export interface StdioTransportOptions {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  onStderr?: (text: string) => void;
+}
+
+/**
+ * stdio 傳輸
+ */
+export class StdioTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (reason?: string) => void;
+  private process: ChildProcess | null = null;
+  private reader = new JsonRpcStreamReader();
+
+  constructor(private options: StdioTransportOptions) {}
+
+  /** 子進程 PID */
+  get pid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.process = spawn(this.options.command, this.options.args || [], {
+        cwd: this.options.cwd,
+        env: { ...process.env, ...this.options.env },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+
+      this.process.stdout?.on("data", (data: Buffer) => {
+        this.reader.push(data.toString()).forEach(message => this.onmessage?.(message));
+      });
+      this.process.stderr?.on("data", (data: Buffer) => {
+        this.options.onStderr?.(data.toString().trim());
+      });
+      this.process.once("spawn", () => resolve());
+      this.process.once("error", reject);
+      this.process.on("close", (code, signal) => {
+        this.process = null;
+        this.onclose?.(signal ? `進程被信號 ${signal} 終止` : `進程已退出 (code ${code})`);
+      });
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.process?.stdin) {
+      throw new Error("MCP 伺服器未連接");
+    }
+    const msg = JSON.stringify(message);
+    this.process.stdin.write(`Content-Length: ${Buffer.byteLength(msg)}\r\n\r\n${msg}`);
+  }
+
+  async close(): Promise<void> {
+    this.process?.kill();
+    this.process = null;
+  }
+}
+
+export interface HttpTransportOptions {
+  url: string;
+  headers?: Record<string, string>;
+  requestTimeoutMs?: number;
+}
+
+/**
+ * Streamable HTTP 傳輸（MCP 2025-03-26）
+ */
+export class StreamableHttpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (reason?: string) => void;
+  private sessionId: string | null = null;
+  private abortController = new AbortController();
+
+  constructor(private options: HttpTransportOptions) {}
+
+  async start(): Promise<void> {
+    // 無需預先建立連接，第一個 POST（initialize）即建立會話
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const response = await fetch(this.options.url, {
+      method: "POST",
+      headers: this.buildHeaders({
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      }),
+      body: JSON.stringify(message),
+      signal: this.abortController.signal,
+    });
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    // 通知/響應被接受，沒有內容返回
+    if (response.status === 202 || response.status === 204) {
+      return;
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(`HTTP ${response.status}${text ? `: ${text.substring(0, 200)}` : ""}`);
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (contentType.includes("text/event-stream") && response.body) {
+      await readSseStream(response.body, (event) => {
+        if (!event.data || (event.event && event.event !== "message")) return;
+        parseJsonRpc(event.data).forEach(msg => this.onmessage?.(msg));
+      });
+      return;
+    }
+
+    const text = await response.text();
+    if (text.trim()) {
+      parseJsonRpc(text).forEach(msg => this.onmessage?.(msg));
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController.abort();
+    if (this.sessionId) {
+      // 通知服務器結束會話（失敗不影響關閉）
+      await fetch(this.options.url, {
+        method: "DELETE",
+        headers: this.buildHeaders({}),
+        signal: AbortSignal.timeout(3000),
+      }).catch(() => undefined);
+      this.sessionId = null;
+    }
+    this.onclose?.();
+  }
+
+  private buildHeaders(base: Record<string, string>): Record<string, string> {
+    return {
+      ...base,
+      ...this.options.headers,
+      ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+    };
+  }
+}
+
+/**
+ * 舊版 HTTP+SSE 傳輸（MCP 2024-11-05）
+ */
+export class SseTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (reason?: string) => void;
+  private endpoint: string | null = null;
+  private abortController = new AbortController();
+
+  constructor(private options: HttpTransportOptions) {}
+
+  async start(): Promise<void> {
+    const response = await fetch(this.options.url, {
+      method: "GET",
+      headers: { Accept: "text/event-stream", ...this.options.headers },
+      signal: this.abortController.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`無法建立 SSE 連接: HTTP ${response.status}`);
+    }
+
+    const body = response.body;
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("等待 SSE endpoint 事件超時")), this.options.requestTimeoutMs ?? 30000);
+
+      readSseStream(body, (event) => {
+        if (event.event === "endpoint") {
+          clearTimeout(timer);
+          // POST 會攜帶配置的 headers（如 Authorization），只允許發往同源地址
+          const endpoint = new URL(event.data.trim(), this.options.url);
+          const expected = new URL(this.options.url).origin;
+          if (endpoint.origin !== expected) {
+            reject(new Error(`SSE endpoint 與伺服器不同源（${endpoint.origin}，應為 ${expected}），拒絕連接`));
+            this.abortController.abort();
+            return;
+          }
+          this.endpoint = endpoint.toString();
+          resolve();
+          return;
+        }
+        if (event.data && (!event.event || event.event === "message")) {
+          try {
+            parseJsonRpc(event.data).forEach(msg => this.onmessage?.(msg));
+          } catch {
+            // 忽略無法解析的事件
+          }
+        }
+      })
+        .catch(() => undefined)
+        .finally(() => {
+          clearTimeout(timer);
+          if (!this.endpoint) {
+            reject(new Error("SSE 連接在收到 endpoint 前關閉"));
+          }
+          this.onclose?.("SSE 事件流已關閉");
+        });
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error("MCP 伺服器未連接");
+    }
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.options.headers },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    // 響應通過 SSE 流返回
+    await response.body?.cancel().catch(() => undefined);
+  }
+
+  async close(): Promise<void> {
+    this.abortController.abort();
+    this.endpoint = null;
+  }
+}
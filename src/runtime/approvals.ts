@@ -0,0 +1,179 @@
+/**
+ * 審批記錄（review 模式下的「總是允許」）
+ * - 會話級：允許某個工具在本次會話中不再確認（只存在內存）
+ * - 項目級：允許某條完整命令、或某個目錄下的寫入，保存在 .bailu/permissions.json
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { getCommandLine, getTargetPaths, isCommandTool } from "./permissions.js";
+
+export type ApprovalKind = "tool" | "command" | "directory";
+
+export interface ApprovalEntry {
+  kind: ApprovalKind;
+  value: string; // 工具名 / 完整命令行 / 相對於工作區的目錄
+  scope: "session" | "project";
+  createdAt: string;
+}
+
+interface ApprovalFile {
+  approvals: ApprovalEntry[];
+}
+
+/**
+ * 會修改文件的工具（可按目錄授權）
+ */
+const WRITE_TOOLS = new Set(["write_file", "apply_diff", "edit_file"]);
+
+export function isWriteTool(toolName: string): boolean {
+  return WRITE_TOOLS.has(toolName);
+}
+
+export class ApprovalStore {
+  private sessionApprovals: ApprovalEntry[] = [];
+  private projectApprovals: ApprovalEntry[] | null = null; // 延遲載入
+  private filePath: string;
+
+  constructor(private workspaceRoot: string = process.cwd()) {
+    this.filePath = path.join(workspaceRoot, ".bailu", "permissions.json");
+  }
+
+  /**
+   * 工具調用是否已被授權（無需再次確認）
+   */
+  async isApproved(toolName: string, params: Record<string, unknown>): Promise<ApprovalEntry | null> {
+    const entries = [...this.sessionApprovals, ...(await this.loadProjectApprovals())];
+
+    for (const entry of entries) {
+      if (entry.kind === "tool" && entry.value === toolName) {
+        return entry;
+      }
+      if (entry.kind === "command" && isCommandTool(toolName) && entry.value === getCommandLine(params)) {
+        return entry;
+      }
+      if (entry.kind === "directory" && isWriteTool(toolName)) {
+        const paths = getTargetPaths(toolName, params);
+        if (paths.length > 0 && paths.every(p => this.isUnderDirectory(p, entry.value))) {
+          return entry;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 本次會話內允許某個工具
+   */
+  allowToolForSession(toolName: string): ApprovalEntry {
+    const entry: ApprovalEntry = { kind: "tool", value: toolName, scope: "session", createdAt: new Date().toISOString() };
+    this.sessionApprovals.push(entry);
+    return entry;
+  }
+
+  /**
+   * 總是允許某條完整命令（保存到項目）
+   */
+  async allowCommand(commandLine: string): Promise<ApprovalEntry> {
+    return this.addProjectApproval("command", commandLine.trim());
+  }
+
+  /**
+   * 總是允許寫入某個目錄及其子目錄（保存到項目）
+   */
+  async allowDirectory(dir: string): Promise<ApprovalEntry> {
+    const relative = path.relative(this.workspaceRoot, path.resolve(this.workspaceRoot, dir)) || ".";
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error(`只能授權工作區內的目錄: ${dir}`);
+    }
+    return this.addProjectApproval("directory", relative.split(path.sep).join("/"));
+  }
+
+  /**
+   * 列出所有授權（會話級在前）
+   */
+  async list(): Promise<ApprovalEntry[]> {
+    return [...this.sessionApprovals, ...(await this.loadProjectApprovals())];
+  }
+
+  /**
+   * 撤銷授權（index 為 list() 中的序號，從 1 開始）
+   */
+  async revoke(index: number): Promise<ApprovalEntry | null> {
+    const project = await this.loadProjectApprovals();
+    if (index < 1 || index > this.sessionApprovals.length + project.length) {
+      return null;
+    }
+    if (index <= this.sessionApprovals.length) {
+      return this.sessionApprovals.splice(index - 1, 1)[0];
+    }
+    const [removed] = project.splice(index - 1 - this.sessionApprovals.length, 1);
+    await this.saveProjectApprovals();
+    return removed;
+  }
+
+  /**
+   * 清除所有授權
+   */
+  async clear(): Promise<void> {
+    this.sessionApprovals = [];
+    this.projectApprovals = [];
+    await this.saveProjectApprovals();
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private isUnderDirectory(filePath: string, dir: string): boolean {
+    const relative = path.relative(path.resolve(this.workspaceRoot, dir), path.resolve(this.workspaceRoot, filePath));
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+  }
+
+  private async addProjectApproval(kind: ApprovalKind, value: string): Promise<ApprovalEntry> {
+    const project = await this.loadProjectApprovals();
+    const existing = project.find(e => e.kind === kind && e.value === value);
+    if (existing) {
+      return existing;
+    }
+    const entry: ApprovalEntry = { kind, value, scope: "project", createdAt: new Date().toISOString() };
+    project.push(entry);
+    await this.saveProjectApprovals();
+    return entry;
+  }
+
+  private async loadProjectApprovals(): Promise<ApprovalEntry[]> {
+    if (this.projectApprovals) {
+      return this.projectApprovals;
+    }
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as ApprovalFile;
+      this.projectApprovals = (data.approvals || [])
+        .filter(e => (e.kind === "command" || e.kind === "directory") && typeof e.value === "string")
+        .map(e => ({ ...e, scope: "project" as const }));
+    } catch {
+      this.projectApprovals = [];
+    }
+    return this.projectApprovals;
+  }
+
+  private async saveProjectApprovals(): Promise<void> {
+    const data: ApprovalFile = { approvals: this.projectApprovals || [] };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(data, null, 2), "utf-8");
+  }
+}
+
+export function formatApproval(entry: ApprovalEntry): string {
+  switch (entry.kind) {
+    case "tool":
+      return `本會話允許工具 ${entry.value}`;
+    case "command":
+      return `總是允許命令 ${entry.value}`;
+    case "directory":
+      return `總是允許寫入 ${entry.value}/`;
+  }
+}
+
+// 全局審批記錄（按當前工作目錄）
+export const globalApprovalStore = new ApprovalStore();
@@ -0,0 +1,265 @@
+/**
+ * 檢查點：每個 Agent 回合一個，覆蓋該回合寫入、創建或刪除的所有文件
+ * 保存在 .bailu/checkpoints/<id>/：checkpoint.json 記錄文件列表，before/ 和 after/ 保存文件內容
+ * 不依賴 Git，/undo 回滾整個回合，/redo 重新應用
+ */
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+export interface CheckpointFile {
+  path: string; // 相對於工作區
+  existed: boolean; // 回合開始前文件是否存在（不存在表示本回合創建）
+  beforeHash: string | null;
+  afterHash?: string | null; // 回合結束時的內容哈希，null 表示本回合刪除
+}
+
+export interface Checkpoint {
+  id: string;
+  label: string; // 回合的用戶請求
+  createdAt: string;
+  status: "applied" | "undone";
+  files: CheckpointFile[];
+}
+
+export interface CheckpointOperation {
+  checkpoint: Checkpoint | null;
+  restored: string[];
+  conflicts: string[]; // 回合之後又被修改過的文件（未指定 force 時不會覆蓋）
+}
+
+const MAX_CHECKPOINTS = 20;
+
+function hashContent(content: Buffer | null): string | null {
+  return content === null ? null : crypto.createHash("sha1").update(content).digest("hex");
+}
+
+async function readIfExists(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+export class CheckpointStore {
+  private dir: string;
+  private current: Checkpoint | null = null; // 進行中的回合（記錄了文件後才寫入磁盤）
+  private pendingLabel: string | null = null;
+  private lastStamp = 0; // 保證同一毫秒內開始的回合也按順序排列
+
+  constructor(private workspaceRoot: string = process.cwd()) {
+    this.dir = path.join(workspaceRoot, ".bailu", "checkpoints");
+  }
+
+  /**
+   * 開始新回合（結束上一個未結束的回合）
+   */
+  async beginTurn(label: string): Promise<void> {
+    await this.endTurn();
+    this.pendingLabel = label;
+  }
+
+  /**
+   * 文件即將被寫入、創建或刪除時調用；每個回合只保存文件第一次修改前的內容
+   * 在回合之外調用時自動開始一個回合；調用方需要 endTurn 記錄最終狀態，否則之後的 /undo 會把這些文件當作衝突
+   */
+  async recordFile(filePath: string): Promise<void> {
+    const absolute = path.resolve(this.workspaceRoot, filePath);
+    const relative = path.relative(this.workspaceRoot, absolute);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      return; // 工作區之外的文件不納入檢查點
+    }
+
+    if (!this.current) {
+      // 新回合開始修改文件：之前撤銷的檢查點不能再重做
+      await this.discardUndone();
+      const stamp = Math.max(Date.now(), this.lastStamp + 1);
+      this.lastStamp = stamp;
+      this.current = {
+        id: `cp_${stamp}_${Math.random().toString(36).slice(2, 8)}`,
+        label: this.pendingLabel ?? "工具調用",
+        createdAt: new Date(stamp).toISOString(),
+        status: "applied",
+        files: [],
+      };
+    }
+    if (this.current.files.some((f) => f.path === relative)) {
+      return;
+    }
+
+    const content = await readIfExists(absolute);
+    const index = this.current.files.length;
+    if (content !== null) {
+      await this.writeBlob(this.current.id, "before", index, content);
+    }
+    this.current.files.push({ path: relative, existed: content !== null, beforeHash: hashContent(content) });
+    await this.save(this.current);
+  }
+
+  /**
+   * 結束回合：記錄每個文件的最終狀態，用於 /undo 前檢測之後的手動修改
+   */
+  async endTurn(): Promise<Checkpoint | null> {
+    const checkpoint = this.current;
+    this.current = null;
+    this.pendingLabel = null;
+    if (!checkpoint) return null;
+
+    for (const file of checkpoint.files) {
+      file.afterHash = hashContent(await readIfExists(path.join(this.workspaceRoot, file.path)));
+    }
+    await this.save(checkpoint);
+    await this.prune();
+    return checkpoint;
+  }
+
+  /**
+   * 列出檢查點（最新的在前）
+   */
+  async list(): Promise<Checkpoint[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const checkpoints: Checkpoint[] = [];
+    for (const entry of entries) {
+      try {
+        const content = await fs.readFile(path.join(this.dir, entry, "checkpoint.json"), "utf-8");
+        checkpoints.push(JSON.parse(content) as Checkpoint);
+      } catch {
+        // 損壞或寫入中的檢查點，跳過
+      }
+    }
+    return checkpoints.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  }
+
+  /**
+   * 回滾最近一個已應用的回合
+   * @param force 文件在回合之後又被修改過時仍然覆蓋
+   */
+  async undo(force = false): Promise<CheckpointOperation> {
+    await this.endTurn();
+    const checkpoint = (await this.list()).find((c) => c.status === "applied") ?? null;
+    if (!checkpoint) {
+      return { checkpoint: null, restored: [], conflicts: [] };
+    }
+
+    const conflicts = await this.findConflicts(checkpoint, (f) => f.afterHash ?? null);
+    if (conflicts.length > 0 && !force) {
+      return { checkpoint, restored: [], conflicts };
+    }
+
+    // 先保存當前內容，供 /redo 使用
+    for (let i = 0; i < checkpoint.files.length; i++) {
+      const content = await readIfExists(path.join(this.workspaceRoot, checkpoint.files[i].path));
+      checkpoint.files[i].afterHash = hashContent(content);
+      if (content !== null) {
+        await this.writeBlob(checkpoint.id, "after", i, content);
+      }
+    }
+
+    const restored = await this.restore(checkpoint, "before", (f) => f.existed);
+    checkpoint.status = "undone";
+    await this.save(checkpoint);
+    return { checkpoint, restored, conflicts };
+  }
+
+  /**
+   * 重新應用最近一次撤銷的回合
+   */
+  async redo(force = false): Promise<CheckpointOperation> {
+    await this.endTurn();
+    const undone = (await this.list()).filter((c) => c.status === "undone");
+    // 撤銷按從新到舊進行，重做從最舊的撤銷開始
+    const checkpoint = undone[undone.length - 1] ?? null;
+    if (!checkpoint) {
+      return { checkpoint: null, restored: [], conflicts: [] };
+    }
+
+    const conflicts = await this.findConflicts(checkpoint, (f) => f.beforeHash);
+    if (conflicts.length > 0 && !force) {
+      return { checkpoint, restored: [], conflicts };
+    }
+
+    const restored = await this.restore(checkpoint, "after", (f) => f.afterHash !== null && f.afterHash !== undefined);
+    checkpoint.status = "applied";
+    await this.save(checkpoint);
+    return { checkpoint, restored, conflicts };
+  }
+
+  private async findConflicts(checkpoint: Checkpoint, expected: (file: CheckpointFile) => string | null): Promise<string[]> {
+    const conflicts: string[] = [];
+    for (const file of checkpoint.files) {
+      const current = hashContent(await readIfExists(path.join(this.workspaceRoot, file.path)));
+      if (current !== expected(file)) {
+        conflicts.push(file.path);
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * 把文件恢復到 before 或 after 狀態；該狀態下不存在的文件會被刪除
+   */
+  private async restore(
+    checkpoint: Checkpoint,
+    state: "before" | "after",
+    exists: (file: CheckpointFile) => boolean
+  ): Promise<string[]> {
+    const restored: string[] = [];
+    for (let i = 0; i < checkpoint.files.length; i++) {
+      const file = checkpoint.files[i];
+      const target = path.join(this.workspaceRoot, file.path);
+      if (exists(file)) {
+        const content = await fs.readFile(this.blobPath(checkpoint.id, state, i));
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, content);
+      } else {
+        await fs.rm(target, { force: true });
+      }
+      restored.push(file.path);
+    }
+    return restored;
+  }
+
+  private blobPath(id: string, state: "before" | "after", index: number): string {
+    return path.join(this.dir, id, state, String(index));
+  }
+
+  private async writeBlob(id: string, state: "before" | "after", index: number, content: Buffer): Promise<void> {
+    const blob = this.blobPath(id, state, index);
+    await fs.mkdir(path.dirname(blob), { recursive: true });
+    await fs.writeFile(blob, content);
+  }
+
+  private async save(checkpoint: Checkpoint): Promise<void> {
+    await fs.mkdir(path.join(this.dir, checkpoint.id), { recursive: true });
+    await fs.writeFile(path.join(this.dir, checkpoint.id, "checkpoint.json"), JSON.stringify(checkpoint, null, 2), "utf-8");
+  }
+
+  private async discardUndone(): Promise<void> {
+    for (const checkpoint of await this.list()) {
+      if (checkpoint.status === "undone") {
+        await fs.rm(path.join(this.dir, checkpoint.id), { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * 只保留最近的 MAX_CHECKPOINTS 個檢查點
+   */
+  private async prune(): Promise<void> {
+    const checkpoints = await this.list();
+    for (const checkpoint of checkpoints.slice(MAX_CHECKPOINTS)) {
+      await fs.rm(path.join(this.dir, checkpoint.id), { recursive: true, force: true });
+    }
+  }
+}
+
+export const globalCheckpointStore = new CheckpointStore();
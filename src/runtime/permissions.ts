@@ -0,0 +1,173 @@
+/**
+ * 聲明式權限規則
+ * 在 .bailu.config.json（項目級）或用戶配置中聲明有序的 allow / deny / ask 規則，
+ * 按「命令 + 參數」的 glob 模式匹配工具調用，第一條匹配的規則生效。
+ */
+
+import { collectCommands, parseShellCommand, ShellParseError } from "./shell-parser.js";
+import { getPatchPaths } from "../fs/patch.js";
+
+export type PermissionAction = "allow" | "deny" | "ask";
+
+export interface PermissionRule {
+  action: PermissionAction;
+  pattern: string; // glob 模式，如 "git push *"、"npm run *"；非命令工具匹配 path 參數
+  tool?: string; // 適用的工具，默認 run_command
+}
+
+export interface PermissionDecision {
+  action: PermissionAction;
+  rule?: PermissionRule; // 命中的規則（未命中時為空，按安全模式處理）
+  subject: string; // 參與匹配的內容（命令行或路徑）
+}
+
+const PERMISSION_ACTIONS: PermissionAction[] = ["allow", "deny", "ask"];
+const DEFAULT_RULE_TOOL = "run_command";
+
+/**
+ * 從配置讀取規則並丟棄格式不正確的條目
+ */
+export function normalizePermissionRules(raw: unknown): PermissionRule[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter((rule): rule is PermissionRule =>
+      !!rule &&
+      typeof rule === "object" &&
+      PERMISSION_ACTIONS.includes((rule as PermissionRule).action) &&
+      typeof (rule as PermissionRule).pattern === "string" &&
+      (rule as PermissionRule).pattern.trim().length > 0 &&
+      ((rule as PermissionRule).tool === undefined || typeof (rule as PermissionRule).tool === "string")
+    )
+    .map(rule => ({ action: rule.action, pattern: rule.pattern.trim(), ...(rule.tool ? { tool: rule.tool } : {}) }));
+}
+
+/**
+ * 合併多個來源的規則：用戶的 deny 規則最先，其次是項目規則，最後是用戶的其他規則
+ * 倉庫共享的規則作為基線優先於個人的 allow / ask，但不能放行用戶明確拒絕的操作
+ */
+export function mergePermissionRules(projectRules: unknown, userRules: unknown): PermissionRule[] {
+  const user = normalizePermissionRules(userRules);
+  return [
+    ...user.filter(rule => rule.action === "deny"),
+    ...normalizePermissionRules(projectRules),
+    ...user.filter(rule => rule.action !== "deny"),
+  ];
+}
+
+/**
+ * glob 模式轉正則：* 匹配任意字符，? 匹配單個字符；結尾的 " *" 同時匹配沒有參數的情況
+ */
+function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.trim().replace(/\s+/g, " ");
+  const optionalTail = normalized.endsWith(" *");
+  const body = optionalTail ? normalized.slice(0, -2) : normalized;
+  const source = body
+    .split("")
+    .map(ch => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}${optionalTail ? "( .*)?" : ""}$`, "s");
+}
+
+export function matchPermissionPattern(pattern: string, subject: string): boolean {
+  return globToRegExp(pattern).test(subject.trim().replace(/\s+/g, " "));
+}
+
+/**
+ * 命令類工具（run_command 及其別名）
+ */
+export function isCommandTool(toolName: string): boolean {
+  return toolName === "run_command" || toolName === "exec";
+}
+
+/**
+ * 把 run_command 的 command + args 拼成完整命令行
+ */
+export function getCommandLine(params: Record<string, unknown>): string {
+  const command = typeof params.command === "string" ? params.command.trim() : "";
+  const args = Array.isArray(params.args) ? params.args.filter((a): a is string => typeof a === "string") : [];
+  return [command, ...args].join(" ");
+}
+
+/**
+ * 工具調用涉及的文件：apply_diff 為 diff 中的所有文件（多文件 diff 可以不傳 path），其餘工具為 path 參數
+ */
+export function getTargetPaths(toolName: string, params: Record<string, unknown>): string[] {
+  const defaultPath = typeof params.path === "string" ? params.path : undefined;
+  if (toolName === "apply_diff" && typeof params.diff === "string") {
+    return getPatchPaths(params.diff, defaultPath?.trim() || undefined);
+  }
+  return defaultPath !== undefined ? [defaultPath] : [];
+}
+
+/**
+ * 取得工具調用參與匹配的內容：run_command 為命令行，其餘工具為涉及的文件路徑
+ */
+function getSubjects(toolName: string, params: Record<string, unknown>): string[] {
+  if (isCommandTool(toolName)) {
+    const command = typeof params.command === "string" ? params.command.trim() : "";
+    const commandLine = getCommandLine(params);
+
+    // shell 模式：逐個命令節點匹配（npm test | tail 需要兩個命令都被允許）
+    if (params.shell === true || params.shell === "true") {
+      try {
+        return collectCommands(parseShellCommand(command)).map(node => node.argv.join(" "));
+      } catch (error) {
+        if (!(error instanceof ShellParseError)) throw error;
+      }
+    }
+    return [commandLine];
+  }
+  return getTargetPaths(toolName, params);
+}
+
+function findRule(rules: PermissionRule[], toolName: string, subject: string): PermissionRule | undefined {
+  return rules.find(rule => {
+    const ruleTool = rule.tool ?? DEFAULT_RULE_TOOL;
+    const toolMatches = ruleTool === toolName || (ruleTool === "run_command" && toolName === "exec");
+    return toolMatches && matchPermissionPattern(rule.pattern, subject);
+  });
+}
+
+/**
+ * 根據規則判斷工具調用的權限
+ * 多個命令節點時：任一 deny 即拒絕，全部 allow 才允許，其餘情況需要確認
+ * @returns 沒有任何規則命中時返回 null
+ */
+export function evaluatePermission(
+  rules: PermissionRule[] | undefined,
+  toolName: string,
+  params: Record<string, unknown>
+): PermissionDecision | null {
+  if (!rules || rules.length === 0) {
+    return null;
+  }
+
+  const subjects = getSubjects(toolName, params);
+  if (subjects.length === 0) {
+    return null;
+  }
+
+  const matches = subjects.map(subject => ({ subject, rule: findRule(rules, toolName, subject) }));
+  const denied = matches.find(m => m.rule?.action === "deny");
+  if (denied) {
+    return { action: "deny", rule: denied.rule, subject: denied.subject };
+  }
+  if (matches.every(m => m.rule?.action === "allow")) {
+    return { action: "allow", rule: matches[0].rule, subject: subjects.join(" | ") };
+  }
+  const asked = matches.find(m => m.rule?.action === "ask");
+  if (asked) {
+    return { action: "ask", rule: asked.rule, subject: asked.subject };
+  }
+  return null;
+}
+
+export function formatPermissionRule(rule: PermissionRule): string {
+  return `${rule.action} ${rule.tool && rule.tool !== DEFAULT_RULE_TOOL ? `${rule.tool}:` : ""}${rule.pattern}`;
+}
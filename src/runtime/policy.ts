@@ -1,3 +1,9 @@
+import path from "path";
+import { ShellList, ShellParseError, collectCommands, parseShellCommand } from "./shell-parser.js";
+import { PermissionRule } from "./permissions.js";
+import { SandboxMode } from "./sandbox.js";
+import { DEFAULT_SCRUBBED_ENV } from "./secrets.js";
+
 export type ExecutionMode = "dry-run" | "review" | "auto-apply";
 
 export interface SafetyPolicy {
@@ -5,13 +11,38 @@ export interface SafetyPolicy {
   allowedCommands?: string[];
   blockedCommands?: string[];
   maxCommandDurationMs?: number;
+  allowShell?: boolean; // 是否允許 shell 模式（管道、重定向、&&），默認關閉
+  permissionRules?: PermissionRule[]; // 來自用戶/項目配置的 allow / deny / ask 規則
+  sandbox?: SandboxMode; // 命令執行沙箱：none（默認）| namespace（bwrap / unshare）
+  sandboxNetwork?: boolean; // 沙箱內是否允許網絡，默認不允許
+  scrubEnv?: string[]; // 不傳給子進程的環境變量（支持 * 通配）
+  keepEnv?: string[]; // 即使匹配 scrubEnv 也保留的環境變量
+  redactSecrets?: boolean; // 工具輸出進入對話前是否遮蔽密鑰，默認開啟
+}
+
+/**
+ * 由配置覆蓋的策略字段（cli 啟動時通過 configurePolicy 設置）
+ */
+let policyOverrides: Partial<SafetyPolicy> = {};
+
+export function configurePolicy(overrides: Partial<SafetyPolicy>): void {
+  policyOverrides = { ...policyOverrides, ...overrides };
 }
 
 export function getDefaultPolicy(): SafetyPolicy {
   const modeEnv = process.env.BAILU_MODE as ExecutionMode | undefined;
   const mode: ExecutionMode = modeEnv ?? "review";
+  const shellEnv = process.env.BAILU_SHELL_MODE;
+  const sandboxEnv = process.env.BAILU_SANDBOX as SandboxMode | undefined;
   return {
     mode,
+    allowShell: shellEnv === "1" || shellEnv === "true" || policyOverrides.allowShell === true,
+    permissionRules: policyOverrides.permissionRules ?? [],
+    sandbox: sandboxEnv === "namespace" || sandboxEnv === "none" ? sandboxEnv : policyOverrides.sandbox ?? "none",
+    sandboxNetwork: policyOverrides.sandboxNetwork ?? false,
+    scrubEnv: [...DEFAULT_SCRUBBED_ENV, ...(policyOverrides.scrubEnv ?? [])],
+    keepEnv: policyOverrides.keepEnv ?? [],
+    redactSecrets: policyOverrides.redactSecrets ?? true,
     // Comprehensive list of dangerous commands
     blockedCommands: [
       // File system destructive operations
@@ -68,23 +99,6 @@ export function getDefaultPolicy(): SafetyPolicy {
   };
 }
 
-/**
- * 危险的 shell 操作符列表（用於整條命令字串檢查）
- */
-const DANGEROUS_SHELL_OPERATORS = [
-  ';',      // 命令分隔符
-  '&&',     // AND 操作符
-  '||',     // OR 操作符
-  '|',      // 管道
-  '`',      // 命令替换
-  '$(',     // 命令替换
-  '>',      // 重定向
-  '<',      // 重定向
-  '>>',     // 追加重定向
-  '2>',     // 错误重定向
-  '&',      // 后台执行
-];
-
 /**
  * 檢查單個命令/參數字串是否包含 shell 注入字符
  * 這是逐參數的防线，即使在 Windows 上使用 shell:true 也能防止注入
@@ -104,58 +118,287 @@ export function containsShellInjection(value: string): boolean {
 }
 
 /**
- * 从命令字符串中提取基础命令名
- * 处理路径前缀如 /bin/rm, ./script.sh 等
+ * 规范化命令名：去掉路径前缀（/bin/rm, ./script.sh）和可执行扩展名
  */
-function extractCommandName(command: string): string {
-  const trimmed = command.trim();
-  // 获取第一个空格前的部分作为命令
-  const firstPart = trimmed.split(/\s+/)[0] || '';
-  // 提取路径中的最后一部分（命令名）
-  const baseName = firstPart.replace(/\\/g, '/').split('/').pop() || '';
-  // 移除可能的扩展名（如 .exe, .bat, .sh）
+function normalizeCommandName(word: string): string {
+  const baseName = word.replace(/\\/g, '/').split('/').pop() || '';
   return baseName.replace(/\.(exe|bat|cmd|sh|ps1)$/i, '').toLowerCase();
 }
 
 /**
- * 检查命令是否包含危险的 shell 操作符
+ * 判断命令（argv）是否匹配一条策略规则
+ * 规则第一个词按命令名精确匹配（rm 不会匹配 rmdir），其余词需是参数前缀（"git push" 只匹配 git push ...）
  */
-function containsDangerousOperators(command: string): boolean {
-  for (const op of DANGEROUS_SHELL_OPERATORS) {
-    if (command.includes(op)) {
-      return true;
-    }
+function matchesCommandRule(argv: string[], rule: string): boolean {
+  const ruleWords = rule.trim().split(/\s+/).filter(Boolean);
+  if (ruleWords.length === 0 || argv.length === 0) {
+    return false;
   }
-  return false;
+  if (normalizeCommandName(argv[0]) !== normalizeCommandName(ruleWords[0])) {
+    return false;
+  }
+  return ruleWords.slice(1).every((word, i) => argv[i + 1] === word);
+}
+
+/**
+ * 按黑名单/白名单检查单个命令（argv 形式）
+ */
+function isArgvAllowed(policy: SafetyPolicy, argv: string[]): boolean {
+  if (policy.blockedCommands?.some(rule => matchesCommandRule(argv, rule))) {
+    return false;
+  }
+  if (policy.allowedCommands && policy.allowedCommands.length > 0) {
+    return policy.allowedCommands.some(rule => matchesCommandRule(argv, rule));
+  }
+  return true;
 }
 
 export function isCommandAllowed(policy: SafetyPolicy, command: string): boolean {
-  // 注意：shell 注入字符的逐參數檢查已移至 runner.ts 的 containsShellInjection
-  // 這裡只做命令名黑名單檢查
-
-  // 提取命令基础名称进行检查
-  const cmdName = extractCommandName(command);
-  
-  if (policy.blockedCommands) {
-    for (const banned of policy.blockedCommands) {
-      const bannedName = extractCommandName(banned);
-      // 检查命令名是否匹配（忽略路径）
-      if (cmdName === bannedName) {
-        return false;
+  // 注意：shell 注入字符的逐參數檢查在 runner.ts 的 containsShellInjection
+  // 這裡只做命令名黑名單/白名單檢查
+  return isArgvAllowed(policy, command.trim().split(/\s+/).filter(Boolean));
+}
+
+/**
+ * 包裝命令的選項說明：用於跳過選項及其值，找出實際執行的命令
+ */
+interface WrapperSpec {
+  flags: string; // 不帶值的短選項
+  valued: string; // 帶一個值的短選項（值可緊跟，如 -n5）
+  longFlags?: string[];
+  longValued?: string[];
+  positional?: number; // 命令前的位置參數個數（timeout 的時長）
+  assignments?: boolean; // 允許 VAR=value（env）
+  numeric?: boolean; // 允許 -5 形式的數字選項（nice）
+}
+
+/**
+ * 會執行其參數中命令的包裝命令（需要檢查被包裝的命令）
+ * 選項表之外的選項無法判斷是否帶值，直接拒絕
+ */
+const WRAPPER_COMMANDS: Record<string, WrapperSpec> = {
+  env: {
+    flags: "i0v", valued: "uCSP",
+    longFlags: ["ignore-environment", "null", "debug"], longValued: ["unset", "chdir", "split-string"],
+    assignments: true,
+  },
+  nohup: { flags: "", valued: "" },
+  nice: { flags: "", valued: "n", longValued: ["adjustment"], numeric: true },
+  ionice: { flags: "t", valued: "cn", longFlags: ["ignore"], longValued: ["class", "classdata"] },
+  time: { flags: "pvaq", valued: "fo", longFlags: ["portability", "verbose", "append", "quiet"], longValued: ["format", "output"] },
+  timeout: {
+    flags: "v", valued: "sk",
+    longFlags: ["preserve-status", "foreground", "verbose"], longValued: ["signal", "kill-after"],
+    positional: 1,
+  },
+  xargs: {
+    flags: "0rtpxo", valued: "aIndELPs",
+    longFlags: ["null", "no-run-if-empty", "verbose", "interactive", "exit", "open-tty"],
+    longValued: ["arg-file", "max-args", "delimiter", "max-lines", "max-procs", "max-chars", "process-slot-var"],
+  },
+  command: { flags: "p", valued: "" },
+  stdbuf: { flags: "", valued: "ioe", longValued: ["input", "output", "error"] },
+};
+
+/**
+ * 可執行任意字符串的命令（sh -c、eval 等），shell 模式下一律拒絕
+ */
+const NESTED_SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish", "cmd", "powershell", "pwsh"]);
+const EVAL_COMMANDS = new Set(["eval", "exec", "source", "."]);
+
+/**
+ * find 中執行命令的參數
+ */
+const FIND_EXEC_FLAGS = new Set(["-exec", "-execdir", "-ok", "-okdir"]);
+
+/**
+ * 允許作為重定向目標的設備文件
+ */
+const SAFE_REDIRECT_TARGETS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr"]);
+
+export interface ShellCheckResult {
+  allowed: boolean;
+  reason?: string;
+  ast?: ShellList;
+}
+
+/**
+ * 找出包裝命令實際執行的命令：按選項表跳過選項及其值、VAR=value 和位置參數
+ * env -S 的值本身就是命令行，拆分後作為被包裝的命令
+ * @returns 被包裝的命令（沒有時為 null），或無法解析時的拒絕原因
+ */
+function unwrapCommand(spec: WrapperSpec, argv: string[]): { inner: string[] | null } | { error: string } {
+  const name = normalizeCommandName(argv[0]);
+  const rest = argv.slice(1);
+  const unknown = (option: string) => ({ error: `無法解析 ${name} 的選項 ${option}，請直接執行被包裝的命令` });
+  let positional = spec.positional ?? 0;
+  let optionsDone = false;
+  let i = 0;
+
+  while (i < rest.length) {
+    const word = rest[i];
+    if (word === "--" && !optionsDone) {
+      optionsDone = true;
+      i++;
+      continue;
+    }
+    if (word.startsWith("--") && !optionsDone) {
+      const eq = word.indexOf("=");
+      const option = eq === -1 ? word.slice(2) : word.slice(2, eq);
+      const attached = eq === -1 ? undefined : word.slice(eq + 1);
+      if (spec.longValued?.includes(option)) {
+        const value = attached ?? rest[i + 1];
+        if (value === undefined) return { error: `${name} 的選項 --${option} 缺少值` };
+        if (name === "env" && option === "split-string") {
+          return { inner: [...value.split(/\s+/).filter(Boolean), ...rest.slice(i + (attached === undefined ? 2 : 1))] };
+        }
+        i += attached === undefined ? 2 : 1;
+      } else if (spec.longFlags?.includes(option) && attached === undefined) {
+        i++;
+      } else {
+        return unknown(word);
       }
-      // 也检查原始匹配以保持向后兼容
-      if (command === banned || command.startsWith(`${banned} `)) {
-        return false;
+      continue;
+    }
+    if (word === "-" && name === "env" && !optionsDone) {
+      // env - 等同於 env -i
+      i++;
+      continue;
+    }
+    if (word.startsWith("-") && word.length > 1 && !optionsDone) {
+      if (spec.numeric && /^-\d+$/.test(word)) {
+        i++;
+        continue;
+      }
+      let consumed = 1;
+      for (let j = 1; j < word.length; j++) {
+        const option = word[j];
+        if (spec.valued.includes(option)) {
+          const attached = word.slice(j + 1);
+          const value = attached || rest[i + 1];
+          if (value === undefined) return { error: `${name} 的選項 -${option} 缺少值` };
+          if (name === "env" && option === "S") {
+            return { inner: [...value.split(/\s+/).filter(Boolean), ...rest.slice(i + (attached ? 1 : 2))] };
+          }
+          if (!attached) consumed = 2;
+          break;
+        }
+        if (!spec.flags.includes(option)) {
+          return unknown(`-${option}`);
+        }
       }
+      i += consumed;
+      continue;
     }
+    if (spec.assignments && /^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      optionsDone = true; // env 在賦值之後不再解析選項
+      i++;
+      continue;
+    }
+    if (positional > 0) {
+      positional--;
+      i++;
+      continue;
+    }
+    break;
   }
-  if (policy.allowedCommands && policy.allowedCommands.length > 0) {
-    return policy.allowedCommands.some((allowed) => {
-      const allowedName = extractCommandName(allowed);
-      return cmdName === allowedName || command === allowed || command.startsWith(`${allowed} `);
-    });
+
+  return { inner: i < rest.length ? rest.slice(i) : null };
+}
+
+/**
+ * 檢查單個命令節點（遞歸處理包裝命令和 find -exec）
+ */
+function checkArgv(policy: SafetyPolicy, argv: string[]): string | null {
+  const rawName = argv[0];
+  if (/[$*?[\]{}~]/.test(rawName)) {
+    return `命令名不能包含變量展開或通配符: ${rawName}`;
   }
-  return true;
+
+  const name = normalizeCommandName(rawName);
+  if (EVAL_COMMANDS.has(name)) {
+    return `不允許使用 ${name} 執行動態命令`;
+  }
+  if (NESTED_SHELLS.has(name) && argv.slice(1).some(arg => /^-\w*c\w*$/i.test(arg) || /^\/c$/i.test(arg))) {
+    return `不允許嵌套 shell 執行字符串命令: ${name}`;
+  }
+  if (!isArgvAllowed(policy, argv)) {
+    return `命令被安全策略阻止：${argv.join(" ")}`;
+  }
+
+  const wrapper = WRAPPER_COMMANDS[name];
+  if (wrapper) {
+    const unwrapped = unwrapCommand(wrapper, argv);
+    if ("error" in unwrapped) return unwrapped.error;
+    if (unwrapped.inner) {
+      const reason = checkArgv(policy, unwrapped.inner);
+      if (reason) return reason;
+    }
+  }
+
+  if (name === "find") {
+    for (let i = 1; i < argv.length; i++) {
+      if (FIND_EXEC_FLAGS.has(argv[i]) && argv[i + 1]) {
+        const end = argv.findIndex((arg, j) => j > i && (arg === ";" || arg === "+"));
+        const reason = checkArgv(policy, argv.slice(i + 1, end === -1 ? undefined : end));
+        if (reason) return reason;
+      }
+    }
+  }
+
+  return null;
 }
 
+/**
+ * 檢查重定向目標：只允許工作目錄內的文件和常用設備文件
+ */
+function checkRedirectTarget(target: string, cwd: string): string | null {
+  if (SAFE_REDIRECT_TARGETS.has(target)) {
+    return null;
+  }
+  if (/[$~*?]/.test(target)) {
+    return `重定向目標不能包含變量展開或通配符: ${target}`;
+  }
+  const resolved = path.resolve(cwd, target);
+  const relative = path.relative(path.resolve(cwd), resolved);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return `重定向目標必須在工作目錄內: ${target}`;
+  }
+  return null;
+}
 
+/**
+ * shell 模式的安全檢查：解析命令行，逐個檢查命令節點和重定向
+ * 只拒絕危險結構（命令替換、子 shell、後台執行、工作區外重定向、被阻止的命令），普通管道和 && 可以通過
+ */
+export function checkShellCommand(policy: SafetyPolicy, commandLine: string, cwd: string): ShellCheckResult {
+  let ast: ShellList;
+  try {
+    ast = parseShellCommand(commandLine);
+  } catch (error) {
+    if (error instanceof ShellParseError) {
+      return { allowed: false, reason: `無法解析 shell 命令: ${error.message}` };
+    }
+    throw error;
+  }
+
+  for (const node of collectCommands(ast)) {
+    const reason = checkArgv(policy, node.argv);
+    if (reason) {
+      return { allowed: false, reason, ast };
+    }
+
+    for (const redirect of node.redirects) {
+      // 2>&1 這類 fd 複製不涉及文件
+      if (redirect.op === ">&" && /^(\d+|-)$/.test(redirect.target)) {
+        continue;
+      }
+      const redirectReason = checkRedirectTarget(redirect.target, cwd);
+      if (redirectReason) {
+        return { allowed: false, reason: redirectReason, ast };
+      }
+    }
+  }
+
+  return { allowed: true, ast };
+}
@@ -1,20 +1,29 @@
-import { spawn } from "child_process";
-import { SafetyPolicy, getDefaultPolicy, isCommandAllowed, containsShellInjection } from "./policy.js";
+import { spawn, ChildProcess } from "child_process";
+import { SafetyPolicy, getDefaultPolicy, isCommandAllowed, containsShellInjection, checkShellCommand } from "./policy.js";
+import { applySandbox } from "./sandbox.js";
+import { scrubEnv } from "./secrets.js";
 
 export interface CommandResult {
   command: string;
   args: string[];
   exitCode: number | null;
   timedOut: boolean;
+  aborted?: boolean; // 被 AbortSignal 取消（如用戶按 Ctrl+C）
   stdout: string;
   stderr: string;
 }
 
+/**
+ * 直接執行命令（不經過 shell）
+ * @param workspaceRoot 沙箱中可寫的工作區根目錄，默認為命令的工作目錄
+ */
 export function runCommandSafe(
   cwd: string,
   command: string,
   args: string[],
-  policy: SafetyPolicy = getDefaultPolicy()
+  policy: SafetyPolicy = getDefaultPolicy(),
+  signal?: AbortSignal,
+  workspaceRoot: string = cwd
 ): Promise<CommandResult> {
   const full = args.length > 0 ? `${command} ${args.join(" ")}` : command;
   if (!isCommandAllowed(policy, full)) {
@@ -31,34 +40,121 @@ export function runCommandSafe(
     }
   }
 
-  const timeoutMs = policy.maxCommandDurationMs ?? 5 * 60 * 1000;
-
   // Windows 需要 shell:true 以支持 .cmd/.bat（如 npm, npx）
   // 非 Windows 平台不使用 shell，避免命令注入
   const useShell = process.platform === 'win32';
 
+  return spawnAndCollect(command, args, { cwd, workspaceRoot, shell: useShell }, policy, { command, args }, signal);
+}
+
+/**
+ * shell 模式執行：先把整條命令行解析成語法樹並逐個命令節點檢查，通過後交給 /bin/sh 執行
+ * 支持管道、&&、||、; 和工作區內的重定向（如 npm test 2>&1 | tail -n 50）
+ * @param workspaceRoot 沙箱中可寫的工作區根目錄，默認為命令的工作目錄
+ */
+export function runShellCommandSafe(
+  cwd: string,
+  commandLine: string,
+  policy: SafetyPolicy = getDefaultPolicy(),
+  signal?: AbortSignal,
+  workspaceRoot: string = cwd
+): Promise<CommandResult> {
+  if (!policy.allowShell) {
+    return Promise.reject(new Error("shell 模式未啟用（可在配置中設置 shellMode: true 或環境變量 BAILU_SHELL_MODE=1）"));
+  }
+  if (process.platform === 'win32') {
+    return Promise.reject(new Error("shell 模式暫不支持 Windows"));
+  }
+
+  const check = checkShellCommand(policy, commandLine, cwd);
+  if (!check.allowed) {
+    return Promise.reject(new Error(check.reason || `命令被安全策略阻止：${commandLine}`));
+  }
+
+  return spawnAndCollect("/bin/sh", ["-c", commandLine], { cwd, workspaceRoot, shell: false }, policy, {
+    command: commandLine,
+    args: [],
+  }, signal);
+}
+
+/**
+ * 終止子進程及其派生的進程（POSIX 下子進程是進程組組長，整組發送信號）
+ */
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (process.platform !== 'win32' && child.pid) {
+    try {
+      process.kill(-child.pid, signal);
+      return;
+    } catch {
+      // 進程組已退出，退回只終止子進程
+    }
+  }
+  child.kill(signal);
+}
+
+/**
+ * 啟動子進程並收集輸出（帶超時、取消和輸出大小限制）
+ */
+function spawnAndCollect(
+  file: string,
+  spawnArgs: string[],
+  options: { cwd: string; workspaceRoot: string; shell: boolean },
+  policy: SafetyPolicy,
+  display: { command: string; args: string[] },
+  signal?: AbortSignal
+): Promise<CommandResult> {
+  const timeoutMs = policy.maxCommandDurationMs ?? 5 * 60 * 1000;
+
+  // 按策略放入沙箱執行（沙箱不可用時直接拒絕，不退回無沙箱執行）
+  let target: { file: string; args: string[]; backend?: string };
+  try {
+    target = applySandbox(policy.sandbox, file, spawnArgs, {
+      cwd: options.cwd,
+      workspaceRoot: options.workspaceRoot,
+      allowNetwork: policy.sandboxNetwork,
+    });
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  const sandboxed = Boolean(target.backend);
+
+  if (signal?.aborted) {
+    return Promise.resolve({ ...display, exitCode: null, timedOut: false, aborted: true, stdout: '', stderr: '' });
+  }
+
   return new Promise<CommandResult>((resolve, reject) => {
     let finished = false;
+    let aborted = false;
     let stdout = '';
     let stderr = '';
 
-    const child = spawn(command, args, {
-      cwd,
-      shell: useShell,
+    const child = spawn(target.file, target.args, {
+      cwd: options.cwd,
+      shell: options.shell && !sandboxed,
+      // 移除 API Key、Token 等敏感變量，避免被執行的命令讀取或打印
       env: {
-        ...process.env,
+        ...scrubEnv(process.env, policy.scrubEnv, policy.keepEnv),
         BAILU_MODE: policy.mode,
       },
-      timeout: timeoutMs,
+      // 非 Windows 下作為新進程組啟動，超時或取消時連同管道中的其他進程一起終止
+      detached: process.platform !== 'win32',
     });
 
     // 设置超时处理
     const timeoutId = setTimeout(() => {
       if (!finished) {
-        child.kill('SIGTERM');
+        killProcessTree(child);
       }
     }, timeoutMs);
 
+    const onAbort = () => {
+      if (!finished) {
+        aborted = true;
+        killProcessTree(child);
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     child.stdout?.on('data', (data: Buffer) => {
       stdout += data.toString();
       // 限制输出大小
@@ -75,16 +171,18 @@ export function runCommandSafe(
       }
     });
 
-    child.on('close', (code: number | null, signal: string | null) => {
+    child.on('close', (code: number | null, exitSignal: string | null) => {
       if (finished) return;
       finished = true;
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
 
       const result: CommandResult = {
-        command,
-        args,
+        command: display.command,
+        args: display.args,
         exitCode: code,
-        timedOut: signal === 'SIGTERM' || signal === 'SIGKILL',
+        timedOut: !aborted && (exitSignal === 'SIGTERM' || exitSignal === 'SIGKILL'),
+        aborted,
         stdout,
         stderr,
       };
@@ -96,6 +194,7 @@ export function runCommandSafe(
       if (finished) return;
       finished = true;
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       reject(err);
     });
   });
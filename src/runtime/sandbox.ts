@@ -0,0 +1,160 @@
+/**
+ * 命令執行沙箱後端
+ * namespace 模式下使用 bubblewrap（優先）或 unshare 隔離命令：
+ * 根文件系統只讀、工作區可寫、/tmp 為臨時目錄、默認沒有網絡。
+ * 沙箱不可用時拒絕執行（fail closed），不會靜默退回無沙箱執行。
+ */
+
+import { spawnSync } from "child_process";
+
+export type SandboxMode = "none" | "namespace";
+
+export interface SandboxOptions {
+  cwd: string; // 命令的工作目錄
+  workspaceRoot: string; // 可寫的工作區根目錄
+  allowNetwork?: boolean; // 是否允許網絡，默認不允許
+}
+
+export interface SandboxBackend {
+  name: string;
+  /** 後端是否可用（二進制存在且能創建命名空間） */
+  isAvailable(): boolean;
+  /** 把要執行的命令包裝為沙箱內執行 */
+  wrap(file: string, args: string[], options: SandboxOptions): { file: string; args: string[] };
+}
+
+/**
+ * 探測命令能否正常運行（例如內核禁用了 user namespace 時 bwrap/unshare 會失敗）
+ */
+function probe(file: string, args: string[]): boolean {
+  try {
+    const result = spawnSync(file, args, { stdio: "ignore", timeout: 5000 });
+    return result.status === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * bubblewrap 後端
+ */
+export const bwrapBackend: SandboxBackend = {
+  name: "bwrap",
+
+  isAvailable() {
+    return probe("bwrap", ["--ro-bind", "/", "/", "--unshare-all", "--", "true"]);
+  },
+
+  wrap(file, args, options) {
+    return {
+      file: "bwrap",
+      args: [
+        "--ro-bind", "/", "/",
+        "--dev", "/dev",
+        "--proc", "/proc",
+        "--tmpfs", "/tmp",
+        "--bind", options.workspaceRoot, options.workspaceRoot,
+        "--unshare-all",
+        ...(options.allowNetwork ? ["--share-net"] : []),
+        "--die-with-parent",
+        "--new-session",
+        "--chdir", options.cwd,
+        "--",
+        file,
+        ...args,
+      ],
+    };
+  },
+};
+
+/**
+ * 在新的 mount namespace 中：綁定工作區（保持可寫）→ 把其他所有掛載點（包括 /home、/run、/dev/shm 等子掛載）
+ * 重新掛載為只讀 → /tmp 和 /dev/shm 換成 tmpfs；任何一步失敗都不執行命令
+ * 重新掛載時保留原有的 nosuid / nodev / noexec 和 atime 標誌（user namespace 中這些標誌被鎖定，去掉會失敗）
+ * 工作區本身在 /tmp 下時不替換 /tmp，否則會遮住工作區
+ */
+const UNSHARE_SETUP_SCRIPT =
+  'ws="$1"; dir="$2"; shift 2; ' +
+  'fail() { echo "bailu-sandbox: $1" >&2; exit 126; }; ' +
+  'mount --bind "$ws" "$ws" || fail "無法綁定工作區 $ws"; ' +
+  'cut -d" " -f5,6 /proc/self/mountinfo | while read -r mp opts; do ' +
+  'mp=$(printf "%b" "$mp"); ' +
+  'case "$mp" in "$ws"|"$ws"/*|/proc|/proc/*) continue ;; esac; ' +
+  'flags=ro; for flag in nosuid nodev noexec noatime nodiratime relatime strictatime; do ' +
+  'case ",$opts," in *",$flag,"*) flags="$flags,$flag" ;; esac; done; ' +
+  'mount -o "remount,bind,$flags" "$mp" || fail "無法把 $mp 重新掛載為只讀"; ' +
+  'done || exit 126; ' +
+  'case "$ws" in /tmp|/tmp/*) ;; *) mount -t tmpfs tmpfs /tmp || fail "無法掛載 /tmp" ;; esac; ' +
+  'if [ -d /dev/shm ]; then case "$ws" in /dev/shm|/dev/shm/*) ;; *) mount -t tmpfs tmpfs /dev/shm || fail "無法掛載 /dev/shm" ;; esac; fi; ' +
+  'cd "$dir" && exec "$@"';
+
+/**
+ * unshare 後端（沒有安裝 bubblewrap 時使用，需要內核允許非特權 user namespace）
+ */
+export const unshareBackend: SandboxBackend = {
+  name: "unshare",
+
+  isAvailable() {
+    return probe("unshare", ["--user", "--map-root-user", "--mount", "--pid", "--fork", "--mount-proc", "--net", "true"]);
+  },
+
+  wrap(file, args, options) {
+    return {
+      file: "unshare",
+      args: [
+        "--user",
+        "--map-root-user",
+        "--mount",
+        "--pid",
+        "--fork",
+        "--mount-proc",
+        ...(options.allowNetwork ? [] : ["--net"]),
+        "/bin/sh",
+        "-c",
+        UNSHARE_SETUP_SCRIPT,
+        "bailu-sandbox",
+        options.workspaceRoot,
+        options.cwd,
+        file,
+        ...args,
+      ],
+    };
+  },
+};
+
+const NAMESPACE_BACKENDS: SandboxBackend[] = [bwrapBackend, unshareBackend];
+let resolvedBackend: SandboxBackend | null | undefined; // undefined 表示尚未探測
+
+/**
+ * 選擇 namespace 模式使用的後端（結果會被緩存）
+ * @returns 沒有可用後端時返回 null
+ */
+export function resolveSandboxBackend(): SandboxBackend | null {
+  if (resolvedBackend === undefined) {
+    resolvedBackend = process.platform === "linux"
+      ? NAMESPACE_BACKENDS.find(backend => backend.isAvailable()) ?? null
+      : null;
+  }
+  return resolvedBackend;
+}
+
+/**
+ * 按沙箱模式包裝命令
+ * @throws 要求沙箱但當前環境沒有可用後端時
+ */
+export function applySandbox(
+  mode: SandboxMode | undefined,
+  file: string,
+  args: string[],
+  options: SandboxOptions
+): { file: string; args: string[]; backend?: string } {
+  if (!mode || mode === "none") {
+    return { file, args };
+  }
+
+  const backend = resolveSandboxBackend();
+  if (!backend) {
+    throw new Error("沙箱不可用：需要 Linux 並安裝 bubblewrap（bwrap），或內核允許非特權 user namespace（unshare）");
+  }
+  return { ...backend.wrap(file, args, options), backend: backend.name };
+}
@@ -0,0 +1,204 @@
+/**
+ * 敏感信息處理
+ * - 子進程環境變量清理：不把 API Key、Token 等傳給執行的命令
+ * - 輸出遮蔽：工具結果和讀取的文件在進入對話前遮蔽密鑰、私鑰和 .env 中的值
+ */
+
+import path from "path";
+
+/**
+ * 默認從子進程環境中移除的變量（支持 * 通配）
+ */
+export const DEFAULT_SCRUBBED_ENV = [
+  "BAILU_API_KEY",
+  "*_API_KEY",
+  "*_APIKEY",
+  "*_SECRET",
+  "*_SECRET_KEY",
+  "*_SECRET_ACCESS_KEY",
+  "*_TOKEN",
+  "*_PASSWORD",
+  "*_PRIVATE_KEY",
+];
+
+export interface RedactionResult {
+  text: string;
+  count: number; // 遮蔽的數量
+}
+
+interface SecretPattern {
+  name: string;
+  regex: RegExp;
+  /** 只遮蔽指定的捕獲組（如 key=value 只遮蔽 value），默認遮蔽整個匹配 */
+  valueGroup?: number;
+  /** 進一步過濾，返回 false 時不遮蔽（減少對普通代碼的誤判） */
+  validate?: (value: string) => boolean;
+}
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  { name: "private-key", regex: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: "aws-access-key", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "aws-secret-key", regex: /(aws_secret_access_key["']?\s*[=:]\s*["']?)([A-Za-z0-9/+=]{40})/gi, valueGroup: 2 },
+  { name: "api-key", regex: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "github-token", regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{50,})\b/g },
+  { name: "slack-token", regex: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: "google-api-key", regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: "jwt", regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    name: "secret-assignment",
+    // 變量名必須以關鍵字結尾（API_TOKEN、client_secret），tokenizer、secretName、passwordField 這類名稱不匹配
+    regex: /(\b[A-Za-z0-9_]*?(?:api[_-]?key|secret|token|password|passwd|access[_-]?key)["']?\s*[=:]\s*["']?)([A-Za-z0-9_\-./+=]{16,})/gi,
+    valueGroup: 2,
+    validate: isHighEntropy,
+  },
+];
+
+/**
+ * 值是否像隨機生成的密鑰：足夠長、同時包含字母和數字、字符分佈足夠分散
+ * process.env.API_TOKEN 這類引用，以及由單詞組成的標識符、路徑和版本名（user_password_2fa、prod/db/credentials-v2）不算
+ */
+function isHighEntropy(value: string): boolean {
+  if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value)) return false;
+  const words = value.split(/[_\-./]/).filter(part => /^[A-Za-z]{3,}$/.test(part));
+  if (words.length >= 2) return false;
+
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  });
+  // 按可達到的最大熵歸一化：十六進制只有 16 種字符，短值的字符種類也受長度限制
+  const alphabet = /^[0-9a-f]+$/i.test(value) ? 16 : 64;
+  return entropy / Math.log2(Math.min(value.length, alphabet)) >= 0.8;
+}
+
+function mask(name: string): string {
+  return `[REDACTED:${name}]`;
+}
+
+const REDACTION_MARKER = /\[REDACTED:[a-z-]+\]/g;
+
+/**
+ * 簡單通配匹配（只支持 *），大小寫不敏感
+ */
+function matchesEnvPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(name);
+}
+
+export function isScrubbedEnvVar(name: string, patterns: string[], keep: string[] = []): boolean {
+  if (keep.some(pattern => matchesEnvPattern(name, pattern))) {
+    return false;
+  }
+  return patterns.some(pattern => matchesEnvPattern(name, pattern));
+}
+
+/**
+ * 返回移除了敏感變量的環境變量副本
+ */
+export function scrubEnv(
+  env: NodeJS.ProcessEnv,
+  patterns: string[] = DEFAULT_SCRUBBED_ENV,
+  keep: string[] = []
+): NodeJS.ProcessEnv {
+  const result: NodeJS.ProcessEnv = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (!isScrubbedEnvVar(name, patterns, keep)) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * 遮蔽文本中的密鑰
+ * @param knownSecrets 已知的敏感值（如被清理的環境變量的值），按字面遮蔽
+ */
+export function redactSecrets(text: string, knownSecrets: string[] = []): RedactionResult {
+  let count = 0;
+  let result = text;
+
+  for (const secret of knownSecrets) {
+    if (secret.length < 8 || !result.includes(secret)) continue;
+    const parts = result.split(secret);
+    count += parts.length - 1;
+    result = parts.join(mask("env"));
+  }
+
+  for (const { name, regex, valueGroup, validate } of SECRET_PATTERNS) {
+    result = result.replace(regex, (match: string, ...groups: unknown[]) => {
+      // 已遮蔽的內容不重複計數
+      if (match.includes("[REDACTED:")) return match;
+      const value = valueGroup === undefined ? match : String(groups[valueGroup - 1] ?? "");
+      if (validate && !validate(value)) return match;
+      count++;
+      if (valueGroup === undefined) return mask(name);
+      const prefix = groups.slice(0, valueGroup - 1).map(g => (typeof g === "string" ? g : "")).join("");
+      return `${prefix}${mask(name)}`;
+    });
+  }
+
+  return { text: result, count };
+}
+
+/**
+ * 檢查寫入的內容是否新增了遮蔽標記（模型把遮蔽後的輸出寫回文件會用標記覆蓋真實的密鑰）
+ * @returns 新增了標記時返回錯誤信息，否則返回 null
+ */
+export function checkRedactedWrite(before: string, after: string): string | null {
+  const count = (text: string) => {
+    const counts = new Map<string, number>();
+    for (const marker of text.match(REDACTION_MARKER) ?? []) counts.set(marker, (counts.get(marker) ?? 0) + 1);
+    return counts;
+  };
+  const original = count(before);
+  const introduced = [...count(after)].filter(([marker, n]) => n > (original.get(marker) ?? 0)).map(([marker]) => marker);
+  if (introduced.length === 0) {
+    return null;
+  }
+  return `內容包含遮蔽標記 ${introduced.join("、")}：這是讀取時被遮蔽的敏感信息，不是文件的真實內容，寫入會破壞文件\n` +
+    "提示：只修改不包含敏感信息的部分（如用 edit_file 替換相鄰的行），不要重寫包含密鑰的行";
+}
+
+/**
+ * 是否為 .env 類文件（.env、.env.local、.env.production 等，不含 .env.example）
+ */
+export function isEnvFile(filePath: string): boolean {
+  const base = path.basename(filePath).toLowerCase();
+  return (base === ".env" || base.startsWith(".env.")) && !/\.(example|sample|template)$/.test(base);
+}
+
+/**
+ * 遮蔽 .env 文件中所有變量的值（保留變量名，方便模型理解配置結構）
+ */
+export function redactEnvFile(text: string): RedactionResult {
+  let count = 0;
+  const lines = text.split("\n").map(line => {
+    // 兼容 read_file 輸出的行號前綴（"   3 | KEY=value"）
+    const match = line.match(/^((?:\s*\d+ \| )?\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_.-]*\s*=\s*)(.+)$/);
+    if (!match || !match[2].trim() || match[2].includes("[REDACTED:")) {
+      return line;
+    }
+    count++;
+    return `${match[1]}${mask("env-file")}`;
+  });
+  return { text: lines.join("\n"), count };
+}
+
+/**
+ * 當前進程中需要遮蔽的環境變量值
+ */
+export function getSecretEnvValues(
+  env: NodeJS.ProcessEnv = process.env,
+  patterns: string[] = DEFAULT_SCRUBBED_ENV,
+  keep: string[] = []
+): string[] {
+  return Object.entries(env)
+    .filter(([name, value]) => !!value && isScrubbedEnvVar(name, patterns, keep))
+    .map(([, value]) => value as string);
+}
@@ -0,0 +1,253 @@
+/**
+ * Shell 命令行解析器（shell 模式的 run_command 使用）
+ * 把命令行解析成「列表 → 管道 → 命令」的語法樹，供安全策略逐個檢查命令節點。
+ * 只支持 POSIX sh 的常用子集；命令替換、子 shell、here-doc 等結構直接報錯，交由調用方拒絕。
+ */
+
+export type RedirectOperator = ">" | ">>" | "<" | ">&";
+
+export interface ShellRedirect {
+  op: RedirectOperator;
+  fd?: number; // 顯式文件描述符（如 2>）
+  target: string; // 文件路徑或 fd（>& 時）
+}
+
+export interface ShellCommandNode {
+  type: "command";
+  assignments: string[]; // 前置的 VAR=value
+  argv: string[];
+  redirects: ShellRedirect[];
+}
+
+export interface ShellPipeline {
+  type: "pipeline";
+  commands: ShellCommandNode[];
+}
+
+export type ShellListOperator = "&&" | "||" | ";";
+
+export interface ShellList {
+  type: "list";
+  items: { pipeline: ShellPipeline; next?: ShellListOperator }[];
+}
+
+export class ShellParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShellParseError";
+  }
+}
+
+type Token =
+  | { kind: "word"; value: string; quoted: boolean }
+  | { kind: "op"; value: string };
+
+// 沒有 &>：命令由 /bin/sh（如 dash）執行，cmd &> f 是「後台執行 cmd，再清空 f」，按 & 和 > 分開解析後會被拒絕
+const OPERATORS = ["&&", "||", ">>", ">&", "|", ";", "&", ">", "<", "(", ")"];
+
+/**
+ * 詞法分析：處理引號、轉義和操作符
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (ch === " " || ch === "\t") {
+      i++;
+      continue;
+    }
+    if (ch === "\n" || ch === "\r") {
+      tokens.push({ kind: "op", value: ";" });
+      i++;
+      continue;
+    }
+    if (ch === "#") {
+      // 註釋直到行尾
+      while (i < input.length && input[i] !== "\n") i++;
+      continue;
+    }
+    if (input.startsWith("<<", i)) {
+      throw new ShellParseError("不支持 here-doc（<<）");
+    }
+    if (input.startsWith("<(", i) || input.startsWith(">(", i)) {
+      throw new ShellParseError("不支持進程替換（<( ) / >( )）");
+    }
+
+    const op = OPERATORS.find(o => input.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: "op", value: op });
+      i += op.length;
+      continue;
+    }
+
+    // 讀取一個單詞（可能由多個引號片段組成）
+    let value = "";
+    let quoted = false;
+    while (i < input.length) {
+      const c = input[i];
+      if (" \t\n\r".includes(c) || OPERATORS.some(o => input.startsWith(o, i))) {
+        break;
+      }
+      if (c === "`" || input.startsWith("$(", i)) {
+        throw new ShellParseError("不支持命令替換（`...` / $(...)）");
+      }
+      if (c === "'") {
+        const end = input.indexOf("'", i + 1);
+        if (end === -1) throw new ShellParseError("單引號未閉合");
+        value += input.slice(i + 1, end);
+        quoted = true;
+        i = end + 1;
+        continue;
+      }
+      if (c === '"') {
+        i++;
+        let closed = false;
+        while (i < input.length) {
+          const d = input[i];
+          if (d === '"') {
+            closed = true;
+            i++;
+            break;
+          }
+          if (d === "`" || input.startsWith("$(", i)) {
+            throw new ShellParseError("不支持命令替換（`...` / $(...)）");
+          }
+          if (d === "\\" && i + 1 < input.length && '"\\$`'.includes(input[i + 1])) {
+            value += input[i + 1];
+            i += 2;
+            continue;
+          }
+          value += d;
+          i++;
+        }
+        if (!closed) throw new ShellParseError("雙引號未閉合");
+        quoted = true;
+        continue;
+      }
+      if (c === "\\" && i + 1 < input.length) {
+        value += input[i + 1];
+        quoted = true;
+        i += 2;
+        continue;
+      }
+      value += c;
+      i++;
+    }
+    tokens.push({ kind: "word", value, quoted });
+  }
+
+  return tokens;
+}
+
+/**
+ * 解析命令行為語法樹
+ * @throws ShellParseError 遇到語法錯誤或不支持的結構時
+ */
+export function parseShellCommand(input: string): ShellList {
+  const tokens = tokenize(input);
+  const list: ShellList = { type: "list", items: [] };
+  let pos = 0;
+
+  const parseCommand = (): ShellCommandNode => {
+    const node: ShellCommandNode = { type: "command", assignments: [], argv: [], redirects: [] };
+
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+
+      if (token.kind === "op") {
+        if (token.value === "(" || token.value === ")") {
+          throw new ShellParseError("不支持子 shell（( ... )）");
+        }
+        if (token.value === ">" || token.value === ">>" || token.value === "<" || token.value === ">&") {
+          pos++;
+          const target = tokens[pos];
+          if (!target || target.kind !== "word") {
+            throw new ShellParseError(`重定向 ${token.value} 缺少目標`);
+          }
+          node.redirects.push({ op: token.value as RedirectOperator, target: target.value });
+          pos++;
+          continue;
+        }
+        break;
+      }
+
+      // 數字緊跟重定向，如 2> / 2>&1
+      const nextToken = tokens[pos + 1];
+      if (!token.quoted && /^\d+$/.test(token.value) && nextToken?.kind === "op" && [">", ">>", "<", ">&"].includes(nextToken.value)) {
+        const target = tokens[pos + 2];
+        if (!target || target.kind !== "word") {
+          throw new ShellParseError(`重定向 ${token.value}${nextToken.value} 缺少目標`);
+        }
+        node.redirects.push({ op: nextToken.value as RedirectOperator, fd: Number(token.value), target: target.value });
+        pos += 3;
+        continue;
+      }
+
+      if (node.argv.length === 0 && !token.quoted && /^[A-Za-z_][A-Za-z0-9_]*=/.test(token.value)) {
+        node.assignments.push(token.value);
+      } else {
+        if (node.argv.length === 0 && (token.value === "{" || token.value === "}")) {
+          throw new ShellParseError("不支持命令組（{ ... }）");
+        }
+        node.argv.push(token.value);
+      }
+      pos++;
+    }
+
+    if (node.argv.length === 0) {
+      throw new ShellParseError("缺少命令");
+    }
+    return node;
+  };
+
+  const parsePipeline = (): ShellPipeline => {
+    const pipeline: ShellPipeline = { type: "pipeline", commands: [parseCommand()] };
+    while (pos < tokens.length && tokens[pos].kind === "op" && tokens[pos].value === "|") {
+      pos++;
+      pipeline.commands.push(parseCommand());
+    }
+    return pipeline;
+  };
+
+  while (pos < tokens.length) {
+    // 跳過多餘的分隔符（如結尾的 ; 或空行）
+    if (tokens[pos].kind === "op" && tokens[pos].value === ";") {
+      pos++;
+      continue;
+    }
+
+    const pipeline = parsePipeline();
+    const token = tokens[pos];
+    if (!token) {
+      list.items.push({ pipeline });
+      break;
+    }
+    if (token.kind === "op" && token.value === "&") {
+      throw new ShellParseError("不支持後台執行（&）");
+    }
+    if (token.kind === "op" && (token.value === "&&" || token.value === "||" || token.value === ";")) {
+      list.items.push({ pipeline, next: token.value });
+      pos++;
+      if ((token.value === "&&" || token.value === "||") && pos >= tokens.length) {
+        throw new ShellParseError(`${token.value} 後缺少命令`);
+      }
+      continue;
+    }
+    throw new ShellParseError(`無法解析的符號: ${token.value}`);
+  }
+
+  if (list.items.length === 0) {
+    throw new ShellParseError("命令為空");
+  }
+  return list;
+}
+
+/**
+ * 遍歷語法樹中的所有命令節點
+ */
+export function collectCommands(list: ShellList): ShellCommandNode[] {
+  return list.items.flatMap(item => item.pipeline.commands);
+}
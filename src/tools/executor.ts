@@ -6,8 +6,16 @@ import chalk from "chalk";
 import path from "path";
 import fs from "fs/promises";
 import { ToolRegistry } from "./registry.js";
-import { ToolCall, ToolResult, ToolExecutionContext, ToolDefinition, ToolParameter } from "./types.js";
+import { Tool, ToolCall, ToolResult, ToolExecutionContext, ToolDefinition, ToolParameter } from "./types.js";
+import { ErrorAnalyzer, ErrorRecoveryManager, ErrorType, globalErrorRecoveryManager } from "./recovery.js";
 import { GracefulExitError } from "../utils/graceful-exit.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { getDefaultPolicy } from "../runtime/policy.js";
+import { PermissionDecision, evaluatePermission, formatPermissionRule, getCommandLine, getTargetPaths, isCommandTool } from "../runtime/permissions.js";
+import { ApprovalStore, formatApproval, globalApprovalStore, isWriteTool } from "../runtime/approvals.js";
+import { getSecretEnvValues, isEnvFile, redactEnvFile, redactSecrets } from "../runtime/secrets.js";
+import { CheckpointStore, globalCheckpointStore } from "../runtime/checkpoints.js";
+import { previewEdits } from "./implementations/edit_file.js";
 
 /**
  * 簡單的備份管理器
@@ -50,7 +58,10 @@ export class ToolExecutor {
 
   constructor(
     private registry: ToolRegistry,
-    private context: ToolExecutionContext
+    private context: ToolExecutionContext,
+    private recoveryManager: ErrorRecoveryManager = globalErrorRecoveryManager,
+    private approvalStore: ApprovalStore = globalApprovalStore,
+    private checkpointStore: CheckpointStore = globalCheckpointStore
   ) {
     this.backupManager = new SimpleBackupManager();
     this.workspaceRoot = this.context.workspaceRoot || process.cwd();
@@ -93,8 +104,13 @@ export class ToolExecutor {
 
   /**
    * 執行單個工具調用
+   * @param signal 取消信號：已取消時不再執行，執行中取消由工具自行停止（如終止子進程）
    */
-  async execute(toolCall: ToolCall): Promise<ToolResult> {
+  async execute(toolCall: ToolCall, signal?: AbortSignal): Promise<ToolResult> {
+    if (signal?.aborted) {
+      return { success: false, error: "操作已被用戶取消" };
+    }
+
     const tool = this.registry.get(toolCall.tool);
 
     if (!tool) {
@@ -107,22 +123,33 @@ export class ToolExecutor {
     // 驗證參數
     const validationError = this.validateParams(toolCall, tool.definition);
     if (validationError) {
+      this.recoveryManager.recordError("validation", validationError, toolCall);
+      return this.withRecoveryHints(toolCall, { success: false, error: validationError }, "validation");
+    }
+
+    // 聲明式權限規則（配置中的 permissions）優先於安全模式的默認行為
+    const permission = evaluatePermission(getDefaultPolicy().permissionRules, toolCall.tool, toolCall.params);
+    if (permission?.action === "deny") {
       return {
         success: false,
-        error: validationError,
+        error: `操作被權限規則拒絕（${formatPermissionRule(permission.rule!)}）: ${permission.subject}`,
       };
     }
 
-    // 根據安全模式決定是否需要確認
-    if (this.context.safetyMode === "review") {
-      if (tool.definition.safe) {
+    // 根據安全模式和權限規則決定是否需要確認（ask 規則在 auto-apply 模式下也要確認）
+    if (this.context.safetyMode === "review" || (this.context.safetyMode === "auto-apply" && permission?.action === "ask")) {
+      if (permission?.action !== "ask" && tool.definition.safe) {
         console.log(chalk.gray(`[自動執行] ${this.humanizeToolCall(toolCall)}`));
       } else {
-        const approved = await this.requestApproval(toolCall);
+        const approved = await this.requestApproval(toolCall, permission, signal);
         if (!approved) {
           return {
             success: false,
-            error: "用戶取消了操作",
+            error: signal?.aborted
+              ? "操作已被用戶取消"
+              : this.context.interactive === false
+              ? `操作需要確認，但當前無法交互確認: ${this.humanizeToolCall(toolCall)}（可在 permissions 中添加 allow 規則或使用 auto-apply 模式）`
+              : "用戶取消了操作",
           };
         }
         console.log();
@@ -139,12 +166,113 @@ export class ToolExecutor {
       };
     }
 
+    // 實際執行工具（失敗時按恢復策略重試並附加恢復建議），結果進入對話前遮蔽敏感信息
+    return this.redactResult(toolCall, await this.executeWithRecovery(toolCall, tool, signal));
+  }
+
+  /**
+   * 遮蔽工具輸出中的密鑰、私鑰和 .env 值（verbose 模式下顯示遮蔽數量）
+   */
+  private redactResult(toolCall: ToolCall, result: ToolResult): ToolResult {
+    const policy = getDefaultPolicy();
+    if (policy.redactSecrets === false) {
+      return result;
+    }
+
+    const knownSecrets = getSecretEnvValues(process.env, policy.scrubEnv, policy.keepEnv);
+    const envFile = toolCall.tool === "read_file" && typeof toolCall.params.path === "string" && isEnvFile(toolCall.params.path);
+    let count = 0;
+    const redact = (text?: string): string | undefined => {
+      if (!text) return text;
+      let current = text;
+      if (envFile) {
+        const envResult = redactEnvFile(current);
+        current = envResult.text;
+        count += envResult.count;
+      }
+      const secretResult = redactSecrets(current, knownSecrets);
+      count += secretResult.count;
+      return secretResult.text;
+    };
+
+    const redacted: ToolResult = { ...result, output: redact(result.output), error: redact(result.error) };
+    if (count === 0) {
+      return result;
+    }
+
+    redacted.metadata = { ...result.metadata, redactions: count };
+    if (this.context.verbose) {
+      console.log(chalk.gray(`[安全] 已遮蔽 ${count} 處敏感信息（${toolCall.tool}）`));
+    }
+    return redacted;
+  }
+
+  /**
+   * 執行工具並處理失敗：分類錯誤、記錄到恢復管理器，
+   * 只讀工具按策略自動重試（非只讀工具可能有副作用，不自動重試）
+   */
+  private async executeWithRecovery(toolCall: ToolCall, tool: Tool, signal?: AbortSignal): Promise<ToolResult> {
+    let result = await this.runTool(toolCall, tool, signal);
+    if (result.success || signal?.aborted) {
+      return result;
+    }
+
+    const errorType = ErrorAnalyzer.analyzeErrorType(result.error || "");
+    const record = this.recoveryManager.recordError(errorType, result.error || "未知錯誤", toolCall, {
+      safetyMode: this.context.safetyMode,
+    });
+
+    let retries = 0;
+    if (tool.definition.safe) {
+      while (!result.success && !signal?.aborted && this.recoveryManager.canRetry(record, retries)) {
+        const recovery = await this.recoveryManager.attemptRecovery(record, retries);
+        if (recovery.recovered && recovery.result) {
+          result = recovery.result;
+          break;
+        }
+        if (!recovery.shouldContinue) {
+          break;
+        }
+        retries++;
+        result = await this.runTool(toolCall, tool, signal);
+      }
+
+      if (result.success) {
+        record.recovered = true;
+        record.recoveryAction = record.recoveryAction || `retry_${retries}`;
+        return {
+          ...result,
+          metadata: { ...result.metadata, retries },
+        };
+      }
+    }
+
+    return this.withRecoveryHints(toolCall, result, errorType, retries);
+  }
+
+  /**
+   * 在失敗結果後附加錯誤類型和結構化恢復建議，讓模型據此調整下一步
+   */
+  private withRecoveryHints(toolCall: ToolCall, result: ToolResult, errorType: ErrorType, retries = 0): ToolResult {
+    const suggestions = ErrorAnalyzer.getRecoverySuggestions(errorType, toolCall);
+    const retryNote = retries > 0 ? `（已重試 ${retries} 次）` : "";
+    return {
+      ...result,
+      error: `${result.error}\n[錯誤類型] ${errorType}${retryNote}\n[恢復建議]\n${suggestions.map(s => `- ${s}`).join("\n")}`,
+      metadata: { ...result.metadata, errorType, retries, suggestions },
+    };
+  }
+
+  /**
+   * 實際執行工具（含寫入前的路徑驗證與備份）
+   */
+  private async runTool(toolCall: ToolCall, tool: Tool, signal?: AbortSignal): Promise<ToolResult> {
     // 實際執行工具
     try {
-      // 如果是写入操作，先验证路径并创建备份
-      if (toolCall.tool === 'write_file' || toolCall.tool === 'apply_diff') {
-        const filePath = toolCall.params.path || toolCall.params.file;
-        if (filePath && typeof filePath === 'string') {
+      // 如果是写入操作，先验证路径并创建备份，同時記錄到當前回合的檢查點（多文件 diff 涉及的每個文件）
+      if (isWriteTool(toolCall.tool)) {
+        const filePaths = getTargetPaths(toolCall.tool, { ...toolCall.params, path: toolCall.params.path || toolCall.params.file });
+        for (const filePath of filePaths) {
           const validation = this.validateFilePath(filePath);
           if (!validation.valid) {
             return {
@@ -153,6 +281,9 @@ export class ToolExecutor {
             };
           }
           await this.backupManager.createBackup(validation.sanitized!);
+          await this.checkpointStore.recordFile(validation.sanitized!).catch((error) => {
+            console.log(chalk.yellow(`⚠️  檢查點保存失敗，本次修改無法用 /undo 回滾: ${error instanceof Error ? error.message : String(error)}`));
+          });
         }
       }
 
@@ -161,7 +292,7 @@ export class ToolExecutor {
         console.log(chalk.gray(`參數: ${JSON.stringify(toolCall.params, null, 2)}`));
       }
 
-      const result = await tool.handler(toolCall.params);
+      const result = await tool.handler(toolCall.params, signal);
 
       if (this.context.verbose) {
         if (result.success) {
@@ -177,14 +308,14 @@ export class ToolExecutor {
       console.log(chalk.red(`\n✗ 工具執行失敗: ${errorMsg}`));
 
       // 如果是写入操作失败，询问是否回滚
-      if (toolCall.tool === 'write_file' || toolCall.tool === 'apply_diff') {
+      if (isWriteTool(toolCall.tool)) {
         const filePath = toolCall.params.path || toolCall.params.file;
         if (filePath && typeof filePath === 'string') {
           const validation = this.validateFilePath(filePath);
           if (validation.valid && this.backupManager.getBackupCount(validation.sanitized!) > 0) {
             console.log(chalk.yellow(`\n⚠️  检测到文件有备份，可以回滚`));
             
-            if (this.context.safetyMode === "review") {
+            if (this.context.safetyMode === "review" && this.context.interactive !== false) {
               const shouldRollback = await this.askForRollback(validation.sanitized!);
               if (shouldRollback) {
                 const rolled = await this.backupManager.rollback(validation.sanitized!);
@@ -207,6 +338,40 @@ export class ToolExecutor {
     }
   }
 
+  /**
+   * 工具是否為只讀安全工具（可並行執行、review 模式下自動批准）
+   */
+  isSafeTool(toolName: string): boolean {
+    return this.registry.get(toolName)?.definition.safe === true;
+  }
+
+  /**
+   * 調用是否可以並行執行：只讀工具且沒有命中需要確認的 ask 規則（並行時無法逐個確認）
+   */
+  canRunConcurrently(toolCall: ToolCall): boolean {
+    if (!this.isSafeTool(toolCall.tool)) {
+      return false;
+    }
+    const permission = evaluatePermission(getDefaultPolicy().permissionRules, toolCall.tool, toolCall.params);
+    return permission?.action !== "ask";
+  }
+
+  /**
+   * 並行執行一組安全工具調用，結果按原始順序返回
+   * 非安全工具會被拒絕，必須通過 execute() 逐個執行並經過審批
+   */
+  async executeConcurrent(toolCalls: ToolCall[], concurrency: number, signal?: AbortSignal): Promise<ToolResult[]> {
+    return mapWithConcurrency(toolCalls, concurrency, async (toolCall) => {
+      if (!this.canRunConcurrently(toolCall)) {
+        return {
+          success: false,
+          error: `工具 "${toolCall.tool}" 不是只讀工具或需要確認，不能並行執行`,
+        };
+      }
+      return this.execute(toolCall, signal);
+    });
+  }
+
   /**
    * 批量執行工具調用
    */
@@ -259,10 +424,14 @@ export class ToolExecutor {
         return `✍️  寫入檔案: ${chalk.bold(params.path)}`;
       case "list_directory":
         return `📂 列出目錄內容: ${chalk.bold(params.path || "當前目錄")}`;
+      case "delegate_task":
+        return `🤖 委派子 Agent (${params.agent_type}): ${chalk.bold(String(params.task || "").substring(0, 80))}`;
       case "run_command":
         return `⚙️  執行命令: ${chalk.bold(params.command)}`;
+      case "edit_file":
+        return `✏️  編輯檔案: ${chalk.bold(params.path)}`;
       case "apply_diff":
-        return `🔧 應用差異到: ${chalk.bold(params.path)}`;
+        return `🔧 應用差異到: ${chalk.bold(getTargetPaths(tool, params).join(", "))}`;
       default:
         return `🔨 執行工具: ${tool}`;
     }
@@ -275,6 +444,7 @@ export class ToolExecutor {
       case "write_file": return `已寫入檔案: ${params.path}`;
       case "list_directory": return `已列出目錄內容`;
       case "run_command": return `命令執行成功`;
+      case "edit_file": return `已編輯檔案: ${params.path}`;
       case "apply_diff": return `已應用差異`;
       default: return `執行成功`;
     }
@@ -287,6 +457,7 @@ export class ToolExecutor {
       case "write_file": return `寫入檔案失敗 (${params.path})`;
       case "list_directory": return `列出目錄失敗`;
       case "run_command": return `命令執行失敗`;
+      case "edit_file": return `編輯檔案失敗 (${params.path})`;
       case "apply_diff": return `應用差異失敗`;
       default: return `執行失敗`;
     }
@@ -295,16 +466,52 @@ export class ToolExecutor {
   /**
    * 請求用戶批准（review 模式）
    */
-  private async requestApproval(toolCall: ToolCall): Promise<boolean> {
+  private async requestApproval(toolCall: ToolCall, permission?: PermissionDecision | null, signal?: AbortSignal): Promise<boolean> {
+    // 命中 allow 規則時跳過確認
+    if (permission?.action === "allow") {
+      console.log(chalk.gray(`[規則允許] ${this.humanizeToolCall(toolCall)} (${formatPermissionRule(permission.rule!)})`));
+      return true;
+    }
+
+    // 之前選擇過「總是允許」的調用直接執行（ask 規則要求每次確認，不使用記錄）
+    if (permission?.action !== "ask") {
+      const approval = await this.approvalStore.isApproved(toolCall.tool, toolCall.params);
+      if (approval) {
+        console.log(chalk.gray(`[已授權] ${this.humanizeToolCall(toolCall)} (${formatApproval(approval)})`));
+        return true;
+      }
+    }
+
+    if (this.context.interactive === false) {
+      return false;
+    }
+
     console.log(chalk.yellow("\n[需要確認]"));
+    if (permission?.action === "ask") {
+      console.log(chalk.gray(`命中權限規則: ${formatPermissionRule(permission.rule!)}`));
+    }
     console.log(this.humanizeToolCall(toolCall));
 
-    if (toolCall.tool === "write_file" && toolCall.params.path) {
-      await this.showDiffPreview(toolCall.params.path as string, toolCall.params.content as string);
+    const previewContent = await this.getPreviewContent(toolCall);
+    if (previewContent !== null) {
+      await this.showDiffPreview(toolCall.params.path as string, previewContent);
+    } else if (toolCall.tool === "apply_diff" && typeof toolCall.params.diff === "string") {
+      const { colorizePatch } = await import("../fs/diff.js");
+      console.log(chalk.bold("\n[Diff 預覽]"));
+      console.log(colorizePatch(toolCall.params.diff));
     }
 
     return new Promise((resolve) => {
-      process.stdout.write(chalk.yellow("是否執行此操作? [y/n/d(顯示詳細diff)/q(退出)]: "));
+      const canAlways = permission?.action !== "ask";
+      const targetDir = typeof toolCall.params.path === "string" ? path.dirname(toolCall.params.path) : null;
+      const options = ["y", "n"];
+      if (canAlways) {
+        options.push("s(本會話允許此工具)");
+        if (isCommandTool(toolCall.tool)) options.push("a(總是允許此命令)");
+        if (isWriteTool(toolCall.tool) && targetDir) options.push(`w(總是允許寫入 ${targetDir}/)`);
+      }
+      options.push("d(顯示詳細diff)", "q(退出)");
+      process.stdout.write(chalk.yellow(`是否執行此操作? [${options.join("/")}]: `));
       
       const allListeners: Map<string, ((...args: unknown[]) => void)[]> = new Map();
       ['data', 'readable', 'end', 'close', 'error'].forEach(event => {
@@ -323,22 +530,33 @@ export class ToolExecutor {
       process.stdin.resume();
       
       let buffer = '';
+
+      const restore = () => {
+        process.stdin.removeListener('data', onData);
+        signal?.removeEventListener('abort', onAbort);
+
+        allListeners.forEach((listeners, event) => {
+          listeners.forEach(listener => {
+            process.stdin.on(event as any, listener as any);
+          });
+        });
+
+        if (process.stdin.isTTY && wasRaw) {
+          process.stdin.setRawMode(true);
+        }
+      };
+
+      // 等待確認時按 Ctrl+C：視為拒絕，由調用者返回取消結果
+      const onAbort = () => {
+        restore();
+        resolve(false);
+      };
       
       const onData = (chunk: Buffer) => {
         buffer += chunk.toString();
         
         if (buffer.includes('\n')) {
-          process.stdin.removeListener('data', onData);
-          
-          allListeners.forEach((listeners, event) => {
-            listeners.forEach(listener => {
-              process.stdin.on(event as any, listener as any);
-            });
-          });
-          
-          if (process.stdin.isTTY && wasRaw) {
-            process.stdin.setRawMode(true);
-          }
+          restore();
           
           const answer = buffer.trim().toLowerCase();
           
@@ -348,9 +566,26 @@ export class ToolExecutor {
           }
 
           if (answer === "d" || answer === "diff") {
-            this.showDiffPreview(toolCall.params.path as string, toolCall.params.content as string, true).then(
+            if (previewContent === null) {
+              console.log(chalk.gray("(無法生成預覽)"));
+            }
+            const preview = previewContent !== null
+              ? this.showDiffPreview(toolCall.params.path as string, previewContent, true)
+              : Promise.resolve();
+            preview.then(
               () => {
-                this.requestApproval(toolCall).then(resolve);
+                this.requestApproval(toolCall, permission, signal).then(resolve);
+              }
+            );
+            return;
+          }
+
+          if (canAlways && (answer === "s" || answer === "a" || answer === "w")) {
+            this.rememberApproval(toolCall, answer, targetDir).then(
+              (remembered) => resolve(remembered),
+              (error) => {
+                console.log(chalk.red(`保存授權失敗: ${error instanceof Error ? error.message : String(error)}`));
+                resolve(true);
               }
             );
             return;
@@ -361,9 +596,46 @@ export class ToolExecutor {
       };
       
       process.stdin.on('data', onData);
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
+  /**
+   * 記錄「總是允許」的選擇，返回本次是否執行
+   */
+  private async rememberApproval(toolCall: ToolCall, answer: string, targetDir: string | null): Promise<boolean> {
+    let entry;
+    if (answer === "s") {
+      entry = this.approvalStore.allowToolForSession(toolCall.tool);
+    } else if (answer === "a" && isCommandTool(toolCall.tool)) {
+      entry = await this.approvalStore.allowCommand(getCommandLine(toolCall.params));
+    } else if (answer === "w" && isWriteTool(toolCall.tool) && targetDir) {
+      entry = await this.approvalStore.allowDirectory(targetDir);
+    } else {
+      // 當前工具不支持該選項，按拒絕處理
+      return false;
+    }
+    console.log(chalk.green(`✓ 已記錄: ${formatApproval(entry)}（使用 /permissions 查看或撤銷）`));
+    return true;
+  }
+
+  /**
+   * 寫入後的文件內容（用於 diff 預覽）：write_file 為 content，edit_file 為應用編輯後的內容
+   */
+  private async getPreviewContent(toolCall: ToolCall): Promise<string | null> {
+    if (typeof toolCall.params.path !== "string") {
+      return null;
+    }
+    if (toolCall.tool === "write_file" && typeof toolCall.params.content === "string") {
+      return toolCall.params.content;
+    }
+    if (toolCall.tool === "edit_file") {
+      const validation = this.validateFilePath(toolCall.params.path);
+      return validation.valid ? previewEdits(validation.sanitized!, toolCall.params) : null;
+    }
+    return null;
+  }
+
   /**
    * 顯示 diff 預覽
    */
@@ -1,27 +1,40 @@
 /**
  * 應用 diff 補丁工具
+ * 支持多文件 diff 和新建 / 刪除 / 重命名；hunk 容忍空白差異、行號偏移和不精確的上下文
+ * 任何 hunk 無法應用時不修改任何文件，並返回每個 hunk 的報告和最接近的區域
  */
 
 import fs from "fs/promises";
 import path from "path";
 import { Tool, ToolResult } from "../types.js";
 import { validatePath } from "../../utils/path-validator.js";
+import { checkRedactedWrite } from "../../runtime/secrets.js";
+import { FilePatch, HunkResult, applyHunks, formatHunkReport, parseUnifiedDiff } from "../../fs/patch.js";
+
+interface FileChange {
+  patch: FilePatch;
+  source: string | null; // 修改前的文件（新建時為 null）
+  target: string | null; // 修改後的文件（刪除時為 null）
+  original: string;
+  patched: string;
+  results: HunkResult[];
+}
 
 export const applyDiffTool: Tool = {
   definition: {
     name: "apply_diff",
-    description: "將 unified diff 補丁應用到文件",
+    description: "將 unified diff 補丁應用到一個或多個文件（容忍空白差異和行號偏移；任何 hunk 無法應用時不修改任何文件）",
     parameters: [
       {
         name: "path",
         type: "string",
-        description: "目標文件的路徑",
-        required: true,
+        description: "目標文件的路徑（diff 包含 ---/+++ 文件標頭時可省略，多文件 diff 按標頭中的路徑應用）",
+        required: false,
       },
       {
         name: "diff",
         type: "string",
-        description: "unified diff 格式的補丁內容",
+        description: "unified diff 格式的補丁內容，可包含多個文件；新建文件用 --- /dev/null，刪除文件用 +++ /dev/null",
         required: true,
       },
       {
@@ -36,14 +49,14 @@ export const applyDiffTool: Tool = {
 
   handler: async (params): Promise<ToolResult> => {
     try {
-      // Validate path parameter
-      if (typeof params.path !== 'string' || !params.path.trim()) {
+      // Validate path parameter（可選）
+      if (params.path !== undefined && (typeof params.path !== 'string' || !params.path.trim())) {
         return {
           success: false,
           error: '路徑參數無效：必須是非空字符串',
         };
       }
-      const inputPath = params.path.trim();
+      const inputPath = typeof params.path === 'string' ? params.path.trim() : undefined;
 
       // Validate diff parameter
       if (typeof params.diff !== 'string' || !params.diff.trim()) {
@@ -52,146 +65,209 @@ export const applyDiffTool: Tool = {
           error: 'Diff 參數無效：必須是非空字符串',
         };
       }
-      const diffContent = params.diff.trim();
+      const diffContent = params.diff.replace(/^\s*\n/, '');
 
       // Validate diff format (basic check)
-      if (!diffContent.includes('@@') && !diffContent.startsWith('---')) {
+      if (!diffContent.includes('@@') && !/^(---|diff --git)/m.test(diffContent)) {
         return {
           success: false,
           error: 'Diff 格式無效：不是有效的 unified diff 格式\n提示：應包含 @@ hunk 標記或 --- 文件標記',
         };
       }
 
-      const createBackup = params.create_backup !== false;
-
-      // 使用統一的路徑驗證工具（含 symlink 解析和敏感目錄檢查）
-      const workspaceRoot = process.cwd();
-      const pathValidation = validatePath(inputPath, workspaceRoot);
-      
-      if (!pathValidation.valid) {
+      const patches = parseUnifiedDiff(diffContent, inputPath);
+      if (patches.length === 0 || patches.some((p) => !p.oldPath && !p.newPath)) {
         return {
           success: false,
-          error: `🔒 路徑驗證失敗: ${pathValidation.error}`,
+          error: '無法確定要修改的文件：diff 沒有 ---/+++ 文件標頭時需要提供 path 參數',
         };
       }
 
-      const filePath = pathValidation.normalizedPath!;
+      const createBackup = params.create_backup !== false;
+      const workspaceRoot = process.cwd();
+
+      // 使用統一的路徑驗證工具（含 symlink 解析和敏感目錄檢查）
+      for (const filePath of patches.flatMap((p) => [p.oldPath, p.newPath])) {
+        const pathValidation = filePath ? validatePath(filePath, workspaceRoot) : { valid: true };
+        if (!pathValidation.valid) {
+          return {
+            success: false,
+            error: `🔒 路徑驗證失敗: ${pathValidation.error}（${filePath}）`,
+          };
+        }
+      }
+      const resolvePath = (filePath: string | null) =>
+        filePath ? validatePath(filePath, workspaceRoot).normalizedPath! : null;
 
-      // Read original file
-      let original: string;
-      let fileExists = false;
-      try {
-        original = await fs.readFile(filePath, "utf-8");
-        fileExists = true;
-      } catch (readError: unknown) {
-        // Check if it's a "file not found" error
-        const hasCode = (err: unknown): err is { code: string; message: string } => {
-          return typeof err === 'object' && err !== null && 'code' in err;
-        };
-        if (hasCode(readError) && readError.code === 'ENOENT') {
-          // File doesn't exist - check if diff creates new file
-          if (diffContent.includes('--- /dev/null') || diffContent.includes('--- a/dev/null')) {
-            // This is a new file creation diff
-            original = "";
-            fileExists = false;
-          } else {
+      // 每段都按原文件計算：同一文件出現在多段時後寫入的會覆蓋前面的修改
+      const seen = new Set<string>();
+      for (const patch of patches) {
+        const paths = new Set([resolvePath(patch.oldPath), resolvePath(patch.newPath)].filter((p): p is string => !!p));
+        for (const filePath of paths) {
+          if (seen.has(filePath)) {
             return {
               success: false,
-              error: `文件不存在: ${filePath}\n提示：如果要創建新文件，diff 應包含 "--- /dev/null"`,
+              error: `diff 中 ${path.relative(workspaceRoot, filePath)} 出現在多個文件段中，請把同一文件的所有 hunk 合併到一段`,
             };
           }
-        } else {
-          // Other read errors
-          const errorMsg = hasCode(readError) ? readError.message : String(readError);
-          return {
-            success: false,
-            error: `讀取文件失敗: ${errorMsg}\n文件: ${filePath}`,
-          };
+          seen.add(filePath);
         }
       }
 
-      // Create backup if file exists and backup is enabled
-      let backupPath: string | null = null;
-      if (createBackup && fileExists && original) {
-        backupPath = `${filePath}.backup`;
-        try {
-          await fs.writeFile(backupPath, original, "utf-8");
-        } catch (backupError: unknown) {
-          const errorMsg = backupError instanceof Error ? backupError.message : String(backupError);
-          return {
-            success: false,
-            error: `創建備份失敗: ${errorMsg}\n備份路徑: ${backupPath}`,
-          };
+      // 先計算所有文件的新內容：任何 hunk 無法應用時不寫入任何文件
+      const changes: FileChange[] = [];
+      for (const patch of patches) {
+        const source = resolvePath(patch.oldPath);
+        const target = resolvePath(patch.newPath);
+
+        let original = "";
+        if (source) {
+          const read = await readExisting(source);
+          if (read.error) {
+            return { success: false, error: read.error };
+          }
+          if (read.content === null) {
+            return {
+              success: false,
+              error: `文件不存在: ${source}\n提示：如果要創建新文件，diff 應包含 "--- /dev/null"`,
+            };
+          }
+          original = read.content;
         }
+        if (target && target !== source) {
+          // 新建或重命名的目標不能覆蓋已有文件（不會為目標創建備份）
+          const existing = await readExisting(target);
+          if (existing.error) {
+            return { success: false, error: existing.error };
+          }
+          if (existing.content !== null) {
+            return {
+              success: false,
+              error: source
+                ? `重命名目標已存在: ${target}\n提示：先刪除目標文件，或直接修改 "${patch.newPath}"`
+                : `文件已存在: ${target}\n提示：修改已有文件時 diff 應使用 "--- a/${patch.newPath}"`,
+            };
+          }
+        }
+
+        const { content, results } = applyHunks(original, patch.hunks);
+        changes.push({ patch, source, target, original, patched: content, results });
       }
 
-      // Apply diff
-      let patched: string;
-      try {
-        patched = applyUnifiedDiff(original, diffContent);
-      } catch (diffError: unknown) {
-        const errorMsg = diffError instanceof Error ? diffError.message : String(diffError);
+      const reports = changes
+        .filter((change) => change.results.length > 0)
+        .map((change) => formatHunkReport(displayPath(change, workspaceRoot), change.results));
+      const hunks = Object.fromEntries(changes.map((change) => [displayPath(change, workspaceRoot), change.results]));
+
+      if (changes.some((change) => change.results.some((r) => !r.applied))) {
         return {
           success: false,
-          error: `應用 diff 失敗: ${errorMsg}\n提示：請檢查 diff 格式是否正確`,
+          error: `應用 diff 失敗，沒有修改任何文件：\n${reports.join("\n")}\n提示：按上面「最接近的區域」中的實際內容重新生成失敗的 hunk，或先用 read_file 讀取文件最新內容`,
+          metadata: { hunks },
         };
       }
 
-      // Ensure parent directory exists
-      const dir = path.dirname(filePath);
-      try {
-        await fs.mkdir(dir, { recursive: true });
-      } catch (mkdirError: unknown) {
-        const errorMsg = mkdirError instanceof Error ? mkdirError.message : String(mkdirError);
-        return {
-          success: false,
-          error: `創建目錄失敗: ${errorMsg}\n目錄: ${dir}`,
-        };
+      for (const change of changes) {
+        const redactionError = change.target ? checkRedactedWrite(change.original, change.patched) : null;
+        if (redactionError) {
+          return { success: false, error: `${redactionError}\n文件: ${change.target}` };
+        }
       }
 
-      // Write file
-      try {
-        await fs.writeFile(filePath, patched, "utf-8");
-      } catch (writeError: unknown) {
-        // Try to restore from backup if write fails
-        const errorMsg = writeError instanceof Error ? writeError.message : String(writeError);
-        if (backupPath) {
+      // 寫入：先備份，然後寫入新內容、刪除被刪除或重命名的原文件
+      const backups: string[] = [];
+      for (const change of changes) {
+        let backupPath: string | null = null;
+        if (createBackup && change.source && change.original) {
+          backupPath = `${change.source}.backup`;
           try {
-            await fs.copyFile(backupPath, filePath);
+            await fs.writeFile(backupPath, change.original, "utf-8");
+            backups.push(backupPath);
+          } catch (backupError: unknown) {
+            const errorMsg = backupError instanceof Error ? backupError.message : String(backupError);
             return {
               success: false,
-              error: `寫入文件失敗，已從備份恢復: ${errorMsg}`,
+              error: `創建備份失敗: ${errorMsg}\n備份路徑: ${backupPath}`,
             };
-          } catch {
-            // Backup restore also failed
           }
         }
-        return {
-          success: false,
-          error: `寫入文件失敗: ${errorMsg}\n文件: ${filePath}`,
-        };
+
+        if (change.target) {
+          // Ensure parent directory exists
+          const dir = path.dirname(change.target);
+          try {
+            await fs.mkdir(dir, { recursive: true });
+          } catch (mkdirError: unknown) {
+            const errorMsg = mkdirError instanceof Error ? mkdirError.message : String(mkdirError);
+            return {
+              success: false,
+              error: `創建目錄失敗: ${errorMsg}\n目錄: ${dir}`,
+            };
+          }
+
+          try {
+            await fs.writeFile(change.target, change.patched, "utf-8");
+          } catch (writeError: unknown) {
+            // Try to restore from backup if write fails
+            const errorMsg = writeError instanceof Error ? writeError.message : String(writeError);
+            if (backupPath && change.source === change.target) {
+              try {
+                await fs.copyFile(backupPath, change.target);
+                return {
+                  success: false,
+                  error: `寫入文件失敗，已從備份恢復: ${errorMsg}`,
+                };
+              } catch {
+                // Backup restore also failed
+              }
+            }
+            return {
+              success: false,
+              error: `寫入文件失敗: ${errorMsg}\n文件: ${change.target}`,
+            };
+          }
+        }
+
+        if (change.source && change.source !== change.target) {
+          await fs.rm(change.source, { force: true });
+        }
       }
 
+      // 輸出：每個文件一行；有 hunk 不是在原位置精確應用時附加報告，讓模型知道實際應用的位置
+      const summary = changes.map((change) => `  ${describeChange(change, workspaceRoot)}`);
+      const approximate = changes.some((change) =>
+        change.results.some((r) => r.strategy !== "exact" || r.offset !== 0)
+      );
+      const first = changes[0];
+      const filePath = (first.target ?? first.source)!;
+      const output = changes.length === 1
+        ? `成功應用補丁到文件: ${filePath}`
+        : `成功應用補丁到 ${changes.length} 個文件:\n${summary.join("\n")}`;
+
       // Calculate diff statistics
-      const originalLines = original.split('\n').length;
-      const patchedLines = patched.split('\n').length;
-      const linesAdded = Math.max(0, patchedLines - originalLines);
-      const linesRemoved = Math.max(0, originalLines - patchedLines);
+      const linesAdded = countLines(changes, "+");
+      const linesRemoved = countLines(changes, "-");
+      const confidences = changes.flatMap((change) => change.results.map((r) => r.confidence));
 
       return {
         success: true,
-        output: `成功應用補丁到文件: ${filePath}`,
+        output: approximate ? `${output}\n${reports.join("\n")}` : output,
         metadata: {
           path: filePath,
           relativePath: path.relative(workspaceRoot, filePath),
-          fileCreated: !fileExists,
-          originalSize: original.length,
-          patchedSize: patched.length,
-          originalLines,
-          patchedLines,
+          files: changes.map((change) => displayPath(change, workspaceRoot)),
+          fileCreated: !first.source,
+          fileDeleted: !first.target,
+          originalSize: first.original.length,
+          patchedSize: first.patched.length,
+          originalLines: first.original.split('\n').length,
+          patchedLines: first.patched.split('\n').length,
           linesAdded,
           linesRemoved,
-          backup: backupPath,
+          confidence: confidences.length > 0 ? Math.min(...confidences) : 1,
+          hunks,
+          backup: backups[0] ?? null,
+          backups,
         },
       };
     } catch (error) {
@@ -218,68 +294,38 @@ export const applyDiffTool: Tool = {
 };
 
 /**
- * Apply unified diff to original content
- * Note: This is a simplified implementation that supports basic +/- line operations
- * For complex diffs with conflicts or context mismatches, consider using a library like diff-match-patch
+ * 讀取文件，不存在時 content 為 null
  */
-function applyUnifiedDiff(original: string, diff: string): string {
-  // Validate that diff has hunk markers
-  if (!diff.includes('@@')) {
-    throw new Error('Invalid diff format: missing hunk markers (@@)');
-  }
-  const originalLines = original.split("\n");
-  const diffLines = diff.split("\n");
-  const result: string[] = [];
-
-  let originalIndex = 0;
-  let inHunk = false;
-  let hunkOriginalStart = 0;
-
-  for (const line of diffLines) {
-    // 解析 hunk 標頭：@@ -1,5 +1,6 @@
-    if (line.startsWith("@@")) {
-      const match = line.match(/@@ -(\d+),?\d* \+(\d+),?\d* @@/);
-      if (match) {
-        hunkOriginalStart = parseInt(match[1], 10) - 1; // 轉為 0-based
-        // 將未處理的原始行加入結果
-        while (originalIndex < hunkOriginalStart) {
-          result.push(originalLines[originalIndex]);
-          originalIndex++;
-        }
-        inHunk = true;
-      }
-      continue;
-    }
-
-    if (!inHunk) continue;
-
-    // 跳過 diff 元數據行
-    if (line.startsWith("---") || line.startsWith("+++") || line.startsWith("\\")) {
-      continue;
-    }
-
-    if (line.startsWith("+")) {
-      // 新增行
-      result.push(line.slice(1));
-    } else if (line.startsWith("-")) {
-      // 刪除行：跳過原始行
-      originalIndex++;
-    } else if (line.startsWith(" ")) {
-      // 上下文行：保持不變
-      result.push(line.slice(1));
-      originalIndex++;
-    } else {
-      // 普通行（無前綴）：視為上下文
-      result.push(line);
-      originalIndex++;
+async function readExisting(filePath: string): Promise<{ content: string | null; error?: string }> {
+  try {
+    return { content: await fs.readFile(filePath, "utf-8") };
+  } catch (readError: unknown) {
+    const hasCode = (err: unknown): err is { code: string; message: string } => {
+      return typeof err === 'object' && err !== null && 'code' in err;
+    };
+    if (hasCode(readError) && readError.code === 'ENOENT') {
+      return { content: null };
     }
+    const errorMsg = hasCode(readError) ? readError.message : String(readError);
+    return { content: null, error: `讀取文件失敗: ${errorMsg}\n文件: ${filePath}` };
   }
+}
 
-  // 加入剩餘的原始行
-  while (originalIndex < originalLines.length) {
-    result.push(originalLines[originalIndex]);
-    originalIndex++;
-  }
+function displayPath(change: FileChange, workspaceRoot: string): string {
+  return path.relative(workspaceRoot, (change.target ?? change.source)!);
+}
+
+function describeChange(change: FileChange, workspaceRoot: string): string {
+  const relative = displayPath(change, workspaceRoot);
+  if (!change.source) return `+ ${relative}（新建）`;
+  if (!change.target) return `- ${relative}（刪除）`;
+  if (change.source !== change.target) return `→ ${relative}（重命名自 ${path.relative(workspaceRoot, change.source)}）`;
+  return `~ ${relative}`;
+}
 
-  return result.join("\n");
+function countLines(changes: FileChange[], prefix: "+" | "-"): number {
+  return changes.reduce(
+    (sum, change) => sum + change.patch.hunks.reduce((n, hunk) => n + hunk.lines.filter((l) => l.startsWith(prefix)).length, 0),
+    0
+  );
 }
@@ -0,0 +1,106 @@
+/**
+ * 委派任務工具 - 讓主 Agent 把調查類任務交給子 Agent
+ * 子 Agent 使用獨立的對話歷史和受限工具集，只有總結結果回到主對話，避免主上下文膨脹
+ */
+
+import { Tool, ToolResult, ToolExecutionContext } from "../types.js";
+import { ToolRegistry } from "../registry.js";
+import { LLMClient } from "../../llm/client.js";
+import { AgentManager, AgentResult, AgentType } from "../../agent/sub-agents.js";
+
+const MAX_SUMMARY_LENGTH = 8000; // 回到主對話的總結最大長度（字符）
+
+export interface DelegateTaskToolOptions {
+  llmClient: LLMClient;
+  toolRegistry: ToolRegistry;
+  executionContext: ToolExecutionContext;
+  workspaceContext?: string; // 工作區概覽，提供給子 Agent 的系統提示
+}
+
+/**
+ * 將子 Agent 結果格式化為簡潔的工具輸出
+ */
+function formatAgentResult(type: AgentType, result: AgentResult): string {
+  let output = result.output.trim() || "(子 Agent 沒有輸出總結)";
+  if (output.length > MAX_SUMMARY_LENGTH) {
+    output = `${output.substring(0, MAX_SUMMARY_LENGTH)}\n\n[... 總結過長，已截斷 ...]`;
+  }
+  return `[子 Agent: ${type}｜${result.iterations} 輪，${result.toolCallsExecuted} 次工具調用]\n${output}`;
+}
+
+/**
+ * 創建 delegate_task 工具（需要 LLM 客戶端和父工具集，因此以工廠函數構建）
+ */
+export function createDelegateTaskTool(options: DelegateTaskToolOptions): Tool {
+  const manager = new AgentManager(options.llmClient, options.toolRegistry, options.executionContext);
+  const agentTypes = manager.getAvailableAgentTypes();
+
+  return {
+    definition: {
+      name: "delegate_task",
+      description:
+        "把需要大量閱讀或搜索的子任務委派給專用子 Agent，只返回其總結。" +
+        `可用類型：${agentTypes.map(t => `${t}（${manager.getAgentDescription(t)}）`).join("、")}。` +
+        "explore 和 plan 只能使用只讀工具，verification 額外可以運行命令。",
+      parameters: [
+        {
+          name: "agent_type",
+          type: "string",
+          description: `子 Agent 類型：${agentTypes.join(" | ")}`,
+          required: true,
+        },
+        {
+          name: "task",
+          type: "string",
+          description: "交給子 Agent 的具體任務描述（子 Agent 看不到主對話歷史，需寫清楚背景）",
+          required: true,
+        },
+      ],
+    },
+
+    handler: async (params, signal): Promise<ToolResult> => {
+      const type = params.agent_type as AgentType;
+      const task = params.task as string;
+
+      if (!agentTypes.includes(type)) {
+        return {
+          success: false,
+          error: `未知的子 Agent 類型 "${params.agent_type}"，可用類型: ${agentTypes.join(", ")}`,
+        };
+      }
+      if (!task || typeof task !== "string" || !task.trim()) {
+        return { success: false, error: "task 不能為空" };
+      }
+
+      try {
+        const result = await manager.executeAgentTask(type, task, options.workspaceContext || "", {
+          workspaceRoot: options.executionContext.workspaceRoot,
+          parentAgent: "orchestrator",
+        }, signal);
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: `子 Agent 執行失敗: ${result.error || "未知錯誤"}`,
+            output: result.output ? formatAgentResult(type, result) : undefined,
+          };
+        }
+
+        return {
+          success: true,
+          output: formatAgentResult(type, result),
+          metadata: {
+            agentType: type,
+            iterations: result.iterations,
+            toolCallsExecuted: result.toolCallsExecuted,
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: `子 Agent 執行異常: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,328 @@
+/**
+ * 搜索替換編輯工具：按 old_string → new_string 修改文件
+ * old_string 必須精確且唯一地匹配（或指定 replace_all），任何一處編輯失敗時不修改文件
+ * 保留文件原有的換行符（LF / CRLF）、BOM 和編碼
+ */
+
+import fs from "fs/promises";
+import { Tool, ToolResult } from "../types.js";
+import { validatePath } from "../../utils/path-validator.js";
+import { checkRedactedWrite } from "../../runtime/secrets.js";
+
+export interface FileEdit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+export interface EditApplyResult {
+  content?: string;
+  error?: string;
+  replacements: number;
+}
+
+interface DecodedFile {
+  text: string;
+  encoding: BufferEncoding;
+  bom: Buffer;
+}
+
+export const editFileTool: Tool = {
+  definition: {
+    name: "edit_file",
+    description:
+      "按搜索替換修改文件：把 old_string 替換為 new_string。old_string 必須與文件內容（包括縮進和空白）完全一致且只出現一次，" +
+      "否則需要加入更多上下文或設置 replace_all=true。多處修改用 edits 一次提交。小範圍修改優先使用此工具，而不是 write_file 重寫整個文件",
+    parameters: [
+      {
+        name: "path",
+        type: "string",
+        description: "要修改的文件路徑（文件必須已存在，創建新文件請使用 write_file）",
+        required: true,
+      },
+      {
+        name: "old_string",
+        type: "string",
+        description: "要替換的原文（單處修改時使用）",
+        required: false,
+      },
+      {
+        name: "new_string",
+        type: "string",
+        description: "替換後的內容（單處修改時使用）",
+        required: false,
+      },
+      {
+        name: "replace_all",
+        type: "boolean",
+        description: "替換 old_string 的所有出現，默認 false",
+        required: false,
+        default: false,
+      },
+      {
+        name: "edits",
+        type: "array",
+        description:
+          '多處修改，按順序應用：[{"old_string": "...", "new_string": "...", "replace_all": false}]；提供 edits 時忽略 old_string / new_string',
+        required: false,
+      },
+      {
+        name: "create_backup",
+        type: "boolean",
+        description: "是否創建備份文件，默認 true",
+        required: false,
+        default: true,
+      },
+    ],
+  },
+
+  handler: async (params): Promise<ToolResult> => {
+    try {
+      // Validate path parameter
+      if (typeof params.path !== 'string' || !params.path.trim()) {
+        return {
+          success: false,
+          error: '路徑參數無效：必須是非空字符串',
+        };
+      }
+      const inputPath = params.path.trim();
+
+      const edits = parseEdits(params);
+      if (typeof edits === 'string') {
+        return { success: false, error: edits };
+      }
+
+      // 使用統一的路徑驗證工具（含 symlink 解析和敏感目錄檢查）
+      const workspaceRoot = process.cwd();
+      const pathValidation = validatePath(inputPath, workspaceRoot);
+      if (!pathValidation.valid) {
+        return {
+          success: false,
+          error: `🔒 路徑驗證失敗: ${pathValidation.error}`,
+        };
+      }
+      const filePath = pathValidation.normalizedPath!;
+
+      let buffer: Buffer;
+      try {
+        buffer = await fs.readFile(filePath);
+      } catch (readError: unknown) {
+        const code = (readError as NodeJS.ErrnoException)?.code;
+        return {
+          success: false,
+          error: code === 'ENOENT'
+            ? `文件不存在: ${filePath}\n提示：創建新文件請使用 write_file`
+            : `讀取文件失敗: ${readError instanceof Error ? readError.message : String(readError)}\n文件: ${filePath}`,
+        };
+      }
+
+      const decoded = decodeFile(buffer);
+      const result = applyEdits(decoded.text, edits);
+      if (result.error) {
+        return {
+          success: false,
+          error: `${result.error}\n文件未被修改: ${filePath}`,
+        };
+      }
+
+      const redactionError = checkRedactedWrite(decoded.text, result.content!);
+      if (redactionError) {
+        return { success: false, error: `${redactionError}\n文件未被修改: ${filePath}` };
+      }
+
+      const encoded = encodeFile(result.content!, decoded);
+      if (!encoded) {
+        return {
+          success: false,
+          error: decoded.encoding === 'latin1'
+            ? `文件不是 UTF-8 編碼（可能是 GBK 等），按字節處理時只能寫入 Latin-1 範圍內的字符，new_string 中的其他字符（如中文）會損壞文件\n文件未被修改: ${filePath}`
+            : `new_string 包含無法用 ${decoded.encoding} 編碼保存的字符\n文件未被修改: ${filePath}`,
+        };
+      }
+
+      // Create backup if enabled
+      let backupPath: string | null = null;
+      if (params.create_backup !== false) {
+        backupPath = `${filePath}.backup`;
+        try {
+          await fs.writeFile(backupPath, buffer);
+        } catch (backupError: unknown) {
+          const errorMsg = backupError instanceof Error ? backupError.message : String(backupError);
+          return {
+            success: false,
+            error: `創建備份失敗: ${errorMsg}\n備份路徑: ${backupPath}`,
+          };
+        }
+      }
+
+      try {
+        await fs.writeFile(filePath, encoded);
+      } catch (writeError: unknown) {
+        const errorMsg = writeError instanceof Error ? writeError.message : String(writeError);
+        return {
+          success: false,
+          error: `寫入文件失敗: ${errorMsg}\n文件: ${filePath}`,
+        };
+      }
+
+      return {
+        success: true,
+        output: `成功修改文件: ${filePath}（${edits.length} 處編輯，替換 ${result.replacements} 處）`,
+        metadata: {
+          path: filePath,
+          edits: edits.length,
+          replacements: result.replacements,
+          encoding: decoded.encoding,
+          backup: backupPath,
+        },
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `修改文件失敗: ${errorMsg}`,
+      };
+    }
+  },
+};
+
+/**
+ * 從參數中取出編輯列表（edits 數組或單個 old_string / new_string），參數無效時返回錯誤信息
+ */
+export function parseEdits(params: Record<string, unknown>): FileEdit[] | string {
+  let raw: unknown = params.edits;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return 'edits 參數無效：必須是 JSON 數組';
+    }
+  }
+
+  const items: unknown[] = raw === undefined
+    ? [{ old_string: params.old_string, new_string: params.new_string, replace_all: params.replace_all }]
+    : Array.isArray(raw) ? raw : [raw];
+  if (items.length === 0) {
+    return 'edits 參數無效：至少需要一處修改';
+  }
+
+  const edits: FileEdit[] = [];
+  for (const [index, item] of items.entries()) {
+    const label = items.length > 1 ? `第 ${index + 1} 處編輯` : '編輯';
+    const edit = (item ?? {}) as Record<string, unknown>;
+    // XML 格式的工具調用會把純數字、true/false 解析成非字符串
+    const oldString = typeof edit.old_string === 'number' || typeof edit.old_string === 'boolean' ? String(edit.old_string) : edit.old_string;
+    const newString = typeof edit.new_string === 'number' || typeof edit.new_string === 'boolean' ? String(edit.new_string) : edit.new_string;
+    if (typeof oldString !== 'string' || oldString === '') {
+      return `${label}無效：old_string 必須是非空字符串`;
+    }
+    if (typeof newString !== 'string') {
+      return `${label}無效：new_string 必須是字符串`;
+    }
+    if (oldString === newString) {
+      return `${label}無效：old_string 和 new_string 相同`;
+    }
+    edits.push({ old_string: oldString, new_string: newString, replace_all: edit.replace_all === true || edit.replace_all === 'true' });
+  }
+  return edits;
+}
+
+/**
+ * 按順序應用編輯；文件使用 CRLF 時按 LF 匹配，寫回時恢復 CRLF
+ * 任何一處編輯失敗都返回錯誤，不返回部分結果
+ */
+export function applyEdits(text: string, edits: FileEdit[]): EditApplyResult {
+  const crlf = text.includes('\r\n') && !/(^|[^\r])\n/.test(text);
+  let content = crlf ? text.replace(/\r\n/g, '\n') : text;
+  let replacements = 0;
+
+  for (const [index, edit] of edits.entries()) {
+    const label = edits.length > 1 ? `第 ${index + 1} 處編輯` : '編輯';
+    const oldString = crlf ? edit.old_string.replace(/\r\n/g, '\n') : edit.old_string;
+    const newString = crlf ? edit.new_string.replace(/\r\n/g, '\n') : edit.new_string;
+
+    const positions = findAll(content, oldString);
+    if (positions.length === 0) {
+      return { error: `${label}失敗：找不到 old_string${describeNearMatch(content, oldString)}`, replacements: 0 };
+    }
+    if (positions.length > 1 && !edit.replace_all) {
+      const lines = positions.slice(0, 10).map((p) => lineOf(content, p)).join('、');
+      return {
+        error: `${label}失敗：old_string 匹配到 ${positions.length} 處（第 ${lines} 行），請加入更多上下文使其唯一，或設置 replace_all=true`,
+        replacements: 0,
+      };
+    }
+
+    content = content.split(oldString).join(newString);
+    replacements += positions.length;
+  }
+
+  return { content: crlf ? content.replace(/\n/g, '\r\n') : content, replacements };
+}
+
+function findAll(content: string, search: string): number[] {
+  const positions: number[] = [];
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + search.length)) {
+    positions.push(index);
+  }
+  return positions;
+}
+
+function lineOf(content: string, position: number): number {
+  return content.slice(0, position).split('\n').length;
+}
+
+/**
+ * 精確匹配失敗時，提示忽略縮進和行尾空白後能否匹配
+ */
+function describeNearMatch(content: string, search: string): string {
+  const normalize = (line: string) => line.trim();
+  const searchLines = search.split('\n').map(normalize);
+  const lines = content.split('\n');
+  for (let i = 0; i + searchLines.length <= lines.length; i++) {
+    if (searchLines.every((line, k) => normalize(lines[i + k]) === line)) {
+      return `（第 ${i + 1} 行忽略空白後可以匹配，請按文件中的實際縮進和空白重新提供 old_string）`;
+    }
+  }
+  return '（請先用 read_file 讀取文件最新內容，old_string 需要與文件內容完全一致）';
+}
+
+/**
+ * 識別文件編碼：UTF-8（可帶 BOM）、UTF-16 LE（帶 BOM），無法按 UTF-8 無損解碼時按 latin1 逐字節處理
+ */
+function decodeFile(buffer: Buffer): DecodedFile {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: buffer.subarray(2).toString('utf16le'), encoding: 'utf16le', bom: buffer.subarray(0, 2) };
+  }
+  const bom = buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf ? buffer.subarray(0, 3) : Buffer.alloc(0);
+  const body = buffer.subarray(bom.length);
+  const text = body.toString('utf8');
+  if (Buffer.from(text, 'utf8').equals(body)) {
+    return { text, encoding: 'utf8', bom };
+  }
+  return { text: body.toString('latin1'), encoding: 'latin1', bom };
+}
+
+/**
+ * 按原編碼寫回；文字無法無損編碼時（如 latin1 模式下的中文）返回 null
+ */
+function encodeFile(text: string, decoded: DecodedFile): Buffer | null {
+  const body = Buffer.from(text, decoded.encoding);
+  if (body.toString(decoded.encoding) !== text) {
+    return null;
+  }
+  return Buffer.concat([decoded.bom, body]);
+}
+
+/**
+ * 計算編輯後的文件內容（用於審批時的 diff 預覽），無法應用時返回 null
+ */
+export async function previewEdits(filePath: string, params: Record<string, unknown>): Promise<string | null> {
+  const edits = parseEdits(params);
+  if (typeof edits === 'string') return null;
+  try {
+    return applyEdits(decodeFile(await fs.readFile(filePath)).text, edits).content ?? null;
+  } catch {
+    return null;
+  }
+}
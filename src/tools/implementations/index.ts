@@ -8,10 +8,12 @@ export { listDirectoryTool } from "./list_directory.js";
 export { runCommandTool } from "./run_command.js";
 export { execTool } from "./exec.js";
 export { applyDiffTool } from "./apply_diff.js";
+export { editFileTool } from "./edit_file.js";
 export { grepSearchTool } from "./grep_search.js";
 export { fileSearchTool } from "./file_search.js";
 export { webSearchTool } from "./web_search.js";
 export { webFetchTool } from "./web_fetch.js";
+export { createDelegateTaskTool } from "./delegate_task.js";
 
 import { Tool } from "../types.js";
 import { readFileTool } from "./read_file.js";
@@ -20,6 +22,7 @@ import { listDirectoryTool } from "./list_directory.js";
 import { runCommandTool } from "./run_command.js";
 import { execTool } from "./exec.js";
 import { applyDiffTool } from "./apply_diff.js";
+import { editFileTool } from "./edit_file.js";
 import { grepSearchTool } from "./grep_search.js";
 import { fileSearchTool } from "./file_search.js";
 import { webSearchTool } from "./web_search.js";
@@ -35,6 +38,7 @@ export const builtinTools: Tool[] = [
   runCommandTool,
   execTool, // exec 是 run_command 的別名
   applyDiffTool,
+  editFileTool,
   grepSearchTool,
   fileSearchTool,
   webSearchTool,
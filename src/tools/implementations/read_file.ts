@@ -6,6 +6,10 @@ import fs from "fs/promises";
 import path from "path";
 import { Tool, ToolResult } from "../types.js";
 import { validatePath } from "../../utils/path-validator.js";
+import { fitLinesToTokens, getDefaultTokenizer } from "../../llm/tokenizer/index.js";
+
+// 單次讀取的 token 上限（按當前模型的分詞器計算），避免長行或壓縮文件佔滿上下文
+const MAX_READ_TOKENS = 8000;
 
 export const readFileTool: Tool = {
   definition: {
@@ -79,6 +83,16 @@ export const readFileTool: Tool = {
         selectedLines = allLines.slice(startLine - 1, endLine);
       }
 
+      // 按 token 數再截斷一次（200 行的代碼也可能很長）
+      const fittingLines = fitLinesToTokens(getDefaultTokenizer(), selectedLines, MAX_READ_TOKENS);
+      const tokenTruncated = fittingLines < selectedLines.length;
+      if (tokenTruncated) {
+        // 第一行就超過上限（如壓縮後的代碼）時按字符截斷這一行
+        selectedLines = fittingLines > 0
+          ? selectedLines.slice(0, fittingLines)
+          : [`${selectedLines[0].slice(0, MAX_READ_TOKENS * 3)}…`];
+      }
+
       // 添加行號
       const actualStart = wasAutoTruncated ? 1 : startLine;
       const numberedContent = selectedLines
@@ -87,7 +101,11 @@ export const readFileTool: Tool = {
 
       // 構建輸出
       let output = numberedContent;
-      if (wasAutoTruncated) {
+      const shownEnd = actualStart + selectedLines.length - 1;
+      if (tokenTruncated) {
+        output += `\n\n[注意] 內容超過 ${MAX_READ_TOKENS} tokens，只顯示第 ${actualStart}-${shownEnd} 行（共 ${totalLines} 行）。`;
+        output += `\n使用 start_line/end_line 參數繼續讀取，例如: read_file(path, start_line=${shownEnd + 1}, end_line=${Math.min(totalLines, shownEnd + 100)})`;
+      } else if (wasAutoTruncated) {
         output += `\n\n[注意] 文件共 ${totalLines} 行，已自動截斷只顯示前 ${MAX_AUTO_LINES} 行。`;
         output += `\n使用 start_line/end_line 參數查看其餘部分，例如: read_file(path, start_line=${MAX_AUTO_LINES + 1}, end_line=${Math.min(totalLines, MAX_AUTO_LINES + 200)})`;
       } else if (isPartial) {
@@ -104,8 +122,8 @@ export const readFileTool: Tool = {
           totalLines,
           displayedLines: selectedLines.length,
           startLine: actualStart,
-          endLine: actualStart + selectedLines.length - 1,
-          truncated: wasAutoTruncated,
+          endLine: shownEnd,
+          truncated: wasAutoTruncated || tokenTruncated,
         },
       };
     } catch (error) {
@@ -4,13 +4,15 @@
 
 import path from "path";
 import { Tool, ToolResult } from "../types.js";
-import { runCommandSafe } from "../../runtime/runner.js";
+import { runCommandSafe, runShellCommandSafe } from "../../runtime/runner.js";
 import { getDefaultPolicy } from "../../runtime/policy.js";
 
 export const runCommandTool: Tool = {
   definition: {
     name: "run_command",
-    description: "在當前工作目錄執行 shell 命令",
+    description:
+      "在當前工作目錄執行 shell 命令。默認不經過 shell（不支持管道和重定向）；" +
+      "啟用 shell 模式（配置 shellMode: true）後可設置 shell=true，在 command 中寫完整命令行，如 npm test 2>&1 | tail -n 50",
     parameters: [
       {
         name: "command",
@@ -38,10 +40,17 @@ export const runCommandTool: Tool = {
         required: false,
         default: 300,
       },
+      {
+        name: "shell",
+        type: "boolean",
+        description: "以 shell 模式執行整條命令行（支持 |、&&、||、; 和工作區內重定向），需要配置中啟用 shellMode",
+        required: false,
+        default: false,
+      },
     ],
   },
 
-  handler: async (params): Promise<ToolResult> => {
+  handler: async (params, signal): Promise<ToolResult> => {
     try {
       // Validate command parameter
       if (typeof params.command !== 'string' || !params.command.trim()) {
@@ -123,7 +132,24 @@ export const runCommandTool: Tool = {
       const policy = getDefaultPolicy();
       policy.maxCommandDurationMs = timeout;
 
-      const result = await runCommandSafe(cwd, command, args, policy);
+      const useShell = params.shell === true || params.shell === 'true';
+      if (useShell && !policy.allowShell) {
+        return {
+          success: false,
+          error: 'shell 模式未啟用：請在配置中設置 shellMode: true（或環境變量 BAILU_SHELL_MODE=1），或改為 command + args 形式',
+        };
+      }
+      if (useShell && args.length > 0) {
+        return {
+          success: false,
+          error: 'shell 模式下請把參數直接寫在 command 中，不要使用 args',
+        };
+      }
+
+      // 沙箱中可寫的是整個工作區，而不只是命令的工作目錄
+      const result = useShell
+        ? await runShellCommandSafe(cwd, command, policy, signal, process.cwd())
+        : await runCommandSafe(cwd, command, args, policy, signal, process.cwd());
 
       // Unified metadata structure for both success and failure
       const metadata = {
@@ -131,10 +157,19 @@ export const runCommandTool: Tool = {
         args: result.args,
         exitCode: result.exitCode,
         timedOut: result.timedOut,
+        aborted: result.aborted,
         stdout: result.stdout,
         stderr: result.stderr,
       };
 
+      if (result.aborted) {
+        return {
+          success: false,
+          error: `命令已被用戶取消${result.stdout ? `，取消前的輸出:\n${result.stdout}` : ""}`,
+          metadata,
+        };
+      }
+
       if (result.exitCode === 0) {
         return {
           success: true,
@@ -7,6 +7,7 @@ import path from "path";
 import chalk from "chalk";
 import { Tool, ToolResult } from "../types.js";
 import { validatePath, validateFileContent } from "../../utils/path-validator.js";
+import { checkRedactedWrite } from "../../runtime/secrets.js";
 
 export const writeFileTool: Tool = {
   definition: {
@@ -81,13 +82,22 @@ export const writeFileTool: Tool = {
 
       // Check if file exists before writing (for metadata)
       let fileExisted = false;
+      let existingContent = '';
       try {
-        await fs.access(absolutePath);
+        existingContent = await fs.readFile(absolutePath, "utf-8");
         fileExisted = true;
       } catch {
         fileExisted = false;
       }
 
+      const redactionError = checkRedactedWrite(existingContent, content);
+      if (redactionError) {
+        return {
+          success: false,
+          error: `${redactionError}\n文件: ${absolutePath}`,
+        };
+      }
+
       // Check if parent directory exists when createDirs is false
       const dir = path.dirname(absolutePath);
       
@@ -3,6 +3,7 @@
  */
 
 import { ToolCall } from "./types.js";
+import type { ChatToolCall } from "../llm/client.js";
 
 /**
  * 從 LLM 的回應文本中提取工具調用
@@ -92,6 +93,24 @@ export function parseToolCalls(content: string): {
   return { toolCalls, textContent, reasoning };
 }
 
+/**
+ * 將 API 返回的原生 tool_calls 轉換為 ToolCall（保留 call ID，用於回傳 role:"tool" 結果）
+ */
+export function parseNativeToolCalls(toolCalls: ChatToolCall[]): ToolCall[] {
+  return toolCalls.map((tc) => {
+    let params: Record<string, any> = {};
+    try {
+      const parsed = JSON.parse(tc.function.arguments || "{}");
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        params = parsed;
+      }
+    } catch {
+      // arguments 不是合法 JSON 時當作無參數，交給 validateParams 報錯
+    }
+    return { id: tc.id, tool: tc.function.name, params };
+  });
+}
+
 /**
  * 將工具結果格式化為 LLM 可讀的格式（用於下一輪對話）
  */
@@ -53,12 +53,12 @@ export class ErrorRecoveryManager {
   private defaultStrategy: RecoveryStrategy;
 
   constructor() {
-    // 默認恢復策略
+    // 默認恢復策略（未知錯誤不能確定是暫時性的，不自動重試）
     this.defaultStrategy = {
       type: 'unknown',
-      maxRetries: 3,
-      retryDelay: 1000,
-      shouldRetry: (error, retryCount) => retryCount < 3,
+      maxRetries: 0,
+      retryDelay: 0,
+      shouldRetry: () => false,
     };
 
     // 初始化各類錯誤的恢復策略
@@ -121,6 +121,16 @@ export class ErrorRecoveryManager {
       retryDelay: 0,
       shouldRetry: () => false,
     });
+
+    // 驗證和解析錯誤：參數本身有問題，重試結果不會變
+    for (const type of ['validation', 'parsing'] as const) {
+      this.strategies.set(type, {
+        type,
+        maxRetries: 0,
+        retryDelay: 0,
+        shouldRetry: () => false,
+      });
+    }
   }
 
   /**
@@ -146,6 +156,14 @@ export class ErrorRecoveryManager {
     return record;
   }
 
+  /**
+   * 按策略判斷錯誤是否還可以重試（不輸出日誌）
+   */
+  canRetry(error: ErrorRecord, retryCount: number): boolean {
+    const strategy = this.strategies.get(error.type) || this.defaultStrategy;
+    return retryCount < strategy.maxRetries && strategy.shouldRetry(error, retryCount);
+  }
+
   /**
    * 嘗試恢復錯誤
    */
@@ -195,14 +213,19 @@ export class ErrorRecoveryManager {
    */
   analyzeErrorPatterns(): {
     mostCommonErrors: { type: ErrorType; count: number }[];
+    failingTools: { tool: string; count: number }[];
     recoveryRate: number;
     recommendations: string[];
   } {
     const errorCounts = new Map<ErrorType, number>();
+    const toolCounts = new Map<string, number>();
     let recoveredCount = 0;
 
     for (const error of this.errorHistory) {
       errorCounts.set(error.type, (errorCounts.get(error.type) || 0) + 1);
+      if (error.toolCall) {
+        toolCounts.set(error.toolCall.tool, (toolCounts.get(error.toolCall.tool) || 0) + 1);
+      }
       if (error.recovered) {
         recoveredCount++;
       }
@@ -213,6 +236,11 @@ export class ErrorRecoveryManager {
       .map(([type, count]) => ({ type, count }))
       .sort((a, b) => b.count - a.count);
 
+    // 按工具統計
+    const failingTools = Array.from(toolCounts.entries())
+      .map(([tool, count]) => ({ tool, count }))
+      .sort((a, b) => b.count - a.count);
+
     // 計算恢復率
     const recoveryRate = this.errorHistory.length > 0 
       ? recoveredCount / this.errorHistory.length 
@@ -221,24 +249,30 @@ export class ErrorRecoveryManager {
     // 生成建議
     const recommendations: string[] = [];
     
-    if (errorCounts.get('tool_execution') || 0 > 5) {
+    if ((errorCounts.get('tool_execution') || 0) > 5) {
       recommendations.push('工具執行錯誤頻繁，建議檢查工具參數和權限設置');
     }
     
-    if (errorCounts.get('timeout') || 0 > 3) {
+    if ((errorCounts.get('timeout') || 0) > 3) {
       recommendations.push('超時錯誤較多，建議增加超時時間或優化網絡連接');
     }
     
-    if (errorCounts.get('permission') || 0 > 0) {
+    if ((errorCounts.get('permission') || 0) > 0) {
       recommendations.push('存在權限錯誤，請檢查文件和目錄權限');
     }
 
-    if (recoveryRate < 0.5) {
+    const repeatedTool = failingTools.find(t => t.count >= 3);
+    if (repeatedTool) {
+      recommendations.push(`工具 ${repeatedTool.tool} 已失敗 ${repeatedTool.count} 次，建議檢查其參數或換一種方式完成`);
+    }
+
+    if (this.errorHistory.length > 0 && recoveryRate < 0.5) {
       recommendations.push('錯誤恢復率較低，建議調整恢復策略');
     }
 
     return {
       mostCommonErrors,
+      failingTools,
       recoveryRate,
       recommendations,
     };
@@ -309,12 +343,14 @@ export class ErrorAnalyzer {
         lowerMessage.includes('fetch') || 
         lowerMessage.includes('timeout') ||
         lowerMessage.includes('econnrefused') ||
-        lowerMessage.includes('enotfound')) {
+        lowerMessage.includes('enotfound') ||
+        lowerMessage.includes('網絡') ||
+        lowerMessage.includes('网络')) {
       return 'network';
     }
 
     // 超時錯誤
-    if (lowerMessage.includes('timeout') || lowerMessage.includes('timed out')) {
+    if (lowerMessage.includes('timeout') || lowerMessage.includes('timed out') || lowerMessage.includes('超時')) {
       return 'timeout';
     }
 
@@ -322,14 +358,21 @@ export class ErrorAnalyzer {
     if (lowerMessage.includes('permission') || 
         lowerMessage.includes('access denied') ||
         lowerMessage.includes('eacces') ||
-        lowerMessage.includes('eperm')) {
+        lowerMessage.includes('eperm') ||
+        lowerMessage.includes('權限') ||
+        lowerMessage.includes('权限') ||
+        lowerMessage.includes('不允許') ||
+        lowerMessage.includes('安全检查失败')) {
       return 'permission';
     }
 
     // 驗證錯誤
     if (lowerMessage.includes('validation') || 
         lowerMessage.includes('invalid') ||
-        lowerMessage.includes('required')) {
+        lowerMessage.includes('required') ||
+        lowerMessage.includes('缺少') ||
+        lowerMessage.includes('無效') ||
+        lowerMessage.includes('不存在')) {
       return 'validation';
     }
 
@@ -357,6 +400,56 @@ export class ErrorAnalyzer {
     return 'unknown';
   }
 
+  /**
+   * 根據錯誤類型和工具生成恢復建議（附加到工具結果，供 LLM 參考）
+   */
+  static getRecoverySuggestions(type: ErrorType, toolCall?: ToolCall): string[] {
+    const suggestions: string[] = [];
+
+    switch (type) {
+      case 'validation':
+        suggestions.push('檢查工具參數是否完整、路徑是否存在，不要用相同參數重試');
+        break;
+      case 'permission':
+        suggestions.push('該操作被權限或安全策略拒絕，請換一種不需要該權限的方式');
+        break;
+      case 'timeout':
+        suggestions.push('操作超時，嘗試縮小範圍（更具體的路徑、更少的輸出）');
+        break;
+      case 'network':
+        suggestions.push('網絡請求失敗，稍後再試或改用本地信息');
+        break;
+      case 'parsing':
+        suggestions.push('輸入格式無法解析，檢查 JSON/正則/diff 格式');
+        break;
+    }
+
+    switch (toolCall?.tool) {
+      case 'read_file':
+        suggestions.push('用 file_search 或 list_directory 確認正確的文件路徑');
+        break;
+      case 'apply_diff':
+        suggestions.push('先用 read_file 重新讀取文件最新內容，再生成 diff');
+        break;
+      case 'edit_file':
+        suggestions.push('先用 read_file 重新讀取文件，old_string 按實際內容（包括縮進）複製，並加入足夠的上下文使其唯一');
+        break;
+      case 'run_command':
+        suggestions.push('確認命令在允許列表中；管道、&&、重定向需要啟用 shell 模式並設置 shell=true');
+        break;
+      case 'grep_search':
+      case 'file_search':
+        suggestions.push('放寬搜索模式或檢查正則表達式是否正確');
+        break;
+    }
+
+    if (suggestions.length === 0) {
+      suggestions.push('分析錯誤原因後調整參數，或換一種方式完成');
+    }
+
+    return suggestions;
+  }
+
   /**
    * 生成錯誤報告
    */
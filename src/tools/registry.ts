@@ -4,8 +4,33 @@
 
 import { Tool, ToolDefinition } from "./types.js";
 
+/**
+ * 工具來源的優先級鍵：內建工具為 "builtin"，MCP 工具為伺服器名稱
+ */
+export function getToolSourceKey(definition: ToolDefinition): string {
+  return definition.source?.type === "mcp" && definition.source.server ? definition.source.server : "builtin";
+}
+
+/**
+ * 計算優先級（數字越小越優先）
+ * 在 precedence 列表中的按列表順序；未列出的排在後面，其中內建工具優先於 MCP 工具
+ */
+function getToolRank(definition: ToolDefinition, precedence: string[]): number {
+  const index = precedence.indexOf(getToolSourceKey(definition));
+  if (index !== -1) return index;
+  return precedence.length + (definition.source?.type === "mcp" ? 1 : 0);
+}
+
+export interface RegisterOutcome {
+  status: "registered" | "replaced" | "shadowed"; // shadowed 表示被同名的更高優先級工具遮蔽
+  conflict?: Tool; // 發生衝突的另一個工具
+}
+
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
+  // 因同名衝突被遮蔽的工具，當前工具移除後按優先級恢復
+  private shadowed: Map<string, { tool: Tool; rank: number }[]> = new Map();
+  private ranks: Map<string, number> = new Map();
 
   /**
    * 註冊一個工具
@@ -26,6 +51,69 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * 註冊工具，同名時按來源優先級取捨而不是拋出錯誤
+   * 優先級相同時保留先註冊的工具
+   */
+  registerWithPrecedence(tool: Tool, precedence: string[] = []): RegisterOutcome {
+    const name = tool.definition.name;
+    const rank = getToolRank(tool.definition, precedence);
+    const existing = this.tools.get(name);
+
+    if (!existing) {
+      this.tools.set(name, tool);
+      this.ranks.set(name, rank);
+      return { status: "registered" };
+    }
+
+    const shadowed = this.shadowed.get(name) ?? [];
+    this.shadowed.set(name, shadowed);
+    const existingRank = this.ranks.get(name) ?? getToolRank(existing.definition, precedence);
+
+    if (rank < existingRank) {
+      shadowed.push({ tool: existing, rank: existingRank });
+      this.tools.set(name, tool);
+      this.ranks.set(name, rank);
+      return { status: "replaced", conflict: existing };
+    }
+
+    shadowed.push({ tool, rank });
+    return { status: "shadowed", conflict: existing };
+  }
+
+  /**
+   * 移除一個工具（MCP 伺服器斷開或重啟時使用）
+   * 指定 tool 時只移除該實例；被移除的是當前工具時，恢復優先級最高的被遮蔽工具
+   * @returns 工具是否存在
+   */
+  unregister(name: string, tool?: Tool): boolean {
+    const current = this.tools.get(name);
+    const shadowed = this.shadowed.get(name) ?? [];
+
+    if (tool && current !== tool) {
+      const index = shadowed.findIndex(entry => entry.tool === tool);
+      if (index === -1) return false;
+      shadowed.splice(index, 1);
+      return true;
+    }
+    if (!current) {
+      return false;
+    }
+
+    this.tools.delete(name);
+    this.ranks.delete(name);
+    if (shadowed.length > 0) {
+      shadowed.sort((a, b) => a.rank - b.rank);
+      const next = shadowed.shift()!;
+      this.tools.set(name, next.tool);
+      this.ranks.set(name, next.rank);
+    }
+    if (shadowed.length === 0) {
+      this.shadowed.delete(name);
+    }
+    return true;
+  }
+
   /**
    * 獲取工具
    */
@@ -59,6 +147,8 @@ export class ToolRegistry {
    */
   clear(): void {
     this.tools.clear();
+    this.shadowed.clear();
+    this.ranks.clear();
   }
 
   /**
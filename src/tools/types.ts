@@ -10,14 +10,25 @@ export interface ToolParameter {
   default?: any;
 }
 
+/**
+ * 工具來源（用於命名衝突時按優先級取捨）
+ */
+export interface ToolSource {
+  type: "builtin" | "mcp";
+  server?: string; // MCP 伺服器名稱
+  originalName?: string; // 伺服器上的原始工具名
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
   parameters: ToolParameter[];
   safe?: boolean; // 标记为安全的只读工具，review 模式下自动批准
+  source?: ToolSource; // 缺省為內建工具
 }
 
 export interface ToolCall {
+  id?: string; // 原生 function calling 的 call ID（XML 格式調用沒有）
   tool: string;
   params: Record<string, any>;
 }
@@ -29,7 +40,10 @@ export interface ToolResult {
   metadata?: Record<string, any>;
 }
 
-export type ToolHandler = (params: Record<string, any>) => Promise<ToolResult>;
+/**
+ * 工具處理函數；signal 在用戶取消當前回合時觸發，長時間運行的工具應據此停止
+ */
+export type ToolHandler = (params: Record<string, any>, signal?: AbortSignal) => Promise<ToolResult>;
 
 export interface Tool {
   definition: ToolDefinition;
@@ -43,5 +57,6 @@ export interface ToolExecutionContext {
   workspaceRoot: string;
   safetyMode: "dry-run" | "review" | "auto-apply";
   verbose?: boolean;
+  interactive?: boolean; // false 時不能提示用戶確認（如 bailu mcp serve），需要確認的操作直接拒絕
 }
 
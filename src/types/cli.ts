@@ -2,10 +2,28 @@
  * CLI 相关类型定义
  */
 
+/**
+ * 預算选项（fix / run）
+ */
+export interface BudgetCommandOptions {
+  maxCost?: number;
+  maxTokens?: number;
+}
+
 /**
  * Run 命令选项
  */
-export interface RunCommandOptions {
+export interface RunCommandOptions extends BudgetCommandOptions {
+  resume?: string;
+  list?: boolean;
+  worktree?: boolean;
+}
+
+/**
+ * Plan 命令选项
+ */
+export interface PlanCommandOptions {
+  execute?: boolean;
   resume?: string;
   list?: boolean;
 }
@@ -18,10 +36,27 @@ export type SafetyMode = "dry-run" | "review" | "auto-apply";
 /**
  * Fix 命令选项
  */
-export interface FixCommandOptions {
+export interface FixCommandOptions extends BudgetCommandOptions {
   mode?: SafetyMode;
   maxIterations?: number;
   verbose?: boolean;
+  worktree?: boolean;
+}
+
+/**
+ * Apply 命令选项（應用 --worktree 運行的修改）
+ */
+export interface ApplyCommandOptions {
+  list?: boolean;
+  diff?: boolean;
+  discard?: boolean;
+}
+
+/**
+ * mcp serve 命令选项
+ */
+export interface McpServeCommandOptions {
+  mode?: SafetyMode;
 }
 
 /**
@@ -0,0 +1,50 @@
+/**
+ * 取消（AbortSignal）相關的工具函數
+ * Ctrl+C 通過 AbortController 取消當前回合：LLM 請求、工具執行和子進程
+ */
+
+/**
+ * 創建取消錯誤（name 為 AbortError，與 fetch 被取消時拋出的錯誤一致）
+ */
+export function createAbortError(message = "操作已取消"): Error {
+  const error = new Error(message);
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * 錯誤是否由取消引起（fetch、流讀取或 throwIfAborted 拋出）
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+/**
+ * 信號已取消時拋出 AbortError
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * 可被取消的等待
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
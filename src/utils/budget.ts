@@ -0,0 +1,82 @@
+/**
+ * 運行預算：費用和 token 的硬上限
+ * 無人值守的 CI 運行用完預算後優雅停止，避免耗盡配額
+ */
+
+export interface BudgetLimits {
+  maxCost?: number; // 費用上限（人民幣，與成本追蹤的定價一致）
+  maxTokens?: number; // token 總量上限（輸入 + 輸出）
+}
+
+export interface BudgetStatus {
+  limits: BudgetLimits;
+  usedCost: number;
+  usedTokens: number;
+  remainingCost?: number;
+  remainingTokens?: number;
+  ratio: number; // 已用比例（費用和 token 中較高者），未設置預算時為 0
+  exhausted: boolean;
+}
+
+/**
+ * 已用比例達到此值時提醒一次
+ */
+export const BUDGET_WARN_RATIO = 0.8;
+
+/**
+ * 解析預算值：只接受正數，其他值視為未設置
+ */
+export function parseBudgetValue(raw: unknown): number | undefined {
+  const value = typeof raw === "string" ? Number(raw.trim()) : raw;
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export function hasBudget(limits: BudgetLimits): boolean {
+  return limits.maxCost !== undefined || limits.maxTokens !== undefined;
+}
+
+/**
+ * 計算預算使用情況
+ */
+export function getBudgetStatus(limits: BudgetLimits, usedCost: number, usedTokens: number): BudgetStatus {
+  const ratios: number[] = [];
+  const status: BudgetStatus = { limits, usedCost, usedTokens, ratio: 0, exhausted: false };
+
+  if (limits.maxCost !== undefined) {
+    status.remainingCost = Math.max(0, limits.maxCost - usedCost);
+    ratios.push(usedCost / limits.maxCost);
+  }
+  if (limits.maxTokens !== undefined) {
+    status.remainingTokens = Math.max(0, limits.maxTokens - usedTokens);
+    ratios.push(usedTokens / limits.maxTokens);
+  }
+
+  status.ratio = ratios.length > 0 ? Math.max(...ratios) : 0;
+  status.exhausted = status.ratio >= 1;
+  return status;
+}
+
+/**
+ * 格式化預算使用情況（每項一行，不含顏色）
+ */
+export function formatBudgetStatus(status: BudgetStatus): string[] {
+  const { limits } = status;
+  const lines: string[] = [];
+  if (limits.maxCost !== undefined) {
+    lines.push(`費用: ¥${status.usedCost.toFixed(4)} / ¥${limits.maxCost.toFixed(4)}（剩餘 ¥${status.remainingCost!.toFixed(4)}）`);
+  }
+  if (limits.maxTokens !== undefined) {
+    lines.push(`Token: ${status.usedTokens.toLocaleString()} / ${limits.maxTokens.toLocaleString()}（剩餘 ${status.remainingTokens!.toLocaleString()}）`);
+  }
+  return lines;
+}
+
+/**
+ * 預算已用完時 LLM 請求拋出的錯誤（在每次請求前檢查，覆蓋子 Agent、壓縮摘要等所有模型調用）
+ */
+export class BudgetExceededError extends Error {
+  constructor(public status: BudgetStatus) {
+    super(`已達到預算上限（${formatBudgetStatus(status).join("；")}）`);
+    this.name = "BudgetExceededError";
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * 並發控制工具
+ */
+
+/**
+ * 以有限並發數對每個元素執行異步任務，結果按輸入順序返回
+ * @param items 輸入列表
+ * @param limit 最大並發數（小於 1 時按 1 處理）
+ * @param fn 異步處理函數
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
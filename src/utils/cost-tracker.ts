@@ -4,6 +4,7 @@
  */
 
 import chalk from "chalk";
+import { BUDGET_WARN_RATIO, BudgetExceededError, BudgetLimits, BudgetStatus, getBudgetStatus, hasBudget } from "./budget.js";
 
 // 模型定價（每 1K tokens，單位：人民幣）
 const MODEL_PRICING: Record<string, { input: number; output: number }> = {
@@ -16,6 +17,7 @@ const DEFAULT_PRICING = { input: 0.01, output: 0.03 };
 
 export interface UsageRecord {
   model: string;
+  route?: string; // 模型路由（main / commit / compress / review）
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
@@ -29,6 +31,8 @@ export class CostTracker {
   private totalCompletionTokens = 0;
   private totalCost = 0;
   private currentModel = "";
+  private budget: BudgetLimits = {};
+  private budgetWarned = false;
 
   setModel(model: string): void {
     this.currentModel = model;
@@ -41,7 +45,7 @@ export class CostTracker {
     prompt_tokens?: number;
     completion_tokens?: number;
     total_tokens?: number;
-  }, model?: string): void {
+  }, model?: string, route?: string): void {
     const m = model || this.currentModel;
     const promptTokens = usage.prompt_tokens || 0;
     const completionTokens = usage.completion_tokens || 0;
@@ -56,6 +60,7 @@ export class CostTracker {
 
     this.records.push({
       model: m,
+      route,
       promptTokens,
       completionTokens,
       totalTokens,
@@ -100,6 +105,72 @@ export class CostTracker {
     return lines.join("\n");
   }
 
+  /**
+   * 按路由匯總用量
+   */
+  getRouteStats(): Array<{ route: string; models: string[]; calls: number; tokens: number; cost: number }> {
+    const byRoute = new Map<string, { route: string; models: string[]; calls: number; tokens: number; cost: number }>();
+    for (const record of this.records) {
+      const route = record.route || "main";
+      const entry = byRoute.get(route) ?? { route, models: [], calls: 0, tokens: 0, cost: 0 };
+      if (!entry.models.includes(record.model)) entry.models.push(record.model);
+      entry.calls++;
+      entry.tokens += record.totalTokens;
+      entry.cost += record.cost;
+      byRoute.set(route, entry);
+    }
+    return Array.from(byRoute.values());
+  }
+
+  /**
+   * 格式化按路由的用量（用於 /stats 命令）
+   */
+  formatRouteStats(): string {
+    const stats = this.getRouteStats();
+    if (stats.length === 0) return "";
+    return stats
+      .map((s) => `  • ${s.route} (${s.models.join(", ")}): ${s.calls} 次, ${s.tokens.toLocaleString()} tokens, ¥${s.cost.toFixed(4)}`)
+      .join("\n");
+  }
+
+  /**
+   * 設置預算上限（按本進程的累計用量計算）
+   */
+  setBudget(limits: BudgetLimits): void {
+    this.budget = { ...limits };
+    this.budgetWarned = false;
+  }
+
+  hasBudget(): boolean {
+    return hasBudget(this.budget);
+  }
+
+  getBudgetStatus(): BudgetStatus {
+    return getBudgetStatus(this.budget, this.totalCost, this.totalPromptTokens + this.totalCompletionTokens);
+  }
+
+  /**
+   * 預算已用完時拋出 BudgetExceededError，由 LLMClient 在每次請求前調用
+   */
+  assertWithinBudget(): void {
+    const status = this.getBudgetStatus();
+    if (status.exhausted) {
+      throw new BudgetExceededError(status);
+    }
+  }
+
+  /**
+   * 預算已用到提醒閾值且尚未提醒過時返回 true（每次設置預算只提醒一次）
+   */
+  takeBudgetWarning(): boolean {
+    const status = this.getBudgetStatus();
+    if (this.budgetWarned || status.exhausted || status.ratio < BUDGET_WARN_RATIO) {
+      return false;
+    }
+    this.budgetWarned = true;
+    return true;
+  }
+
   /**
    * 獲取原始統計數據
    */
@@ -52,6 +52,10 @@ export interface JsonOutput {
   iterations?: number;
   toolCalls?: number;
   model?: string;
+  cost?: number; // API 返回用量計算的費用（人民幣）
+  tokens?: number;
+  budgetExceeded?: boolean; // 因預算用完而停止
+  worktree?: string; // --worktree 運行 ID，用 bailu apply 應用修改
 }
 
 export function outputJson(data: JsonOutput): void {
@@ -0,0 +1,87 @@
+/**
+ * 上下文壓縮單元測試
+ */
+import { describe, it, expect } from "@jest/globals";
+import type { ChatMessage, LLMClient } from "../../../src/llm/client.js";
+import { HeuristicTokenizer } from "../../../src/llm/tokenizer/heuristic.js";
+import { ContextMemory } from "../../../src/agent/memory.js";
+import {
+  compactMessages,
+  offloadLargeToolOutputs,
+  parseCompactionResponse,
+  recallToolOutput,
+} from "../../../src/agent/compaction.js";
+
+const tokenizer = new HeuristicTokenizer();
+
+function fakeClient(reply: string): LLMClient {
+  return {
+    getTokenizer: () => tokenizer,
+    forRoute: () => ({ chat: async () => reply }),
+  } as unknown as LLMClient;
+}
+
+function toolRound(id: string, tool: string, args: Record<string, unknown>, output: string): ChatMessage[] {
+  return [
+    {
+      role: "assistant",
+      content: "",
+      tool_calls: [{ id, type: "function", function: { name: tool, arguments: JSON.stringify(args) } }],
+    },
+    { role: "tool", tool_call_id: id, content: output },
+  ];
+}
+
+describe("offloadLargeToolOutputs", () => {
+  it("大的工具輸出替換為引用，可從 ContextMemory 取回原文", () => {
+    const memory = new ContextMemory();
+    const big = Array.from({ length: 400 }, (_, i) => `line ${i} of the file`).join("\n");
+    const messages = toolRound("call_1", "read_file", { path: "src/big.ts" }, big);
+
+    expect(offloadLargeToolOutputs(messages, memory, tokenizer)).toBe(1);
+    expect(messages[1].content).toContain("ref=out-1｜read_file src/big.ts");
+    expect(recallToolOutput(memory, { ref: "out-1" })).toMatchObject({ success: true, output: big });
+    // 已經是引用的不再處理
+    expect(offloadLargeToolOutputs(messages, memory, tokenizer)).toBe(0);
+  });
+});
+
+describe("compactMessages", () => {
+  it("保留 system prompt 和最近消息，摘要跨多次壓縮記住已修改的文件", async () => {
+    const memory = new ContextMemory();
+    const reply = JSON.stringify({ summary: "用戶要求重構登錄模塊，已完成一半。", todos: ["補充測試"], failingTests: [] });
+    const messages: ChatMessage[] = [
+      { role: "system", content: "system prompt" },
+      { role: "user", content: "重構 auth" },
+      ...toolRound("call_1", "write_file", { path: "src/auth.ts", content: "x" }, "ok"),
+      { role: "assistant", content: "已修改 auth.ts" },
+      { role: "user", content: "繼續" },
+      { role: "assistant", content: "好的" },
+    ];
+
+    const first = await compactMessages(messages, { llmClient: fakeClient(reply), memory, keepRecent: 2, pinnedFiles: ["README.md"] });
+    expect(first.summarizedMessages).toBe(4);
+    expect(messages.map((m) => m.content)).toEqual(["system prompt", expect.any(String), "繼續", "好的"]);
+    expect(messages[1].content).toContain("src/auth.ts");
+    expect(messages[1].content).toContain("補充測試");
+    expect(messages[1].content).toContain("README.md");
+
+    messages.push(...toolRound("call_2", "apply_diff", { path: "src/login.ts", diff: "" }, "ok"), { role: "user", content: "再繼續" });
+    await compactMessages(messages, { llmClient: fakeClient(reply), memory, keepRecent: 1 });
+    const digest = memory.getCompactionDigest();
+    expect(digest?.filesModified).toEqual(["src/auth.ts", "src/login.ts"]);
+    expect(messages[1].content).toContain("src/auth.ts");
+  });
+});
+
+describe("parseCompactionResponse", () => {
+  it("無法解析 JSON 時把文本當作摘要", () => {
+    expect(parseCompactionResponse("前面討論了數據庫遷移。")).toEqual({
+      summary: "前面討論了數據庫遷移。",
+      decisions: [],
+      todos: [],
+      failingTests: [],
+    });
+    expect(parseCompactionResponse('```json\n{"summary":"ok","decisions":["用 zod",1]}\n```').decisions).toEqual(["用 zod"]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Diff 解析與容錯應用單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import { applyHunks, formatHunkReport, getPatchPaths, parseUnifiedDiff } from '../../../src/fs/patch.js';
+
+const source = [
+  'import fs from "fs";',
+  '',
+  'export function load(path: string) {',
+  '  const raw = fs.readFileSync(path, "utf-8");',
+  '  return JSON.parse(raw);',
+  '}',
+  '',
+  'export function save(path: string, data: unknown) {',
+  '  fs.writeFileSync(path, JSON.stringify(data));',
+  '}',
+].join('\r\n') + '\r\n';
+
+describe('applyHunks', () => {
+  it('容忍行號偏移、空白差異和不精確的上下文，並保留 CRLF', () => {
+    const [patch] = parseUnifiedDiff([
+      '@@ -1,3 +1,3 @@', // 實際在第 3 行，縮進也不同
+      ' export function load(path: string) {',
+      '-    const raw = fs.readFileSync(path, "utf-8");',
+      '+    const raw = fs.readFileSync(path, "utf8");',
+      '@@ -8,3 +8,3 @@',
+      ' export function save(path: string, data: any) {', // 上下文與文件不完全一致
+      '-  fs.writeFileSync(path, JSON.stringify(data));',
+      '+  fs.writeFileSync(path, JSON.stringify(data, null, 2));',
+      '   }',
+    ].join('\n'), 'src/store.ts');
+
+    const { content, results } = applyHunks(source, patch.hunks);
+    expect(results.map(r => [r.applied, r.strategy, r.line])).toEqual([
+      [true, 'whitespace', 3],
+      [true, 'fuzzy', 8],
+    ]);
+    expect(results[0].offset).toBe(2);
+    expect(results[1].confidence).toBeGreaterThan(0.6);
+    expect(results[1].confidence).toBeLessThan(1);
+    expect(content).toContain('readFileSync(path, "utf8");\r\n');
+    expect(content).toContain('JSON.stringify(data, null, 2));\r\n');
+    // 上下文行保留文件原內容
+    expect(content).toContain('export function save(path: string, data: unknown) {\r\n');
+    expect(content.split('\r\n')).toHaveLength(source.split('\r\n').length);
+  });
+
+  it('無法匹配的 hunk 給出最接近的區域', () => {
+    const [patch] = parseUnifiedDiff([
+      '@@ -20,2 +20,2 @@',
+      '-export function remove(path: string) {',
+      '-  fs.unlinkSync(path);',
+      '+export function remove(target: string) {',
+    ].join('\n'), 'src/store.ts');
+
+    const { content, results } = applyHunks(source, patch.hunks);
+    expect(results[0].applied).toBe(false);
+    expect(results[0].closest?.line).toBeGreaterThan(0);
+    expect(content).toBe(source);
+    const report = formatHunkReport('src/store.ts', results);
+    expect(report).toContain('0/1 個 hunk 可以應用');
+    expect(report).toContain('最接近的區域');
+  });
+
+  it('刪除行與文件內容不一致時拒絕 hunk，即使上下文相似', () => {
+    const file = 'function init() {\n  const retries = 3;\n  const timeout = 3000;\n  return { retries, timeout };\n}\n';
+    const [patch] = parseUnifiedDiff([
+      '@@ -2,3 +2,3 @@',
+      '   const retries = 3;',
+      '-  const timeout = 1000;',
+      '+  const timeout = 5000;',
+      '   return { retries, timeout };',
+    ].join('\n'), 'src/init.ts');
+
+    const { content, results } = applyHunks(file, patch.hunks);
+    expect(results[0].applied).toBe(false);
+    expect(results[0].closest?.text).toContain('  const timeout = 3000;');
+    expect(content).toBe(file);
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('解析多文件 diff 中的新建、刪除和重命名', () => {
+    const diff = [
+      'diff --git a/old.ts b/new.ts',
+      'similarity index 90%',
+      'rename from old.ts',
+      'rename to new.ts',
+      '--- a/old.ts',
+      '+++ b/new.ts',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      '--- /dev/null',
+      '+++ b/added.ts',
+      '@@ -0,0 +1,2 @@',
+      '+x',
+      '+y',
+      'diff --git a/gone.ts b/gone.ts',
+      'deleted file mode 100644',
+      '--- a/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-bye',
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff).map(p => [p.oldPath, p.newPath, p.hunks.length])).toEqual([
+      ['old.ts', 'new.ts', 1],
+      [null, 'added.ts', 1],
+      ['gone.ts', null, 1],
+    ]);
+    expect(getPatchPaths(diff)).toEqual(['old.ts', 'new.ts', 'added.ts', 'gone.ts']);
+    expect(applyHunks('', parseUnifiedDiff(diff)[1].hunks).content).toBe('x\ny\n');
+  });
+});
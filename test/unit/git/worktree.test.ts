@@ -0,0 +1,86 @@
+/**
+ * Worktree 運行單元測試
+ */
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WorktreeManager } from '../../../src/git/worktree.js';
+
+// Mock chalk to avoid ESM issues in Jest
+jest.mock('chalk', () => ({
+  default: {
+    cyan: (str: string) => str,
+    green: (str: string) => str,
+    yellow: (str: string) => str,
+    red: (str: string) => str,
+    gray: (str: string) => str,
+    bold: (str: string) => str,
+  },
+}));
+
+function git(cwd: string, ...args: string[]): string {
+  return spawnSync('git', args, { cwd, encoding: 'utf8' }).stdout.trim();
+}
+
+describe('WorktreeManager', () => {
+  let repo: string;
+  const file = (name: string) => path.join(repo, name);
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'bailu-worktree-'));
+    git(repo, 'init', '-q');
+    git(repo, 'config', 'user.email', 'test@example.com');
+    git(repo, 'config', 'user.name', 'test');
+    fs.writeFileSync(file('a.txt'), 'a1\n');
+    fs.writeFileSync(file('b.txt'), 'b1\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'init');
+  });
+
+  afterEach(() => {
+    git(repo, 'worktree', 'prune');
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('在 worktree 中修改不影響工作目錄，apply 後只應用運行的修改並保留本地變更', async () => {
+    fs.writeFileSync(file('a.txt'), 'a1\nlocal\n'); // 本地未提交的變更
+    fs.writeFileSync(file('notes.txt'), 'untracked\n');
+    const manager = new WorktreeManager(repo);
+
+    const run = await manager.create('修改 b');
+    expect(fs.readFileSync(path.join(run.worktreePath, 'a.txt'), 'utf-8')).toBe('a1\nlocal\n');
+    expect(fs.existsSync(path.join(run.worktreePath, 'notes.txt'))).toBe(true);
+
+    fs.writeFileSync(path.join(run.worktreePath, 'b.txt'), 'b2\n');
+    fs.writeFileSync(path.join(run.worktreePath, 'c.txt'), 'new\n');
+    await manager.finish(run);
+    expect(fs.readFileSync(file('b.txt'), 'utf-8')).toBe('b1\n');
+    expect(manager.changedFiles(run)).toEqual(['b.txt', 'c.txt']);
+
+    const result = await manager.apply(run);
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(file('a.txt'), 'utf-8')).toBe('a1\nlocal\n');
+    expect(fs.readFileSync(file('b.txt'), 'utf-8')).toBe('b2\n');
+    expect(fs.readFileSync(file('c.txt'), 'utf-8')).toBe('new\n');
+    expect(fs.existsSync(run.worktreePath)).toBe(false);
+    expect(git(repo, 'branch', '--list', run.branch)).toBe('');
+    expect(git(repo, 'stash', 'list')).toBe('');
+  });
+
+  it('本地文件在運行之後被修改時不應用，discard 刪除 worktree', async () => {
+    const manager = new WorktreeManager(repo);
+    const run = await manager.create('修改 a');
+    fs.writeFileSync(path.join(run.worktreePath, 'a.txt'), 'agent\n');
+    fs.writeFileSync(file('a.txt'), 'manual\n');
+
+    const result = await manager.apply(run);
+    expect(result.success).toBe(false);
+    expect(fs.readFileSync(file('a.txt'), 'utf-8')).toBe('manual\n');
+
+    await manager.discard(run);
+    expect(fs.existsSync(run.worktreePath)).toBe(false);
+    expect((await manager.load(run.id))?.status).toBe('discarded');
+  });
+});
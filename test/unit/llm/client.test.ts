@@ -1,5 +1,7 @@
 import { describe, it, expect, jest, beforeEach } from '@jest/globals';
 import { LLMClient } from '../../../src/llm/client.js';
+import { globalCostTracker } from '../../../src/utils/cost-tracker.js';
+import { BudgetExceededError } from '../../../src/utils/budget.js';
 
 // Mock chalk to avoid ESM issues in Jest
 jest.mock('chalk', () => ({
@@ -147,6 +149,23 @@ describe('LLMClient', () => {
       await expect(client.chat(messages)).rejects.toThrow('Invalid API Key');
     });
 
+    it('預算用完後不再發送請求（包括流式請求）', async () => {
+      globalCostTracker.reset();
+      globalCostTracker.setBudget({ maxTokens: 100 });
+      globalCostTracker.recordUsage({ prompt_tokens: 90, completion_tokens: 20 });
+      try {
+        const client = new LLMClient({ apiKey: 'test-key' });
+        const messages = [{ role: 'user' as const, content: '你好' }];
+
+        await expect(client.chat(messages)).rejects.toBeInstanceOf(BudgetExceededError);
+        await expect(client.chatStreamEvents(messages).next()).rejects.toBeInstanceOf(BudgetExceededError);
+        expect(global.fetch).not.toHaveBeenCalled();
+      } finally {
+        globalCostTracker.setBudget({});
+        globalCostTracker.reset();
+      }
+    });
+
     it('應該處理工具調用響應', async () => {
       const mockResponse = {
         id: 'test-id',
@@ -0,0 +1,70 @@
+/**
+ * 錄製 / 回放提供方單元測試
+ */
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FixtureProvider, RecordingProvider } from '../../../src/llm/providers/fixture.js';
+
+describe('FixtureProvider', () => {
+  let dir: string;
+  let fixturePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bailu-fixture-'));
+    fixturePath = path.join(dir, 'session.json');
+    fs.writeFileSync(fixturePath, JSON.stringify({
+      model: 'stand-in',
+      responses: [
+        { match: 'README', content: '先讀取文件', toolCalls: [{ name: 'read_file', arguments: { path: 'README.md' } }] },
+        { content: '完成', usage: { prompt_tokens: 10, completion_tokens: 2 } },
+      ],
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('應該按順序回放響應並展開簡寫的工具調用', async () => {
+    const provider = new FixtureProvider(fixturePath);
+    expect(provider.model).toBe('stand-in');
+
+    const first = await provider.complete([{ role: 'user', content: '總結 README' }]);
+    expect(first.content).toBe('先讀取文件');
+    expect(first.toolCalls[0].function).toEqual({ name: 'read_file', arguments: '{"path":"README.md"}' });
+
+    const events = [];
+    for await (const event of provider.stream([{ role: 'tool', content: '...', tool_call_id: first.toolCalls[0].id }])) {
+      events.push(event);
+    }
+    expect(events).toEqual([
+      { type: 'text', content: '完成' },
+      { type: 'usage', usage: { prompt_tokens: 10, completion_tokens: 2 } },
+    ]);
+
+    await expect(provider.complete([{ role: 'user', content: '再來' }])).rejects.toThrow('fixture 響應已用完');
+  });
+
+  it('最後一條消息不匹配時應該拋出錯誤', async () => {
+    const provider = new FixtureProvider(fixturePath);
+    await expect(provider.complete([{ role: 'user', content: '別的問題' }])).rejects.toThrow('期望最後一條消息包含 "README"');
+  });
+
+  it('錄製的文件應該可以直接回放', async () => {
+    const recordPath = path.join(dir, 'recorded', 'out.json');
+    const recorder = new RecordingProvider(new FixtureProvider(fixturePath), recordPath);
+
+    for await (const _event of recorder.stream([{ role: 'user', content: 'README' }])) {
+      // 消費流
+    }
+    await recorder.complete([{ role: 'user', content: '繼續' }]);
+
+    const replay = new FixtureProvider(recordPath);
+    const first = await replay.complete([{ role: 'user', content: '任何輸入' }]);
+    expect(first.content).toBe('先讀取文件');
+    expect(first.toolCalls[0].function.name).toBe('read_file');
+    expect((await replay.complete([])).usage).toEqual({ prompt_tokens: 10, completion_tokens: 2 });
+  });
+});
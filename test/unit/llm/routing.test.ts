@@ -0,0 +1,25 @@
+/**
+ * 模型路由單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import { resolveModelChain } from '../../../src/llm/routing.js';
+
+describe('resolveModelChain', () => {
+  const routes = {
+    main: ['strong', 'strong-backup'],
+    commit: 'fast',
+    review: ['fast', 'strong'],
+  };
+
+  it('main 的首選模型應該是當前模型，配置中的模型作為回退', () => {
+    expect(resolveModelChain(routes, 'main', 'strong')).toEqual(['strong', 'strong-backup']);
+    expect(resolveModelChain(routes, 'main', 'switched')).toEqual(['switched', 'strong', 'strong-backup']);
+  });
+
+  it('已配置的路由使用自己的模型鏈，未配置的路由使用 main', () => {
+    expect(resolveModelChain(routes, 'commit', 'strong')).toEqual(['fast']);
+    expect(resolveModelChain(routes, 'review', 'strong')).toEqual(['fast', 'strong']);
+    expect(resolveModelChain(routes, 'compress', 'strong')).toEqual(['strong', 'strong-backup']);
+    expect(resolveModelChain({}, 'commit', 'only')).toEqual(['only']);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * 分詞器單元測試
+ */
+import { describe, it, expect } from "@jest/globals";
+import fs from "fs";
+import path from "path";
+import { BpeTokenizer, parseTiktokenRanks, pretokenize } from "../../../src/llm/tokenizer/bpe.js";
+import { HeuristicTokenizer } from "../../../src/llm/tokenizer/heuristic.js";
+import { getModelInfo } from "../../../src/llm/models.js";
+
+/**
+ * 構造一個小詞表：256 個單字節，加上若干合併結果
+ */
+function buildVocab(merges: string[]): string {
+  const lines: string[] = [];
+  for (let b = 0; b < 256; b++) {
+    lines.push(`${Buffer.from([b]).toString("base64")} ${b}`);
+  }
+  merges.forEach((token, i) => lines.push(`${Buffer.from(token, "utf8").toString("base64")} ${256 + i}`));
+  return lines.join("\n");
+}
+
+describe("BpeTokenizer", () => {
+  const tokenizer = new BpeTokenizer("test", parseTiktokenRanks(buildVocab(["he", "ll", "hell", "hello", " w", "or", " wor"])));
+
+  it("按 rank 順序合併相鄰字節", () => {
+    expect(tokenizer.encode("hello")).toEqual([256 + 3]);
+    // " world"：先合併 " w" 和 "or"，再合併為 " wor"
+    expect(tokenizer.encode(" world")).toEqual([256 + 6, "l".charCodeAt(0), "d".charCodeAt(0)]);
+    expect(tokenizer.count("hello world")).toBe(4);
+  });
+
+  it("多字節字符按 UTF-8 字節編碼", () => {
+    expect(tokenizer.count("白")).toBe(3);
+  });
+
+  it("隨包發布的詞表與 tiktoken 的編碼結果一致", () => {
+    const load = (name: string) =>
+      new BpeTokenizer(name, parseTiktokenRanks(fs.readFileSync(path.join("vocab", `${name}.tiktoken`), "utf8")));
+    const cl100k = load("cl100k_base");
+    expect(cl100k.encode("hello world")).toEqual([15339, 1917]);
+    expect(cl100k.encode("const 白鹿 = 42;")).toEqual([1040, 69394, 121, 165, 117, 123, 284, 220, 2983, 26]);
+    expect(load("o200k_base").encode("const 白鹿 = 42;")).toEqual([1671, 47873, 112913, 314, 220, 4689, 26]);
+  });
+});
+
+describe("pretokenize", () => {
+  it("代碼按標識符、數字和符號切分", () => {
+    expect(pretokenize("const x = 12345;")).toEqual(["const", " x", " =", " ", "123", "45", ";"]);
+  });
+});
+
+describe("HeuristicTokenizer", () => {
+  it("中文按字計數，代碼按片段估算", () => {
+    const tokenizer = new HeuristicTokenizer();
+    expect(tokenizer.count("你好世界")).toBe(4);
+    expect(tokenizer.count("const x = 1;")).toBeGreaterThanOrEqual(5);
+    expect(tokenizer.approximate).toBe(true);
+  });
+});
+
+describe("getModelInfo", () => {
+  it("已知模型、模型系列、配置覆蓋和默認值", () => {
+    expect(getModelInfo("bailu-Edge").contextWindow).toBe(8000);
+    expect(getModelInfo("gpt-4o-mini").tokenizer).toBe("o200k_base");
+    expect(getModelInfo("qwen2.5-coder", { "qwen2.5-coder": { contextWindow: 32768 } })).toEqual({
+      contextWindow: 32768,
+      tokenizer: "cl100k_base",
+    });
+    expect(getModelInfo("unknown").contextWindow).toBe(16000);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * MCP 資源與提示模板轉換單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  bindPromptArguments,
+  formatPromptMessages,
+  formatResourceContents,
+  promptCommandName,
+} from '../../../src/mcp/content.js';
+
+describe('bindPromptArguments', () => {
+  const prompt = {
+    name: 'review',
+    arguments: [
+      { name: 'file', required: true },
+      { name: 'focus' },
+    ],
+  };
+
+  it('應該按位置綁定參數，多出的併入最後一個參數', () => {
+    expect(bindPromptArguments(prompt, ['src/a.ts', 'error', 'handling'])).toEqual({
+      values: { file: 'src/a.ts', focus: 'error handling' },
+      missing: [],
+    });
+  });
+
+  it('應該支持 key=value 並報告缺少的必需參數', () => {
+    expect(bindPromptArguments(prompt, ['focus=perf'])).toEqual({
+      values: { focus: 'perf' },
+      missing: ['file'],
+    });
+  });
+});
+
+describe('format', () => {
+  it('應該把文本資源包裝為代碼塊，二進制資源只保留說明', () => {
+    const text = formatResourceContents([
+      { uri: 'db://schema', mimeType: 'text/plain', text: 'CREATE TABLE t;' },
+      { uri: 'img://logo', blob: Buffer.from('abcd').toString('base64') },
+    ]);
+    expect(text).toContain('[MCP 資源: db://schema (text/plain)]\n```\nCREATE TABLE t;\n```');
+    expect(text).toContain('（二進制內容，4 bytes，未載入）');
+  });
+
+  it('應該合併提示消息並生成命令名稱', () => {
+    expect(formatPromptMessages([
+      { role: 'user', content: { type: 'text', text: '審查這個文件' } },
+      { role: 'assistant', content: { type: 'text', text: '好的' } },
+    ])).toBe('審查這個文件\n\n[assistant]\n好的');
+    expect(promptCommandName('github', 'review')).toBe('/mcp__github__review');
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * MCP 工具命名與篩選單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import { isToolExposed, mcpToolName } from '../../../src/mcp/naming.js';
+
+describe('mcpToolName', () => {
+  it('應該按伺服器命名空間命名並清理非法字符', () => {
+    expect(mcpToolName('github', 'create_issue')).toBe('mcp__github__create_issue');
+    expect(mcpToolName('my.server', 'tool/x')).toBe('mcp__my_server__tool_x');
+    expect(mcpToolName('fs', 'read_file', false)).toBe('read_file');
+  });
+});
+
+describe('isToolExposed', () => {
+  it('應該支持 include / exclude 通配且 exclude 優先', () => {
+    expect(isToolExposed('anything')).toBe(true);
+    expect(isToolExposed('list_issues', ['list_*'])).toBe(true);
+    expect(isToolExposed('create_issue', ['list_*'])).toBe(false);
+    expect(isToolExposed('list_commits', ['list_*'], ['list_commits'])).toBe(false);
+  });
+});
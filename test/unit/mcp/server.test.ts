@@ -0,0 +1,80 @@
+/**
+ * MCP stdio 伺服器單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { McpStdioServer } from '../../../src/mcp/server.js';
+import { ToolDefinition, ToolResult } from '../../../src/tools/types.js';
+
+const definitions: ToolDefinition[] = [
+  {
+    name: 'read_file',
+    description: '讀取文件',
+    parameters: [{ name: 'path', type: 'string', description: '路徑', required: true }],
+    safe: true,
+  },
+];
+
+function createServer(output: string[]) {
+  const calls: Array<[string, Record<string, unknown>]> = [];
+  const server = new McpStdioServer(
+    { name: 'bailu-cli', version: '0.0.0' },
+    {
+      listTools: () => definitions,
+      callTool: async (name, args): Promise<ToolResult> => {
+        calls.push([name, args]);
+        return args.path === 'missing' ? { success: false, error: '文件不存在' } : { success: true, output: 'content' };
+      },
+    },
+    (chunk) => output.push(chunk)
+  );
+  return { server, calls };
+}
+
+describe('McpStdioServer', () => {
+  it('應該返回工具列表並把工具結果轉換為 MCP 格式', async () => {
+    const { server, calls } = createServer([]);
+
+    const list = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    expect(list?.result.tools[0]).toEqual({
+      name: 'read_file',
+      description: '讀取文件',
+      inputSchema: {
+        type: 'object',
+        properties: { path: { type: 'string', description: '路徑' } },
+        required: ['path'],
+      },
+    });
+
+    const ok = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'read_file', arguments: { path: 'a.txt' } } });
+    expect(ok?.result).toEqual({ content: [{ type: 'text', text: 'content' }], isError: false });
+    expect(calls).toEqual([['read_file', { path: 'a.txt' }]]);
+
+    const failed = await server.handleMessage({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'read_file', arguments: { path: 'missing' } } });
+    expect(failed?.result).toEqual({ content: [{ type: 'text', text: '文件不存在' }], isError: true });
+  });
+
+  it('未知方法和工具應返回 JSON-RPC 錯誤，通知不應回覆', async () => {
+    const { server } = createServer([]);
+
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'nope' }))?.error?.code).toBe(-32601);
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'rm' } }))?.error?.code).toBe(-32602);
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+  });
+
+  it('應該按客戶端使用的分幀格式回覆', async () => {
+    const output: string[] = [];
+    const { server } = createServer(output);
+    const input = new PassThrough();
+    const done = server.serve(input);
+
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05' } });
+    input.end(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+    await done;
+
+    expect(output).toHaveLength(1);
+    const [header, response] = output[0].split('\r\n\r\n');
+    expect(header).toBe(`Content-Length: ${Buffer.byteLength(response)}`);
+    expect(JSON.parse(response).result).toMatchObject({ protocolVersion: '2024-11-05', serverInfo: { name: 'bailu-cli' } });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * MCP HTTP 傳輸單元測試（使用本地 HTTP 伺服器模擬 MCP 伺服器）
+ */
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  JsonRpcMessage,
+  SseTransport,
+  StreamableHttpTransport,
+  expandEnvVars,
+} from '../../../src/mcp/transport.js';
+
+let server: http.Server;
+let baseUrl: string;
+const seenHeaders: http.IncomingHttpHeaders[] = [];
+let sseResponse: http.ServerResponse | null = null;
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(data ? JSON.parse(data) : null));
+  });
+}
+
+beforeAll(async () => {
+  server = http.createServer(async (req, res) => {
+    seenHeaders.push(req.headers);
+
+    // Streamable HTTP：initialize 返回 JSON 並建立會話，其他請求用 SSE 響應
+    if (req.url === '/mcp' && req.method === 'POST') {
+      const msg = await readBody(req);
+      if (msg.id === undefined) {
+        res.writeHead(202).end();
+      } else if (msg.method === 'initialize') {
+        res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { serverInfo: { name: 'stub' } } }));
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.end(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { tools: [] } })}\n\n`);
+      }
+      return;
+    }
+    if (req.url === '/mcp' && req.method === 'DELETE') {
+      res.writeHead(200).end();
+      return;
+    }
+
+    // 舊版 SSE：GET 建立事件流，POST 到 endpoint，響應從事件流返回
+    if (req.url === '/sse' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('event: endpoint\ndata: /messages?sessionId=abc\n\n');
+      sseResponse = res;
+      return;
+    }
+    if (req.url === '/sse-foreign' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end('event: endpoint\ndata: http://attacker.example/messages\n\n');
+      return;
+    }
+    if (req.url?.startsWith('/messages') && req.method === 'POST') {
+      const msg = await readBody(req);
+      res.writeHead(202).end();
+      sseResponse?.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { ok: true } })}\n\n`);
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  sseResponse?.end();
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('StreamableHttpTransport', () => {
+  it('應該解析 JSON 與 SSE 響應並攜帶會話 ID 和自定義 headers', async () => {
+    const transport = new StreamableHttpTransport({ url: `${baseUrl}/mcp`, headers: { Authorization: 'Bearer t0k' } });
+    const received: JsonRpcMessage[] = [];
+    transport.onmessage = (msg) => received.push(msg);
+    seenHeaders.length = 0;
+
+    await transport.start();
+    await transport.send({ jsonrpc: '2.0', id: 1, method: 'initialize' });
+    await transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    await transport.send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    await transport.close();
+
+    expect(received.map(m => m.id)).toEqual([1, 2]);
+    expect(received[1].result).toEqual({ tools: [] });
+    expect(seenHeaders[0].authorization).toBe('Bearer t0k');
+    expect(seenHeaders[0]['mcp-session-id']).toBeUndefined();
+    expect(seenHeaders[2]['mcp-session-id']).toBe('session-1');
+  });
+
+  it('HTTP 錯誤應拋出異常', async () => {
+    const transport = new StreamableHttpTransport({ url: `${baseUrl}/missing` });
+    await expect(transport.send({ jsonrpc: '2.0', id: 1, method: 'initialize' })).rejects.toThrow('HTTP 404');
+  });
+});
+
+describe('SseTransport', () => {
+  it('應該從 endpoint 事件獲取 POST 地址並從事件流接收響應', async () => {
+    const transport = new SseTransport({ url: `${baseUrl}/sse` });
+    const response = new Promise<JsonRpcMessage>((resolve) => {
+      transport.onmessage = resolve;
+    });
+
+    await transport.start();
+    await transport.send({ jsonrpc: '2.0', id: 7, method: 'tools/list' });
+
+    expect(await response).toMatchObject({ id: 7, result: { ok: true } });
+    await transport.close();
+  });
+
+  it('endpoint 與伺服器不同源時拒絕連接，不發送 headers', async () => {
+    const transport = new SseTransport({ url: `${baseUrl}/sse-foreign`, headers: { Authorization: 'Bearer t0k' } });
+    await expect(transport.start()).rejects.toThrow('不同源');
+    await expect(transport.send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })).rejects.toThrow('未連接');
+  });
+});
+
+describe('expandEnvVars', () => {
+  it('應該展開 ${VAR}，未定義的變量替換為空', () => {
+    expect(expandEnvVars('Bearer ${TOKEN}${MISSING}', { TOKEN: 'abc' })).toBe('Bearer abc');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * 審批記錄單元測試
+ */
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApprovalStore } from '../../../src/runtime/approvals.js';
+
+describe('ApprovalStore', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bailu-approvals-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('會話級授權只對同一工具生效且不寫入文件', async () => {
+    const store = new ApprovalStore(workspace);
+    store.allowToolForSession('write_file');
+
+    expect(await store.isApproved('write_file', { path: 'a.ts' })).not.toBeNull();
+    expect(await store.isApproved('run_command', { command: 'ls' })).toBeNull();
+    expect(fs.existsSync(store.getFilePath())).toBe(false);
+  });
+
+  it('命令和目錄授權應保存到項目並可撤銷', async () => {
+    const store = new ApprovalStore(workspace);
+    await store.allowCommand('npm test');
+    await store.allowDirectory('src/utils');
+
+    const reloaded = new ApprovalStore(workspace);
+    expect(await reloaded.isApproved('run_command', { command: 'npm', args: ['test'] })).not.toBeNull();
+    expect(await reloaded.isApproved('run_command', { command: 'npm test -- --watch' })).toBeNull();
+    expect(await reloaded.isApproved('write_file', { path: 'src/utils/deep/a.ts' })).not.toBeNull();
+    expect(await reloaded.isApproved('write_file', { path: 'src/other.ts' })).toBeNull();
+
+    await reloaded.revoke(1);
+    expect((await new ApprovalStore(workspace).list()).map(e => e.kind)).toEqual(['directory']);
+  });
+
+  it('不允許授權工作區外的目錄', async () => {
+    const store = new ApprovalStore(workspace);
+    await expect(store.allowDirectory('../outside')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * 檢查點單元測試
+ */
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CheckpointStore } from '../../../src/runtime/checkpoints.js';
+
+describe('CheckpointStore', () => {
+  let workspace: string;
+  const file = (name: string) => path.join(workspace, name);
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bailu-checkpoints-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('/undo 回滾整個回合（修改、創建和刪除的文件），/redo 重新應用', async () => {
+    fs.writeFileSync(file('a.txt'), 'a1');
+    fs.writeFileSync(file('old.txt'), 'old');
+    const store = new CheckpointStore(workspace);
+
+    await store.beginTurn('重構');
+    await store.recordFile(file('a.txt'));
+    fs.writeFileSync(file('a.txt'), 'a2');
+    await store.recordFile('src/new.txt');
+    fs.mkdirSync(file('src'));
+    fs.writeFileSync(file('src/new.txt'), 'new');
+    await store.recordFile(file('old.txt'));
+    fs.rmSync(file('old.txt'));
+    await store.endTurn();
+
+    const undo = await store.undo();
+    expect(undo.checkpoint?.label).toBe('重構');
+    expect(fs.readFileSync(file('a.txt'), 'utf-8')).toBe('a1');
+    expect(fs.existsSync(file('src/new.txt'))).toBe(false);
+    expect(fs.readFileSync(file('old.txt'), 'utf-8')).toBe('old');
+
+    await store.redo();
+    expect(fs.readFileSync(file('a.txt'), 'utf-8')).toBe('a2');
+    expect(fs.readFileSync(file('src/new.txt'), 'utf-8')).toBe('new');
+    expect(fs.existsSync(file('old.txt'))).toBe(false);
+
+    // 新的 store（如重啟後）從磁盤讀取檢查點
+    expect((await new CheckpointStore(workspace).list()).map(c => c.status)).toEqual(['applied']);
+  });
+
+  it('回合之後文件被手動修改時需要 force 才回滾', async () => {
+    fs.writeFileSync(file('a.txt'), 'v1');
+    const store = new CheckpointStore(workspace);
+
+    await store.beginTurn('修改');
+    await store.recordFile(file('a.txt'));
+    fs.writeFileSync(file('a.txt'), 'v2');
+    await store.endTurn();
+    fs.writeFileSync(file('a.txt'), 'manual');
+
+    const blocked = await store.undo();
+    expect(blocked.conflicts).toEqual(['a.txt']);
+    expect(fs.readFileSync(file('a.txt'), 'utf-8')).toBe('manual');
+
+    await store.undo(true);
+    expect(fs.readFileSync(file('a.txt'), 'utf-8')).toBe('v1');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * 權限規則單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  evaluatePermission,
+  matchPermissionPattern,
+  mergePermissionRules,
+  normalizePermissionRules,
+  PermissionRule,
+} from '../../../src/runtime/permissions.js';
+
+const rules: PermissionRule[] = [
+  { action: 'deny', pattern: 'rm -rf *' },
+  { action: 'ask', pattern: 'git push *' },
+  { action: 'allow', pattern: 'npm run *' },
+  { action: 'allow', pattern: 'git *' },
+  { action: 'ask', tool: 'write_file', pattern: '.github/*' },
+];
+
+describe('matchPermissionPattern', () => {
+  it('結尾的 " *" 應同時匹配無參數的情況', () => {
+    expect(matchPermissionPattern('git push *', 'git push')).toBe(true);
+    expect(matchPermissionPattern('git push *', 'git push origin main')).toBe(true);
+    expect(matchPermissionPattern('git push *', 'git pushx')).toBe(false);
+  });
+});
+
+describe('evaluatePermission', () => {
+  it('應該使用第一條匹配的規則', () => {
+    expect(evaluatePermission(rules, 'run_command', { command: 'git', args: ['push', 'origin'] })?.action).toBe('ask');
+    expect(evaluatePermission(rules, 'run_command', { command: 'git status' })?.action).toBe('allow');
+    expect(evaluatePermission(rules, 'run_command', { command: 'rm', args: ['-rf', 'dist'] })?.action).toBe('deny');
+    expect(evaluatePermission(rules, 'run_command', { command: 'ls' })).toBeNull();
+  });
+
+  it('非命令工具應按 path 參數匹配', () => {
+    expect(evaluatePermission(rules, 'write_file', { path: '.github/workflows/ci.yml' })?.action).toBe('ask');
+    expect(evaluatePermission(rules, 'write_file', { path: 'src/index.ts' })).toBeNull();
+  });
+
+  it('shell 模式應逐個命令節點判斷', () => {
+    expect(evaluatePermission(rules, 'run_command', { command: 'npm run build && git status', shell: true })?.action).toBe('allow');
+    expect(evaluatePermission(rules, 'run_command', { command: 'npm run build && rm -rf dist', shell: true })?.action).toBe('deny');
+    expect(evaluatePermission(rules, 'run_command', { command: 'npm run build | tail', shell: true })).toBeNull();
+  });
+});
+
+describe('mergePermissionRules', () => {
+  it('項目規則應排在用戶規則前面，並丟棄無效條目', () => {
+    const merged = mergePermissionRules(
+      [{ action: 'deny', pattern: 'git push *' }, { action: 'maybe', pattern: 'ls' }],
+      [{ action: 'allow', pattern: 'git push *' }]
+    );
+    expect(merged.map(r => r.action)).toEqual(['deny', 'allow']);
+    expect(normalizePermissionRules('not-an-array')).toEqual([]);
+  });
+
+  it('用戶的 deny 規則不能被項目的 allow 規則覆蓋', () => {
+    const merged = mergePermissionRules(
+      [{ action: 'allow', pattern: '*' }],
+      [{ action: 'deny', pattern: 'git push *' }, { action: 'allow', pattern: 'npm test' }]
+    );
+    expect(merged.map(r => r.action)).toEqual(['deny', 'allow', 'allow']);
+    expect(evaluatePermission(merged, 'run_command', { command: 'git push origin main' })?.action).toBe('deny');
+    expect(evaluatePermission(merged, 'run_command', { command: 'ls' })?.action).toBe('allow');
+  });
+});
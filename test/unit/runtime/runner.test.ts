@@ -0,0 +1,28 @@
+/**
+ * 命令執行取消單元測試
+ */
+import { describe, it, expect } from "@jest/globals";
+import { runCommandSafe, runShellCommandSafe } from "../../../src/runtime/runner.js";
+import { getDefaultPolicy } from "../../../src/runtime/policy.js";
+
+describe("runCommandSafe 取消", () => {
+  it("取消後終止子進程並標記 aborted", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const start = Date.now();
+    const result = await runCommandSafe(process.cwd(), "sleep", ["10"], getDefaultPolicy(), controller.signal);
+    expect(result.aborted).toBe(true);
+    expect(result.timedOut).toBe(false);
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+
+  it("shell 模式取消時終止整個管道", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const policy = { ...getDefaultPolicy(), allowShell: true };
+    const start = Date.now();
+    const result = await runShellCommandSafe(process.cwd(), "sleep 10 | cat", policy, controller.signal);
+    expect(result.aborted).toBe(true);
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+});
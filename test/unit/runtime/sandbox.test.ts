@@ -0,0 +1,53 @@
+/**
+ * 命令沙箱單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { applySandbox, bwrapBackend, unshareBackend } from '../../../src/runtime/sandbox.js';
+
+const options = { cwd: '/work/repo/src', workspaceRoot: '/work/repo' };
+
+describe('sandbox backends', () => {
+  it('bwrap 應只讀綁定根目錄、可寫綁定工作區並默認隔離網絡', () => {
+    const { file, args } = bwrapBackend.wrap('npm', ['test'], options);
+
+    expect(file).toBe('bwrap');
+    expect(args.slice(0, 3)).toEqual(['--ro-bind', '/', '/']);
+    expect(args.join(' ')).toContain('--bind /work/repo /work/repo');
+    expect(args).toContain('--unshare-all');
+    expect(args).not.toContain('--share-net');
+    expect(args.slice(-3)).toEqual(['--', 'npm', 'test']);
+  });
+
+  it('允許網絡時不應隔離網絡', () => {
+    expect(bwrapBackend.wrap('npm', [], { ...options, allowNetwork: true }).args).toContain('--share-net');
+    expect(unshareBackend.wrap('npm', [], { ...options, allowNetwork: true }).args).not.toContain('--net');
+    expect(unshareBackend.wrap('npm', [], options).args).toContain('--net');
+  });
+
+  const linuxIt = process.platform === 'linux' && unshareBackend.isAvailable() ? it : it.skip;
+  linuxIt('unshare 後端只有工作區可寫，/dev/shm 等子掛載點不會被修改', () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bailu-sandbox-'));
+    const marker = `bailu-sandbox-${process.pid}`;
+    const targets = ['/dev/shm', '/var/tmp', os.homedir()].filter(dir => fs.existsSync(dir));
+    try {
+      const script = ['touch ok', ...targets.map(dir => `touch ${dir}/${marker} 2>/dev/null`), 'true'].join('; ');
+      const { file, args } = unshareBackend.wrap('/bin/sh', ['-c', script], { cwd: workspace, workspaceRoot: workspace });
+      const result = spawnSync(file, args, { encoding: 'utf8', timeout: 20000 });
+
+      expect(result.status).toBe(0);
+      expect(fs.existsSync(path.join(workspace, 'ok'))).toBe(true);
+      expect(targets.filter(dir => fs.existsSync(path.join(dir, marker)))).toEqual([]);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+      targets.forEach(dir => fs.rmSync(path.join(dir, marker), { force: true }));
+    }
+  });
+
+  it('none 模式不應包裝命令', () => {
+    expect(applySandbox('none', 'npm', ['test'], options)).toEqual({ file: 'npm', args: ['test'] });
+  });
+});
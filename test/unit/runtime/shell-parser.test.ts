@@ -0,0 +1,99 @@
+/**
+ * Shell 命令解析與 shell 模式安全策略單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import { parseShellCommand, collectCommands, ShellParseError } from '../../../src/runtime/shell-parser.js';
+import { checkShellCommand, getDefaultPolicy, isCommandAllowed } from '../../../src/runtime/policy.js';
+
+const cwd = '/workspace/project';
+
+describe('parseShellCommand', () => {
+  it('應該解析管道和重定向', () => {
+    const ast = parseShellCommand('npm test 2>&1 | tail -n 50');
+    const commands = collectCommands(ast);
+
+    expect(commands.map(c => c.argv)).toEqual([['npm', 'test'], ['tail', '-n', '50']]);
+    expect(commands[0].redirects).toEqual([{ op: '>&', fd: 2, target: '1' }]);
+  });
+
+  it('應該解析 && / || / ; 列表並保留引號內的操作符', () => {
+    const ast = parseShellCommand('npm run build && echo "a | b; c" || echo \'fail\'');
+
+    expect(ast.items.map(item => item.next)).toEqual(['&&', '||', undefined]);
+    expect(ast.items[1].pipeline.commands[0].argv).toEqual(['echo', 'a | b; c']);
+  });
+
+  it('應該拒絕命令替換、子 shell 和後台執行', () => {
+    expect(() => parseShellCommand('echo $(whoami)')).toThrow(ShellParseError);
+    expect(() => parseShellCommand('echo "`id`"')).toThrow(ShellParseError);
+    expect(() => parseShellCommand('(cd src && ls)')).toThrow(ShellParseError);
+    expect(() => parseShellCommand('npm start &')).toThrow(ShellParseError);
+    // /bin/sh 中 &> 是後台執行再重定向，不是 bash 的合併重定向
+    expect(() => parseShellCommand('sleep 100 &> out.txt')).toThrow(ShellParseError);
+    expect(() => parseShellCommand('cat <<EOF')).toThrow(ShellParseError);
+  });
+});
+
+describe('checkShellCommand', () => {
+  const policy = getDefaultPolicy();
+
+  it('應該允許普通管道', () => {
+    expect(checkShellCommand(policy, 'npm test 2>&1 | tail -n 50', cwd).allowed).toBe(true);
+    expect(checkShellCommand(policy, 'git status > status.txt 2>/dev/null', cwd).allowed).toBe(true);
+  });
+
+  it('應該檢查管道中的每個命令節點', () => {
+    expect(checkShellCommand(policy, 'ls | xargs rm', cwd).allowed).toBe(false);
+    expect(checkShellCommand(policy, 'npm test && /bin/rm -rf dist', cwd).allowed).toBe(false);
+    expect(checkShellCommand(policy, 'find . -name "*.log" -exec rm {} ;', cwd).allowed).toBe(false);
+    expect(checkShellCommand(policy, "cat install.sh | bash -c 'echo hi'", cwd).allowed).toBe(false);
+  });
+
+  it('應該跳過包裝命令選項的值，檢查被包裝的命令', () => {
+    const blocked = [
+      'env -u FOO rm -rf x',
+      'env -C src rm x',
+      'env -S "rm -rf x"',
+      '/usr/bin/env - PATH=/bin rm x',
+      'ls | xargs -a list rm',
+      'ls | xargs -I {} -n 1 rm {}',
+      'ls | xargs -0 -P4 rm',
+      'timeout -s KILL 10 rm x',
+      'timeout -k 5 -- 10 rm x',
+      'nice -n 5 rm x',
+      'ionice -c 3 rm x',
+      'stdbuf -o L rm x',
+      'time -o log.txt rm x',
+    ];
+    for (const command of blocked) {
+      expect([command, checkShellCommand(policy, command, cwd).allowed]).toEqual([command, false]);
+    }
+
+    expect(checkShellCommand(policy, 'timeout 10 npm test', cwd).allowed).toBe(true);
+    expect(checkShellCommand(policy, 'env -u CI NODE_ENV=test npm test', cwd).allowed).toBe(true);
+    expect(checkShellCommand(policy, 'git ls-files | xargs -n 10 grep TODO', cwd).allowed).toBe(true);
+  });
+
+  it('無法解析的包裝命令選項應該拒絕', () => {
+    const result = checkShellCommand(policy, 'xargs --unknown-flag value rm', cwd);
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('--unknown-flag');
+  });
+
+  it('應該拒絕工作區外的重定向', () => {
+    const result = checkShellCommand(policy, 'echo hi > ../outside.txt', cwd);
+    expect(result.allowed).toBe(false);
+    expect(checkShellCommand(policy, 'echo hi >> /etc/hosts', cwd).allowed).toBe(false);
+  });
+});
+
+describe('isCommandAllowed', () => {
+  it('命令名應精確匹配，多詞規則只匹配對應子命令', () => {
+    const policy = { mode: 'review' as const, blockedCommands: ['rm', 'git push'] };
+
+    expect(isCommandAllowed(policy, 'rm -rf dist')).toBe(false);
+    expect(isCommandAllowed(policy, 'rmdir empty')).toBe(true);
+    expect(isCommandAllowed(policy, 'git push origin main')).toBe(false);
+    expect(isCommandAllowed(policy, 'git status')).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * apply_diff 多文件補丁單元測試
+ */
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { applyDiffTool } from '../../../src/tools/implementations/apply_diff.js';
+
+// Mock chalk to avoid ESM issues in Jest
+jest.mock('chalk', () => ({
+  default: {
+    cyan: (str: string) => str,
+    green: (str: string) => str,
+    yellow: (str: string) => str,
+    red: (str: string) => str,
+    gray: (str: string) => str,
+    bold: (str: string) => str,
+  },
+}));
+
+describe('applyDiffTool', () => {
+  const originalCwd = process.cwd();
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'bailu-apply-diff-')));
+    process.chdir(workspace);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('重命名的目標已存在時拒絕，不修改任何文件', async () => {
+    fs.writeFileSync('a.txt', 'hello\n');
+    fs.writeFileSync('b.txt', 'precious\n');
+
+    const result = await applyDiffTool.handler({
+      diff: [
+        'diff --git a/a.txt b/b.txt',
+        'rename from a.txt',
+        'rename to b.txt',
+        '--- a/a.txt',
+        '+++ b/b.txt',
+        '@@ -1 +1 @@',
+        '-hello',
+        '+hello world',
+      ].join('\n'),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('重命名目標已存在');
+    expect(fs.readFileSync('b.txt', 'utf-8')).toBe('precious\n');
+    expect(fs.readFileSync('a.txt', 'utf-8')).toBe('hello\n');
+  });
+
+  it('同一文件出現在多個文件段時拒絕', async () => {
+    fs.writeFileSync('a.txt', 'one\ntwo\n');
+
+    const result = await applyDiffTool.handler({
+      diff: [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1 +1 @@',
+        '-one',
+        '+ONE',
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -2 +2 @@',
+        '-two',
+        '+TWO',
+      ].join('\n'),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('a.txt 出現在多個文件段中');
+    expect(fs.readFileSync('a.txt', 'utf-8')).toBe('one\ntwo\n');
+  });
+});
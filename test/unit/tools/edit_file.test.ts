@@ -0,0 +1,101 @@
+/**
+ * edit_file 搜索替換單元測試
+ */
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { applyEdits, editFileTool, parseEdits } from '../../../src/tools/implementations/edit_file.js';
+
+// Mock chalk to avoid ESM issues in Jest
+jest.mock('chalk', () => ({
+  default: {
+    cyan: (str: string) => str,
+    green: (str: string) => str,
+    yellow: (str: string) => str,
+    red: (str: string) => str,
+    gray: (str: string) => str,
+    bold: (str: string) => str,
+  },
+}));
+
+describe('applyEdits', () => {
+  const source = 'const a = 1;\r\nconst b = 1;\r\nexport { a, b };\r\n';
+
+  it('old_string 不唯一時失敗，replace_all 替換全部，並保留 CRLF', () => {
+    expect(applyEdits(source, [{ old_string: '= 1;', new_string: '= 2;' }]).error).toContain('匹配到 2 處（第 1、2 行）');
+
+    const result = applyEdits(source, [
+      { old_string: '= 1;', new_string: '= 2;', replace_all: true },
+      { old_string: 'export { a, b };\n', new_string: 'export { a, b };\nexport default a;\n' },
+    ]);
+    expect(result.replacements).toBe(3);
+    expect(result.content).toBe('const a = 2;\r\nconst b = 2;\r\nexport { a, b };\r\nexport default a;\r\n');
+  });
+
+  it('任何一處找不到時整體失敗，並提示忽略空白後的匹配位置', () => {
+    const result = applyEdits('function f() {\n    return 1;\n}\n', [
+      { old_string: 'function f', new_string: 'function g' },
+      { old_string: '  return 1;', new_string: '  return 2;' },
+      { old_string: 'return 3;', new_string: 'return 4;' },
+    ]);
+    expect(result.content).toBeUndefined();
+    expect(result.error).toContain('第 3 處編輯失敗：找不到 old_string');
+
+    expect(applyEdits('if (x) {\n    y();\n}\n', [{ old_string: 'if (x) {\n  y();', new_string: '' }]).error)
+      .toContain('第 1 行忽略空白後可以匹配');
+  });
+});
+
+describe('editFileTool 編碼', () => {
+  const originalCwd = process.cwd();
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'bailu-edit-file-')));
+    process.chdir(workspace);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const edit = (file: string, newString: string) =>
+    editFileTool.handler({ path: file, old_string: 'value = 1', new_string: newString, create_backup: false });
+
+  it('保留 UTF-8 BOM 和 UTF-16 LE 編碼', async () => {
+    fs.writeFileSync('bom.txt', Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('value = 1\n')]));
+    expect((await edit('bom.txt', 'value = "白鹿"')).success).toBe(true);
+    expect(fs.readFileSync('bom.txt')).toEqual(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('value = "白鹿"\n')]));
+
+    fs.writeFileSync('utf16.txt', Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('value = 1\r\n', 'utf16le')]));
+    const result = await edit('utf16.txt', 'value = "白鹿"');
+    expect(result.metadata?.encoding).toBe('utf16le');
+    expect(fs.readFileSync('utf16.txt')).toEqual(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('value = "白鹿"\r\n', 'utf16le')]));
+  });
+
+  it('非 UTF-8 文件按 latin1 處理，拒絕寫入無法無損保存的字符', async () => {
+    // GBK 編碼的「// 配置」
+    const gbk = Buffer.concat([Buffer.from('// '), Buffer.from([0xc5, 0xe4, 0xd6, 0xc3]), Buffer.from('\nvalue = 1\n')]);
+    fs.writeFileSync('gbk.txt', gbk);
+
+    const rejected = await edit('gbk.txt', 'value = "白鹿"');
+    expect(rejected.success).toBe(false);
+    expect(rejected.error).toContain('不是 UTF-8 編碼');
+    expect(fs.readFileSync('gbk.txt')).toEqual(gbk);
+
+    const result = await edit('gbk.txt', 'value = 2');
+    expect(result.metadata?.encoding).toBe('latin1');
+    expect(fs.readFileSync('gbk.txt')).toEqual(Buffer.from(gbk.toString('latin1').replace('value = 1', 'value = 2'), 'latin1'));
+  });
+});
+
+describe('parseEdits', () => {
+  it('支持單個 old_string / new_string 和 JSON 字符串形式的 edits', () => {
+    expect(parseEdits({ old_string: 'a', new_string: 'b' })).toEqual([{ old_string: 'a', new_string: 'b', replace_all: false }]);
+    expect(parseEdits({ edits: '[{"old_string":"1","new_string":"2","replace_all":true}]' }))
+      .toEqual([{ old_string: '1', new_string: '2', replace_all: true }]);
+    expect(parseEdits({ old_string: 'a', new_string: 'a' })).toContain('相同');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from '@jest/globals';
-import { parseToolCalls } from '../../../src/tools/parser.js';
+import { parseToolCalls, parseNativeToolCalls } from '../../../src/tools/parser.js';
 
 describe('Tools Parser', () => {
   describe('parseToolCalls', () => {
@@ -205,4 +205,26 @@ describe('Tools Parser', () => {
       expect(result.toolCalls[0].params.path).toBeTruthy();
     });
   });
+
+  describe('parseNativeToolCalls', () => {
+    it('應該解析原生 tool_calls 並保留 call ID', () => {
+      const result = parseNativeToolCalls([
+        { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+        { id: 'call_2', type: 'function', function: { name: 'list_directory', arguments: '{}' } },
+      ]);
+
+      expect(result).toEqual([
+        { id: 'call_1', tool: 'read_file', params: { path: 'a.ts' } },
+        { id: 'call_2', tool: 'list_directory', params: {} },
+      ]);
+    });
+
+    it('arguments 不是合法 JSON 時應該返回空參數', () => {
+      const result = parseNativeToolCalls([
+        { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":' } },
+      ]);
+
+      expect(result[0].params).toEqual({});
+    });
+  });
 });
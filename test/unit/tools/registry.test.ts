@@ -0,0 +1,62 @@
+/**
+ * 工具註冊中心單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import { ToolRegistry } from '../../../src/tools/registry.js';
+import { Tool } from '../../../src/tools/types.js';
+
+function makeTool(name: string): Tool {
+  return {
+    definition: { name, description: name, parameters: [] },
+    handler: async () => ({ success: true, output: '' }),
+  };
+}
+
+describe('ToolRegistry', () => {
+  it('移除工具後應允許以同名重新註冊', () => {
+    const registry = new ToolRegistry();
+    registry.register(makeTool('echo'));
+
+    expect(() => registry.register(makeTool('echo'))).toThrow('已經註冊過了');
+    expect(registry.unregister('echo')).toBe(true);
+    expect(registry.has('echo')).toBe(false);
+    expect(registry.unregister('echo')).toBe(false);
+
+    registry.register(makeTool('echo'));
+    expect(registry.getAllNames()).toEqual(['echo']);
+  });
+});
+
+describe('ToolRegistry 優先級', () => {
+  const mcpTool = (server: string): Tool => ({
+    ...makeTool('read_file'),
+    definition: { ...makeTool('read_file').definition, source: { type: 'mcp', server, originalName: 'read_file' } },
+  });
+
+  it('默認內建工具優先，移除後恢復被遮蔽的工具', () => {
+    const registry = new ToolRegistry();
+    const builtin = makeTool('read_file');
+    const fromFs = mcpTool('fs');
+    registry.register(builtin);
+
+    expect(registry.registerWithPrecedence(fromFs)).toEqual({ status: 'shadowed', conflict: builtin });
+    expect(registry.get('read_file')).toBe(builtin);
+
+    expect(registry.unregister('read_file', fromFs)).toBe(true);
+    expect(registry.unregister('read_file')).toBe(true);
+    expect(registry.has('read_file')).toBe(false);
+  });
+
+  it('應該按配置的優先級覆蓋，並在移除後恢復', () => {
+    const registry = new ToolRegistry();
+    const builtin = makeTool('read_file');
+    const fromFs = mcpTool('fs');
+    registry.register(builtin);
+
+    expect(registry.registerWithPrecedence(fromFs, ['fs', 'builtin']).status).toBe('replaced');
+    expect(registry.get('read_file')).toBe(fromFs);
+
+    registry.unregister('read_file', fromFs);
+    expect(registry.get('read_file')).toBe(builtin);
+  });
+});
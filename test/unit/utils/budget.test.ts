@@ -0,0 +1,31 @@
+/**
+ * 預算計算單元測試
+ */
+import { describe, it, expect } from "@jest/globals";
+import { getBudgetStatus, parseBudgetValue } from "../../../src/utils/budget.js";
+
+describe("getBudgetStatus", () => {
+  it("按費用和 token 中用得更多的一項計算比例", () => {
+    const status = getBudgetStatus({ maxCost: 1, maxTokens: 1000 }, 0.5, 900);
+    expect(status.ratio).toBeCloseTo(0.9);
+    expect(status.remainingCost).toBeCloseTo(0.5);
+    expect(status.remainingTokens).toBe(100);
+    expect(status.exhausted).toBe(false);
+  });
+
+  it("任一上限用完即為 exhausted，未設置預算時永不用完", () => {
+    expect(getBudgetStatus({ maxCost: 0.1 }, 0.12, 10).exhausted).toBe(true);
+    expect(getBudgetStatus({ maxCost: 0.1 }, 0.12, 10).remainingCost).toBe(0);
+    expect(getBudgetStatus({}, 100, 1_000_000)).toMatchObject({ ratio: 0, exhausted: false });
+  });
+});
+
+describe("parseBudgetValue", () => {
+  it("只接受正數", () => {
+    expect(parseBudgetValue("0.5")).toBe(0.5);
+    expect(parseBudgetValue(2000)).toBe(2000);
+    expect(parseBudgetValue("0")).toBeUndefined();
+    expect(parseBudgetValue("-1")).toBeUndefined();
+    expect(parseBudgetValue("abc")).toBeUndefined();
+  });
+});
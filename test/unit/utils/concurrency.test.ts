@@ -0,0 +1,37 @@
+/**
+ * 並發控制工具單元測試
+ */
+import { describe, it, expect } from '@jest/globals';
+import { mapWithConcurrency } from '../../../src/utils/concurrency.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('應該按輸入順序返回結果', async () => {
+    const delays = [30, 5, 20, 1];
+    const results = await mapWithConcurrency(delays, 4, async (ms, idx) => {
+      await sleep(ms);
+      return idx;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  it('同時執行的任務數不應超過限制', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(5);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('空列表應該直接返回', async () => {
+    expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+  });
+});